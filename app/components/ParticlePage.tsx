@@ -6,16 +6,56 @@
  * @module components/ParticlePage
  */
 
-import React, { useState, useCallback } from "react";
+import React, {
+  useState,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+} from "react";
 import { Header } from "@/app/components/ui/Header";
 import { ShapeDock } from "@/app/components/ui/ShapeDock";
+import { BlendControl } from "@/app/components/ui/BlendControl";
+import { BurstControl } from "@/app/components/ui/BurstControl";
+import { ColorPanel } from "@/app/components/ui/ColorPanel";
+import { ParticleCountControl } from "@/app/components/ui/ParticleCountControl";
+import { QualityOverlay } from "@/app/components/ui/QualityOverlay";
+import { type ForceTool, PhysicsPanel } from "@/app/components/ui/PhysicsPanel";
 import { ParticleCanvas } from "@/app/components/particles/ParticleCanvas";
 import { HandController } from "@/app/components/hand-tracking/HandController";
 import {
+  type BurstEffectType,
+  type BurstRequest,
+  type ColorMapping,
+  type ParticleRenderer,
+  type ShapeParams,
+  type ShapeTransition,
   type ShapeType,
   type GestureDirection,
-  SHAPE_LIST,
+  DEFAULT_SHAPE,
+  type SamplingSettings,
+  DEFAULT_SAMPLING_SETTINGS,
+  DEFAULT_SHAPE_TRANSITION,
+  PARTICLE_COUNT_LIMITS,
 } from "@/app/lib/constants";
+import { getShapes } from "@/app/lib/shapeRegistry";
+import {
+  type ImageSettings,
+  DEFAULT_IMAGE_SETTINGS,
+} from "@/app/lib/shapes/image";
+import { isImageShape } from "@/app/lib/shapes/importImage";
+import { isSvgShape } from "@/app/lib/svg/importSvg";
+import { createQualityGovernor } from "@/app/lib/qualityGovernor";
+import { useResponsive } from "@/app/hooks/useWindowSize";
+import { useQualitySettings } from "@/app/hooks/useQualityGovernor";
+import {
+  type ForceSource,
+  type MotionMode,
+  type PhysicsSettings,
+  type TrailSettings,
+  DEFAULT_PHYSICS_SETTINGS,
+  DEFAULT_TRAIL_SETTINGS,
+} from "@/app/lib/simulation";
 
 /**
  * Global styles for the application
@@ -45,19 +85,40 @@ const GlobalStyles: React.FC = () => (
   `}</style>
 );
 
+/**
+ * Peak acceleration of forces placed by clicking the scene
+ */
+const PLACED_FORCE_STRENGTH = 30;
+
+/**
+ * Reach of forces placed by clicking the scene
+ */
+const PLACED_FORCE_RADIUS = 4; // scene units
+
+/**
+ * Highest particle count relaxed; relaxation oversamples threefold and
+ * takes about 0.5 s at 8k particles, growing to seconds beyond this
+ */
+const MAX_RELAX_COUNT = 12000;
+
 /**
  * Get next shape in cycle based on direction
  *
  * @param current - Current active shape
  * @param direction - Gesture direction (next or prev)
- * @returns Next shape in the cycle
+ * @returns Next registered shape in the cycle
  */
 const getNextShape = (
   current: ShapeType,
   direction: GestureDirection,
 ): ShapeType => {
-  const currentIndex = SHAPE_LIST.indexOf(current);
-  const length = SHAPE_LIST.length;
+  const shapes = getShapes();
+  const currentIndex = shapes.findIndex((shape) => shape.id === current);
+  const length = shapes.length;
+
+  if (length === 0) {
+    return current;
+  }
 
   let newIndex: number;
   if (direction === "next") {
@@ -66,7 +127,7 @@ const getNextShape = (
     newIndex = (currentIndex - 1 + length) % length;
   }
 
-  return SHAPE_LIST[newIndex];
+  return shapes[newIndex].id;
 };
 
 /**
@@ -80,7 +141,13 @@ const getNextShape = (
  * ParticlePage (state management)
  *   ├── GlobalStyles
  *   ├── Header (with GestureInstructions)
+ *   ├── ParticleCountControl
  *   ├── ShapeDock
+ *   ├── BlendControl
+ *   ├── PhysicsPanel
+ *   ├── ColorPanel
+ *   ├── BurstControl
+ *   ├── QualityOverlay
  *   ├── HandController
  *   └── ParticleCanvas
  *         └── ParticleSystem
@@ -88,6 +155,28 @@ const getNextShape = (
  *
  * State Flow:
  * - activeShape state drives particle morphing
+ * - transition state (picked in the dock) travels with each shape change,
+ *   from the dock or a swipe, as morphTransition
+ * - sampling state (ShapeDock) sets the fill, spacing and relaxation
+ *   every formation is generated with
+ * - image state (ShapeDock) weights imported images and becomes the
+ *   depth in shapeParams while an image shape is active; svgFill state
+ *   (ShapeDock) becomes the fill while an SVG shape is active
+ * - particleCount state resizes the particle buffers (undefined follows
+ *   the device)
+ * - renderer state picks the GPU shader or the CPU engine (QualityOverlay)
+ * - palette/colorMapping state picks how particles are colored;
+ *   sourceColors state keeps the colors of shapes that bring their own
+ * - blendShape/blendWeight state mixes a second shape into the formation
+ * - motion/physics/forceSources state drives the physics mode; an armed
+ *   tool turns canvas clicks into attractors or repulsors
+ * - trails state switches and shapes motion streaks (PhysicsPanel)
+ * - burst state carries the latest burst effect request from gestures or
+ *   BurstControl to the particle system; clapGesture state (BurstControl)
+ *   has HandController track a second hand for the clap
+ * - the quality governor samples frame times (ParticleCanvas) and
+ *   detection times (HandController) and steps the automatic particle
+ *   count, pixel ratio and hand model complexity; QualityOverlay shows it
  * - HandController updates sharedState (read by ParticleSystem)
  * - Gesture callbacks trigger shape changes
  * - All components read responsive config independently
@@ -109,21 +198,183 @@ const getNextShape = (
  */
 export default function ParticlePage() {
   // Active shape state (drives particle morphing)
-  const [activeShape, setActiveShape] = useState<ShapeType>("sphere");
+  const [activeShape, setActiveShape] = useState<ShapeType>(DEFAULT_SHAPE);
+
+  // Transition picked in the dock, and the one the current morph uses
+  const [transition, setTransition] = useState<ShapeTransition>(
+    DEFAULT_SHAPE_TRANSITION,
+  );
+  const [morphTransition, setMorphTransition] =
+    useState<ShapeTransition>(transition);
+
+  // Latest picked transition for gesture callbacks, so picking one doesn't
+  // change their identity (and restart hand tracking)
+  const transitionRef = useRef(transition);
+  useEffect(() => {
+    transitionRef.current = transition;
+  }, [transition]);
+
+  // Fill, spacing and relaxation of every formation
+  const [sampling, setSampling] = useState<SamplingSettings>(
+    DEFAULT_SAMPLING_SETTINGS,
+  );
+
+  // Weighting of the next imported image and depth of image shapes
+  const [image, setImage] = useState<ImageSettings>(DEFAULT_IMAGE_SETTINGS);
+
+  // Share of particles filling SVG shapes; 0 traces outlines only
+  const [svgFill, setSvgFill] = useState<number>(0);
+
+  // Parameter overrides for the active shape, kept stable between renders
+  // as a new object regenerates it
+  const shapeParams = useMemo((): ShapeParams | undefined => {
+    if (isImageShape(activeShape)) return { depth: image.depth };
+    if (isSvgShape(activeShape)) return { fill: svgFill };
+    return undefined;
+  }, [activeShape, image.depth, svgFill]);
+
+  // Particle count; undefined follows the device default
+  const [particleCount, setParticleCount] = useState<number | undefined>();
+
+  // Where particle motion and coloring run; physics motion and trails
+  // stay on the CPU
+  const [renderer, setRenderer] = useState<ParticleRenderer>("shader");
+
+  // Adaptive quality: the automatic count is the device default scaled by
+  // the governor, which leaves a picked count alone
+  const [, config] = useResponsive();
+  const [governor] = useState(() => createQualityGovernor());
+  const quality = useQualitySettings(governor);
+  const autoCount = Math.round(config.particleCount * quality.particleScale);
+
+  useEffect(() => {
+    governor.setOptions({
+      maxDpr: Math.min(2, window.devicePixelRatio || 1),
+      maxModelComplexity: config.modelComplexity,
+      adjustParticles: particleCount === undefined,
+    });
+  }, [governor, config.modelComplexity, particleCount]);
+
+  // Blend mode state (weight is used while no hand is tracked)
+  const [blendShape, setBlendShape] = useState<ShapeType | undefined>();
+  const [blendWeight, setBlendWeight] = useState<number>(0.5);
+
+  // Color state; no palette follows the active shape's default
+  const [palette, setPalette] = useState<string | undefined>();
+  const [colorMapping, setColorMapping] = useState<ColorMapping>("hand");
+  const [sourceColors, setSourceColors] = useState<boolean>(true);
+
+  // Physics mode state
+  const [motion, setMotion] = useState<MotionMode>("lerp");
+  const [physics, setPhysics] = useState<PhysicsSettings>(
+    DEFAULT_PHYSICS_SETTINGS,
+  );
+  const [forceSources, setForceSources] = useState<ForceSource[]>([]);
+  const [forceTool, setForceTool] = useState<ForceTool | undefined>();
+
+  // Motion trails; off by default, as they keep particles on the CPU
+  const [trails, setTrails] = useState<TrailSettings>(DEFAULT_TRAIL_SETTINGS);
+
+  // The CPU engine (picked, or needed by physics and trails) takes fewer
+  // particles; a larger picked count is kept for when the GPU returns
+  const usesCpu = renderer === "cpu" || motion === "physics" || trails.enabled;
+  const maxCount = usesCpu
+    ? PARTICLE_COUNT_LIMITS.CPU_MAX
+    : PARTICLE_COUNT_LIMITS.MAX;
+  const renderedCount = Math.min(particleCount ?? autoCount, maxCount);
+
+  // Latest burst effect request
+  const [burst, setBurst] = useState<BurstRequest | undefined>();
+
+  // Two-hand clap detection; off by default as it doubles detection work
+  const [clapGesture, setClapGesture] = useState<boolean>(false);
 
   /**
    * Handle swipe gesture from HandController
-   * Cycles through shapes in the specified direction
+   * Cycles through shapes in the specified direction with the picked
+   * transition
    */
   const handleGesture = useCallback((direction: GestureDirection) => {
+    setMorphTransition(transitionRef.current);
     setActiveShape((current) => getNextShape(current, direction));
   }, []);
 
   /**
-   * Handle manual shape selection from ShapeDock
+   * Morph to a shape, by the given transition or the picked one
+   * Used by ShapeDock and available to any other trigger (e.g. a sequencer)
    */
-  const handleShapeChange = useCallback((shape: ShapeType) => {
-    setActiveShape(shape);
+  const handleShapeChange = useCallback(
+    (shape: ShapeType, next?: ShapeTransition) => {
+      setMorphTransition(next ?? transition);
+      setActiveShape(shape);
+    },
+    [transition],
+  );
+
+  /**
+   * Place the armed force tool at a clicked scene position
+   */
+  const handlePlaceForce = useCallback(
+    (position: [number, number, number]) => {
+      if (!forceTool) return;
+      const strength =
+        forceTool === "attractor"
+          ? PLACED_FORCE_STRENGTH
+          : -PLACED_FORCE_STRENGTH;
+      setForceSources((sources) => [
+        ...sources,
+        { position, strength, radius: PLACED_FORCE_RADIUS },
+      ]);
+    },
+    [forceTool],
+  );
+
+  /**
+   * Handle motion toggle; placement tools only apply to physics
+   */
+  const handleMotionChange = useCallback((next: MotionMode) => {
+    setMotion(next);
+    if (next !== "physics") setForceTool(undefined);
+  }, []);
+
+  /**
+   * Fire a burst effect; each request gets a new id so repeats fire again
+   */
+  const fireBurst = useCallback(
+    (type: BurstEffectType, origin: BurstRequest["origin"]) => {
+      setBurst((previous) => ({ id: (previous?.id ?? 0) + 1, type, origin }));
+    },
+    [],
+  );
+
+  /**
+   * Handle burst gesture from HandController (fires at the fingertip)
+   */
+  const handleBurstGesture = useCallback(
+    (type: BurstEffectType) => fireBurst(type, "hand"),
+    [fireBurst],
+  );
+
+  /**
+   * Handle burst button from BurstControl (fires at the center)
+   */
+  const handleBurstButton = useCallback(
+    (type: BurstEffectType) => fireBurst(type, "center"),
+    [fireBurst],
+  );
+
+  /**
+   * Handle shape import errors from ShapeDock
+   */
+  const handleImportError = useCallback((error: Error) => {
+    console.error("Shape import error:", error);
+  }, []);
+
+  /**
+   * Handle palette import errors from ColorPanel
+   */
+  const handlePaletteError = useCallback((error: Error) => {
+    console.error("Palette import error:", error);
   }, []);
 
   /**
@@ -155,21 +406,112 @@ export default function ParticlePage() {
         {/* Header with status and instructions */}
         <Header showInstructions />
 
+        {/* Particle count slider */}
+        <ParticleCountControl
+          particleCount={particleCount}
+          autoCount={autoCount}
+          max={maxCount}
+          onParticleCountChange={setParticleCount}
+        />
+
         {/* Shape selection dock */}
         <ShapeDock
           activeShape={activeShape}
           onShapeChange={handleShapeChange}
+          transition={transition}
+          onTransitionChange={setTransition}
+          sampling={sampling}
+          onSamplingChange={setSampling}
+          image={image}
+          onImageChange={setImage}
+          svgFill={svgFill}
+          onSvgFillChange={setSvgFill}
+          onError={handleImportError}
+        />
+
+        {/* Second shape and weight for blend mode */}
+        <BlendControl
+          blendShape={blendShape}
+          blendWeight={blendWeight}
+          onBlendShapeChange={setBlendShape}
+          onBlendWeightChange={setBlendWeight}
+        />
+
+        {/* Motion mode, forces and placement tools */}
+        <PhysicsPanel
+          motion={motion}
+          physics={physics}
+          tool={forceTool}
+          forceCount={forceSources.length}
+          trails={trails}
+          onMotionChange={handleMotionChange}
+          onPhysicsChange={setPhysics}
+          onTrailsChange={setTrails}
+          onToolChange={setForceTool}
+          onClearForces={() => setForceSources([])}
+        />
+
+        {/* Palette, mapping, editing and JSON import/export */}
+        <ColorPanel
+          palette={palette}
+          colorMapping={colorMapping}
+          onPaletteChange={setPalette}
+          onColorMappingChange={setColorMapping}
+          sourceColors={sourceColors}
+          onSourceColorsChange={setSourceColors}
+          onError={handlePaletteError}
+        />
+
+        {/* Burst effect buttons */}
+        <BurstControl
+          onBurst={handleBurstButton}
+          clapGesture={clapGesture}
+          onClapGestureChange={setClapGesture}
+        />
+
+        {/* Adaptive quality debug overlay */}
+        <QualityOverlay
+          governor={governor}
+          particleCount={renderedCount}
+          renderer={renderer}
+          onRendererChange={setRenderer}
         />
 
         {/* Hand tracking controller */}
         <HandController
           onGesture={handleGesture}
+          onBurst={handleBurstGesture}
+          clapGesture={clapGesture}
+          modelComplexity={quality.modelComplexity}
+          onDetectionLatency={governor.recordDetection}
           onError={handleError}
           showLoadingIndicator
         />
 
         {/* 3D particle canvas */}
-        <ParticleCanvas activeShape={activeShape} />
+        <ParticleCanvas
+          activeShape={activeShape}
+          transition={morphTransition}
+          particleCount={renderedCount}
+          renderer={renderer}
+          shapeParams={shapeParams}
+          fill={sampling.fill}
+          sampling={sampling.sampling}
+          relax={sampling.relax && renderedCount <= MAX_RELAX_COUNT}
+          blendShape={blendShape}
+          blendWeight={blendWeight}
+          palette={palette}
+          colorMapping={colorMapping}
+          sourceColors={sourceColors}
+          motion={motion}
+          physics={physics}
+          forceSources={forceSources}
+          burst={burst}
+          trails={trails}
+          onPlaceForce={forceTool ? handlePlaceForce : undefined}
+          dpr={quality.dpr}
+          onFrame={governor.recordFrame}
+        />
       </main>
     </>
   );
@@ -10,6 +10,7 @@ import React, { useEffect, useRef, useState, useCallback } from "react";
 import { useResponsive } from "@/app/hooks/useWindowSize";
 import { sharedState } from "@/app/lib/sharedState";
 import {
+  type BurstEffectType,
   type GestureDirection,
   type Hands,
   type HandsResults,
@@ -27,6 +28,27 @@ interface HandControllerProps {
    * Callback fired when swipe gesture is detected
    */
   onGesture: (direction: GestureDirection) => void;
+  /**
+   * Callback fired when a burst gesture is detected: a fast pinch release
+   * (explode), a fist (implode) or a two-hand clap (shockwave)
+   */
+  onBurst?: (effect: BurstEffectType) => void;
+  /**
+   * Track a second hand so a two-hand clap fires a shockwave. Detection
+   * takes about twice as long, so it stays off unless asked for. Changes
+   * apply to the running detector without restarting the camera.
+   * @default false
+   */
+  clapGesture?: boolean;
+  /**
+   * MediaPipe model complexity; follows the responsive config while unset.
+   * Changes apply to the running detector without restarting the camera.
+   */
+  modelComplexity?: 0 | 1;
+  /**
+   * Callback with the time each detection took, in milliseconds
+   */
+  onDetectionLatency?: (latency: number) => void;
   /**
    * Show loading indicator
    * @default true
@@ -57,6 +79,10 @@ const LANDMARK_INDICES = {
   WRIST: 0,
   THUMB_TIP: 4,
   INDEX_TIP: 8,
+  MIDDLE_BASE: 9,
+  MIDDLE_TIP: 12,
+  RING_TIP: 16,
+  PINKY_TIP: 20,
 } as const;
 
 /**
@@ -75,6 +101,35 @@ const calculateDistance = (
   return Math.sqrt(dx * dx + dy * dy);
 };
 
+/**
+ * Whether the fingers are curled into a fist
+ * Compares the mean fingertip-to-wrist distance with the palm length
+ *
+ * @param landmarks - Landmarks of one hand
+ * @returns True for a closed fist
+ */
+const isFist = (landmarks: NormalizedLandmark[]): boolean => {
+  const wrist = landmarks[LANDMARK_INDICES.WRIST];
+  const palm = calculateDistance(
+    wrist,
+    landmarks[LANDMARK_INDICES.MIDDLE_BASE],
+  );
+  if (palm === 0) return false;
+
+  const tips = [
+    LANDMARK_INDICES.INDEX_TIP,
+    LANDMARK_INDICES.MIDDLE_TIP,
+    LANDMARK_INDICES.RING_TIP,
+    LANDMARK_INDICES.PINKY_TIP,
+  ];
+  const reach =
+    tips.reduce(
+      (sum, tip) => sum + calculateDistance(wrist, landmarks[tip]),
+      0,
+    ) / tips.length;
+  return reach / palm < GESTURE_CONSTANTS.FIST_RATIO;
+};
+
 /**
  * Normalize pinch distance to 0-1.5 range
  *
@@ -125,11 +180,15 @@ const loadScript = (src: string): Promise<void> => {
  * Detected Gestures:
  * - Pinch: Thumb-index distance controls particle expansion/compression
  * - Swipe: Horizontal hand movement switches between shapes
- * - Hand Position: X coordinate controls particle color hue
+ * - Hand Position: X coordinate controls particle color hue, Y the shape blend
+ * - Bursts: fast pinch release, fist and (with `clapGesture`) two-hand
+ *   clap fire burst effects
  *
  * Features:
  * - Automatic MediaPipe library loading from CDN
  * - Responsive camera resolution
+ * - Model complexity and hand count switchable at runtime, detection time
+ *   reporting
  * - Gesture cooldown to prevent spam
  * - Smooth state updates with lerp
  * - Proper cleanup on unmount
@@ -145,17 +204,31 @@ const loadScript = (src: string): Promise<void> => {
  */
 export const HandController: React.FC<HandControllerProps> = ({
   onGesture,
+  onBurst,
+  clapGesture = false,
+  modelComplexity,
+  onDetectionLatency,
   showLoadingIndicator = true,
   loadingMessage = "Initializing Vision Models...",
   onError,
 }) => {
   const [, config] = useResponsive();
+  const complexity = modelComplexity ?? config.modelComplexity;
 
   // Refs
   const videoRef = useRef<HTMLVideoElement>(null);
+  const handsRef = useRef<Hands | null>(null);
+  const complexityRef = useRef(complexity);
+  const maxNumHands = clapGesture ? 2 : 1;
+  const maxNumHandsRef = useRef(maxNumHands);
+  const onDetectionLatencyRef = useRef(onDetectionLatency);
   const requestRef = useRef<number | null>(null);
   const lastXRef = useRef<number | null>(null);
   const lastSwipeTimeRef = useRef<number>(0);
+  const lastBurstTimeRef = useRef<number>(0);
+  const pinchClosedTimeRef = useRef<number>(0);
+  const wasFistRef = useRef<boolean>(false);
+  const wasClappedRef = useRef<boolean>(false);
 
   // State
   const [isLoaded, setIsLoaded] = useState<boolean>(false);
@@ -207,12 +280,25 @@ export const HandController: React.FC<HandControllerProps> = ({
       if (landmarksList && landmarksList.length > 0) {
         // Hand detected
         sharedState.handDetected = true;
-        const landmarks = landmarksList[0];
+
+        // With two hands, follow the one nearest the last tracked wrist so
+        // a change in detection order doesn't read as a swipe
+        const lastX = lastXRef.current;
+        const landmarks =
+          lastX === null
+            ? landmarksList[0]
+            : landmarksList.reduce((nearest, hand) =>
+                Math.abs(1 - hand[LANDMARK_INDICES.WRIST].x - lastX) <
+                Math.abs(1 - nearest[LANDMARK_INDICES.WRIST].x - lastX)
+                  ? hand
+                  : nearest,
+              );
 
         // Process wrist position for swipe detection
         const wrist = landmarks[LANDMARK_INDICES.WRIST];
         const now = Date.now();
         const currentX = 1 - wrist.x; // Invert X for natural movement
+        const currentY = 1 - wrist.y; // Invert Y so raising the hand increases it
 
         // Detect swipe gesture
         if (lastXRef.current !== null) {
@@ -237,12 +323,59 @@ export const HandController: React.FC<HandControllerProps> = ({
         const distance = calculateDistance(thumb, index);
         const normalizedDistance = normalizePinchDistance(distance);
 
+        // Detect burst gestures (edge-triggered, shared cooldown)
+        const fist = isFist(landmarks);
+        const clapped =
+          landmarksList.length > 1 &&
+          calculateDistance(
+            landmarksList[0][LANDMARK_INDICES.MIDDLE_BASE],
+            landmarksList[1][LANDMARK_INDICES.MIDDLE_BASE],
+          ) < GESTURE_CONSTANTS.CLAP_DISTANCE;
+        let burst: BurstEffectType | null = null;
+        if (clapped && !wasClappedRef.current) {
+          burst = "shockwave";
+        } else if (fist && !wasFistRef.current) {
+          burst = "implode";
+        } else if (
+          !fist &&
+          normalizedDistance > GESTURE_CONSTANTS.PINCH_RELEASED &&
+          now - pinchClosedTimeRef.current <
+            GESTURE_CONSTANTS.PINCH_RELEASE_WINDOW
+        ) {
+          burst = "explode";
+          pinchClosedTimeRef.current = 0;
+        }
+        if (
+          burst &&
+          onBurst &&
+          now - lastBurstTimeRef.current > GESTURE_CONSTANTS.BURST_COOLDOWN
+        ) {
+          onBurst(burst);
+          lastBurstTimeRef.current = now;
+        }
+        // A fist also closes the pinch; only a real pinch arms the release
+        if (!fist && normalizedDistance < GESTURE_CONSTANTS.PINCH_CLOSED) {
+          pinchClosedTimeRef.current = now;
+        }
+        wasFistRef.current = fist;
+        wasClappedRef.current = clapped;
+
         // Smooth update to shared state
         sharedState.pinchDistance +=
           (normalizedDistance - sharedState.pinchDistance) *
           TRACKING_CONSTANTS.PINCH_LERP_ACTIVE;
         sharedState.handX +=
           (currentX - sharedState.handX) * TRACKING_CONSTANTS.HAND_X_LERP;
+        sharedState.handY +=
+          (currentY - sharedState.handY) * TRACKING_CONSTANTS.HAND_Y_LERP;
+
+        // Fingertip follows closely so the hand force tracks the finger
+        sharedState.pointerX +=
+          (1 - index.x - sharedState.pointerX) *
+          TRACKING_CONSTANTS.POINTER_LERP;
+        sharedState.pointerY +=
+          (1 - index.y - sharedState.pointerY) *
+          TRACKING_CONSTANTS.POINTER_LERP;
       } else {
         // No hand detected - reset state
         sharedState.handDetected = false;
@@ -250,11 +383,28 @@ export const HandController: React.FC<HandControllerProps> = ({
           (1.0 - sharedState.pinchDistance) *
           TRACKING_CONSTANTS.PINCH_LERP_INACTIVE;
         lastXRef.current = null;
+        wasFistRef.current = false;
+        wasClappedRef.current = false;
       }
     },
-    [onGesture],
+    [onGesture, onBurst],
   );
 
+  // Reconfigure the running detector instead of restarting it
+  useEffect(() => {
+    complexityRef.current = complexity;
+    handsRef.current?.setOptions({ modelComplexity: complexity });
+  }, [complexity]);
+
+  useEffect(() => {
+    maxNumHandsRef.current = maxNumHands;
+    handsRef.current?.setOptions({ maxNumHands });
+  }, [maxNumHands]);
+
+  useEffect(() => {
+    onDetectionLatencyRef.current = onDetectionLatency;
+  }, [onDetectionLatency]);
+
   /**
    * Initialize MediaPipe and start detection
    * ✅ FIX: detectFrame kept as regular function inside useEffect
@@ -281,7 +431,9 @@ export const HandController: React.FC<HandControllerProps> = ({
       try {
         // Send frame to MediaPipe if video is ready
         if (video.readyState >= 2) {
+          const start = performance.now();
           await handsInstance.send({ image: video });
+          onDetectionLatencyRef.current?.(performance.now() - start);
         }
       } catch (error) {
         // Ignore errors during cleanup
@@ -314,8 +466,8 @@ export const HandController: React.FC<HandControllerProps> = ({
 
         // Configure detection options
         hands.setOptions({
-          maxNumHands: 1,
-          modelComplexity: config.modelComplexity,
+          maxNumHands: maxNumHandsRef.current, // second hand only claps
+          modelComplexity: complexityRef.current,
           minDetectionConfidence: DETECTION_THRESHOLDS.minDetectionConfidence,
           minTrackingConfidence: DETECTION_THRESHOLDS.minTrackingConfidence,
         });
@@ -325,6 +477,7 @@ export const HandController: React.FC<HandControllerProps> = ({
           processResults(results, isRunning.current);
         });
 
+        handsRef.current = hands;
         setIsLoaded(true);
 
         // Start detection loop
@@ -342,6 +495,7 @@ export const HandController: React.FC<HandControllerProps> = ({
     // Cleanup function
     return () => {
       isRunning.current = false;
+      handsRef.current = null;
 
       // Cancel animation frame
       if (requestRef.current !== null) {
@@ -367,7 +521,7 @@ export const HandController: React.FC<HandControllerProps> = ({
         }, 100);
       }
     };
-  }, [config.modelComplexity, setupCamera, processResults, onError]);
+  }, [setupCamera, processResults, onError]);
 
   return (
     <>
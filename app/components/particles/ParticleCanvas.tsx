@@ -6,12 +6,32 @@
  * @module components/particles/ParticleCanvas
  */
 
-import React, { Suspense } from "react";
-import { Canvas } from "@react-three/fiber";
+import React, { Suspense, useEffect } from "react";
+import * as THREE from "three";
+import { Canvas, useFrame, useThree } from "@react-three/fiber";
 import { OrbitControls, Text } from "@react-three/drei";
 import { useResponsive } from "@/app/hooks/useWindowSize";
+import { useViewPlaneProjection } from "@/app/hooks/useViewPlane";
 import { ParticleSystem } from "./ParticleSystem";
-import type { ShapeType } from "@/app/lib/constants";
+import type {
+  FlowFieldSettings,
+  ForceSource,
+  HandForceSettings,
+  MotionMode,
+  PhysicsSettings,
+  TrailSettings,
+} from "@/app/lib/simulation";
+import type {
+  BurstRequest,
+  ColorMapping,
+  FillMode,
+  ParticleRenderer,
+  SamplingMode,
+  ShapeParams,
+  ShapeSeed,
+  ShapeTransition,
+  ShapeType,
+} from "@/app/lib/constants";
 
 /**
  * Component props
@@ -21,6 +41,114 @@ interface ParticleCanvasProps {
    * Active shape for particle system
    */
   activeShape: ShapeType;
+  /**
+   * Style, duration and easing of the morph into the active shape
+   */
+  transition?: ShapeTransition;
+  /**
+   * Number of particles; follows the device while unset
+   */
+  particleCount?: number;
+  /**
+   * Run particle motion and coloring in a shader or on the CPU
+   */
+  renderer?: ParticleRenderer;
+  /**
+   * Overrides for the active shape's default parameters
+   */
+  shapeParams?: ShapeParams;
+  /**
+   * Optional seed for reproducible formations
+   */
+  seed?: ShapeSeed;
+  /**
+   * Preferred fill for shapes that support it
+   */
+  fill?: FillMode;
+  /**
+   * Parametric sampling mode
+   */
+  sampling?: SamplingMode;
+  /**
+   * Relax formations into evenly spaced blue noise
+   */
+  relax?: boolean;
+  /**
+   * Use per-particle colors from shapes that provide them
+   * @default true
+   */
+  sourceColors?: boolean;
+  /**
+   * Id of the palette particles are colored from; the active shape's
+   * default is used while unset
+   */
+  palette?: string;
+  /**
+   * Per-particle value the palette is looked up by
+   * @default "hand"
+   */
+  colorMapping?: ColorMapping;
+  /**
+   * Play time-varying targets of animated shapes
+   * @default true
+   */
+  animated?: boolean;
+  /**
+   * Second shape to blend with the active one
+   */
+  blendShape?: ShapeType;
+  /**
+   * Share of the blend shape while no hand is tracked (0-1)
+   */
+  blendWeight?: number;
+  /**
+   * Drive the blend weight from the vertical hand position
+   * @default true
+   */
+  handBlend?: boolean;
+  /**
+   * How particles move toward their targets
+   * @default "lerp"
+   */
+  motion?: MotionMode;
+  /**
+   * Spring, damping and global forces for the "physics" motion
+   */
+  physics?: PhysicsSettings;
+  /**
+   * Attractors and repulsors for the "physics" motion
+   */
+  forceSources?: readonly ForceSource[];
+  /**
+   * Curl-noise flow swirling particles around their targets
+   */
+  flow?: FlowFieldSettings;
+  /**
+   * Push and pull from the tracked index fingertip
+   */
+  handForce?: HandForceSettings;
+  /**
+   * Latest burst effect request; each new id fires the effect once
+   */
+  burst?: BurstRequest;
+  /**
+   * Fading streaks behind fast-moving particles
+   */
+  trails?: TrailSettings;
+  /**
+   * Callback with the scene position of a click; while set, clicks place
+   * forces and camera dragging is disabled
+   */
+  onPlaceForce?: (position: [number, number, number]) => void;
+  /**
+   * Renderer device pixel ratio; 1-2 clamped to the device while unset
+   */
+  dpr?: number;
+  /**
+   * Callback with each frame's delta in seconds (e.g. for the quality
+   * governor)
+   */
+  onFrame?: (delta: number) => void;
   /**
    * Optional CSS class name
    */
@@ -69,6 +197,45 @@ const DefaultFallback: React.FC = () => (
   </Text>
 );
 
+/**
+ * Reports clicks on the canvas as points on the plane through the origin
+ * facing the camera
+ */
+const ForcePlacer: React.FC<{
+  onPlace: (position: [number, number, number]) => void;
+}> = ({ onPlace }) => {
+  const canvas = useThree((state) => state.gl.domElement);
+  const projectToViewPlane = useViewPlaneProjection();
+
+  useEffect(() => {
+    const hit = new THREE.Vector3();
+
+    const handlePointerDown = (event: PointerEvent) => {
+      const rect = canvas.getBoundingClientRect();
+      const x = (event.clientX - rect.left) / rect.width;
+      const y = 1 - (event.clientY - rect.top) / rect.height;
+      if (projectToViewPlane(x, y, hit)) {
+        onPlace([hit.x, hit.y, hit.z]);
+      }
+    };
+
+    canvas.addEventListener("pointerdown", handlePointerDown);
+    return () => canvas.removeEventListener("pointerdown", handlePointerDown);
+  }, [canvas, projectToViewPlane, onPlace]);
+
+  return null;
+};
+
+/**
+ * Reports each rendered frame's delta
+ */
+const FrameSampler: React.FC<{ onFrame: (delta: number) => void }> = ({
+  onFrame,
+}) => {
+  useFrame((_, delta) => onFrame(delta));
+  return null;
+};
+
 /**
  * ParticleCanvas Component
  *
@@ -80,6 +247,8 @@ const DefaultFallback: React.FC = () => (
  * - Responsive camera setup (FOV, position)
  * - Atmospheric fog effect
  * - OrbitControls with auto-rotation
+ * - Click-to-place attractors and repulsors for physics motion
+ * - Pixel ratio and frame timing exposed for adaptive quality
  * - Suspense boundary for lazy loading
  * - Dark background for particle visibility
  *
@@ -95,6 +264,31 @@ const DefaultFallback: React.FC = () => (
  */
 export const ParticleCanvas: React.FC<ParticleCanvasProps> = ({
   activeShape,
+  transition,
+  particleCount,
+  renderer,
+  shapeParams,
+  seed,
+  fill,
+  sampling,
+  relax,
+  sourceColors,
+  palette,
+  colorMapping,
+  animated,
+  blendShape,
+  blendWeight,
+  handBlend,
+  motion,
+  physics,
+  forceSources,
+  flow,
+  handForce,
+  burst,
+  trails,
+  onPlaceForce,
+  dpr,
+  onFrame,
   className = "",
   fallback,
 }) => {
@@ -110,7 +304,7 @@ export const ParticleCanvas: React.FC<ParticleCanvasProps> = ({
         near: 0.1,
         far: 1000,
       }}
-      dpr={[1, 2]} // Device pixel ratio (min, max)
+      dpr={dpr ?? [1, 2]} // Device pixel ratio (fixed, or min and max)
       performance={{
         min: 0.5, // Minimum performance (lower = better quality)
       }}
@@ -126,11 +320,42 @@ export const ParticleCanvas: React.FC<ParticleCanvasProps> = ({
 
       {/* Particle system with suspense boundary */}
       <Suspense fallback={fallback || <DefaultFallback />}>
-        <ParticleSystem activeShape={activeShape} />
+        <ParticleSystem
+          activeShape={activeShape}
+          transition={transition}
+          particleCount={particleCount}
+          renderer={renderer}
+          shapeParams={shapeParams}
+          seed={seed}
+          fill={fill}
+          sampling={sampling}
+          relax={relax}
+          sourceColors={sourceColors}
+          palette={palette}
+          colorMapping={colorMapping}
+          animated={animated}
+          blendShape={blendShape}
+          blendWeight={blendWeight}
+          handBlend={handBlend}
+          motion={motion}
+          physics={physics}
+          forceSources={forceSources}
+          flow={flow}
+          handForce={handForce}
+          burst={burst}
+          trails={trails}
+        />
       </Suspense>
 
+      {/* Frame timing for adaptive quality */}
+      {onFrame && <FrameSampler onFrame={onFrame} />}
+
+      {/* Force placement while a tool is armed */}
+      {onPlaceForce && <ForcePlacer onPlace={onPlaceForce} />}
+
       {/* Camera controls */}
       <OrbitControls
+        enabled={!onPlaceForce}
         enableZoom={ORBIT_CONTROLS_CONFIG.enableZoom}
         enablePan={ORBIT_CONTROLS_CONFIG.enablePan}
         autoRotate={config.autoRotate}
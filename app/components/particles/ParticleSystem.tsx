@@ -6,16 +6,56 @@
  * @module components/particles/ParticleSystem
  */
 
-import React, { useRef, useState, useMemo } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import * as THREE from "three";
-import { useFrame } from "@react-three/fiber";
+import { useFrame, useThree } from "@react-three/fiber";
 import { useWindowSize, getResponsiveConfig } from "@/app/hooks/useWindowSize";
+import { useShape } from "@/app/hooks/useShapes";
+import { usePalette } from "@/app/hooks/usePalettes";
+import { useViewPlaneProjection } from "@/app/hooks/useViewPlane";
 import { generatePositions } from "@/app/lib/shapeGenerators";
+import { generateShapeAsync } from "@/app/lib/shapeWorkerClient";
+import { getShape } from "@/app/lib/shapeRegistry";
 import { sharedState } from "@/app/lib/sharedState";
 import {
+  type FlowFieldSettings,
+  type ForceSource,
+  type HandForceSettings,
+  type HandPointer,
+  type MotionMode,
+  type PhysicsSettings,
+  type ShaderAttributeName,
+  type SimulationTarget,
+  type TrailSettings,
+  DEFAULT_SIMULATION_OPTIONS,
+  DEFAULT_TRAIL_SETTINGS,
+  PARTICLE_FRAGMENT_SHADER,
+  PARTICLE_SHADER_DEFINES,
+  PARTICLE_VERTEX_SHADER,
+  ParticleSimulation,
+  SHADER_ATTRIBUTE_ITEM_SIZES,
+  ShaderSimulation,
+  ParticleTrails,
+  TRAIL_FRAGMENT_SHADER,
+  TRAIL_QUAD_CORNERS,
+  TRAIL_QUAD_INDICES,
+  TRAIL_VERTEX_SHADER,
+} from "@/app/lib/simulation";
+import { PALETTE_RAMP_SIZE } from "@/app/lib/palettes";
+import {
+  type BurstRequest,
+  type ColorMapping,
+  type FillMode,
+  type ParticleRenderer,
+  type SamplingMode,
+  type ShapeParams,
+  type ShapeSeed,
+  type ShapeTransition,
   type ShapeType,
   ANIMATION_CONSTANTS,
-  COLOR_CONSTANTS,
+  DEFAULT_SHAPE,
+  DEFAULT_SHAPE_TRANSITION,
+  PARTICLE_COUNT_LIMITS,
 } from "@/app/lib/constants";
 
 /**
@@ -26,78 +66,267 @@ interface ParticleSystemProps {
    * Active shape to morph into
    */
   activeShape: ShapeType;
+  /**
+   * Style, duration and easing of the morph into the active shape; read
+   * when a new target arrives, so changing it alone moves nothing
+   * @default DEFAULT_SHAPE_TRANSITION
+   */
+  transition?: ShapeTransition;
+  /**
+   * Number of particles; follows the device (4000-8000) while unset.
+   * Changes resize the buffers in place: existing particles keep their
+   * positions, new ones grow in and removed ones fade out. Capped at
+   * PARTICLE_COUNT_LIMITS.CPU_MAX while the CPU engine runs.
+   */
+  particleCount?: number;
+  /**
+   * Where per-particle motion and coloring run: "shader" evaluates them
+   * in the vertex shader, "cpu" steps a ParticleSimulation. "physics"
+   * motion and trails always run on the CPU.
+   * @default "shader"
+   */
+  renderer?: ParticleRenderer;
   /**
    * Optional initial shape (default: "sphere")
    */
   initialShape?: ShapeType;
+  /**
+   * Overrides for the active shape's default parameters; also used when
+   * animating it. Keep the object stable: a new one regenerates the shape
+   */
+  shapeParams?: ShapeParams;
+  /**
+   * Optional seed for reproducible formations
+   */
+  seed?: ShapeSeed;
+  /**
+   * Preferred fill for shapes that support it
+   * @default "surface"
+   */
+  fill?: FillMode;
+  /**
+   * Parametric sampling mode; "area" keeps density even on curved surfaces
+   * @default "parameter"
+   */
+  sampling?: SamplingMode;
+  /**
+   * Relax formations into evenly spaced blue noise
+   * @default false
+   */
+  relax?: boolean;
+  /**
+   * Use per-particle colors from shapes that provide them (e.g. images)
+   * instead of hand-driven hue
+   * @default true
+   */
+  sourceColors?: boolean;
+  /**
+   * Id of the palette particles are colored from; the active shape's
+   * default palette (or the hue wheel) is used while unset
+   */
+  palette?: string;
+  /**
+   * Per-particle value the palette is looked up by
+   * @default "hand"
+   */
+  colorMapping?: ColorMapping;
+  /**
+   * Play time-varying targets of animated shapes (e.g. a beating heart)
+   * @default true
+   */
+  animated?: boolean;
+  /**
+   * Second shape to blend with the active one; blending is off when unset
+   */
+  blendShape?: ShapeType;
+  /**
+   * Share of the blend shape in the target (0 = active shape only,
+   * 1 = blend shape only); used while no hand is tracked
+   * @default 0.5
+   */
+  blendWeight?: number;
+  /**
+   * Drive the blend weight from the vertical hand position while a hand
+   * is tracked (raised = blend shape)
+   * @default true
+   */
+  handBlend?: boolean;
+  /**
+   * Advance the simulation in fixed steps of this many seconds instead of
+   * by each frame's delta
+   */
+  fixedTimestep?: number;
+  /**
+   * How particles move toward their targets
+   * @default "lerp"
+   */
+  motion?: MotionMode;
+  /**
+   * Spring, damping and global forces for the "physics" motion
+   */
+  physics?: PhysicsSettings;
+  /**
+   * Attractors and repulsors for the "physics" motion
+   */
+  forceSources?: readonly ForceSource[];
+  /**
+   * Curl-noise flow swirling particles around their targets
+   */
+  flow?: FlowFieldSettings;
+  /**
+   * Push and pull from the tracked index fingertip: an open hand repels,
+   * a pinch attracts and swirls
+   */
+  handForce?: HandForceSettings;
+  /**
+   * Latest burst effect request; each new id fires the effect once
+   */
+  burst?: BurstRequest;
+  /**
+   * Fading streaks behind fast-moving particles
+   */
+  trails?: TrailSettings;
 }
 
 /**
- * Calculate particle expansion based on pinch distance
+ * Scale each point by its "aScale" attribute in the built-in points shader
  *
- * @param pinchDistance - Normalized pinch distance (0-1.5)
- * @returns Expansion multiplier
+ * @param shader - Shader source passed to onBeforeCompile
  */
-const calculateExpansion = (pinchDistance: number): number => {
-  let expansion = 0.2 + pinchDistance * 0.8;
+const applyParticleScale = (
+  shader: THREE.WebGLProgramParametersWithUniforms,
+): void => {
+  shader.vertexShader = shader.vertexShader
+    .replace("#include <common>", "#include <common>\nattribute float aScale;")
+    .replace("gl_PointSize = size;", "gl_PointSize = size * aScale;");
+};
 
-  // Explosive effect when hand fully open
-  if (pinchDistance > 0.95) {
-    expansion = 1.0 + (pinchDistance - 0.95) * 5.0;
-  }
+/**
+ * Engine driving the particles
+ */
+type ParticleEngine = ParticleSimulation | ShaderSimulation;
 
-  return expansion;
-};
+/**
+ * Shader attribute names in binding order
+ */
+const SHADER_ATTRIBUTE_NAMES = Object.keys(
+  SHADER_ATTRIBUTE_ITEM_SIZES,
+) as ShaderAttributeName[];
+
+/**
+ * Create the engine for a renderer
+ */
+const createEngine = (
+  useShader: boolean,
+  positions: Float32Array,
+): ParticleEngine =>
+  useShader
+    ? new ShaderSimulation(positions)
+    : new ParticleSimulation(positions);
+
+/**
+ * Trail attributes rewritten every frame: line vertices and colors, or
+ * streak ends and colors
+ */
+const TRAIL_ATTRIBUTE_NAMES = ["position", "color", "aHead", "aTail", "aColor"];
+
+/**
+ * Streak sprite half width as a share of the particle size, so streaks
+ * are about as wide as the points
+ */
+const STREAK_WIDTH = 0.5;
+
+/**
+ * Palette ramp texture for the shader engine
+ */
+interface PaletteTexture {
+  texture: THREE.DataTexture;
+  /** RGBA texels backing the texture */
+  data: Float32Array;
+  /** Ramp last copied into the texture */
+  ramp: Float32Array | null;
+}
 
 /**
- * Calculate color for a particle based on state
+ * Per-frame shader material inputs not owned by the engine
  *
- * @param handDetected - Whether hand is detected
- * @param baseHue - Base hue from hand position (0-1)
- * @param hueShift - Individual particle hue shift
- * @param colorObj - Reusable THREE.Color object
+ * @param uniforms - Point size uniforms of the material
+ * @param palette - Palette texture, re-filled when the ramp changes
+ * @param ramp - Engine palette ramp (linear RGB), or null
+ * @param size - Point size in device pixels
+ * @param height - Canvas height in CSS pixels
  */
-const calculateParticleColor = (
-  handDetected: boolean,
-  baseHue: number,
-  hueShift: number,
-  colorObj: THREE.Color,
+const updateShaderFrame = (
+  uniforms: { uSize: { value: number }; uPixelScale: { value: number } },
+  palette: PaletteTexture,
+  ramp: Float32Array | null,
+  size: number,
+  height: number,
 ): void => {
-  if (handDetected) {
-    colorObj.setHSL(
-      (baseHue + hueShift) % 1,
-      COLOR_CONSTANTS.ACTIVE_SATURATION,
-      COLOR_CONSTANTS.ACTIVE_LIGHTNESS,
-    );
-  } else {
-    colorObj.setHSL(
-      COLOR_CONSTANTS.INACTIVE_HUE,
-      COLOR_CONSTANTS.INACTIVE_SATURATION,
-      COLOR_CONSTANTS.INACTIVE_LIGHTNESS,
-    );
+  // Same attenuation as the built-in points material
+  uniforms.uSize.value = size;
+  uniforms.uPixelScale.value = height / 2;
+
+  if (ramp && ramp !== palette.ramp) {
+    for (let i = 0; i < PALETTE_RAMP_SIZE; i++) {
+      palette.data.set(ramp.subarray(i * 3, i * 3 + 3), i * 4);
+    }
+    palette.texture.needsUpdate = true;
   }
+  palette.ramp = ramp;
+};
+
+/**
+ * Per-frame streak material inputs
+ *
+ * @param uniforms - Uniforms of the streak material
+ * @param width - Half width of a streak in scene units
+ * @param fade - Trail falloff toward the tail
+ */
+const updateStreakFrame = (
+  uniforms: { uWidth: { value: number }; uFade: { value: number } },
+  width: number,
+  fade: number,
+): void => {
+  uniforms.uWidth.value = width;
+  uniforms.uFade.value = fade;
 };
 
 /**
  * ParticleSystem Component
  *
- * Core Three.js particle system with smooth morphing animations between shapes.
- * Integrates with hand tracking via shared state for real-time interaction.
+ * Three.js renderer for a ShaderSimulation (GPU) or ParticleSimulation
+ * (CPU). Generates target formations, hands them to the engine, steps it
+ * each frame with the shared hand state and uploads what changed.
  *
  * Features:
- * - 4000-8000 particles (responsive)
+ * - 4000-8000 particles (responsive), or any count set at runtime
+ * - GPU morph, flow, hand force and coloring in a custom shader, scaling
+ *   to hundreds of thousands of particles; CPU engine as fallback
  * - Smooth lerp-based morphing between shapes
+ * - Transition styles (direct, scatter, vortex, wave, dissolve) with easing
+ * - Optional spring physics with gravity, wind, vortex and point forces
+ * - Minimal-travel particle correspondence on shape change
  * - Dynamic color based on hand position
+ * - Palettes mapped by hand, index, height, radius, speed or camera depth
+ * - Per-particle color, size and importance from shapes that provide them
+ * - Animated shapes re-evaluated at a fixed rate into a reused buffer
+ * - Continuous blend between two shapes, driven by hand height or a weight
  * - Expansion/compression via pinch gesture
  * - Additive blending for glow effect
  * - Auto-rotation
- * - Noise-based animation
+ * - Curl-noise flow field, calmed by closing the pinch
+ * - Fingertip force field projected through the camera (push, pull, swirl)
+ * - Burst effects (shockwave, explode, implode) from gestures or the UI
+ * - Optional speed-reactive trails drawn as lines or stretched sprites
  *
  * Performance Optimizations:
- * - Reusable THREE.Color object
+ * - Shader engine: attributes uploaded only when a morph restarts or an
+ *   animated target changes; everything else is a uniform
+ * - CPU engine: simulation state kept in typed arrays shared with the GPU
+ *   buffers
  * - Buffer attribute updates only when needed
- * - Memoized target positions
- * - Efficient typed arrays
+ * - Shape generation and matching in a Web Worker with an LRU cache
  *
  * @example
  * ```
@@ -108,140 +337,551 @@ const calculateParticleColor = (
  */
 export const ParticleSystem: React.FC<ParticleSystemProps> = ({
   activeShape,
-  initialShape = "sphere",
+  transition = DEFAULT_SHAPE_TRANSITION,
+  particleCount,
+  renderer = "shader",
+  initialShape = DEFAULT_SHAPE,
+  shapeParams,
+  seed,
+  fill = "surface",
+  sampling = "parameter",
+  relax = false,
+  sourceColors = true,
+  palette,
+  colorMapping = "hand",
+  animated = true,
+  blendShape,
+  blendWeight = 0.5,
+  handBlend = true,
+  fixedTimestep,
+  motion = "lerp",
+  physics = DEFAULT_SIMULATION_OPTIONS.physics,
+  forceSources = DEFAULT_SIMULATION_OPTIONS.forceSources,
+  flow = DEFAULT_SIMULATION_OPTIONS.flow,
+  handForce = DEFAULT_SIMULATION_OPTIONS.handForce,
+  burst,
+  trails = DEFAULT_TRAIL_SETTINGS,
 }) => {
   const windowSize = useWindowSize();
   const config = getResponsiveConfig(windowSize);
 
+  // Engine owning the particle buffers, seeded with a quick unrelaxed
+  // sample of the initial shape; the worker delivers the real target.
+  // Physics and trails read per-particle state, so they keep to the CPU,
+  // which is capped at a count it can step every frame.
+  const useShader =
+    renderer === "shader" && motion !== "physics" && !trails.enabled;
+  const count = Math.min(
+    particleCount ?? config.particleCount,
+    useShader ? PARTICLE_COUNT_LIMITS.MAX : PARTICLE_COUNT_LIMITS.CPU_MAX,
+  );
+
   // Three.js refs
   const pointsRef = useRef<THREE.Points>(null);
   const geometryRef = useRef<THREE.BufferGeometry>(null);
-
-  // Initialize current positions (mutable, updated each frame)
-  const [currentPositions] = useState<Float32Array>(() =>
-    generatePositions(initialShape, config.particleCount),
+  const [simulation, setSimulation] = useState<ParticleEngine>(() =>
+    createEngine(
+      useShader,
+      generatePositions(initialShape, count, { seed, fill, sampling }),
+    ),
   );
 
-  // Target positions (recalculated when shape changes)
-  const targetPositions = useMemo(
-    () => generatePositions(activeShape, config.particleCount),
-    [activeShape, config.particleCount],
-  );
+  // Hand the particles over when the engine has to change (adjusted
+  // during render so nothing draws with the wrong engine); the effects
+  // below then bring the new engine up to date
+  if (simulation instanceof ShaderSimulation !== useShader) {
+    setSimulation(
+      createEngine(
+        useShader,
+        simulation.positions.slice(0, simulation.count * 3),
+      ),
+    );
+  }
+
+  // Resize before the generation below reads the positions
+  useEffect(() => {
+    simulation.setParticleCount(count);
+  }, [simulation, count]);
+
+  // Current engine for target matching; a new engine alone must not
+  // regenerate the target (and replay its transition)
+  const simulationRef = useRef(simulation);
+  useEffect(() => {
+    simulationRef.current = simulation;
+  }, [simulation]);
+
+  // Bumped whenever the engine reallocates its buffers, so the geometry
+  // is rebuilt around the new arrays
+  const [bufferVersion, setBufferVersion] = useState(0);
+  const boundBuffersRef = useRef<object | null>(null);
+
+  // Active definition changes identity when the shape is re-registered
+  const activeDefinition = useShape(activeShape);
+
+  // Picked palette, else the shape's default; edits change its identity
+  const activePalette = usePalette(palette ?? activeDefinition?.palette);
+
+  // Keep simulation settings in sync with props and device
+  useEffect(() => {
+    simulation.setOptions({
+      lerpSpeed: windowSize.isMobile
+        ? ANIMATION_CONSTANTS.LERP_SPEED_MOBILE
+        : ANIMATION_CONSTANTS.LERP_SPEED_DESKTOP,
+      // Rotation constants are per frame at 60 fps
+      rotationSpeed:
+        (windowSize.isMobile
+          ? ANIMATION_CONSTANTS.ROTATION_SPEED_MOBILE
+          : ANIMATION_CONSTANTS.ROTATION_SPEED_DESKTOP) * 60,
+      fixedTimestep: fixedTimestep ?? DEFAULT_SIMULATION_OPTIONS.fixedTimestep,
+      animated,
+      sourceColors,
+      palette: activePalette ?? null,
+      colorMapping,
+      blendWeight,
+      handBlend,
+      motion,
+      physics,
+      forceSources,
+      flow,
+      handForce,
+    });
+  }, [
+    simulation,
+    windowSize.isMobile,
+    fixedTimestep,
+    animated,
+    sourceColors,
+    activePalette,
+    colorMapping,
+    blendWeight,
+    handBlend,
+    motion,
+    physics,
+    forceSources,
+    flow,
+    handForce,
+  ]);
+
+  // Latest transition, read when a new target arrives
+  const transitionRef = useRef(transition);
+  useEffect(() => {
+    transitionRef.current = transition;
+  }, [transition]);
+
+  // Target and the transition into it; starts as the initial formation and
+  // keeps the previous target active until a newly requested one arrives
+  const [morph, setMorph] = useState<{
+    target: SimulationTarget;
+    transition?: ShapeTransition;
+  }>(() => ({
+    target: {
+      sample: { positions: simulation.positions.slice() },
+      shape: getShape(initialShape) ?? getShape(DEFAULT_SHAPE),
+    },
+  }));
+  const { target } = morph;
+
+  // Generate off the main thread whenever the shape, count or options
+  // change. Targets are matched against the positions at the moment of the
+  // switch so each particle travels to a nearby point.
+  useEffect(() => {
+    const shape = activeDefinition ?? getShape(DEFAULT_SHAPE);
+    if (!shape) return;
+
+    let cancelled = false;
+    generateShapeAsync(
+      shape,
+      count,
+      { params: shapeParams, seed, fill, sampling, relax },
+      // Leave out particles still fading out after a lower count
+      simulationRef.current.positions.subarray(0, count * 3),
+    )
+      .then((sample) => {
+        if (!cancelled) {
+          setMorph({
+            target: { sample, shape, params: shapeParams },
+            transition: transitionRef.current,
+          });
+        }
+      })
+      .catch((error) => {
+        console.error("Shape generation error:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeDefinition, shapeParams, count, seed, fill, sampling, relax]);
 
-  // Color array (mutable, updated each frame)
-  const colorArray = useMemo(
-    () => new Float32Array(config.particleCount * 3),
-    [config.particleCount],
+  // Play the transition for a new target only, not for a new engine
+  const appliedMorphRef = useRef(morph);
+  useEffect(() => {
+    const isNew = appliedMorphRef.current !== morph;
+    appliedMorphRef.current = morph;
+    simulation.setTarget(morph.target, isNew ? morph.transition : undefined);
+  }, [simulation, morph]);
+
+  // Blend shape, matched against the active target so each particle
+  // blends between two nearby points. The previous blend stays in use
+  // until a newly requested one arrives.
+  const blendDefinition = useShape(blendShape);
+  const [blendTarget, setBlendTarget] = useState<SimulationTarget | null>(null);
+
+  useEffect(() => {
+    // Wait for a target of the current count to match against
+    if (!blendDefinition || target.sample.positions.length !== count * 3) {
+      return;
+    }
+
+    let cancelled = false;
+    generateShapeAsync(
+      blendDefinition,
+      count,
+      { seed, fill, sampling, relax },
+      target.sample.positions,
+    )
+      .then((sample) => {
+        if (!cancelled) setBlendTarget({ sample, shape: blendDefinition });
+      })
+      .catch((error) => {
+        console.error("Blend shape generation error:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [blendDefinition, target, count, seed, fill, sampling, relax]);
+
+  useEffect(() => {
+    simulation.setBlendTarget(blendDefinition ? blendTarget : null);
+  }, [simulation, blendDefinition, blendTarget]);
+
+  // Fingertip projected into the scene each frame; reused to avoid
+  // per-frame allocation
+  const projectToViewPlane = useViewPlaneProjection();
+  const [fingertip] = useState(() => {
+    const pointer: HandPointer = { position: [0, 0, 0], direction: [0, 0, -1] };
+    return {
+      point: new THREE.Vector3(),
+      direction: new THREE.Vector3(),
+      pointer,
+    };
+  });
+
+  // Camera position for depth coloring, reused across frames
+  const camera = useThree((state) => state.camera);
+  const [cameraPosition] = useState<[number, number, number]>(() => [0, 0, 0]);
+
+  // Fire each burst request once, from the fingertip when asked and tracked
+  const firedBurstRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (!burst || burst.id === firedBurstRef.current) return;
+    firedBurstRef.current = burst.id;
+
+    const { point } = fingertip;
+    const atHand =
+      burst.origin === "hand" &&
+      sharedState.handDetected &&
+      projectToViewPlane(sharedState.pointerX, sharedState.pointerY, point);
+    simulation.triggerEffect(
+      burst.type,
+      atHand ? [point.x, point.y, point.z] : undefined,
+    );
+  }, [simulation, burst, fingertip, projectToViewPlane]);
+
+  // Palette ramp for the shader engine, copied in when the palette changes
+  const [paletteTexture] = useState<PaletteTexture>(() => {
+    const data = new Float32Array(PALETTE_RAMP_SIZE * 4);
+    const texture = new THREE.DataTexture(
+      data,
+      PALETTE_RAMP_SIZE,
+      1,
+      THREE.RGBAFormat,
+      THREE.FloatType,
+    );
+    texture.minFilter = THREE.NearestFilter;
+    texture.magFilter = THREE.NearestFilter;
+    return { data, texture, ramp: null };
+  });
+  useEffect(() => () => paletteTexture.texture.dispose(), [paletteTexture]);
+
+  // Shader uniforms: the engine's (updated in place each step) plus point
+  // size, palette and fog
+  const shaderUniforms = useMemo(
+    () =>
+      simulation instanceof ShaderSimulation
+        ? {
+            ...simulation.uniforms,
+            ...THREE.UniformsUtils.clone(THREE.UniformsLib.fog),
+            uPalette: { value: paletteTexture.texture },
+            uSize: { value: 1 },
+            uPixelScale: { value: 1 },
+            uOpacity: { value: 0.8 },
+          }
+        : null,
+    [simulation, paletteTexture],
   );
 
-  // Reusable color object (prevents GC pressure)
-  const colorObj = useMemo(() => new THREE.Color(), []);
+  // Trail history, recorded from the CPU engine's positions while enabled
+  const trailsRef = useRef<THREE.Group>(null);
+  const trailGeometryRef = useRef<THREE.BufferGeometry>(null);
+  const [particleTrails] = useState(() => new ParticleTrails(trails));
+  const [trailVersion, setTrailVersion] = useState(0);
+  const boundTrailsRef = useRef<Float32Array | null>(null);
+  useEffect(() => {
+    particleTrails.setSettings(trails);
+  }, [particleTrails, trails]);
+
+  // Streak sprite uniforms, kept for the material's lifetime
+  const [streakUniforms] = useState(() => ({
+    ...THREE.UniformsUtils.clone(THREE.UniformsLib.fog),
+    uWidth: { value: 0 },
+    uFade: { value: 0 },
+    uOpacity: { value: 0.8 },
+  }));
 
   /**
    * Animation frame loop
-   * Updates particle positions and colors based on hand tracking state
+   * Steps the engine with the shared hand state and uploads what changed
    */
   useFrame((state, delta) => {
-    if (!pointsRef.current || !geometryRef.current) return;
-
-    // Get buffer attributes
-    const positionAttr = geometryRef.current.getAttribute(
-      "position",
-    ) as THREE.BufferAttribute;
-    const colorAttr = geometryRef.current.getAttribute(
-      "color",
-    ) as THREE.BufferAttribute;
-
-    const positions = positionAttr.array as Float32Array;
-    const colors = colorAttr.array as Float32Array;
-
-    // Read shared state (updated by HandController)
-    const { pinchDistance, handX, handDetected } = sharedState;
-
-    // Calculate lerp speed based on device
-    const lerpSpeed = windowSize.isMobile
-      ? ANIMATION_CONSTANTS.LERP_SPEED_MOBILE * delta
-      : ANIMATION_CONSTANTS.LERP_SPEED_DESKTOP * delta;
-
-    // Base hue driven by horizontal hand position
-    const baseHue = handX;
-
-    // Calculate expansion from pinch gesture
-    const expansion = calculateExpansion(pinchDistance);
-
-    // Update each particle
-    for (let i = 0; i < config.particleCount; i++) {
-      const idx = i * 3;
-
-      // ✅ FIX: Changed let to const (lines 177, 178, 179)
-      // Get target position and apply expansion
-      const tx = targetPositions[idx] * expansion;
-      const ty = targetPositions[idx + 1] * expansion;
-      const tz = targetPositions[idx + 2] * expansion;
-
-      // Add time-based noise for organic movement
-      const noise =
-        Math.sin(
-          state.clock.elapsedTime * ANIMATION_CONSTANTS.NOISE_FREQUENCY + i,
-        ) * ANIMATION_CONSTANTS.NOISE_AMPLITUDE;
-
-      // Smooth lerp to target position with noise
-      positions[idx] += (tx - positions[idx] + noise) * lerpSpeed;
-      positions[idx + 1] += (ty - positions[idx + 1] + noise) * lerpSpeed;
-      positions[idx + 2] += (tz - positions[idx + 2] + noise) * lerpSpeed;
-
-      // Calculate color with individual hue shift
-      const hueShift =
-        (i / config.particleCount) * COLOR_CONSTANTS.HUE_SHIFT_RANGE;
-      calculateParticleColor(handDetected, baseHue, hueShift, colorObj);
-
-      // Update color buffer
-      colors[idx] = colorObj.r;
-      colors[idx + 1] = colorObj.g;
-      colors[idx + 2] = colorObj.b;
+    const geometry = geometryRef.current;
+    if (!pointsRef.current || !geometry) return;
+
+    const buffers =
+      simulation instanceof ShaderSimulation
+        ? simulation.attributes
+        : simulation.positions;
+    if (buffers !== boundBuffersRef.current) {
+      boundBuffersRef.current = buffers;
+      setBufferVersion((version) => version + 1);
+    }
+
+    const { point, direction, pointer } = fingertip;
+    const tracked =
+      sharedState.handDetected &&
+      projectToViewPlane(
+        sharedState.pointerX,
+        sharedState.pointerY,
+        point,
+        direction,
+      );
+    if (tracked) {
+      point.toArray(pointer.position);
+      direction.toArray(pointer.direction);
     }
 
-    // Mark attributes as needing GPU update
-    positionAttr.needsUpdate = true;
-    colorAttr.needsUpdate = true;
+    camera.position.toArray(cameraPosition);
 
-    // Auto-rotation
-    pointsRef.current.rotation.y += windowSize.isMobile
-      ? ANIMATION_CONSTANTS.ROTATION_SPEED_MOBILE
-      : ANIMATION_CONSTANTS.ROTATION_SPEED_DESKTOP;
+    simulation.step(delta, {
+      ...sharedState,
+      handPointer: tracked ? pointer : null,
+      cameraPosition,
+    });
+
+    if (simulation instanceof ShaderSimulation && shaderUniforms) {
+      simulation.flushAttributes((name) => {
+        const attribute = geometry.getAttribute(name);
+        if (attribute) attribute.needsUpdate = true;
+      });
+
+      updateShaderFrame(
+        shaderUniforms,
+        paletteTexture,
+        simulation.palette,
+        config.particleSize * state.gl.getPixelRatio(),
+        state.size.height,
+      );
+    } else {
+      // Mark attributes as needing GPU update
+      geometry.getAttribute("position").needsUpdate = true;
+      geometry.getAttribute("color").needsUpdate = true;
+      geometry.getAttribute("aScale").needsUpdate = true;
+
+      if (trails.enabled && simulation instanceof ParticleSimulation) {
+        particleTrails.update(
+          delta,
+          simulation.positions,
+          simulation.colors,
+          simulation.scales,
+        );
+        if (particleTrails.history !== boundTrailsRef.current) {
+          boundTrailsRef.current = particleTrails.history;
+          setTrailVersion((version) => version + 1);
+        }
+        updateStreakFrame(
+          streakUniforms,
+          config.particleSize * STREAK_WIDTH,
+          trails.fade,
+        );
+        const trailGeometry = trailGeometryRef.current;
+        if (trailGeometry) {
+          for (const name of TRAIL_ATTRIBUTE_NAMES) {
+            const attribute = trailGeometry.getAttribute(name);
+            if (attribute) attribute.needsUpdate = true;
+          }
+        }
+      }
+    }
+
+    pointsRef.current.rotation.y = simulation.rotation;
+    if (trailsRef.current) trailsRef.current.rotation.y = simulation.rotation;
   });
 
-  return (
-    <points ref={pointsRef}>
-      <bufferGeometry ref={geometryRef}>
-        {/* Position attribute */}
-        <bufferAttribute
-          attach="attributes-position"
-          count={config.particleCount}
-          array={currentPositions}
-          itemSize={3}
-          args={[currentPositions, 3]}
+  if (simulation instanceof ShaderSimulation) {
+    if (!shaderUniforms) return null;
+    const { attributes } = simulation;
+    return (
+      // Particles leave the target bounds, so skip frustum culling
+      <points key="shader" ref={pointsRef} frustumCulled={false}>
+        <bufferGeometry key={bufferVersion} ref={geometryRef}>
+          {SHADER_ATTRIBUTE_NAMES.map((name) => (
+            <bufferAttribute
+              key={name}
+              attach={`attributes-${name}`}
+              count={simulation.bufferCount}
+              array={attributes[name]}
+              itemSize={SHADER_ATTRIBUTE_ITEM_SIZES[name]}
+              args={[attributes[name], SHADER_ATTRIBUTE_ITEM_SIZES[name]]}
+            />
+          ))}
+        </bufferGeometry>
+        {/* Same additive glow as the CPU material */}
+        <shaderMaterial
+          uniforms={shaderUniforms}
+          vertexShader={PARTICLE_VERTEX_SHADER}
+          fragmentShader={PARTICLE_FRAGMENT_SHADER}
+          defines={PARTICLE_SHADER_DEFINES}
+          blending={THREE.AdditiveBlending}
+          depthWrite={false}
+          transparent
+          fog
         />
-        {/* Color attribute */}
-        <bufferAttribute
-          attach="attributes-color"
-          count={config.particleCount}
-          array={colorArray}
-          itemSize={3}
-          args={[colorArray, 3]}
+      </points>
+    );
+  }
+
+  const trailCount = particleTrails.count;
+  const showTrails = trails.enabled && trailCount > 0;
+
+  return (
+    <>
+      <points key="cpu" ref={pointsRef}>
+        <bufferGeometry key={bufferVersion} ref={geometryRef}>
+          {/* Position attribute */}
+          <bufferAttribute
+            attach="attributes-position"
+            count={simulation.bufferCount}
+            array={simulation.positions}
+            itemSize={3}
+            args={[simulation.positions, 3]}
+          />
+          {/* Color attribute */}
+          <bufferAttribute
+            attach="attributes-color"
+            count={simulation.bufferCount}
+            array={simulation.colors}
+            itemSize={3}
+            args={[simulation.colors, 3]}
+          />
+          {/* Size multiplier attribute */}
+          <bufferAttribute
+            attach="attributes-aScale"
+            count={simulation.bufferCount}
+            array={simulation.scales}
+            itemSize={1}
+            args={[simulation.scales, 1]}
+          />
+        </bufferGeometry>
+        {/* Material with additive blending for glow effect */}
+        <pointsMaterial
+          size={config.particleSize}
+          vertexColors
+          blending={THREE.AdditiveBlending}
+          depthWrite={false}
+          transparent
+          opacity={0.8}
+          sizeAttenuation
+          onBeforeCompile={applyParticleScale}
         />
-      </bufferGeometry>
-      {/* Material with additive blending for glow effect */}
-      <pointsMaterial
-        size={config.particleSize}
-        vertexColors
-        blending={THREE.AdditiveBlending}
-        depthWrite={false}
-        transparent
-        opacity={0.8}
-        sizeAttenuation
-      />
-    </points>
+      </points>
+      {/* Trails leave the target bounds too, so skip frustum culling */}
+      {showTrails && (
+        <group ref={trailsRef}>
+          {trails.style === "lines" ? (
+            <lineSegments key={trailVersion} frustumCulled={false}>
+              <bufferGeometry ref={trailGeometryRef}>
+                <bufferAttribute
+                  attach="attributes-position"
+                  count={particleTrails.history.length / 3}
+                  array={particleTrails.history}
+                  itemSize={3}
+                  args={[particleTrails.history, 3]}
+                />
+                <bufferAttribute
+                  attach="attributes-color"
+                  count={particleTrails.colors.length / 3}
+                  array={particleTrails.colors}
+                  itemSize={3}
+                  args={[particleTrails.colors, 3]}
+                />
+                <bufferAttribute
+                  attach="index"
+                  count={particleTrails.indices.length}
+                  array={particleTrails.indices}
+                  itemSize={1}
+                  args={[particleTrails.indices, 1]}
+                />
+              </bufferGeometry>
+              <lineBasicMaterial
+                vertexColors
+                blending={THREE.AdditiveBlending}
+                depthWrite={false}
+                transparent
+                opacity={0.8}
+              />
+            </lineSegments>
+          ) : (
+            <mesh key={trailVersion} frustumCulled={false}>
+              <instancedBufferGeometry
+                ref={trailGeometryRef}
+                instanceCount={trailCount}
+              >
+                <bufferAttribute
+                  attach="attributes-aCorner"
+                  args={[TRAIL_QUAD_CORNERS, 2]}
+                />
+                <bufferAttribute
+                  attach="index"
+                  args={[TRAIL_QUAD_INDICES, 1]}
+                />
+                <instancedBufferAttribute
+                  attach="attributes-aHead"
+                  args={[particleTrails.heads, 3]}
+                />
+                <instancedBufferAttribute
+                  attach="attributes-aTail"
+                  args={[particleTrails.tails, 3]}
+                />
+                <instancedBufferAttribute
+                  attach="attributes-aColor"
+                  args={[particleTrails.headColors, 3]}
+                />
+              </instancedBufferGeometry>
+              <shaderMaterial
+                uniforms={streakUniforms}
+                vertexShader={TRAIL_VERTEX_SHADER}
+                fragmentShader={TRAIL_FRAGMENT_SHADER}
+                blending={THREE.AdditiveBlending}
+                depthWrite={false}
+                transparent
+                fog
+              />
+            </mesh>
+          )}
+        </group>
+      )}
+    </>
   );
 };
 
@@ -0,0 +1,203 @@
+"use client";
+
+/**
+ * Shape blend control panel
+ * Picks a second shape and sets how much of it is mixed into the formation
+ * @module components/ui/BlendControl
+ */
+
+import React, {
+  useEffect,
+  useState,
+  useSyncExternalStore,
+  type CSSProperties,
+} from "react";
+import { Blend } from "lucide-react";
+import { useWindowSize } from "@/app/hooks/useWindowSize";
+import { useShapes } from "@/app/hooks/useShapes";
+import { sharedState } from "@/app/lib/sharedState";
+import { type ShapeType, TRACKING_CONSTANTS } from "@/app/lib/constants";
+
+/**
+ * Component props
+ */
+interface BlendControlProps {
+  /**
+   * Second shape, or undefined when blending is off
+   */
+  blendShape: ShapeType | undefined;
+  /**
+   * Share of the blend shape (0-1)
+   */
+  blendWeight: number;
+  /**
+   * Callback when the blend shape is picked or blending is turned off
+   */
+  onBlendShapeChange: (shape: ShapeType | undefined) => void;
+  /**
+   * Callback when the slider moves
+   */
+  onBlendWeightChange: (weight: number) => void;
+  /**
+   * Optional CSS class name
+   */
+  className?: string;
+}
+
+/**
+ * Client-side mount detection using useSyncExternalStore
+ */
+const subscribe = () => () => {};
+const useHydrated = () => {
+  return useSyncExternalStore(
+    subscribe,
+    () => true, // Client
+    () => false, // Server
+  );
+};
+
+/**
+ * BlendControl Component
+ *
+ * Floating panel in the top-right corner for blend mode. While a hand is
+ * tracked the vertical hand position sets the weight and the slider is
+ * disabled; otherwise the slider drives it.
+ *
+ * Features:
+ * - Shape picker listing every registered shape, plus "Off"
+ * - Weight slider shown as a percentage of the blend shape
+ * - Hand tracking hint while the hand controls the weight
+ * - Glassmorphism design matching the shape dock
+ * - Client-only rendering to prevent hydration mismatch
+ *
+ * @example
+ * ```
+ * <BlendControl
+ *   blendShape="heart"
+ *   blendWeight={0.7}
+ *   onBlendShapeChange={setBlendShape}
+ *   onBlendWeightChange={setBlendWeight}
+ * />
+ * ```
+ */
+export const BlendControl: React.FC<BlendControlProps> = ({
+  blendShape,
+  blendWeight,
+  onBlendShapeChange,
+  onBlendWeightChange,
+  className = "",
+}) => {
+  const windowSize = useWindowSize();
+  const shapes = useShapes();
+  const hydrated = useHydrated();
+  const [handDetected, setHandDetected] = useState<boolean>(false);
+
+  // Poll shared state for hand detection status
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setHandDetected(sharedState.handDetected);
+    }, TRACKING_CONSTANTS.STATUS_UPDATE_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, []);
+
+  if (!hydrated) return null;
+
+  const isMobile = windowSize.isMobile;
+  const fontSize = isMobile ? "clamp(0.7rem, 3vw, 0.8rem)" : "0.85rem";
+
+  const panelStyle: CSSProperties = {
+    position: "absolute",
+    top: isMobile ? "15px" : "30px",
+    right: isMobile ? "15px" : "30px",
+    zIndex: 50,
+    display: "flex",
+    flexDirection: "column",
+    gap: "8px",
+    width: isMobile ? "150px" : "210px",
+    background: "rgba(15, 15, 15, 0.6)",
+    backdropFilter: "blur(16px)",
+    padding: isMobile ? "8px 12px" : "12px 16px",
+    borderRadius: isMobile ? "12px" : "18px",
+    border: "1px solid rgba(255, 255, 255, 0.08)",
+    boxShadow: "0 20px 50px rgba(0, 0, 0, 0.5)",
+    color: "#fff",
+    fontFamily: "'Outfit', sans-serif",
+    fontSize,
+  };
+
+  const selectStyle: CSSProperties = {
+    flex: 1,
+    minWidth: 0,
+    background: "rgba(255, 255, 255, 0.05)",
+    color: "#fff",
+    border: "1px solid rgba(255, 255, 255, 0.1)",
+    borderRadius: "8px",
+    padding: "4px 6px",
+    fontFamily: "'Outfit', sans-serif",
+    fontSize,
+  };
+
+  const handControlled = handDetected && blendShape !== undefined;
+
+  return (
+    <section
+      className={className}
+      style={panelStyle}
+      aria-label="Shape blend controls"
+    >
+      <label style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+        <Blend size={isMobile ? 14 : 16} aria-hidden="true" />
+        {!isMobile && <span>Blend</span>}
+        <select
+          value={blendShape ?? ""}
+          onChange={(event) =>
+            onBlendShapeChange(event.target.value || undefined)
+          }
+          style={selectStyle}
+          aria-label="Blend shape"
+        >
+          <option value="">Off</option>
+          {shapes.map((shape) => (
+            <option key={shape.id} value={shape.id}>
+              {shape.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {blendShape !== undefined && (
+        <div style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={Math.round(blendWeight * 100)}
+            onChange={(event) =>
+              onBlendWeightChange(Number(event.target.value) / 100)
+            }
+            disabled={handControlled}
+            style={{
+              flex: 1,
+              minWidth: 0,
+              accentColor: "#00f3ff",
+              opacity: handControlled ? 0.4 : 1,
+            }}
+            aria-label="Blend weight"
+          />
+          <span style={{ width: "3em", textAlign: "right" }}>
+            {Math.round(blendWeight * 100)}%
+          </span>
+        </div>
+      )}
+
+      {handControlled && (
+        <span style={{ color: "rgba(255, 255, 255, 0.6)" }} role="status">
+          Raise or lower your hand to blend
+        </span>
+      )}
+    </section>
+  );
+};
+
+export default BlendControl;
@@ -0,0 +1,156 @@
+"use client";
+
+/**
+ * Burst effect buttons
+ * Fires shockwave, explode and implode effects without gestures
+ * @module components/ui/BurstControl
+ */
+
+import React, { useSyncExternalStore, type CSSProperties } from "react";
+import { Expand, Handshake, Radio, Shrink } from "lucide-react";
+import { useWindowSize } from "@/app/hooks/useWindowSize";
+import type { BurstEffectType, MenuItem } from "@/app/lib/constants";
+
+/**
+ * Component props
+ */
+interface BurstControlProps {
+  /**
+   * Callback when an effect button is pressed
+   */
+  onBurst: (effect: BurstEffectType) => void;
+  /**
+   * Whether a two-hand clap fires a shockwave
+   */
+  clapGesture?: boolean;
+  /**
+   * Callback with the toggled clap gesture; shows the toggle when set
+   */
+  onClapGestureChange?: (enabled: boolean) => void;
+  /**
+   * Optional CSS class name
+   */
+  className?: string;
+}
+
+/**
+ * Effect buttons in display order
+ */
+const BURST_ITEMS: readonly MenuItem<BurstEffectType>[] = [
+  { id: "shockwave", label: "Shockwave", icon: Radio },
+  { id: "explode", label: "Explode", icon: Expand },
+  { id: "implode", label: "Implode", icon: Shrink },
+];
+
+/**
+ * Client-side mount detection using useSyncExternalStore
+ */
+const subscribe = () => () => {};
+const useHydrated = () => {
+  return useSyncExternalStore(
+    subscribe,
+    () => true, // Client
+    () => false, // Server
+  );
+};
+
+/**
+ * BurstControl Component
+ *
+ * Column of icon buttons on the left edge that fire burst effects from the
+ * formation center. The same effects fire from hand gestures: a fast pinch
+ * release explodes, a fist implodes and a two-hand clap sends a shockwave.
+ *
+ * Features:
+ * - One button per burst effect, labelled for screen readers
+ * - Optional clap gesture toggle; tracking the second hand doubles
+ *   detection work, so it starts off
+ * - Glassmorphism design matching the shape dock
+ * - Client-only rendering to prevent hydration mismatch
+ *
+ * @example
+ * ```
+ * <BurstControl onBurst={(effect) => fireBurst(effect, "center")} />
+ * ```
+ */
+export const BurstControl: React.FC<BurstControlProps> = ({
+  onBurst,
+  clapGesture = false,
+  onClapGestureChange,
+  className = "",
+}) => {
+  const windowSize = useWindowSize();
+  const hydrated = useHydrated();
+
+  if (!hydrated) return null;
+
+  const isMobile = windowSize.isMobile;
+
+  const panelStyle: CSSProperties = {
+    position: "absolute",
+    top: "50%",
+    left: isMobile ? "15px" : "30px",
+    transform: "translateY(-50%)",
+    zIndex: 50,
+    display: "flex",
+    flexDirection: "column",
+    gap: "8px",
+    background: "rgba(15, 15, 15, 0.6)",
+    backdropFilter: "blur(16px)",
+    padding: isMobile ? "6px" : "8px",
+    borderRadius: isMobile ? "12px" : "18px",
+    border: "1px solid rgba(255, 255, 255, 0.08)",
+    boxShadow: "0 20px 50px rgba(0, 0, 0, 0.5)",
+  };
+
+  const buttonStyle: CSSProperties = {
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    width: isMobile ? "34px" : "42px",
+    height: isMobile ? "34px" : "42px",
+    background: "rgba(255, 255, 255, 0.05)",
+    color: "#fff",
+    border: "1px solid rgba(255, 255, 255, 0.1)",
+    borderRadius: "10px",
+    cursor: "pointer",
+  };
+
+  return (
+    <nav className={className} style={panelStyle} aria-label="Burst effects">
+      {BURST_ITEMS.map(({ id, label, icon: Icon }) => (
+        <button
+          key={id}
+          type="button"
+          onClick={() => onBurst(id)}
+          style={buttonStyle}
+          title={label}
+          aria-label={label}
+        >
+          <Icon size={isMobile ? 16 : 20} />
+        </button>
+      ))}
+      {onClapGestureChange && (
+        <button
+          type="button"
+          onClick={() => onClapGestureChange(!clapGesture)}
+          style={{
+            ...buttonStyle,
+            marginTop: "8px",
+            background: clapGesture
+              ? "rgba(0, 243, 255, 0.2)"
+              : "rgba(255, 255, 255, 0.05)",
+            border: `1px solid ${clapGesture ? "rgba(0, 243, 255, 0.5)" : "rgba(255, 255, 255, 0.1)"}`,
+          }}
+          title="Clap gesture (tracks both hands)"
+          aria-label="Clap gesture"
+          aria-pressed={clapGesture}
+        >
+          <Handshake size={isMobile ? 16 : 20} />
+        </button>
+      )}
+    </nav>
+  );
+};
+
+export default BurstControl;
@@ -0,0 +1,444 @@
+"use client";
+
+/**
+ * Color control panel
+ * Picks, edits, imports and exports palettes and the color mapping
+ * @module components/ui/ColorPanel
+ */
+
+import React, {
+  useRef,
+  useState,
+  useSyncExternalStore,
+  type CSSProperties,
+} from "react";
+import { Download, Palette, Pencil, Plus, Upload, X } from "lucide-react";
+import { useWindowSize } from "@/app/hooks/useWindowSize";
+import { usePalette, usePalettes } from "@/app/hooks/usePalettes";
+import { getPalette, registerPalette } from "@/app/lib/paletteRegistry";
+import {
+  isBuiltInPalette,
+  parsePalette,
+  serializePalette,
+  toPaletteId,
+} from "@/app/lib/palettes";
+import type {
+  ColorMapping,
+  ColorPalette,
+  PaletteStop,
+} from "@/app/lib/constants";
+
+/**
+ * Component props
+ */
+interface ColorPanelProps {
+  /**
+   * Picked palette id, or undefined to follow the active shape's default
+   */
+  palette: string | undefined;
+  /**
+   * Current color mapping
+   */
+  colorMapping: ColorMapping;
+  /**
+   * Callback when a palette is picked (undefined = shape default)
+   */
+  onPaletteChange: (palette: string | undefined) => void;
+  /**
+   * Callback when the mapping is picked
+   */
+  onColorMappingChange: (mapping: ColorMapping) => void;
+  /**
+   * Whether shapes with their own colors (e.g. images) keep them; the
+   * toggle is shown when onSourceColorsChange is also set
+   */
+  sourceColors?: boolean;
+  /**
+   * Callback when shape colors are toggled
+   */
+  onSourceColorsChange?: (sourceColors: boolean) => void;
+  /**
+   * Optional handler for palette import errors
+   */
+  onError?: (error: Error) => void;
+  /**
+   * Optional CSS class name
+   */
+  className?: string;
+}
+
+/**
+ * Mapping options in display order
+ */
+const MAPPING_OPTIONS: readonly { id: ColorMapping; label: string }[] = [
+  { id: "hand", label: "Hand position" },
+  { id: "index", label: "Index" },
+  { id: "height", label: "Height" },
+  { id: "radial", label: "Distance from center" },
+  { id: "velocity", label: "Speed" },
+  { id: "depth", label: "Camera depth" },
+];
+
+/**
+ * Client-side mount detection using useSyncExternalStore
+ */
+const subscribe = () => () => {};
+const useHydrated = () => {
+  return useSyncExternalStore(
+    subscribe,
+    () => true, // Client
+    () => false, // Server
+  );
+};
+
+/**
+ * CSS gradient previewing a palette
+ */
+const toGradient = (palette: ColorPalette): string =>
+  `linear-gradient(90deg, ${palette.stops
+    .map((stop) => `${stop.color} ${Math.round(stop.position * 100)}%`)
+    .join(", ")})`;
+
+/**
+ * Save a palette as a JSON file
+ */
+const downloadPalette = (palette: ColorPalette): void => {
+  const blob = new Blob([serializePalette(palette)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${palette.id}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * ColorPanel Component
+ *
+ * Floating panel in the bottom-right corner. "Shape default" follows the
+ * palette of the active shape (or the hue wheel for shapes without one).
+ * Edits replace the picked palette for the rest of the session; export it
+ * to keep it. The first edit of a built-in palette makes and picks an
+ * editable copy, so built-ins never change.
+ *
+ * Features:
+ * - Palette picker listing every registered palette with a gradient preview
+ * - Mapping picker: hand position, index, height, distance from center,
+ *   speed or camera depth
+ * - Shape colors toggle: keep the colors of shapes that bring their own
+ * - Stop editor with color, position, add and remove
+ * - JSON import (registers and picks the palette) and export
+ * - Glassmorphism design matching the shape dock
+ * - Client-only rendering to prevent hydration mismatch
+ *
+ * @example
+ * ```
+ * <ColorPanel
+ *   palette={palette}
+ *   colorMapping={mapping}
+ *   onPaletteChange={setPalette}
+ *   onColorMappingChange={setMapping}
+ * />
+ * ```
+ */
+export const ColorPanel: React.FC<ColorPanelProps> = ({
+  palette,
+  colorMapping,
+  onPaletteChange,
+  onColorMappingChange,
+  sourceColors = true,
+  onSourceColorsChange,
+  onError,
+  className = "",
+}) => {
+  const windowSize = useWindowSize();
+  const palettes = usePalettes();
+  const picked = usePalette(palette);
+  const hydrated = useHydrated();
+  const [isEditing, setIsEditing] = useState<boolean>(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  if (!hydrated) return null;
+
+  const isMobile = windowSize.isMobile;
+  const fontSize = isMobile ? "clamp(0.7rem, 3vw, 0.8rem)" : "0.85rem";
+  const iconSize = isMobile ? 14 : 16;
+
+  const panelStyle: CSSProperties = {
+    position: "absolute",
+    bottom: isMobile ? "180px" : "130px",
+    right: isMobile ? "15px" : "30px",
+    zIndex: 50,
+    display: "flex",
+    flexDirection: "column",
+    gap: "8px",
+    width: isMobile ? "170px" : "230px",
+    background: "rgba(15, 15, 15, 0.6)",
+    backdropFilter: "blur(16px)",
+    padding: isMobile ? "8px 12px" : "12px 16px",
+    borderRadius: isMobile ? "12px" : "18px",
+    border: "1px solid rgba(255, 255, 255, 0.08)",
+    boxShadow: "0 20px 50px rgba(0, 0, 0, 0.5)",
+    color: "#fff",
+    fontFamily: "'Outfit', sans-serif",
+    fontSize,
+  };
+
+  const selectStyle: CSSProperties = {
+    flex: 1,
+    minWidth: 0,
+    background: "rgba(255, 255, 255, 0.05)",
+    color: "#fff",
+    border: "1px solid rgba(255, 255, 255, 0.1)",
+    borderRadius: "8px",
+    padding: "4px 6px",
+    fontFamily: "'Outfit', sans-serif",
+    fontSize,
+  };
+
+  const iconButtonStyle = (active = false): CSSProperties => ({
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: "4px",
+    background: active ? "rgba(0, 243, 255, 0.2)" : "rgba(255, 255, 255, 0.05)",
+    color: active ? "#00f3ff" : "#fff",
+    border: `1px solid ${active ? "rgba(0, 243, 255, 0.5)" : "rgba(255, 255, 255, 0.1)"}`,
+    borderRadius: "8px",
+    padding: "4px 6px",
+    cursor: "pointer",
+    fontFamily: "'Outfit', sans-serif",
+    fontSize,
+  });
+
+  const updateStops = (stops: PaletteStop[]) => {
+    if (!picked) return;
+    const sorted = [...stops].sort((a, b) => a.position - b.position);
+    if (isBuiltInPalette(picked.id)) {
+      const id = toPaletteId(picked.name, (taken) => !!getPalette(taken));
+      registerPalette({ id, name: `${picked.name} (edited)`, stops: sorted });
+      onPaletteChange(id);
+      return;
+    }
+    registerPalette({ ...picked, stops: sorted });
+  };
+
+  // Positions stay between the neighbouring stops so the order (and the
+  // slider being dragged) never changes
+  const updateStop = (index: number, change: Partial<PaletteStop>) => {
+    if (!picked) return;
+    const { stops } = picked;
+    const next = { ...stops[index], ...change };
+    next.position = Math.max(
+      stops[index - 1]?.position ?? 0,
+      Math.min(stops[index + 1]?.position ?? 1, next.position),
+    );
+    updateStops(stops.map((stop, i) => (i === index ? next : stop)));
+  };
+
+  // New stop in the middle of the widest gap, colored like its left end
+  const addStop = () => {
+    if (!picked) return;
+    const { stops } = picked;
+    let gap = 0;
+    for (let i = 1; i < stops.length; i++) {
+      const width = stops[i].position - stops[i - 1].position;
+      if (width > stops[gap + 1].position - stops[gap].position) gap = i - 1;
+    }
+    const position = (stops[gap].position + stops[gap + 1].position) / 2;
+    updateStops([...stops, { position, color: stops[gap].color }]);
+  };
+
+  const handleImport = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ): Promise<void> => {
+    const file = event.target.files?.[0];
+    // Reset so choosing the same file again still fires change
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const imported = parsePalette(await file.text());
+      registerPalette(imported);
+      onPaletteChange(imported.id);
+    } catch (error) {
+      onError?.(error as Error);
+    }
+  };
+
+  return (
+    <section
+      className={className}
+      style={panelStyle}
+      aria-label="Color controls"
+    >
+      <label style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+        <Palette size={iconSize} aria-hidden="true" />
+        <select
+          value={palette ?? ""}
+          onChange={(event) => {
+            onPaletteChange(event.target.value || undefined);
+            setIsEditing(false);
+          }}
+          style={selectStyle}
+          aria-label="Palette"
+        >
+          <option value="">Shape default</option>
+          {palettes.map((item) => (
+            <option key={item.id} value={item.id}>
+              {item.name}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {picked && (
+        <div
+          style={{
+            height: "10px",
+            borderRadius: "5px",
+            background: toGradient(picked),
+          }}
+          aria-hidden="true"
+        />
+      )}
+
+      <select
+        value={colorMapping}
+        onChange={(event) =>
+          onColorMappingChange(event.target.value as ColorMapping)
+        }
+        style={selectStyle}
+        aria-label="Color by"
+      >
+        {MAPPING_OPTIONS.map(({ id, label }) => (
+          <option key={id} value={id}>
+            Color by {label.toLowerCase()}
+          </option>
+        ))}
+      </select>
+
+      {onSourceColorsChange && (
+        <label
+          style={{ display: "flex", alignItems: "center", gap: "8px" }}
+          title="Keep the colors of shapes that bring their own, such as images"
+        >
+          <input
+            type="checkbox"
+            checked={sourceColors}
+            onChange={(event) => onSourceColorsChange(event.target.checked)}
+            style={{ accentColor: "#00f3ff" }}
+          />
+          Shape colors
+        </label>
+      )}
+
+      <div style={{ display: "flex", gap: "6px" }} role="group">
+        <button
+          type="button"
+          onClick={() => setIsEditing((open) => !open)}
+          disabled={!picked}
+          style={{
+            ...iconButtonStyle(isEditing),
+            flex: 1,
+            opacity: picked ? 1 : 0.4,
+          }}
+          aria-pressed={isEditing}
+          title={picked ? "Edit palette stops" : "Pick a palette to edit it"}
+        >
+          <Pencil size={iconSize} aria-hidden="true" />
+          {!isMobile && "Edit"}
+        </button>
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          style={iconButtonStyle()}
+          aria-label="Import palette JSON"
+          title="Import palette JSON"
+        >
+          <Upload size={iconSize} aria-hidden="true" />
+        </button>
+        <button
+          type="button"
+          onClick={() => picked && downloadPalette(picked)}
+          disabled={!picked}
+          style={{ ...iconButtonStyle(), opacity: picked ? 1 : 0.4 }}
+          aria-label="Export palette JSON"
+          title="Export palette JSON"
+        >
+          <Download size={iconSize} aria-hidden="true" />
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={handleImport}
+          style={{ display: "none" }}
+        />
+      </div>
+
+      {isEditing && picked && (
+        <>
+          {picked.stops.map((stop, index) => (
+            <div
+              key={index}
+              style={{ display: "flex", alignItems: "center", gap: "6px" }}
+            >
+              <input
+                type="color"
+                value={stop.color}
+                onChange={(event) =>
+                  updateStop(index, { color: event.target.value })
+                }
+                style={{
+                  width: "28px",
+                  height: "22px",
+                  padding: 0,
+                  border: "none",
+                  background: "transparent",
+                }}
+                aria-label={`Stop ${index + 1} color`}
+              />
+              <input
+                type="range"
+                min={0}
+                max={100}
+                value={Math.round(stop.position * 100)}
+                onChange={(event) =>
+                  updateStop(index, {
+                    position: Number(event.target.value) / 100,
+                  })
+                }
+                style={{ flex: 1, minWidth: 0, accentColor: "#00f3ff" }}
+                aria-label={`Stop ${index + 1} position`}
+              />
+              <button
+                type="button"
+                onClick={() =>
+                  updateStops(picked.stops.filter((_, i) => i !== index))
+                }
+                disabled={picked.stops.length <= 2}
+                style={{
+                  ...iconButtonStyle(),
+                  padding: "2px",
+                  opacity: picked.stops.length <= 2 ? 0.4 : 1,
+                }}
+                aria-label={`Remove stop ${index + 1}`}
+              >
+                <X size={12} aria-hidden="true" />
+              </button>
+            </div>
+          ))}
+          <button type="button" onClick={addStop} style={iconButtonStyle()}>
+            <Plus size={iconSize} aria-hidden="true" />
+            Add stop
+          </button>
+        </>
+      )}
+    </section>
+  );
+};
+
+export default ColorPanel;
@@ -0,0 +1,138 @@
+"use client";
+
+/**
+ * File import button for the shape dock
+ * Opens a file picker and hands the chosen file to a callback
+ * @module components/ui/FileImportButton
+ */
+
+import React, { useRef, useState, type CSSProperties } from "react";
+import type { LucideIcon } from "lucide-react";
+
+/**
+ * Component props
+ */
+interface FileImportButtonProps {
+  /**
+   * Button label (hidden on mobile)
+   */
+  label: string;
+  /**
+   * Button icon
+   */
+  icon: LucideIcon;
+  /**
+   * Accepted file types for the picker
+   */
+  accept: string;
+  /**
+   * Called with the chosen file; a rejected promise is reported via onError
+   */
+  onFile: (file: File) => Promise<void>;
+  /**
+   * Optional error handler
+   */
+  onError?: (error: Error) => void;
+  /**
+   * Compact mobile styling
+   */
+  isMobile: boolean;
+}
+
+/**
+ * FileImportButton Component
+ *
+ * Dock-styled button backed by a hidden file input. Shows a busy state
+ * while the file is being processed.
+ *
+ * @example
+ * ```
+ * <FileImportButton
+ *   label="Import"
+ *   icon={Upload}
+ *   accept=".obj,.ply,.stl"
+ *   onFile={handleFile}
+ *   isMobile={false}
+ * />
+ * ```
+ */
+export const FileImportButton: React.FC<FileImportButtonProps> = ({
+  label,
+  icon: Icon,
+  accept,
+  onFile,
+  onError,
+  isMobile,
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isBusy, setIsBusy] = useState<boolean>(false);
+  const [isHovered, setIsHovered] = useState<boolean>(false);
+
+  const handleChange = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ): Promise<void> => {
+    const file = event.target.files?.[0];
+    // Reset so choosing the same file again still fires change
+    event.target.value = "";
+    if (!file) return;
+
+    setIsBusy(true);
+    try {
+      await onFile(file);
+    } catch (error) {
+      if (onError) {
+        onError(error as Error);
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const buttonStyle: CSSProperties = {
+    background:
+      isHovered && !isMobile ? "rgba(255, 255, 255, 0.08)" : "transparent",
+    color: "#fff",
+    border: "1px dashed rgba(255, 255, 255, 0.25)",
+    padding: isMobile ? "10px 16px" : "12px 24px",
+    borderRadius: isMobile ? "12px" : "18px",
+    cursor: isBusy ? "progress" : "pointer",
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: isMobile ? "6px" : "10px",
+    fontFamily: "'Outfit', sans-serif",
+    fontWeight: 400,
+    fontSize: isMobile ? "clamp(0.75rem, 3vw, 0.85rem)" : "0.95rem",
+    opacity: isBusy ? 0.5 : 1,
+    transition: "all 0.3s cubic-bezier(0.2, 0.8, 0.2, 1)",
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => inputRef.current?.click()}
+        onMouseEnter={() => !isMobile && setIsHovered(true)}
+        onMouseLeave={() => !isMobile && setIsHovered(false)}
+        style={buttonStyle}
+        disabled={isBusy}
+        aria-label={label}
+        aria-busy={isBusy}
+        type="button"
+      >
+        <Icon size={isMobile ? 16 : 18} aria-hidden="true" />
+        {!isMobile && <span>{label}</span>}
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={accept}
+        onChange={(event) => void handleChange(event)}
+        style={{ display: "none" }}
+        aria-hidden="true"
+        tabIndex={-1}
+      />
+    </>
+  );
+};
+
+export default FileImportButton;
@@ -7,7 +7,7 @@
  */
 
 import React from "react";
-import { Activity, Hand, ScanFace } from "lucide-react";
+import { Activity, Hand, MoveVertical, Pointer, ScanFace } from "lucide-react";
 import { useWindowSize } from "@/app/hooks/useWindowSize";
 
 /**
@@ -52,6 +52,16 @@ const INSTRUCTIONS: readonly InstructionItem[] = [
     label: "Swipe",
     action: "to Switch Shape",
   },
+  {
+    icon: MoveVertical,
+    label: "Raise / Lower",
+    action: "to Blend Shapes",
+  },
+  {
+    icon: Pointer,
+    label: "Point",
+    action: "to Push Particles",
+  },
 ] as const;
 
 /**
@@ -0,0 +1,133 @@
+"use client";
+
+/**
+ * Image picker for the shape dock
+ * Chooses how imported images are weighted and how far they stand out
+ * @module components/ui/ImagePicker
+ */
+
+import React, { type CSSProperties } from "react";
+import { Image as ImageIcon } from "lucide-react";
+import type { ImageSettings, ImageWeighting } from "@/app/lib/shapes/image";
+
+/**
+ * Component props
+ */
+interface ImagePickerProps {
+  /**
+   * Current image settings
+   */
+  image: ImageSettings;
+  /**
+   * Callback with the updated settings
+   */
+  onChange: (image: ImageSettings) => void;
+  /**
+   * Compact mobile styling
+   */
+  isMobile: boolean;
+}
+
+/**
+ * Weightings in display order
+ */
+const WEIGHTING_OPTIONS: readonly { id: ImageWeighting; label: string }[] = [
+  { id: "auto", label: "Auto" },
+  { id: "luminance", label: "Brightness" },
+  { id: "alpha", label: "Opacity" },
+];
+
+/**
+ * Largest relief offered by the depth slider in scene units
+ */
+const MAX_DEPTH = 6;
+
+/**
+ * ImagePicker Component
+ *
+ * Inline weighting select and depth slider. The weighting applies to the
+ * next imported image; the depth regenerates the active image shape.
+ *
+ * @example
+ * ```
+ * <ImagePicker image={image} onChange={setImage} isMobile={false} />
+ * ```
+ */
+export const ImagePicker: React.FC<ImagePickerProps> = ({
+  image,
+  onChange,
+  isMobile,
+}) => {
+  const fontSize = isMobile ? "clamp(0.75rem, 3vw, 0.85rem)" : "0.95rem";
+
+  const groupStyle: CSSProperties = {
+    display: "flex",
+    alignItems: "center",
+    gap: "6px",
+    gridColumn: isMobile ? "1 / -1" : undefined,
+    background: "rgba(255, 255, 255, 0.05)",
+    borderRadius: isMobile ? "12px" : "18px",
+    padding: "4px 10px",
+    color: "#fff",
+    fontFamily: "'Outfit', sans-serif",
+    fontSize,
+  };
+
+  const fieldStyle: CSSProperties = {
+    background: "transparent",
+    color: "#fff",
+    border: "1px solid rgba(255, 255, 255, 0.1)",
+    borderRadius: "8px",
+    padding: "4px 6px",
+    fontFamily: "'Outfit', sans-serif",
+    fontSize,
+    minWidth: 0,
+  };
+
+  return (
+    <div style={groupStyle} role="group" aria-label="Image shapes">
+      <ImageIcon size={isMobile ? 14 : 16} aria-hidden="true" />
+      <select
+        value={image.weighting}
+        onChange={(event) =>
+          onChange({
+            ...image,
+            weighting: event.target.value as ImageWeighting,
+          })
+        }
+        style={fieldStyle}
+        aria-label="Image weighting"
+        title="What draws particles in the next imported image"
+      >
+        {WEIGHTING_OPTIONS.map(({ id, label }) => (
+          <option key={id} value={id}>
+            {label}
+          </option>
+        ))}
+      </select>
+      <label
+        style={{ display: "flex", alignItems: "center", gap: "4px" }}
+        title="Raise bright pixels toward the camera"
+      >
+        Depth
+        <input
+          type="range"
+          min={0}
+          max={MAX_DEPTH}
+          step={0.5}
+          value={image.depth}
+          onChange={(event) =>
+            onChange({ ...image, depth: Number(event.target.value) })
+          }
+          style={{
+            width: isMobile ? "100%" : "70px",
+            minWidth: 0,
+            accentColor: "#00f3ff",
+          }}
+        />
+      </label>
+    </div>
+  );
+};
+
+export default ImagePicker;
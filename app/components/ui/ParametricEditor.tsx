@@ -0,0 +1,348 @@
+"use client";
+
+/**
+ * Parametric shape editor panel
+ * Lets users define shapes as x(u,v), y(u,v), z(u,v) equations with live preview
+ * @module components/ui/ParametricEditor
+ */
+
+import React, {
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type CSSProperties,
+} from "react";
+import { X } from "lucide-react";
+import { createSeededRandom } from "@/app/lib/random";
+import {
+  type ParametricDefinition,
+  EXAMPLE_PARAMETRIC_DEFINITION,
+  compileParametric,
+  sampleParametric,
+} from "@/app/lib/shapes/parametric";
+
+/**
+ * Component props
+ */
+interface ParametricEditorProps {
+  /**
+   * Called with a validated definition when the user saves
+   */
+  onSave: (definition: ParametricDefinition) => void;
+  /**
+   * Called when the panel is dismissed
+   */
+  onClose: () => void;
+  /**
+   * Compact mobile styling
+   */
+  isMobile: boolean;
+}
+
+/**
+ * Preview rendering settings
+ */
+const PREVIEW = {
+  SIZE: 160,
+  POINTS: 1500,
+  ROTATION_Y: 0.6,
+  ROTATION_X: 0.35,
+  COLOR: "rgba(0, 243, 255, 0.6)",
+} as const;
+
+/**
+ * Editable form state (ranges kept as text while typing)
+ */
+type FormState = Omit<
+  ParametricDefinition,
+  "uMin" | "uMax" | "vMin" | "vMax"
+> & {
+  uMin: string;
+  uMax: string;
+  vMin: string;
+  vMax: string;
+};
+
+/**
+ * Convert form state into a definition
+ */
+const toDefinition = (form: FormState): ParametricDefinition => ({
+  ...form,
+  uMin: parseFloat(form.uMin),
+  uMax: parseFloat(form.uMax),
+  vMin: parseFloat(form.vMin),
+  vMax: parseFloat(form.vMax),
+});
+
+/**
+ * Initial form state from the example definition
+ */
+const INITIAL_FORM: FormState = {
+  ...EXAMPLE_PARAMETRIC_DEFINITION,
+  uMin: String(EXAMPLE_PARAMETRIC_DEFINITION.uMin),
+  uMax: String(EXAMPLE_PARAMETRIC_DEFINITION.uMax),
+  vMin: String(EXAMPLE_PARAMETRIC_DEFINITION.vMin),
+  vMax: String(EXAMPLE_PARAMETRIC_DEFINITION.vMax),
+};
+
+const inputStyle: CSSProperties = {
+  background: "rgba(255, 255, 255, 0.06)",
+  border: "1px solid rgba(255, 255, 255, 0.12)",
+  borderRadius: "8px",
+  color: "#fff",
+  fontFamily: "monospace",
+  fontSize: "0.8rem",
+  padding: "6px 8px",
+  width: "100%",
+  minWidth: 0,
+};
+
+const labelStyle: CSSProperties = {
+  display: "grid",
+  gridTemplateColumns: "64px 1fr",
+  alignItems: "center",
+  gap: "8px",
+  fontSize: "0.8rem",
+  color: "#ccc",
+};
+
+/**
+ * ParametricEditor Component
+ *
+ * Form for x/y/z equations and u/v ranges. Equations are compiled with the
+ * safe expression evaluator on every edit; errors are shown inline and the
+ * preview re-renders from a fixed seed so it stays stable while typing.
+ *
+ * @example
+ * ```
+ * <ParametricEditor
+ *   onSave={(definition) => registerShape(createParametricShape(definition))}
+ *   onClose={() => setOpen(false)}
+ *   isMobile={false}
+ * />
+ * ```
+ */
+export const ParametricEditor: React.FC<ParametricEditorProps> = ({
+  onSave,
+  onClose,
+  isMobile,
+}) => {
+  const [form, setForm] = useState<FormState>(INITIAL_FORM);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // Compile on every edit; keep either the preview points or the error
+  const result = useMemo(() => {
+    const definition = toDefinition(form);
+    try {
+      const evaluate = compileParametric(definition);
+      const points = sampleParametric(
+        definition,
+        evaluate,
+        PREVIEW.POINTS,
+        createSeededRandom(1),
+        1,
+      );
+      return { definition, points, error: null };
+    } catch (error) {
+      return { definition, points: null, error: (error as Error).message };
+    }
+  }, [form]);
+
+  // Draw preview (fixed-angle orthographic projection fitted to the canvas)
+  useEffect(() => {
+    const context = canvasRef.current?.getContext("2d");
+    if (!context) return;
+
+    context.clearRect(0, 0, PREVIEW.SIZE, PREVIEW.SIZE);
+    const points = result.points;
+    if (!points) return;
+
+    const cosY = Math.cos(PREVIEW.ROTATION_Y);
+    const sinY = Math.sin(PREVIEW.ROTATION_Y);
+    const cosX = Math.cos(PREVIEW.ROTATION_X);
+    const sinX = Math.sin(PREVIEW.ROTATION_X);
+
+    const projected = new Float32Array((points.length / 3) * 2);
+    let extent = 1e-6;
+    for (let i = 0; i < points.length / 3; i++) {
+      const x = points[i * 3];
+      const y = points[i * 3 + 1];
+      const z = points[i * 3 + 2];
+      const rx = x * cosY + z * sinY;
+      const rz = -x * sinY + z * cosY;
+      const ry = y * cosX - rz * sinX;
+      projected[i * 2] = rx;
+      projected[i * 2 + 1] = ry;
+      extent = Math.max(extent, Math.abs(rx), Math.abs(ry));
+    }
+
+    const scale = (PREVIEW.SIZE / 2 - 6) / extent;
+    context.fillStyle = PREVIEW.COLOR;
+    for (let i = 0; i < projected.length; i += 2) {
+      context.fillRect(
+        PREVIEW.SIZE / 2 + projected[i] * scale,
+        PREVIEW.SIZE / 2 - projected[i + 1] * scale,
+        1.5,
+        1.5,
+      );
+    }
+  }, [result]);
+
+  const update =
+    (field: keyof FormState) =>
+    (event: React.ChangeEvent<HTMLInputElement>): void => {
+      setForm((current) => ({ ...current, [field]: event.target.value }));
+    };
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>): void => {
+    event.preventDefault();
+    if (!result.error) {
+      onSave(result.definition);
+    }
+  };
+
+  const panelStyle: CSSProperties = {
+    position: "absolute",
+    top: "50%",
+    left: "50%",
+    transform: "translate(-50%, -50%)",
+    zIndex: 60,
+    width: isMobile ? "92vw" : "520px",
+    display: "flex",
+    flexDirection: isMobile ? "column" : "row",
+    gap: "14px",
+    background: "rgba(15, 15, 15, 0.85)",
+    backdropFilter: "blur(16px)",
+    padding: "16px",
+    borderRadius: "18px",
+    border: "1px solid rgba(255, 255, 255, 0.08)",
+    boxShadow: "0 20px 50px rgba(0, 0, 0, 0.5)",
+    fontFamily: "'Outfit', sans-serif",
+    color: "#fff",
+  };
+
+  return (
+    <form
+      style={panelStyle}
+      onSubmit={handleSubmit}
+      aria-label="Parametric shape editor"
+    >
+      <div
+        style={{
+          flex: 1,
+          display: "flex",
+          flexDirection: "column",
+          gap: "8px",
+        }}
+      >
+        <label style={labelStyle}>
+          Name
+          <input
+            style={inputStyle}
+            value={form.name}
+            onChange={update("name")}
+          />
+        </label>
+        {(["x", "y", "z"] as const).map((axis) => (
+          <label key={axis} style={labelStyle}>
+            {`${axis}(u, v)`}
+            <input
+              style={inputStyle}
+              value={form[axis]}
+              onChange={update(axis)}
+              spellCheck={false}
+            />
+          </label>
+        ))}
+        {(["u", "v"] as const).map((variable) => (
+          <label key={variable} style={labelStyle}>
+            {`${variable} range`}
+            <span style={{ display: "flex", gap: "6px" }}>
+              <input
+                style={inputStyle}
+                value={form[`${variable}Min`]}
+                onChange={update(`${variable}Min`)}
+                inputMode="decimal"
+                aria-label={`${variable} minimum`}
+              />
+              <input
+                style={inputStyle}
+                value={form[`${variable}Max`]}
+                onChange={update(`${variable}Max`)}
+                inputMode="decimal"
+                aria-label={`${variable} maximum`}
+              />
+            </span>
+          </label>
+        ))}
+        <div
+          style={{
+            minHeight: "1.2em",
+            fontSize: "0.75rem",
+            color: result.error ? "#ff4d4d" : "#00f3ff",
+          }}
+          role="status"
+          aria-live="polite"
+        >
+          {result.error ?? "Valid — press Save to add this shape"}
+        </div>
+      </div>
+
+      <div
+        style={{
+          display: "flex",
+          flexDirection: "column",
+          alignItems: "center",
+          gap: "10px",
+        }}
+      >
+        <button
+          type="button"
+          onClick={onClose}
+          style={{
+            alignSelf: "flex-end",
+            background: "transparent",
+            border: "none",
+            color: "#fff",
+            cursor: "pointer",
+          }}
+          aria-label="Close parametric editor"
+        >
+          <X size={16} aria-hidden="true" />
+        </button>
+        <canvas
+          ref={canvasRef}
+          width={PREVIEW.SIZE}
+          height={PREVIEW.SIZE}
+          style={{
+            background: "rgba(0, 0, 0, 0.4)",
+            borderRadius: "12px",
+          }}
+          aria-label="Shape preview"
+        />
+        <button
+          type="submit"
+          disabled={Boolean(result.error)}
+          style={{
+            background: result.error
+              ? "rgba(255, 255, 255, 0.1)"
+              : "linear-gradient(135deg, #00f3ff 0%, #0099ff 100%)",
+            color: result.error ? "#888" : "#000",
+            border: "none",
+            borderRadius: "12px",
+            padding: "8px 20px",
+            fontFamily: "'Outfit', sans-serif",
+            fontWeight: 600,
+            cursor: result.error ? "not-allowed" : "pointer",
+            width: "100%",
+          }}
+        >
+          Save Shape
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default ParametricEditor;
@@ -0,0 +1,210 @@
+"use client";
+
+/**
+ * Particle count control
+ * Sets the number of particles, or leaves it to the device
+ * @module components/ui/ParticleCountControl
+ */
+
+import React, {
+  useState,
+  useSyncExternalStore,
+  type CSSProperties,
+} from "react";
+import { Sparkles } from "lucide-react";
+import { useResponsive } from "@/app/hooks/useWindowSize";
+import { PARTICLE_COUNT_LIMITS } from "@/app/lib/constants";
+
+/**
+ * Component props
+ */
+interface ParticleCountControlProps {
+  /**
+   * Picked particle count, or undefined to follow the device
+   */
+  particleCount: number | undefined;
+  /**
+   * Count in use while on "Auto" (e.g. lowered by the quality governor);
+   * defaults to the device default
+   */
+  autoCount?: number;
+  /**
+   * Highest count the slider offers (lower while the CPU engine runs)
+   * @default PARTICLE_COUNT_LIMITS.MAX
+   */
+  max?: number;
+  /**
+   * Callback when a count is committed (undefined = device default)
+   */
+  onParticleCountChange: (count: number | undefined) => void;
+  /**
+   * Optional CSS class name
+   */
+  className?: string;
+}
+
+/**
+ * Slider resolution; positions map logarithmically onto the count range
+ */
+const SLIDER_STEPS = 1000;
+
+/**
+ * Client-side mount detection using useSyncExternalStore
+ */
+const subscribe = () => () => {};
+const useHydrated = () => {
+  return useSyncExternalStore(
+    subscribe,
+    () => true, // Client
+    () => false, // Server
+  );
+};
+
+/**
+ * Count for a slider position, rounded to two significant digits
+ */
+const toCount = (step: number, max: number): number => {
+  const { MIN } = PARTICLE_COUNT_LIMITS;
+  const count = MIN * (max / MIN) ** (step / SLIDER_STEPS);
+  const unit = 10 ** (Math.floor(Math.log10(count)) - 1);
+  return Math.round(count / unit) * unit;
+};
+
+/**
+ * Slider position for a count
+ */
+const toStep = (count: number, max: number): number => {
+  const { MIN } = PARTICLE_COUNT_LIMITS;
+  return Math.round(
+    (Math.log(count / MIN) / Math.log(max / MIN)) * SLIDER_STEPS,
+  );
+};
+
+/**
+ * Short label for a count ("2.5k", "40k")
+ */
+const formatCount = (count: number): string =>
+  count >= 10000
+    ? `${Math.round(count / 1000)}k`
+    : `${Number((count / 1000).toFixed(1))}k`;
+
+/**
+ * ParticleCountControl Component
+ *
+ * Floating bar at the top center. The slider previews the count while
+ * dragging and commits it on release, so the particle buffers resize once
+ * per adjustment rather than on every slider step.
+ *
+ * Features:
+ * - "Auto" toggle following the device default (4000-8000), or the
+ *   adaptive count when one is given
+ * - Logarithmic slider from 1k to 500k (100k while the CPU engine runs)
+ * - Commit on pointer or key release, and on blur
+ * - Glassmorphism design matching the shape dock
+ * - Client-only rendering to prevent hydration mismatch
+ *
+ * @example
+ * ```
+ * <ParticleCountControl
+ *   particleCount={particleCount}
+ *   onParticleCountChange={setParticleCount}
+ * />
+ * ```
+ */
+export const ParticleCountControl: React.FC<ParticleCountControlProps> = ({
+  particleCount,
+  autoCount,
+  max = PARTICLE_COUNT_LIMITS.MAX,
+  onParticleCountChange,
+  className = "",
+}) => {
+  const [windowSize, config] = useResponsive();
+  const hydrated = useHydrated();
+  const [draft, setDraft] = useState<number | null>(null);
+
+  if (!hydrated) return null;
+
+  const isMobile = windowSize.isMobile;
+  const fontSize = isMobile ? "clamp(0.7rem, 3vw, 0.8rem)" : "0.85rem";
+  const isAuto = particleCount === undefined;
+  const automatic = autoCount ?? config.particleCount;
+  const shown = Math.min(draft ?? particleCount ?? automatic, max);
+
+  const commit = () => {
+    if (draft === null) return;
+    setDraft(null);
+    if (draft !== particleCount) onParticleCountChange(draft);
+  };
+
+  const panelStyle: CSSProperties = {
+    position: "absolute",
+    top: isMobile ? "70px" : "30px",
+    left: "50%",
+    transform: "translateX(-50%)",
+    zIndex: 50,
+    display: "flex",
+    alignItems: "center",
+    gap: "8px",
+    width: isMobile ? "220px" : "300px",
+    background: "rgba(15, 15, 15, 0.6)",
+    backdropFilter: "blur(16px)",
+    padding: isMobile ? "6px 12px" : "8px 16px",
+    borderRadius: isMobile ? "12px" : "18px",
+    border: "1px solid rgba(255, 255, 255, 0.08)",
+    boxShadow: "0 20px 50px rgba(0, 0, 0, 0.5)",
+    color: "#fff",
+    fontFamily: "'Outfit', sans-serif",
+    fontSize,
+  };
+
+  return (
+    <section
+      className={className}
+      style={panelStyle}
+      aria-label="Particle count"
+    >
+      <Sparkles size={isMobile ? 14 : 16} aria-hidden="true" />
+      <button
+        type="button"
+        onClick={() => {
+          setDraft(null);
+          onParticleCountChange(isAuto ? automatic : undefined);
+        }}
+        style={{
+          background: isAuto
+            ? "rgba(0, 243, 255, 0.2)"
+            : "rgba(255, 255, 255, 0.05)",
+          color: isAuto ? "#00f3ff" : "#fff",
+          border: `1px solid ${isAuto ? "rgba(0, 243, 255, 0.5)" : "rgba(255, 255, 255, 0.1)"}`,
+          borderRadius: "8px",
+          padding: "2px 8px",
+          cursor: "pointer",
+          fontFamily: "'Outfit', sans-serif",
+          fontSize,
+        }}
+        aria-pressed={isAuto}
+        title="Follow the device default and adaptive quality"
+      >
+        Auto
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={SLIDER_STEPS}
+        value={toStep(shown, max)}
+        onChange={(event) => setDraft(toCount(Number(event.target.value), max))}
+        onPointerUp={commit}
+        onKeyUp={commit}
+        onBlur={commit}
+        style={{ flex: 1, minWidth: 0, accentColor: "#00f3ff" }}
+        aria-label="Particle count"
+        aria-valuetext={`${shown} particles`}
+      />
+      <span style={{ width: "3em", textAlign: "right" }}>
+        {formatCount(shown)}
+      </span>
+    </section>
+  );
+};
+
+export default ParticleCountControl;
@@ -0,0 +1,375 @@
+"use client";
+
+/**
+ * Physics control panel
+ * Switches the particle motion, tunes forces and sets motion trails while
+ * the scene runs
+ * @module components/ui/PhysicsPanel
+ */
+
+import React, { useSyncExternalStore, type CSSProperties } from "react";
+import { Atom, Magnet, Sparkles, Trash2, Wind } from "lucide-react";
+import { useWindowSize } from "@/app/hooks/useWindowSize";
+import type {
+  MotionMode,
+  PhysicsSettings,
+  TrailSettings,
+  TrailStyle,
+} from "@/app/lib/simulation";
+
+/**
+ * Point force placed by clicking the scene
+ */
+export type ForceTool = "attractor" | "repulsor";
+
+/**
+ * Component props
+ */
+interface PhysicsPanelProps {
+  /**
+   * Current motion mode
+   */
+  motion: MotionMode;
+  /**
+   * Current physics parameters
+   */
+  physics: PhysicsSettings;
+  /**
+   * Placement tool armed for the next click, if any
+   */
+  tool: ForceTool | undefined;
+  /**
+   * Number of placed attractors and repulsors
+   */
+  forceCount: number;
+  /**
+   * Current trail settings
+   */
+  trails: TrailSettings;
+  /**
+   * Callback when the motion mode is toggled
+   */
+  onMotionChange: (motion: MotionMode) => void;
+  /**
+   * Callback with updated physics parameters
+   */
+  onPhysicsChange: (physics: PhysicsSettings) => void;
+  /**
+   * Callback when a placement tool is armed or disarmed
+   */
+  onToolChange: (tool: ForceTool | undefined) => void;
+  /**
+   * Callback to remove every placed force
+   */
+  onClearForces: () => void;
+  /**
+   * Callback with updated trail settings
+   */
+  onTrailsChange: (trails: TrailSettings) => void;
+  /**
+   * Optional CSS class name
+   */
+  className?: string;
+}
+
+/**
+ * Slider configuration per tunable parameter
+ */
+const SLIDERS = [
+  { key: "stiffness", label: "Spring", min: 0, max: 40, step: 0.5 },
+  { key: "damping", label: "Damping", min: 0, max: 10, step: 0.1 },
+  { key: "gravity", label: "Gravity", min: 0, max: 20, step: 0.5 },
+  { key: "wind", label: "Wind", min: -10, max: 10, step: 0.5 },
+  { key: "vortex", label: "Vortex", min: -10, max: 10, step: 0.5 },
+] as const;
+
+/**
+ * Trail options, off first
+ */
+const TRAIL_OPTIONS: readonly { style: TrailStyle | null; label: string }[] = [
+  { style: null, label: "Off" },
+  { style: "lines", label: "Lines" },
+  { style: "streaks", label: "Streaks" },
+];
+
+/**
+ * Slider configuration per trail parameter
+ */
+const TRAIL_SLIDERS = [
+  { key: "length", label: "Length", min: 0.1, max: 1, step: 0.05 },
+  { key: "fade", label: "Fade", min: 0, max: 4, step: 0.25 },
+] as const;
+
+/**
+ * Client-side mount detection using useSyncExternalStore
+ */
+const subscribe = () => () => {};
+const useHydrated = () => {
+  return useSyncExternalStore(
+    subscribe,
+    () => true, // Client
+    () => false, // Server
+  );
+};
+
+/**
+ * PhysicsPanel Component
+ *
+ * Floating panel on the right edge. In physics motion it exposes the spring,
+ * damping and global force parameters, and tools that arm the canvas so the
+ * next click places an attractor or repulsor. Below, trails can be
+ * switched on as lines or stretched sprites, with their length and fade.
+ *
+ * Features:
+ * - Lerp / physics motion toggle
+ * - Live sliders for spring, damping, gravity, horizontal wind and vortex
+ * - Attractor and repulsor placement tools with a clear button
+ * - Trail style (off, lines, streaks) with length and fade sliders
+ * - Glassmorphism design matching the shape dock
+ * - Client-only rendering to prevent hydration mismatch
+ *
+ * @example
+ * ```
+ * <PhysicsPanel
+ *   motion={motion}
+ *   physics={physics}
+ *   tool={tool}
+ *   forceCount={forces.length}
+ *   trails={trails}
+ *   onMotionChange={setMotion}
+ *   onPhysicsChange={setPhysics}
+ *   onToolChange={setTool}
+ *   onClearForces={() => setForces([])}
+ *   onTrailsChange={setTrails}
+ * />
+ * ```
+ */
+export const PhysicsPanel: React.FC<PhysicsPanelProps> = ({
+  motion,
+  physics,
+  tool,
+  forceCount,
+  trails,
+  onMotionChange,
+  onPhysicsChange,
+  onToolChange,
+  onClearForces,
+  onTrailsChange,
+  className = "",
+}) => {
+  const windowSize = useWindowSize();
+  const hydrated = useHydrated();
+
+  if (!hydrated) return null;
+
+  const isMobile = windowSize.isMobile;
+  const fontSize = isMobile ? "clamp(0.7rem, 3vw, 0.8rem)" : "0.85rem";
+  const iconSize = isMobile ? 14 : 16;
+  const isPhysics = motion === "physics";
+
+  const panelStyle: CSSProperties = {
+    position: "absolute",
+    top: "50%",
+    right: isMobile ? "15px" : "30px",
+    transform: "translateY(-50%)",
+    zIndex: 50,
+    display: "flex",
+    flexDirection: "column",
+    gap: "8px",
+    width: isMobile ? "150px" : "210px",
+    background: "rgba(15, 15, 15, 0.6)",
+    backdropFilter: "blur(16px)",
+    padding: isMobile ? "8px 12px" : "12px 16px",
+    borderRadius: isMobile ? "12px" : "18px",
+    border: "1px solid rgba(255, 255, 255, 0.08)",
+    boxShadow: "0 20px 50px rgba(0, 0, 0, 0.5)",
+    color: "#fff",
+    fontFamily: "'Outfit', sans-serif",
+    fontSize,
+  };
+
+  const buttonStyle = (active: boolean): CSSProperties => ({
+    flex: 1,
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: "4px",
+    background: active ? "rgba(0, 243, 255, 0.2)" : "rgba(255, 255, 255, 0.05)",
+    color: active ? "#00f3ff" : "#fff",
+    border: `1px solid ${active ? "rgba(0, 243, 255, 0.5)" : "rgba(255, 255, 255, 0.1)"}`,
+    borderRadius: "8px",
+    padding: "4px 6px",
+    cursor: "pointer",
+    fontFamily: "'Outfit', sans-serif",
+    fontSize,
+  });
+
+  const sliderValue = (key: (typeof SLIDERS)[number]["key"]): number =>
+    key === "wind" ? physics.wind[0] : physics[key];
+
+  const handleSlider = (
+    key: (typeof SLIDERS)[number]["key"],
+    value: number,
+  ) => {
+    if (key === "wind") {
+      onPhysicsChange({
+        ...physics,
+        wind: [value, physics.wind[1], physics.wind[2]],
+      });
+    } else {
+      onPhysicsChange({ ...physics, [key]: value });
+    }
+  };
+
+  const toggleTool = (next: ForceTool) => {
+    onToolChange(tool === next ? undefined : next);
+  };
+
+  return (
+    <section
+      className={className}
+      style={panelStyle}
+      aria-label="Physics controls"
+    >
+      <div style={{ display: "flex", gap: "6px" }} role="group">
+        <button
+          type="button"
+          onClick={() => onMotionChange("lerp")}
+          style={buttonStyle(!isPhysics)}
+          aria-pressed={!isPhysics}
+        >
+          Lerp
+        </button>
+        <button
+          type="button"
+          onClick={() => onMotionChange("physics")}
+          style={buttonStyle(isPhysics)}
+          aria-pressed={isPhysics}
+        >
+          <Atom size={iconSize} aria-hidden="true" />
+          Physics
+        </button>
+      </div>
+
+      {isPhysics && (
+        <>
+          {SLIDERS.map(({ key, label, min, max, step }) => (
+            <label
+              key={key}
+              style={{ display: "flex", alignItems: "center", gap: "8px" }}
+            >
+              <span style={{ width: "4.5em" }}>{label}</span>
+              <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={sliderValue(key)}
+                onChange={(event) =>
+                  handleSlider(key, Number(event.target.value))
+                }
+                style={{ flex: 1, minWidth: 0, accentColor: "#00f3ff" }}
+              />
+            </label>
+          ))}
+
+          <div style={{ display: "flex", gap: "6px" }} role="group">
+            <button
+              type="button"
+              onClick={() => toggleTool("attractor")}
+              style={buttonStyle(tool === "attractor")}
+              aria-pressed={tool === "attractor"}
+              title="Click the scene to place an attractor"
+            >
+              <Magnet size={iconSize} aria-hidden="true" />
+              {!isMobile && "Attract"}
+            </button>
+            <button
+              type="button"
+              onClick={() => toggleTool("repulsor")}
+              style={buttonStyle(tool === "repulsor")}
+              aria-pressed={tool === "repulsor"}
+              title="Click the scene to place a repulsor"
+            >
+              <Wind size={iconSize} aria-hidden="true" />
+              {!isMobile && "Repel"}
+            </button>
+            <button
+              type="button"
+              onClick={onClearForces}
+              disabled={forceCount === 0}
+              style={{
+                ...buttonStyle(false),
+                flex: "none",
+                opacity: forceCount === 0 ? 0.4 : 1,
+              }}
+              aria-label="Clear placed forces"
+            >
+              <Trash2 size={iconSize} aria-hidden="true" />
+            </button>
+          </div>
+
+          {tool && (
+            <span style={{ color: "rgba(255, 255, 255, 0.6)" }} role="status">
+              Click the scene to place a {tool}
+            </span>
+          )}
+        </>
+      )}
+
+      <div
+        style={{ display: "flex", alignItems: "center", gap: "6px" }}
+        role="group"
+        aria-label="Trails"
+      >
+        <Sparkles size={iconSize} aria-hidden="true" />
+        {TRAIL_OPTIONS.map(({ style, label }) => {
+          const active = style
+            ? trails.enabled && trails.style === style
+            : !trails.enabled;
+          return (
+            <button
+              key={label}
+              type="button"
+              onClick={() =>
+                onTrailsChange(
+                  style
+                    ? { ...trails, enabled: true, style }
+                    : { ...trails, enabled: false },
+                )
+              }
+              style={buttonStyle(active)}
+              aria-pressed={active}
+              title={style ? `${label} trails` : "No trails"}
+            >
+              {label}
+            </button>
+          );
+        })}
+      </div>
+
+      {trails.enabled &&
+        TRAIL_SLIDERS.map(({ key, label, min, max, step }) => (
+          <label
+            key={key}
+            style={{ display: "flex", alignItems: "center", gap: "8px" }}
+          >
+            <span style={{ width: "4.5em" }}>{label}</span>
+            <input
+              type="range"
+              min={min}
+              max={max}
+              step={step}
+              value={trails[key]}
+              onChange={(event) =>
+                onTrailsChange({ ...trails, [key]: Number(event.target.value) })
+              }
+              style={{ flex: 1, minWidth: 0, accentColor: "#00f3ff" }}
+            />
+          </label>
+        ))}
+    </section>
+  );
+};
+
+export default PhysicsPanel;
@@ -0,0 +1,296 @@
+"use client";
+
+/**
+ * Adaptive quality debug overlay
+ * Shows what the quality governor measures and decides
+ * @module components/ui/QualityOverlay
+ */
+
+import React, {
+  useState,
+  useSyncExternalStore,
+  type CSSProperties,
+} from "react";
+import { ChevronDown, ChevronUp, Gauge } from "lucide-react";
+import { useWindowSize } from "@/app/hooks/useWindowSize";
+import { useQualityGovernorState } from "@/app/hooks/useQualityGovernor";
+import type { ParticleRenderer } from "@/app/lib/constants";
+import type {
+  QualityGovernor,
+  QualitySettings,
+} from "@/app/lib/qualityGovernor";
+
+/**
+ * Component props
+ */
+interface QualityOverlayProps {
+  /**
+   * Governor to display and switch on or off
+   */
+  governor: QualityGovernor;
+  /**
+   * Particle count currently rendered
+   */
+  particleCount: number;
+  /**
+   * Engine the particles run on
+   */
+  renderer?: ParticleRenderer;
+  /**
+   * Callback when the GPU switch is toggled; the switch is hidden while
+   * unset
+   */
+  onRendererChange?: (renderer: ParticleRenderer) => void;
+  /**
+   * Optional CSS class name
+   */
+  className?: string;
+}
+
+/**
+ * Display names of the governed settings
+ */
+const SETTING_LABELS: Record<keyof QualitySettings, string> = {
+  particleScale: "Particles",
+  dpr: "Pixel ratio",
+  modelComplexity: "Hand model",
+};
+
+/**
+ * Client-side mount detection using useSyncExternalStore
+ */
+const subscribe = () => () => {};
+const useHydrated = () => {
+  return useSyncExternalStore(
+    subscribe,
+    () => true, // Client
+    () => false, // Server
+  );
+};
+
+/**
+ * Format a setting value for display
+ */
+const formatSetting = (
+  setting: keyof QualitySettings,
+  value: number,
+): string => {
+  if (setting === "particleScale") return `${Math.round(value * 100)}%`;
+  if (setting === "modelComplexity") return value > 0 ? "full" : "lite";
+  return `${value}x`;
+};
+
+/**
+ * QualityOverlay Component
+ *
+ * Floating debug panel in the bottom-left corner. Collapsed it shows the
+ * frame rate; expanded it lists the measurements, the governed settings
+ * and the latest decisions with the measurement behind each.
+ *
+ * Features:
+ * - Live frame rate, frame time and hand detection time
+ * - Current particle share, pixel ratio and hand model
+ * - Decision log, newest first, with time and reason
+ * - "Adaptive" switch to freeze the current settings
+ * - "GPU particles" switch between the shader and the CPU engine
+ * - Glassmorphism design matching the shape dock
+ * - Client-only rendering to prevent hydration mismatch
+ *
+ * @example
+ * ```
+ * <QualityOverlay governor={governor} particleCount={count} />
+ * ```
+ */
+export const QualityOverlay: React.FC<QualityOverlayProps> = ({
+  governor,
+  particleCount,
+  renderer,
+  onRendererChange,
+  className = "",
+}) => {
+  const windowSize = useWindowSize();
+  const hydrated = useHydrated();
+  const state = useQualityGovernorState(governor);
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+
+  if (!hydrated) return null;
+
+  const isMobile = windowSize.isMobile;
+  const fontSize = isMobile ? "clamp(0.65rem, 2.8vw, 0.75rem)" : "0.8rem";
+  const { settings, stats, options, decisions, settled } = state;
+  const fpsColor =
+    stats.fps === 0
+      ? "#fff"
+      : stats.fps >= stats.effectiveTargetFps * 0.95
+        ? "#3dff8a"
+        : stats.fps >= stats.effectiveTargetFps * 0.85
+          ? "#ffd43d"
+          : "#ff5c5c";
+
+  const panelStyle: CSSProperties = {
+    position: "absolute",
+    bottom: isMobile ? "180px" : "130px",
+    left: isMobile ? "15px" : "30px",
+    zIndex: 50,
+    display: "flex",
+    flexDirection: "column",
+    gap: "6px",
+    width: isOpen ? (isMobile ? "190px" : "250px") : "auto",
+    background: "rgba(15, 15, 15, 0.6)",
+    backdropFilter: "blur(16px)",
+    padding: isMobile ? "6px 10px" : "8px 14px",
+    borderRadius: isMobile ? "12px" : "18px",
+    border: "1px solid rgba(255, 255, 255, 0.08)",
+    boxShadow: "0 20px 50px rgba(0, 0, 0, 0.5)",
+    color: "#fff",
+    fontFamily: "'Outfit', sans-serif",
+    fontSize,
+    fontVariantNumeric: "tabular-nums",
+  };
+
+  const rowStyle: CSSProperties = {
+    display: "flex",
+    justifyContent: "space-between",
+    gap: "8px",
+  };
+
+  const mutedStyle: CSSProperties = { color: "rgba(255, 255, 255, 0.6)" };
+
+  return (
+    <section
+      className={className}
+      style={panelStyle}
+      aria-label="Adaptive quality"
+    >
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "6px",
+          background: "none",
+          border: "none",
+          padding: 0,
+          color: "#fff",
+          cursor: "pointer",
+          fontFamily: "'Outfit', sans-serif",
+          fontSize,
+        }}
+        aria-expanded={isOpen}
+        title="Adaptive quality details"
+      >
+        <Gauge size={isMobile ? 14 : 16} aria-hidden="true" />
+        <span style={{ color: fpsColor }}>
+          {stats.fps > 0 ? Math.round(stats.fps) : "--"} fps
+        </span>
+        {isOpen ? (
+          <ChevronDown size={14} aria-hidden="true" />
+        ) : (
+          <ChevronUp size={14} aria-hidden="true" />
+        )}
+      </button>
+
+      {isOpen && (
+        <>
+          <div style={rowStyle}>
+            <span style={mutedStyle}>Frame time</span>
+            <span>
+              {stats.frameTime.toFixed(1)} /{" "}
+              {(1000 / stats.effectiveTargetFps).toFixed(1)} ms
+              {stats.frameCap !== null && (
+                <span style={mutedStyle}> (capped)</span>
+              )}
+            </span>
+          </div>
+          <div style={rowStyle}>
+            <span style={mutedStyle}>Hand detection</span>
+            <span>
+              {stats.detectionLatency === null
+                ? "--"
+                : `${Math.round(stats.detectionLatency)} ms`}
+            </span>
+          </div>
+          <div style={rowStyle}>
+            <span style={mutedStyle}>{SETTING_LABELS.particleScale}</span>
+            <span>
+              {options.adjustParticles
+                ? `${particleCount} (${formatSetting("particleScale", settings.particleScale)})`
+                : `${particleCount} (manual)`}
+            </span>
+          </div>
+          <div style={rowStyle}>
+            <span style={mutedStyle}>{SETTING_LABELS.dpr}</span>
+            <span>{formatSetting("dpr", settings.dpr)}</span>
+          </div>
+          <div style={rowStyle}>
+            <span style={mutedStyle}>{SETTING_LABELS.modelComplexity}</span>
+            <span>
+              {formatSetting("modelComplexity", settings.modelComplexity)}
+            </span>
+          </div>
+
+          <label style={{ display: "flex", alignItems: "center", gap: "6px" }}>
+            <input
+              type="checkbox"
+              checked={options.enabled}
+              onChange={(event) =>
+                governor.setOptions({ enabled: event.target.checked })
+              }
+              style={{ accentColor: "#00f3ff" }}
+            />
+            Adaptive
+            {settled && options.enabled && (
+              <span style={mutedStyle}>(settled)</span>
+            )}
+          </label>
+
+          {onRendererChange && (
+            <label
+              style={{ display: "flex", alignItems: "center", gap: "6px" }}
+              title="Physics motion and trails always run on the CPU"
+            >
+              <input
+                type="checkbox"
+                checked={renderer !== "cpu"}
+                onChange={(event) =>
+                  onRendererChange(event.target.checked ? "shader" : "cpu")
+                }
+                style={{ accentColor: "#00f3ff" }}
+              />
+              GPU particles
+            </label>
+          )}
+
+          <ol
+            style={{
+              margin: 0,
+              padding: 0,
+              listStyle: "none",
+              display: "flex",
+              flexDirection: "column",
+              gap: "2px",
+            }}
+            aria-label="Quality decisions"
+          >
+            {decisions.length === 0 && (
+              <li style={mutedStyle}>No changes yet</li>
+            )}
+            {decisions.map((decision) => (
+              <li key={decision.time}>
+                <span style={mutedStyle}>{decision.time.toFixed(0)}s </span>
+                {decision.to < decision.from ? "↓" : "↑"}{" "}
+                {SETTING_LABELS[decision.setting]}{" "}
+                {formatSetting(decision.setting, decision.from)} →{" "}
+                {formatSetting(decision.setting, decision.to)}
+                <div style={mutedStyle}>{decision.reason}</div>
+              </li>
+            ))}
+          </ol>
+        </>
+      )}
+    </section>
+  );
+};
+
+export default QualityOverlay;
@@ -0,0 +1,144 @@
+"use client";
+
+/**
+ * Sampling picker for the shape dock
+ * Chooses how particles are spread over each formation
+ * @module components/ui/SamplingPicker
+ */
+
+import React, { type CSSProperties } from "react";
+import { Grid3x3 } from "lucide-react";
+import type { FillMode, SamplingSettings } from "@/app/lib/constants";
+
+/**
+ * Component props
+ */
+interface SamplingPickerProps {
+  /**
+   * Current sampling settings
+   */
+  sampling: SamplingSettings;
+  /**
+   * Callback with the updated settings
+   */
+  onChange: (sampling: SamplingSettings) => void;
+  /**
+   * Compact mobile styling
+   */
+  isMobile: boolean;
+}
+
+/**
+ * Fills in display order; shapes without the picked fill use their own
+ */
+const FILL_OPTIONS: readonly { id: FillMode; label: string }[] = [
+  { id: "surface", label: "Surface" },
+  { id: "volume", label: "Volume" },
+];
+
+/**
+ * SamplingPicker Component
+ *
+ * Inline fill, even-spacing and relaxation controls. Every change
+ * regenerates the current formation.
+ *
+ * @example
+ * ```
+ * <SamplingPicker
+ *   sampling={sampling}
+ *   onChange={setSampling}
+ *   isMobile={false}
+ * />
+ * ```
+ */
+export const SamplingPicker: React.FC<SamplingPickerProps> = ({
+  sampling,
+  onChange,
+  isMobile,
+}) => {
+  const fontSize = isMobile ? "clamp(0.75rem, 3vw, 0.85rem)" : "0.95rem";
+
+  const groupStyle: CSSProperties = {
+    display: "flex",
+    alignItems: "center",
+    gap: "6px",
+    gridColumn: isMobile ? "1 / -1" : undefined,
+    background: "rgba(255, 255, 255, 0.05)",
+    borderRadius: isMobile ? "12px" : "18px",
+    padding: "4px 10px",
+    color: "#fff",
+    fontFamily: "'Outfit', sans-serif",
+    fontSize,
+  };
+
+  const fieldStyle: CSSProperties = {
+    background: "transparent",
+    color: "#fff",
+    border: "1px solid rgba(255, 255, 255, 0.1)",
+    borderRadius: "8px",
+    padding: "4px 6px",
+    fontFamily: "'Outfit', sans-serif",
+    fontSize,
+    minWidth: 0,
+  };
+
+  const checkboxStyle: CSSProperties = {
+    display: "flex",
+    alignItems: "center",
+    gap: "4px",
+  };
+
+  return (
+    <div style={groupStyle} role="group" aria-label="Particle sampling">
+      <Grid3x3 size={isMobile ? 14 : 16} aria-hidden="true" />
+      <select
+        value={sampling.fill}
+        onChange={(event) =>
+          onChange({ ...sampling, fill: event.target.value as FillMode })
+        }
+        style={fieldStyle}
+        aria-label="Fill"
+        title="Shapes without this fill keep their own"
+      >
+        {FILL_OPTIONS.map(({ id, label }) => (
+          <option key={id} value={id}>
+            {label}
+          </option>
+        ))}
+      </select>
+      <label
+        style={checkboxStyle}
+        title="Spread particles by surface area instead of by parameter"
+      >
+        <input
+          type="checkbox"
+          checked={sampling.sampling === "area"}
+          onChange={(event) =>
+            onChange({
+              ...sampling,
+              sampling: event.target.checked ? "area" : "parameter",
+            })
+          }
+          style={{ accentColor: "#00f3ff" }}
+        />
+        Even
+      </label>
+      <label
+        style={checkboxStyle}
+        title="Relax into evenly spaced blue noise (slower to generate)"
+      >
+        <input
+          type="checkbox"
+          checked={sampling.relax}
+          onChange={(event) =>
+            onChange({ ...sampling, relax: event.target.checked })
+          }
+          style={{ accentColor: "#00f3ff" }}
+        />
+        Relax
+      </label>
+    </div>
+  );
+};
+
+export default SamplingPicker;
@@ -11,9 +11,34 @@ import React, {
   useSyncExternalStore,
   type CSSProperties,
 } from "react";
-import { Heart, Globe, Flower2, Command, type LucideIcon } from "lucide-react";
+import { ImagePlus, PenTool, SquareFunction, Upload } from "lucide-react";
 import { useWindowSize } from "@/app/hooks/useWindowSize";
-import { type ShapeType } from "@/app/lib/constants";
+import { useShapes } from "@/app/hooks/useShapes";
+import {
+  type SamplingSettings,
+  type ShapeDefinition,
+  type ShapeTransition,
+  type ShapeType,
+} from "@/app/lib/constants";
+import { MESH_FILE_EXTENSIONS } from "@/app/lib/meshes";
+import { importMeshFile } from "@/app/lib/meshes/importMesh";
+import { registerShape } from "@/app/lib/shapeRegistry";
+import { createTextShape } from "@/app/lib/shapes/text";
+import { createParametricShape } from "@/app/lib/shapes/parametric";
+import {
+  IMAGE_FILE_TYPES,
+  importImageFile,
+} from "@/app/lib/shapes/importImage";
+import type { ImageSettings } from "@/app/lib/shapes/image";
+import { SVG_FILE_TYPES } from "@/app/lib/svg";
+import { importSvgFile, importSvgPathData } from "@/app/lib/svg/importSvg";
+import { FileImportButton } from "./FileImportButton";
+import { ParametricEditor } from "./ParametricEditor";
+import { TextShapeInput } from "./TextShapeInput";
+import { TransitionPicker } from "./TransitionPicker";
+import { SamplingPicker } from "./SamplingPicker";
+import { ImagePicker } from "./ImagePicker";
+import { SvgPathInput } from "./SvgPathInput";
 
 /**
  * Component props
@@ -24,50 +49,55 @@ interface ShapeDockProps {
    */
   activeShape: ShapeType;
   /**
-   * Callback when shape is selected
+   * Callback when shape is selected, with the transition to morph by
    */
-  onShapeChange: (shape: ShapeType) => void;
+  onShapeChange: (shape: ShapeType, transition?: ShapeTransition) => void;
+  /**
+   * Transition passed along with each selection; the picker is shown
+   * when onTransitionChange is also set
+   */
+  transition?: ShapeTransition;
+  /**
+   * Callback when a transition is picked
+   */
+  onTransitionChange?: (transition: ShapeTransition) => void;
+  /**
+   * Fill, spacing and relaxation of every formation; the picker is shown
+   * when onSamplingChange is also set
+   */
+  sampling?: SamplingSettings;
+  /**
+   * Callback when sampling settings are picked
+   */
+  onSamplingChange?: (sampling: SamplingSettings) => void;
+  /**
+   * Weighting for imported images and depth of image shapes; the picker
+   * is shown when onImageChange is also set
+   */
+  image?: ImageSettings;
+  /**
+   * Callback when image settings are picked
+   */
+  onImageChange?: (image: ImageSettings) => void;
+  /**
+   * Share of particles filling SVG shapes (0-1); the path input is shown
+   * when onSvgFillChange is also set
+   */
+  svgFill?: number;
+  /**
+   * Callback when the SVG fill is picked
+   */
+  onSvgFillChange?: (fill: number) => void;
+  /**
+   * Optional handler for shape import errors
+   */
+  onError?: (error: Error) => void;
   /**
    * Optional CSS class name
    */
   className?: string;
 }
 
-/**
- * Menu item configuration
- */
-interface MenuItem {
-  id: ShapeType;
-  label: string;
-  icon: LucideIcon;
-}
-
-/**
- * Shape menu configuration with icons
- */
-const SHAPE_MENU_ITEMS: readonly MenuItem[] = [
-  {
-    id: "heart",
-    label: "Heart",
-    icon: Heart,
-  },
-  {
-    id: "sphere",
-    label: "Sphere",
-    icon: Globe,
-  },
-  {
-    id: "flower",
-    label: "Flower",
-    icon: Flower2,
-  },
-  {
-    id: "spiral",
-    label: "Spiral",
-    icon: Command,
-  },
-] as const;
-
 /**
  * Theme colors for buttons
  */
@@ -97,10 +127,12 @@ const useHydrated = () => {
  * Individual button for shape selection
  */
 interface ShapeButtonProps {
-  item: MenuItem;
+  item: Pick<ShapeDefinition, "label" | "icon">;
   isActive: boolean;
   isMobile: boolean;
   onClick: () => void;
+  /** Defaults to "Select <label> shape" */
+  ariaLabel?: string;
 }
 
 const ShapeButton: React.FC<ShapeButtonProps> = ({
@@ -108,6 +140,7 @@ const ShapeButton: React.FC<ShapeButtonProps> = ({
   isActive,
   isMobile,
   onClick,
+  ariaLabel,
 }) => {
   const [isHovered, setIsHovered] = useState<boolean>(false);
   const Icon = item.icon;
@@ -144,7 +177,7 @@ const ShapeButton: React.FC<ShapeButtonProps> = ({
       onMouseEnter={() => !isMobile && setIsHovered(true)}
       onMouseLeave={() => !isMobile && setIsHovered(false)}
       style={buttonStyle}
-      aria-label={`Select ${item.label} shape`}
+      aria-label={ariaLabel ?? `Select ${item.label} shape`}
       aria-pressed={isActive}
       type="button"
     >
@@ -158,6 +191,7 @@ const ShapeButton: React.FC<ShapeButtonProps> = ({
  * ShapeDock Component
  *
  * Floating dock menu for shape selection positioned at bottom-center.
+ * Lists every shape in the shape registry, including ones registered at runtime.
  * Adapts layout between grid (mobile) and flexbox (desktop).
  *
  * Features:
@@ -166,6 +200,13 @@ const ShapeButton: React.FC<ShapeButtonProps> = ({
  * - Active state with gradient and scale animation
  * - Hover effects on desktop
  * - Icon-only on mobile, icon + label on desktop
+ * - Mesh (OBJ/PLY/STL), image (PNG/JPEG) and SVG import registering new shapes
+ * - Text input that spells a word or phrase with particles
+ * - SVG path input tracing pasted path data, with the fill of SVG shapes
+ * - Parametric editor for custom x(u,v), y(u,v), z(u,v) shapes
+ * - Transition picker (style, easing, duration) applied to each selection
+ * - Sampling picker (fill, even spacing, relaxation)
+ * - Image picker (weighting of the next import, depth of image shapes)
  * - Client-only rendering to prevent hydration mismatch
  *
  * @example
@@ -178,12 +219,26 @@ const ShapeButton: React.FC<ShapeButtonProps> = ({
  */
 export const ShapeDock: React.FC<ShapeDockProps> = ({
   activeShape,
-  onShapeChange,
+  onShapeChange: onSelect,
+  transition,
+  onTransitionChange,
+  sampling,
+  onSamplingChange,
+  image,
+  onImageChange,
+  svgFill,
+  onSvgFillChange,
+  onError,
   className = "",
 }) => {
   const windowSize = useWindowSize();
+  const shapes = useShapes();
+  const [isEditorOpen, setIsEditorOpen] = useState<boolean>(false);
   const hydrated = useHydrated(); // ✅ FIX: Use useSyncExternalStore instead of useEffect
 
+  // Every selection morphs with the current transition
+  const onShapeChange = (shape: ShapeType) => onSelect(shape, transition);
+
   // ✅ SSR placeholder
   if (!hydrated) {
     return (
@@ -196,7 +251,11 @@ export const ShapeDock: React.FC<ShapeDockProps> = ({
           transform: "translateX(-50%)",
           zIndex: 50,
           display: "flex",
+          flexWrap: "wrap",
+          justifyContent: "center",
           gap: "12px",
+          maxWidth: "min(1200px, 94vw)",
+          width: "max-content",
           background: "rgba(15, 15, 15, 0.6)",
           backdropFilter: "blur(16px)",
           padding: "10px 15px",
@@ -207,7 +266,7 @@ export const ShapeDock: React.FC<ShapeDockProps> = ({
         role="navigation"
         aria-label="Shape selection menu"
       >
-        {SHAPE_MENU_ITEMS.map((item) => {
+        {shapes.map((item) => {
           const Icon = item.icon;
           const isActive = activeShape === item.id;
           return (
@@ -257,7 +316,9 @@ export const ShapeDock: React.FC<ShapeDockProps> = ({
     transform: "translateX(-50%)",
     zIndex: 50,
     display: windowSize.isMobile ? "grid" : "flex",
-    gridTemplateColumns: windowSize.isMobile ? "1fr 1fr" : undefined,
+    gridTemplateColumns: windowSize.isMobile ? "repeat(4, 1fr)" : undefined,
+    flexWrap: windowSize.isMobile ? undefined : "wrap",
+    justifyContent: windowSize.isMobile ? undefined : "center",
     gap: windowSize.isMobile ? "8px" : "12px",
     background: "rgba(15, 15, 15, 0.6)",
     backdropFilter: "blur(16px)",
@@ -265,26 +326,119 @@ export const ShapeDock: React.FC<ShapeDockProps> = ({
     borderRadius: windowSize.isMobile ? "16px" : "24px",
     border: "1px solid rgba(255, 255, 255, 0.08)",
     boxShadow: "0 20px 50px rgba(0, 0, 0, 0.5)",
-    maxWidth: windowSize.isMobile ? "90vw" : undefined,
+    maxWidth: windowSize.isMobile ? "90vw" : "min(1200px, 94vw)",
+    width: "max-content",
   };
 
   return (
-    <nav
-      className={className}
-      style={containerStyle}
-      role="navigation"
-      aria-label="Shape selection menu"
-    >
-      {SHAPE_MENU_ITEMS.map((item) => (
+    <>
+      {isEditorOpen && (
+        <ParametricEditor
+          onSave={(definition) => {
+            const shape = createParametricShape(definition);
+            registerShape(shape);
+            onShapeChange(shape.id);
+            setIsEditorOpen(false);
+          }}
+          onClose={() => setIsEditorOpen(false)}
+          isMobile={windowSize.isMobile}
+        />
+      )}
+      <nav
+        className={className}
+        style={containerStyle}
+        role="navigation"
+        aria-label="Shape selection menu"
+      >
+        {shapes.map((item) => (
+          <ShapeButton
+            key={item.id}
+            item={item}
+            isActive={activeShape === item.id}
+            isMobile={windowSize.isMobile}
+            onClick={() => onShapeChange(item.id)}
+          />
+        ))}
+        <FileImportButton
+          label="Import Mesh"
+          icon={Upload}
+          accept={MESH_FILE_EXTENSIONS.join(",")}
+          onFile={async (file) => onShapeChange(await importMeshFile(file))}
+          onError={onError}
+          isMobile={windowSize.isMobile}
+        />
+        <FileImportButton
+          label="Import Image"
+          icon={ImagePlus}
+          accept={IMAGE_FILE_TYPES.join(",")}
+          onFile={async (file) =>
+            onShapeChange(
+              await importImageFile(file, { weighting: image?.weighting }),
+            )
+          }
+          onError={onError}
+          isMobile={windowSize.isMobile}
+        />
+        <FileImportButton
+          label="Import SVG"
+          icon={PenTool}
+          accept={SVG_FILE_TYPES.join(",")}
+          onFile={async (file) => onShapeChange(await importSvgFile(file))}
+          onError={onError}
+          isMobile={windowSize.isMobile}
+        />
+        <TextShapeInput
+          onSubmit={(text) => {
+            const shape = createTextShape(text);
+            registerShape(shape);
+            onShapeChange(shape.id);
+          }}
+          isMobile={windowSize.isMobile}
+        />
+        {svgFill !== undefined && onSvgFillChange && (
+          <SvgPathInput
+            onSubmit={(d) => {
+              try {
+                onShapeChange(importSvgPathData(d));
+              } catch (error) {
+                onError?.(error as Error);
+              }
+            }}
+            fill={svgFill}
+            onFillChange={onSvgFillChange}
+            isMobile={windowSize.isMobile}
+          />
+        )}
         <ShapeButton
-          key={item.id}
-          item={item}
-          isActive={activeShape === item.id}
+          item={{ label: "Custom", icon: SquareFunction }}
+          isActive={isEditorOpen}
           isMobile={windowSize.isMobile}
-          onClick={() => onShapeChange(item.id)}
+          onClick={() => setIsEditorOpen((open) => !open)}
+          ariaLabel="Open parametric shape editor"
         />
-      ))}
-    </nav>
+        {transition && onTransitionChange && (
+          <TransitionPicker
+            transition={transition}
+            onChange={onTransitionChange}
+            isMobile={windowSize.isMobile}
+          />
+        )}
+        {sampling && onSamplingChange && (
+          <SamplingPicker
+            sampling={sampling}
+            onChange={onSamplingChange}
+            isMobile={windowSize.isMobile}
+          />
+        )}
+        {image && onImageChange && (
+          <ImagePicker
+            image={image}
+            onChange={onImageChange}
+            isMobile={windowSize.isMobile}
+          />
+        )}
+      </nav>
+    </>
   );
 };
 
@@ -0,0 +1,139 @@
+"use client";
+
+/**
+ * SVG path input for the shape dock
+ * Lets the user paste path data for the particles to trace, and sets how
+ * much of SVG shapes is filled
+ * @module components/ui/SvgPathInput
+ */
+
+import React, { useState, type CSSProperties } from "react";
+import { PenTool } from "lucide-react";
+
+/**
+ * Component props
+ */
+interface SvgPathInputProps {
+  /**
+   * Called with the trimmed path data when submitted
+   */
+  onSubmit: (d: string) => void;
+  /**
+   * Share of particles inside filled regions of SVG shapes (0-1)
+   */
+  fill: number;
+  /**
+   * Callback when the fill slider moves
+   */
+  onFillChange: (fill: number) => void;
+  /**
+   * Compact mobile styling
+   */
+  isMobile: boolean;
+}
+
+/**
+ * SvgPathInput Component
+ *
+ * Inline path field (an SVG `d` attribute such as "M 0 0 L 10 0 L 5 8 Z")
+ * with a submit button, and a fill slider from outline only to fully
+ * filled. Submitting an empty field is ignored.
+ *
+ * @example
+ * ```
+ * <SvgPathInput
+ *   onSubmit={(d) => showPath(d)}
+ *   fill={svgFill}
+ *   onFillChange={setSvgFill}
+ *   isMobile={false}
+ * />
+ * ```
+ */
+export const SvgPathInput: React.FC<SvgPathInputProps> = ({
+  onSubmit,
+  fill,
+  onFillChange,
+  isMobile,
+}) => {
+  const [value, setValue] = useState<string>("");
+  const fontSize = isMobile ? "clamp(0.75rem, 3vw, 0.85rem)" : "0.95rem";
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>): void => {
+    event.preventDefault();
+    const d = value.trim();
+    if (d) {
+      onSubmit(d);
+    }
+  };
+
+  const formStyle: CSSProperties = {
+    display: "flex",
+    alignItems: "center",
+    gap: "6px",
+    gridColumn: isMobile ? "1 / -1" : undefined,
+    background: "rgba(255, 255, 255, 0.05)",
+    borderRadius: isMobile ? "12px" : "18px",
+    padding: "4px 4px 4px 14px",
+    color: "#fff",
+    fontFamily: "'Outfit', sans-serif",
+    fontSize,
+  };
+
+  const inputStyle: CSSProperties = {
+    background: "transparent",
+    border: "none",
+    outline: "none",
+    color: "#fff",
+    fontFamily: "'Outfit', sans-serif",
+    fontSize,
+    width: isMobile ? "100%" : "140px",
+    minWidth: 0,
+  };
+
+  const buttonStyle: CSSProperties = {
+    background: "linear-gradient(135deg, #00f3ff 0%, #0099ff 100%)",
+    color: "#000",
+    border: "none",
+    borderRadius: isMobile ? "10px" : "14px",
+    padding: isMobile ? "8px" : "8px 10px",
+    cursor: "pointer",
+    display: "flex",
+    alignItems: "center",
+  };
+
+  return (
+    <form style={formStyle} onSubmit={handleSubmit}>
+      <input
+        type="text"
+        value={value}
+        onChange={(event) => setValue(event.target.value)}
+        placeholder="SVG path d..."
+        style={inputStyle}
+        aria-label="SVG path data for particles to trace"
+      />
+      <label
+        style={{ display: "flex", alignItems: "center", gap: "4px" }}
+        title="Share of particles filling SVG shapes instead of tracing them"
+      >
+        Fill
+        <input
+          type="range"
+          min={0}
+          max={100}
+          value={Math.round(fill * 100)}
+          onChange={(event) => onFillChange(Number(event.target.value) / 100)}
+          style={{
+            width: isMobile ? "100%" : "60px",
+            minWidth: 0,
+            accentColor: "#00f3ff",
+          }}
+        />
+      </label>
+      <button type="submit" style={buttonStyle} aria-label="Show path">
+        <PenTool size={isMobile ? 14 : 16} aria-hidden="true" />
+      </button>
+    </form>
+  );
+};
+
+export default SvgPathInput;
@@ -0,0 +1,107 @@
+"use client";
+
+/**
+ * Text shape input for the shape dock
+ * Lets the user type a word or short phrase for the particles to spell
+ * @module components/ui/TextShapeInput
+ */
+
+import React, { useState, type CSSProperties } from "react";
+import { Type } from "lucide-react";
+
+/**
+ * Component props
+ */
+interface TextShapeInputProps {
+  /**
+   * Called with the trimmed text when submitted
+   */
+  onSubmit: (text: string) => void;
+  /**
+   * Compact mobile styling
+   */
+  isMobile: boolean;
+  /**
+   * Maximum number of characters
+   * @default 24
+   */
+  maxLength?: number;
+}
+
+/**
+ * TextShapeInput Component
+ *
+ * Inline text field with a submit button. Submitting an empty field is
+ * ignored.
+ *
+ * @example
+ * ```
+ * <TextShapeInput onSubmit={(text) => showText(text)} isMobile={false} />
+ * ```
+ */
+export const TextShapeInput: React.FC<TextShapeInputProps> = ({
+  onSubmit,
+  isMobile,
+  maxLength = 24,
+}) => {
+  const [value, setValue] = useState<string>("");
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>): void => {
+    event.preventDefault();
+    const text = value.trim();
+    if (text) {
+      onSubmit(text);
+    }
+  };
+
+  const formStyle: CSSProperties = {
+    display: "flex",
+    alignItems: "center",
+    gap: "6px",
+    gridColumn: isMobile ? "1 / -1" : undefined,
+    background: "rgba(255, 255, 255, 0.05)",
+    borderRadius: isMobile ? "12px" : "18px",
+    padding: "4px 4px 4px 14px",
+  };
+
+  const inputStyle: CSSProperties = {
+    background: "transparent",
+    border: "none",
+    outline: "none",
+    color: "#fff",
+    fontFamily: "'Outfit', sans-serif",
+    fontSize: isMobile ? "clamp(0.75rem, 3vw, 0.85rem)" : "0.95rem",
+    width: isMobile ? "100%" : "140px",
+    minWidth: 0,
+  };
+
+  const buttonStyle: CSSProperties = {
+    background: "linear-gradient(135deg, #00f3ff 0%, #0099ff 100%)",
+    color: "#000",
+    border: "none",
+    borderRadius: isMobile ? "10px" : "14px",
+    padding: isMobile ? "8px" : "8px 10px",
+    cursor: "pointer",
+    display: "flex",
+    alignItems: "center",
+  };
+
+  return (
+    <form style={formStyle} onSubmit={handleSubmit}>
+      <input
+        type="text"
+        value={value}
+        onChange={(event) => setValue(event.target.value)}
+        placeholder="Type text..."
+        maxLength={maxLength}
+        style={inputStyle}
+        aria-label="Text for particles to form"
+      />
+      <button type="submit" style={buttonStyle} aria-label="Show text">
+        <Type size={isMobile ? 14 : 16} aria-hidden="true" />
+      </button>
+    </form>
+  );
+};
+
+export default TextShapeInput;
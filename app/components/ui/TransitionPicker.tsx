@@ -0,0 +1,206 @@
+"use client";
+
+/**
+ * Transition picker for the shape dock
+ * Chooses how particles travel to the next shape
+ * @module components/ui/TransitionPicker
+ */
+
+import React, { useState, type CSSProperties } from "react";
+import { Shuffle } from "lucide-react";
+import type { EasingName } from "@/app/lib/easing";
+import type { ShapeTransition, TransitionStyle } from "@/app/lib/constants";
+
+/**
+ * Component props
+ */
+interface TransitionPickerProps {
+  /**
+   * Current transition
+   */
+  transition: ShapeTransition;
+  /**
+   * Callback with the updated transition
+   */
+  onChange: (transition: ShapeTransition) => void;
+  /**
+   * Compact mobile styling
+   */
+  isMobile: boolean;
+}
+
+/**
+ * Transition styles in display order
+ */
+const STYLE_OPTIONS: readonly { id: TransitionStyle; label: string }[] = [
+  { id: "direct", label: "Direct" },
+  { id: "scatter", label: "Scatter" },
+  { id: "vortex", label: "Vortex" },
+  { id: "wave", label: "Wave" },
+  { id: "dissolve", label: "Dissolve" },
+];
+
+/**
+ * Easing curves in display order
+ */
+const EASING_OPTIONS: readonly { id: EasingName; label: string }[] = [
+  { id: "easeInOutCubic", label: "Smooth" },
+  { id: "easeOutCubic", label: "Ease out" },
+  { id: "easeInCubic", label: "Ease in" },
+  { id: "easeOutBack", label: "Overshoot" },
+  { id: "linear", label: "Linear" },
+];
+
+/**
+ * Duration range offered by the picker
+ */
+const DURATION_RANGE = { min: 0.2, max: 5, step: 0.1 } as const; // seconds
+
+/**
+ * TransitionPicker Component
+ *
+ * Inline style, easing and duration controls. The wave style also offers
+ * its stagger order. Durations outside 0.2-5 s are clamped on blur or
+ * Enter, so partial input can be typed.
+ *
+ * @example
+ * ```
+ * <TransitionPicker
+ *   transition={transition}
+ *   onChange={setTransition}
+ *   isMobile={false}
+ * />
+ * ```
+ */
+export const TransitionPicker: React.FC<TransitionPickerProps> = ({
+  transition,
+  onChange,
+  isMobile,
+}) => {
+  const fontSize = isMobile ? "clamp(0.75rem, 3vw, 0.85rem)" : "0.95rem";
+
+  // Duration text while typing; out-of-range or partial values are
+  // clamped on blur or Enter
+  const [durationDraft, setDurationDraft] = useState<string | null>(null);
+
+  const commitDuration = () => {
+    if (durationDraft === null) return;
+    setDurationDraft(null);
+    const duration = Number(durationDraft);
+    if (durationDraft.trim() === "" || !Number.isFinite(duration)) return;
+    const clamped = Math.min(
+      DURATION_RANGE.max,
+      Math.max(DURATION_RANGE.min, duration),
+    );
+    if (clamped !== transition.duration) {
+      onChange({ ...transition, duration: clamped });
+    }
+  };
+
+  const groupStyle: CSSProperties = {
+    display: "flex",
+    alignItems: "center",
+    gap: "6px",
+    gridColumn: isMobile ? "1 / -1" : undefined,
+    background: "rgba(255, 255, 255, 0.05)",
+    borderRadius: isMobile ? "12px" : "18px",
+    padding: "4px 10px",
+    color: "#fff",
+  };
+
+  const fieldStyle: CSSProperties = {
+    background: "transparent",
+    color: "#fff",
+    border: "1px solid rgba(255, 255, 255, 0.1)",
+    borderRadius: "8px",
+    padding: "4px 6px",
+    fontFamily: "'Outfit', sans-serif",
+    fontSize,
+    minWidth: 0,
+  };
+
+  return (
+    <div style={groupStyle} role="group" aria-label="Shape transition">
+      <Shuffle size={isMobile ? 14 : 16} aria-hidden="true" />
+      <select
+        value={transition.style}
+        onChange={(event) =>
+          onChange({
+            ...transition,
+            style: event.target.value as TransitionStyle,
+          })
+        }
+        style={fieldStyle}
+        aria-label="Transition style"
+      >
+        {STYLE_OPTIONS.map(({ id, label }) => (
+          <option key={id} value={id}>
+            {label}
+          </option>
+        ))}
+      </select>
+      {transition.style === "wave" && (
+        <select
+          value={transition.order ?? "index"}
+          onChange={(event) =>
+            onChange({
+              ...transition,
+              order: event.target.value as ShapeTransition["order"],
+            })
+          }
+          style={fieldStyle}
+          aria-label="Wave order"
+        >
+          <option value="index">By index</option>
+          <option value="height">By height</option>
+        </select>
+      )}
+      <select
+        value={transition.easing}
+        onChange={(event) =>
+          onChange({
+            ...transition,
+            easing: event.target.value as EasingName,
+          })
+        }
+        style={fieldStyle}
+        aria-label="Transition easing"
+      >
+        {EASING_OPTIONS.map(({ id, label }) => (
+          <option key={id} value={id}>
+            {label}
+          </option>
+        ))}
+      </select>
+      <input
+        type="number"
+        min={DURATION_RANGE.min}
+        max={DURATION_RANGE.max}
+        step={DURATION_RANGE.step}
+        value={durationDraft ?? transition.duration}
+        onChange={(event) => {
+          // In-range values (e.g. from the spinner) apply at once
+          const text = event.target.value;
+          const duration = Number(text);
+          setDurationDraft(text);
+          if (
+            text.trim() !== "" &&
+            duration >= DURATION_RANGE.min &&
+            duration <= DURATION_RANGE.max
+          ) {
+            onChange({ ...transition, duration });
+          }
+        }}
+        onBlur={commitDuration}
+        onKeyDown={(event) => {
+          if (event.key === "Enter") commitDuration();
+        }}
+        style={{ ...fieldStyle, width: "4em" }}
+        aria-label="Transition duration in seconds"
+      />
+      <span aria-hidden="true">s</span>
+    </div>
+  );
+};
+
+export default TransitionPicker;
@@ -0,0 +1,47 @@
+"use client";
+
+/**
+ * Palette registry hooks
+ * Re-render consumers when palettes are registered, edited or removed
+ * @module hooks/usePalettes
+ */
+
+import { useCallback, useSyncExternalStore } from "react";
+import type { ColorPalette } from "@/app/lib/constants";
+import {
+  getPalette,
+  getPalettes,
+  subscribeToPalettes,
+} from "@/app/lib/paletteRegistry";
+
+/**
+ * React hook returning all registered palettes
+ *
+ * @returns Ordered list of palettes
+ *
+ * @example
+ * ```
+ * const palettes = usePalettes();
+ * return palettes.map((palette) => <option key={palette.id}>{palette.name}</option>);
+ * ```
+ */
+export const usePalettes = (): readonly ColorPalette[] => {
+  return useSyncExternalStore(subscribeToPalettes, getPalettes, getPalettes);
+};
+
+/**
+ * React hook returning the current palette for an id
+ * Changes identity when the palette is edited
+ *
+ * @param id - Palette identifier (undefined for none)
+ * @returns Palette or undefined if not registered
+ */
+export const usePalette = (
+  id: string | undefined,
+): ColorPalette | undefined => {
+  const getSnapshot = useCallback(
+    () => (id === undefined ? undefined : getPalette(id)),
+    [id],
+  );
+  return useSyncExternalStore(subscribeToPalettes, getSnapshot, getSnapshot);
+};
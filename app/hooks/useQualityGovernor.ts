@@ -0,0 +1,53 @@
+"use client";
+
+/**
+ * Quality governor hooks
+ * Re-render consumers when the governor measures or decides
+ * @module hooks/useQualityGovernor
+ */
+
+import { useCallback, useSyncExternalStore } from "react";
+import type {
+  QualityGovernor,
+  QualityGovernorState,
+  QualitySettings,
+} from "@/app/lib/qualityGovernor";
+
+/**
+ * React hook returning the full governor snapshot
+ * Updates with every evaluation (twice a second); meant for displays
+ *
+ * @param governor - Governor to follow
+ * @returns Settings, measurements, options and recent decisions
+ */
+export const useQualityGovernorState = (
+  governor: QualityGovernor,
+): QualityGovernorState => {
+  return useSyncExternalStore(
+    governor.subscribe,
+    governor.getState,
+    governor.getState,
+  );
+};
+
+/**
+ * React hook returning the governed settings
+ * Only changes when the governor steps a setting
+ *
+ * @param governor - Governor to follow
+ * @returns Current quality settings
+ *
+ * @example
+ * ```
+ * const { dpr, modelComplexity } = useQualitySettings(governor);
+ * ```
+ */
+export const useQualitySettings = (
+  governor: QualityGovernor,
+): QualitySettings => {
+  const getSnapshot = useCallback(
+    () => governor.getState().settings,
+    [governor],
+  );
+  return useSyncExternalStore(governor.subscribe, getSnapshot, getSnapshot);
+};
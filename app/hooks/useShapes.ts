@@ -0,0 +1,47 @@
+"use client";
+
+/**
+ * Shape registry hooks
+ * Re-render consumers when shapes are registered or removed
+ * @module hooks/useShapes
+ */
+
+import { useCallback, useSyncExternalStore } from "react";
+import type { ShapeDefinition, ShapeType } from "@/app/lib/constants";
+import {
+  getShape,
+  getShapes,
+  subscribeToShapes,
+} from "@/app/lib/shapeRegistry";
+
+/**
+ * React hook returning all registered shapes
+ *
+ * @returns Ordered list of shape definitions
+ *
+ * @example
+ * ```
+ * const shapes = useShapes();
+ * return shapes.map((shape) => <button key={shape.id}>{shape.label}</button>);
+ * ```
+ */
+export const useShapes = (): readonly ShapeDefinition[] => {
+  return useSyncExternalStore(subscribeToShapes, getShapes, getShapes);
+};
+
+/**
+ * React hook returning the current definition for a shape id
+ * Changes identity when the shape is re-registered (e.g. new text)
+ *
+ * @param id - Shape identifier (undefined for none)
+ * @returns Shape definition or undefined if not registered
+ */
+export const useShape = (
+  id: ShapeType | undefined,
+): ShapeDefinition | undefined => {
+  const getSnapshot = useCallback(
+    () => (id === undefined ? undefined : getShape(id)),
+    [id],
+  );
+  return useSyncExternalStore(subscribeToShapes, getSnapshot, getSnapshot);
+};
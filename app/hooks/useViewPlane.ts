@@ -0,0 +1,68 @@
+"use client";
+
+/**
+ * View plane projection hook
+ * Maps normalized view coordinates into the scene through the canvas camera
+ * @module hooks/useViewPlane
+ */
+
+import { useMemo } from "react";
+import * as THREE from "three";
+import { useThree } from "@react-three/fiber";
+
+/**
+ * Projects a view position onto the scene
+ *
+ * @param x - Position across the view (0 = left, 1 = right)
+ * @param y - Position up the view (0 = bottom, 1 = top)
+ * @param point - Receives the scene-space point
+ * @param direction - Optionally receives the unit view ray direction
+ * @returns False when the ray misses the plane
+ */
+export type ViewPlaneProjection = (
+  x: number,
+  y: number,
+  point: THREE.Vector3,
+  direction?: THREE.Vector3,
+) => boolean;
+
+/**
+ * React hook projecting view positions onto the plane through the scene
+ * origin facing the camera
+ *
+ * Must be used inside a react-three-fiber Canvas. The returned function
+ * reuses its ray and plane, so it is safe to call every frame.
+ *
+ * @returns Projection function, stable while the camera is unchanged
+ *
+ * @example
+ * ```
+ * const project = useViewPlaneProjection();
+ * const point = new THREE.Vector3();
+ * if (project(sharedState.pointerX, sharedState.pointerY, point)) {
+ *   marker.position.copy(point);
+ * }
+ * ```
+ */
+export const useViewPlaneProjection = (): ViewPlaneProjection => {
+  const camera = useThree((state) => state.camera);
+
+  return useMemo(() => {
+    const raycaster = new THREE.Raycaster();
+    const ndc = new THREE.Vector2();
+    const plane = new THREE.Plane();
+    const origin = new THREE.Vector3();
+
+    return (x, y, point, direction) => {
+      ndc.set(x * 2 - 1, y * 2 - 1);
+      raycaster.setFromCamera(ndc, camera);
+      plane.setFromNormalAndCoplanarPoint(
+        camera.getWorldDirection(point).negate(),
+        origin,
+      );
+      if (!raycaster.ray.intersectPlane(plane, point)) return false;
+      direction?.copy(raycaster.ray.direction);
+      return true;
+    };
+  }, [camera]);
+};
@@ -3,22 +3,201 @@
  * @module lib/constants
  */
 
+import type { EasingName } from "./easing";
+
 // ==================== SHAPE TYPES ====================
 
 /**
- * Available particle formation shapes
+ * Identifier of a registered particle formation shape
+ * Built-in shapes are "heart", "sphere", "flower" and "spiral"; additional
+ * shapes are added at runtime through the shape registry
+ */
+export type ShapeType = string;
+
+/**
+ * Tunable parameters passed to a shape generator
+ */
+export type ShapeParams = Record<string, number>;
+
+/**
+ * Seed for reproducible shape generation
+ */
+export type ShapeSeed = number | string;
+
+/**
+ * Random number source returning values in [0, 1), like Math.random
+ */
+export type RandomSource = () => number;
+
+/**
+ * How a shape distributes particles
+ * - "surface": on the shape's surface, outline or curve
+ * - "volume": throughout the shape's interior
+ */
+export type FillMode = "surface" | "volume";
+
+/**
+ * How generators map random numbers onto a parametric surface
+ * - "parameter": uniform in the surface parameters (fast; bunches where the
+ *   surface is compressed)
+ * - "area": uniform by surface area (even density)
+ */
+export type SamplingMode = "parameter" | "area";
+
+/**
+ * Input handed to a shape generator
+ */
+export interface ShapeGeneratorContext<P extends ShapeParams = ShapeParams> {
+  /** Number of particles to generate */
+  count: number;
+  /** Shape parameters merged over the definition defaults */
+  params: P;
+  /**
+   * Random source; generators must use this instead of Math.random so that
+   * seeded generation is reproducible
+   */
+  random: RandomSource;
+  /** Requested fill, always one of the definition's supported fills */
+  fill: FillMode;
+  /** Requested sampling; shapes without a parametric surface ignore it */
+  sampling: SamplingMode;
+}
+
+/**
+ * Input handed to an animated shape on each update
+ */
+export interface ShapeAnimationContext<P extends ShapeParams = ShapeParams> {
+  /** Scene time in seconds */
+  time: number;
+  /** Shape parameters merged over the definition defaults */
+  params: P;
+  /** Current hand tracking input */
+  hand: Readonly<SharedState>;
+  /**
+   * Generated target positions in particle order (after matching), laid
+   * out as [x, y, z, ...]; must not be modified
+   */
+  base: Float32Array;
+}
+
+/**
+ * Generator output with optional per-particle attributes
+ */
+export interface ShapeSample {
+  /** Positions laid out as [x, y, z, ...], length count * 3 */
+  positions: Float32Array;
+  /**
+   * Optional per-particle linear RGB colors laid out as [r, g, b, ...]
+   * Used instead of hue-based coloring when source colors are enabled
+   */
+  colors?: Float32Array;
+  /**
+   * Optional per-particle size multipliers, one per particle (1 = base size)
+   */
+  sizes?: Float32Array;
+  /**
+   * Optional per-particle importance, one per particle in [0, 1]
+   * Scales brightness (1 = full); lower values read as background detail
+   */
+  importance?: Float32Array;
+}
+
+/**
+ * Options for generatePositions
+ */
+export interface GenerateOptions {
+  /** Overrides for the shape's default parameters */
+  params?: ShapeParams;
+  /** Seed; the same (shape, count, params, seed) always yields identical output */
+  seed?: ShapeSeed;
+  /** Preferred fill; falls back to the shape's first supported fill */
+  fill?: FillMode;
+  /** Parametric sampling mode (default "parameter") */
+  sampling?: SamplingMode;
+  /**
+   * Run a Poisson-disk relaxation pass so particles are evenly spaced
+   * (blue noise); costs roughly three generator runs
+   */
+  relax?: boolean;
+}
+
+/**
+ * How every formation is sampled; picked in the shape dock
+ */
+export type SamplingSettings = Required<
+  Pick<GenerateOptions, "fill" | "sampling" | "relax">
+>;
+
+/**
+ * Recipe for rebuilding a runtime shape inside the generation worker
+ * `factory` names a worker-side shape factory; `args` are passed to it and
+ * must be structured-cloneable
+ */
+export interface SerializedShape {
+  factory: string;
+  args: unknown[];
+}
+
+/**
+ * Self-contained definition of a particle formation shape
+ */
+export interface ShapeDefinition<P extends ShapeParams = ShapeParams> {
+  /** Unique shape identifier */
+  id: ShapeType;
+  /** Human-readable label shown in the dock */
+  label: string;
+  /** Icon shown in the dock */
+  icon: React.ComponentType<{ size?: number }>;
+  /**
+   * Position generator
+   * Returns a Float32Array of length count * 3 laid out as [x, y, z, ...],
+   * or a ShapeSample when the shape also provides per-particle colors,
+   * sizes or importance
+   */
+  generate(context: ShapeGeneratorContext<P>): Float32Array | ShapeSample;
+  /** Default generator parameters */
+  defaultParams: P;
+  /** Supported fills; the first is used when a request is not supported */
+  fills: readonly FillMode[];
+  /**
+   * Describe how to rebuild this shape off the main thread
+   * Built-in shapes need no recipe; other shapes without one are
+   * generated on the main thread
+   */
+  serialize?(): SerializedShape;
+  /**
+   * Time-varying target for animated shapes
+   * Writes base.length values into out, usually by deforming the generated
+   * positions; called every frame or at a fixed rate, so it must not
+   * allocate. Particle order is arbitrary after matching, so work from
+   * each position rather than its index.
+   */
+  animate?(context: ShapeAnimationContext<P>, out: Float32Array): void;
+  /** Id of the palette used while no palette is picked explicitly */
+  palette?: string;
+  /**
+   * Density is part of the design (weighted like images, or a fixed
+   * layout like a lattice), so relaxation is skipped
+   */
+  fixedDensity?: boolean;
+}
+
+// ==================== MESH TYPES ====================
+
+/**
+ * Indexed triangle mesh parsed from an imported model file
  */
-export type ShapeType = "heart" | "sphere" | "flower" | "spiral";
+export interface TriangleMesh {
+  /** Vertex positions laid out as [x, y, z, ...] */
+  vertices: Float32Array;
+  /** Triangle vertex indices, three per triangle */
+  indices: Uint32Array;
+}
 
 /**
- * All available shapes as a constant array
+ * Supported mesh file formats
  */
-export const SHAPES: readonly ShapeType[] = [
-  "heart",
-  "sphere",
-  "flower",
-  "spiral",
-] as const;
+export type MeshFormat = "obj" | "ply" | "stl";
 
 // ==================== WINDOW & RESPONSIVE ====================
 
@@ -108,6 +287,10 @@ export interface SharedState {
   pinchDistance: number;
   handX: number;
   handY: number;
+  /** Index fingertip across the view (0-1, mirrored like handX) */
+  pointerX: number;
+  /** Index fingertip up the view (0-1, 1 = top) */
+  pointerY: number;
 }
 
 // ==================== GESTURE TYPES ====================
@@ -117,6 +300,99 @@ export interface SharedState {
  */
 export type GestureDirection = "next" | "prev";
 
+/**
+ * Discrete, time-based particle effects
+ * - "shockwave": an expanding ring that pushes particles outward as it passes
+ * - "explode": particles fly outward, then reform
+ * - "implode": particles collapse toward the origin, then reform
+ */
+export type BurstEffectType = "shockwave" | "explode" | "implode";
+
+/**
+ * Request to fire a burst effect
+ */
+export interface BurstRequest {
+  /** Increases with every request so repeated effects are distinct */
+  id: number;
+  type: BurstEffectType;
+  /** Fire from the formation center or from the tracked fingertip */
+  origin: "center" | "hand";
+}
+
+// ==================== TRANSITION TYPES ====================
+
+/**
+ * How particles travel to a new shape
+ * - "direct": straight paths
+ * - "scatter": fly apart, then reform
+ * - "vortex": one swirl about the vertical axis, drawn in toward it
+ * - "wave": staggered by particle index or height, with a lift
+ * - "dissolve": shrink away in random order and reappear in place
+ */
+export type TransitionStyle =
+  | "direct"
+  | "scatter"
+  | "vortex"
+  | "wave"
+  | "dissolve";
+
+/**
+ * Transition passed along with a shape change
+ */
+export interface ShapeTransition {
+  style: TransitionStyle;
+  /** Length in seconds */
+  duration: number;
+  /** Curve applied to each particle's progress */
+  easing: EasingName;
+  /**
+   * Stagger order for "wave": by particle index or bottom to top
+   * @default "index"
+   */
+  order?: "index" | "height";
+}
+
+// ==================== COLOR TYPES ====================
+
+/**
+ * Per-particle value a palette is looked up by
+ * - "hand": hand x position plus an index shift; dim while no hand
+ * - "index": particle index
+ * - "height": height within the formation
+ * - "radial": distance from the formation center
+ * - "velocity": current speed
+ * - "depth": distance from the camera
+ */
+export type ColorMapping =
+  | "hand"
+  | "index"
+  | "height"
+  | "radial"
+  | "velocity"
+  | "depth";
+
+/**
+ * Gradient stop of a palette
+ */
+export interface PaletteStop {
+  /** Position along the gradient (0-1) */
+  position: number;
+  /** sRGB hex color, e.g. "#ff8800" */
+  color: string;
+}
+
+/**
+ * Named gradient particles are colored from
+ */
+export interface ColorPalette {
+  /** Unique palette identifier */
+  id: string;
+  /** Human-readable name */
+  name: string;
+  /** At least two stops, sorted by position */
+  stops: readonly PaletteStop[];
+}
+
 // ==================== UI TYPES ====================
 
 /**
@@ -128,6 +404,13 @@ export interface MenuItem<T = ShapeType> {
   icon: React.ComponentType<{ size?: number }>;
 }
 
+/**
+ * Where per-particle motion and coloring are computed
+ * - "shader": in the vertex shader (ShaderSimulation)
+ * - "cpu": in typed arrays uploaded each frame (ParticleSimulation)
+ */
+export type ParticleRenderer = "shader" | "cpu";
+
 // ==================== CONSTANTS ====================
 
 /**
@@ -136,6 +419,12 @@ export interface MenuItem<T = ShapeType> {
 export const GESTURE_CONSTANTS = {
   SWIPE_THRESHOLD: 0.06,
   SWIPE_COOLDOWN: 800, // milliseconds
+  BURST_COOLDOWN: 1000, // milliseconds
+  PINCH_CLOSED: 0.2,
+  PINCH_RELEASED: 0.9,
+  PINCH_RELEASE_WINDOW: 300, // milliseconds
+  FIST_RATIO: 1.1, // fingertip-to-wrist distance / palm length
+  CLAP_DISTANCE: 0.15,
   PINCH_MIN_DISTANCE: 0.02,
   PINCH_SCALE_FACTOR: 7,
   PINCH_MAX_VALUE: 1.5,
@@ -149,8 +438,7 @@ export const ANIMATION_CONSTANTS = {
   LERP_SPEED_DESKTOP: 4.0,
   ROTATION_SPEED_MOBILE: 0.0005,
   ROTATION_SPEED_DESKTOP: 0.001,
-  NOISE_AMPLITUDE: 0.05,
-  NOISE_FREQUENCY: 2,
+  SHAPE_ANIMATION_RATE: 30, // updates per second
 } as const;
 
 /**
@@ -163,6 +451,8 @@ export const COLOR_CONSTANTS = {
   INACTIVE_SATURATION: 0.1,
   INACTIVE_LIGHTNESS: 0.2,
   HUE_SHIFT_RANGE: 0.2,
+  MIN_IMPORTANCE_BRIGHTNESS: 0.3,
+  VELOCITY_RANGE: 8, // units per second at the end of the palette
 } as const;
 
 /**
@@ -171,6 +461,8 @@ export const COLOR_CONSTANTS = {
 export const TRACKING_CONSTANTS = {
   STATUS_UPDATE_INTERVAL: 200, // milliseconds
   HAND_X_LERP: 0.1,
+  HAND_Y_LERP: 0.1,
+  POINTER_LERP: 0.5,
   PINCH_LERP_ACTIVE: 0.2,
   PINCH_LERP_INACTIVE: 0.05,
 } as const;
@@ -183,6 +475,15 @@ export const BREAKPOINTS = {
   TABLET: 1024,
 } as const;
 
+/**
+ * Range of the particle count setting
+ */
+export const PARTICLE_COUNT_LIMITS = {
+  MIN: 1000,
+  MAX: 500000,
+  CPU_MAX: 100000, // highest count with the CPU engine (physics, trails)
+} as const;
+
 /**
  * MediaPipe CDN URLs
  */
@@ -231,12 +532,25 @@ export const DEFAULT_CONFIGS: Record<
 } as const;
 
 /**
- * Ordered list of all available shapes
- * Used for cycling through shapes with gestures
+ * Shape used when an unknown shape is requested and on first render
+ */
+export const DEFAULT_SHAPE: ShapeType = "sphere";
+
+/**
+ * Sampling the app starts with: evenly spread by area, so curved surfaces
+ * don't bunch particles; relaxation is opt-in
+ */
+export const DEFAULT_SAMPLING_SETTINGS: SamplingSettings = {
+  fill: "surface",
+  sampling: "area",
+  relax: false,
+};
+
+/**
+ * Transition used when a shape change doesn't specify one
  */
-export const SHAPE_LIST: readonly ShapeType[] = [
-  "heart",
-  "sphere",
-  "flower",
-  "spiral",
-] as const;
+export const DEFAULT_SHAPE_TRANSITION: ShapeTransition = {
+  style: "direct",
+  duration: 1.2, // seconds
+  easing: "easeInOutCubic",
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { matchTargets } from "./correspondence";
+import { createRandom } from "./random";
+
+/**
+ * Random points in the unit cube
+ */
+const randomCloud = (count: number, seed: number): Float32Array => {
+  const random = createRandom(seed);
+  return Float32Array.from({ length: count * 3 }, () => random());
+};
+
+/**
+ * Summed squared distance from each current position to its target
+ */
+const totalTravel = (current: Float32Array, target: Float32Array): number => {
+  let total = 0;
+  for (let i = 0; i < current.length; i++) {
+    total += (current[i] - target[i]) ** 2;
+  }
+  return total;
+};
+
+describe("matchTargets", () => {
+  it("travels far less than assigning targets by index", () => {
+    const current = randomCloud(2000, 1);
+    const target = { positions: randomCloud(2000, 2) };
+    const matched = matchTargets(current, target);
+
+    expect(totalTravel(current, matched.positions)).toBeLessThan(
+      0.25 * totalTravel(current, target.positions),
+    );
+  });
+
+  it("only reorders the target", () => {
+    const current = randomCloud(500, 3);
+    const target = { positions: randomCloud(500, 4) };
+    const matched = matchTargets(current, target);
+
+    expect(Array.from(matched.positions).sort()).toEqual(
+      Array.from(target.positions).sort(),
+    );
+  });
+
+  it("carries per-particle attributes with their positions", () => {
+    const current = randomCloud(200, 5);
+    const positions = randomCloud(200, 6);
+    // Each particle's size is its target's x coordinate
+    const sizes = Float32Array.from(
+      { length: 200 },
+      (_, i) => positions[i * 3],
+    );
+    const matched = matchTargets(current, { positions, sizes });
+
+    for (let i = 0; i < 200; i++) {
+      expect(matched.sizes?.[i]).toBe(matched.positions[i * 3]);
+    }
+  });
+
+  it("keeps targets beyond the current count in order at the end", () => {
+    const current = randomCloud(100, 7);
+    const target = { positions: randomCloud(150, 8) };
+    const matched = matchTargets(current, target);
+
+    expect(Array.from(matched.positions.subarray(300))).toEqual(
+      Array.from(target.positions.subarray(300)),
+    );
+  });
+});
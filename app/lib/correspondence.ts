@@ -0,0 +1,151 @@
+/**
+ * Particle correspondence for morphing
+ * Reorders a target formation so each particle travels to a nearby target
+ * @module lib/correspondence
+ */
+
+import type { ShapeSample } from "./constants";
+import { selectParticles } from "./sampleAttributes";
+
+/**
+ * Bits per axis of the Morton (Z-order) key
+ */
+const MORTON_BITS = 10;
+
+/**
+ * Following particles (in curve order) tried as swap partners during refinement
+ */
+const REFINE_WINDOW = 16;
+
+/**
+ * Refinement sweeps over the whole formation
+ */
+const REFINE_PASSES = 2;
+
+/**
+ * Spread the low 10 bits of n so there are two zero bits between each
+ */
+const spreadBits = (n: number): number => {
+  let x = n & 0x3ff;
+  x = (x | (x << 16)) & 0x030000ff;
+  x = (x | (x << 8)) & 0x0300f00f;
+  x = (x | (x << 4)) & 0x030c30c3;
+  x = (x | (x << 2)) & 0x09249249;
+  return x;
+};
+
+/**
+ * Indices of points sorted along a Morton curve over a shared bounding box
+ */
+const mortonOrder = (
+  positions: Float32Array,
+  count: number,
+  min: readonly number[],
+  scale: readonly number[],
+): Uint32Array => {
+  const maxCell = (1 << MORTON_BITS) - 1;
+  const keys = new Uint32Array(count);
+
+  for (let i = 0; i < count; i++) {
+    const cell = (axis: number) =>
+      Math.min(
+        maxCell,
+        Math.max(
+          0,
+          Math.floor((positions[i * 3 + axis] - min[axis]) * scale[axis]),
+        ),
+      );
+    keys[i] =
+      (spreadBits(cell(0)) |
+        (spreadBits(cell(1)) << 1) |
+        (spreadBits(cell(2)) << 2)) >>>
+      0;
+  }
+
+  const order = Array.from({ length: count }, (_, i) => i);
+  order.sort((a, b) => keys[a] - keys[b]);
+  return Uint32Array.from(order);
+};
+
+/**
+ * Reorder a target sample so particle i moves to a nearby target
+ *
+ * Both formations are sorted along the same Morton curve and paired by
+ * rank, which keeps neighborhoods together. A local refinement pass then
+ * swaps targets between particles close on the curve whenever that
+ * shortens their combined squared travel. Runs in O(n log n), a few tens
+ * of milliseconds for 8000 particles.
+ *
+ * @param current - Current particle positions laid out as [x, y, z, ...]
+ * @param target - Generated target sample (same particle count)
+ * @returns Target sample with positions and attributes reordered
+ *
+ * @example
+ * ```
+ * const next = matchTargets(currentPositions, generateShape("heart", count));
+ * ```
+ */
+export const matchTargets = (
+  current: Float32Array,
+  target: ShapeSample,
+): ShapeSample => {
+  const targetCount = target.positions.length / 3;
+  const count = Math.min(current.length / 3, targetCount);
+  if (count === 0) return target;
+
+  // Shared bounding box so both curves traverse the same space
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (const positions of [current, target.positions]) {
+    for (let i = 0; i < count * 3; i++) {
+      const axis = i % 3;
+      const value = positions[i];
+      if (value < min[axis]) min[axis] = value;
+      if (value > max[axis]) max[axis] = value;
+    }
+  }
+  const scale = min.map((low, axis) => {
+    const extent = max[axis] - low;
+    return extent > 0 ? ((1 << MORTON_BITS) - 1) / extent : 0;
+  });
+
+  const currentOrder = mortonOrder(current, count, min, scale);
+  const targetOrder = mortonOrder(target.positions, count, min, scale);
+
+  // assignment[i] = target index for particle i; targets beyond the
+  // current particle count keep their order at the end
+  const assignment = new Uint32Array(targetCount);
+  for (let i = count; i < targetCount; i++) {
+    assignment[i] = i;
+  }
+  for (let k = 0; k < count; k++) {
+    assignment[currentOrder[k]] = targetOrder[k];
+  }
+
+  const travel = (particle: number, targetIndex: number): number => {
+    const dx = current[particle * 3] - target.positions[targetIndex * 3];
+    const dy =
+      current[particle * 3 + 1] - target.positions[targetIndex * 3 + 1];
+    const dz =
+      current[particle * 3 + 2] - target.positions[targetIndex * 3 + 2];
+    return dx * dx + dy * dy + dz * dz;
+  };
+
+  for (let pass = 0; pass < REFINE_PASSES; pass++) {
+    for (let k = 0; k < count; k++) {
+      const a = currentOrder[k];
+      const end = Math.min(count, k + REFINE_WINDOW + 1);
+      for (let m = k + 1; m < end; m++) {
+        const b = currentOrder[m];
+        const ta = assignment[a];
+        const tb = assignment[b];
+        if (travel(a, tb) + travel(b, ta) < travel(a, ta) + travel(b, tb)) {
+          assignment[a] = tb;
+          assignment[b] = ta;
+        }
+      }
+    }
+  }
+
+  return selectParticles(target, assignment);
+};
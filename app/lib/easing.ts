@@ -0,0 +1,42 @@
+/**
+ * Easing curves
+ * Map normalized progress (0-1) to eased progress for timed effects
+ * @module lib/easing
+ */
+
+/**
+ * Available easing curves
+ */
+export type EasingName =
+  | "linear"
+  | "easeInCubic"
+  | "easeOutCubic"
+  | "easeInOutCubic"
+  | "easeOutBack";
+
+/**
+ * Easing functions by name; each maps 0 to 0 and 1 to 1
+ */
+export const EASINGS: Readonly<Record<EasingName, (t: number) => number>> = {
+  linear: (t) => t,
+  easeInCubic: (t) => t * t * t,
+  easeOutCubic: (t) => 1 - (1 - t) ** 3,
+  easeInOutCubic: (t) => (t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2),
+  // Overshoots slightly before settling
+  easeOutBack: (t) => 1 + 2.70158 * (t - 1) ** 3 + 1.70158 * (t - 1) ** 2,
+};
+
+/**
+ * Ease clamped progress
+ *
+ * @param name - Easing curve
+ * @param t - Progress; clamped to 0-1
+ * @returns Eased progress
+ *
+ * @example
+ * ```
+ * ease("easeOutCubic", 0.5); // 0.875
+ * ```
+ */
+export const ease = (name: EasingName, t: number): number =>
+  EASINGS[name](Math.max(0, Math.min(1, t)));
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { compileExpression } from "./expression";
+
+describe("compileExpression", () => {
+  it("evaluates operators with precedence and right-associative powers", () => {
+    expect(compileExpression("1 + 2 * 3", [])({})).toBe(7);
+    expect(compileExpression("2 ^ 3 ^ 2", [])({})).toBe(512);
+    expect(compileExpression("-(1 - 4) / 3", [])({})).toBe(1);
+  });
+
+  it("reads variables, constants and functions", () => {
+    const x = compileExpression("16 * sin(u)^3", ["u", "v"]);
+    expect(x({ u: Math.PI / 2, v: 0 })).toBeCloseTo(16);
+    expect(compileExpression("tau / pi", [])({})).toBeCloseTo(2);
+    expect(compileExpression("max(u, v, 3)", ["u", "v"])({ u: 1, v: 2 })).toBe(
+      3,
+    );
+  });
+
+  it("is case-insensitive for function names", () => {
+    expect(compileExpression("SQRT(16)", [])({})).toBe(4);
+  });
+
+  it("rejects unknown variables and functions", () => {
+    expect(() => compileExpression("w + 1", ["u", "v"])).toThrow(/w/);
+    expect(() => compileExpression("foo(1)", [])).toThrow(/foo/);
+  });
+
+  it("rejects inherited object names", () => {
+    for (const source of [
+      "constructor",
+      "__proto__",
+      "toString",
+      "constructor(1)",
+      "hasOwnProperty(1)",
+      "valueOf()",
+    ]) {
+      expect(() => compileExpression(source, ["u"]), source).toThrow();
+    }
+  });
+
+  it("rejects empty and malformed input", () => {
+    expect(() => compileExpression("  ", [])).toThrow("Expression is empty");
+    expect(() => compileExpression("1 +", [])).toThrow();
+    expect(() => compileExpression("(1", [])).toThrow();
+    expect(() => compileExpression("sin(1, 2)", [])).toThrow();
+  });
+});
@@ -0,0 +1,353 @@
+/**
+ * Safe math expression evaluator
+ * Parses user-entered formulas into closures without eval or Function
+ * @module lib/expression
+ */
+
+/**
+ * Compiled expression evaluated against a variable scope
+ */
+export type CompiledExpression = (
+  scope: Readonly<Record<string, number>>,
+) => number;
+
+/**
+ * Expression syntax tree
+ */
+type ExpressionNode =
+  | { type: "number"; value: number }
+  | { type: "variable"; name: string; position: number }
+  | { type: "unary"; operator: "-" | "+"; operand: ExpressionNode }
+  | {
+      type: "binary";
+      operator: "+" | "-" | "*" | "/" | "^";
+      left: ExpressionNode;
+      right: ExpressionNode;
+    }
+  | {
+      type: "call";
+      name: string;
+      args: ExpressionNode[];
+      position: number;
+    };
+
+/**
+ * Lexical token
+ */
+interface Token {
+  type: "number" | "identifier" | "operator" | "paren" | "comma" | "end";
+  value: string;
+  position: number;
+}
+
+/**
+ * Named constants available in every expression
+ */
+const EXPRESSION_CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  tau: Math.PI * 2,
+  e: Math.E,
+};
+
+/**
+ * Functions available in expressions with their accepted argument counts
+ */
+const EXPRESSION_FUNCTIONS: Record<
+  string,
+  { arity: [number, number]; fn: (...args: number[]) => number }
+> = {
+  sin: { arity: [1, 1], fn: Math.sin },
+  cos: { arity: [1, 1], fn: Math.cos },
+  tan: { arity: [1, 1], fn: Math.tan },
+  asin: { arity: [1, 1], fn: Math.asin },
+  acos: { arity: [1, 1], fn: Math.acos },
+  atan: { arity: [1, 1], fn: Math.atan },
+  atan2: { arity: [2, 2], fn: Math.atan2 },
+  sinh: { arity: [1, 1], fn: Math.sinh },
+  cosh: { arity: [1, 1], fn: Math.cosh },
+  tanh: { arity: [1, 1], fn: Math.tanh },
+  sqrt: { arity: [1, 1], fn: Math.sqrt },
+  cbrt: { arity: [1, 1], fn: Math.cbrt },
+  abs: { arity: [1, 1], fn: Math.abs },
+  exp: { arity: [1, 1], fn: Math.exp },
+  log: { arity: [1, 1], fn: Math.log },
+  floor: { arity: [1, 1], fn: Math.floor },
+  ceil: { arity: [1, 1], fn: Math.ceil },
+  round: { arity: [1, 1], fn: Math.round },
+  sign: { arity: [1, 1], fn: Math.sign },
+  pow: { arity: [2, 2], fn: Math.pow },
+  min: { arity: [1, 8], fn: Math.min },
+  max: { arity: [1, 8], fn: Math.max },
+};
+
+/**
+ * Split an expression into tokens
+ *
+ * @param source - Expression text
+ * @returns Tokens terminated by an "end" token
+ */
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const number = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(
+      source.slice(i),
+    );
+    if (number) {
+      tokens.push({ type: "number", value: number[0], position: i });
+      i += number[0].length;
+      continue;
+    }
+
+    const identifier = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i));
+    if (identifier) {
+      tokens.push({ type: "identifier", value: identifier[0], position: i });
+      i += identifier[0].length;
+      continue;
+    }
+
+    if ("+-*/^".includes(char)) {
+      tokens.push({ type: "operator", value: char, position: i });
+    } else if (char === "(" || char === ")") {
+      tokens.push({ type: "paren", value: char, position: i });
+    } else if (char === ",") {
+      tokens.push({ type: "comma", value: char, position: i });
+    } else {
+      throw new Error(`Unexpected character "${char}" at position ${i + 1}`);
+    }
+    i++;
+  }
+
+  tokens.push({ type: "end", value: "", position: source.length });
+  return tokens;
+};
+
+/**
+ * Recursive-descent parser
+ *
+ * Grammar (lowest to highest precedence):
+ *   additive       = multiplicative (("+" | "-") multiplicative)*
+ *   multiplicative = unary (("*" | "/") unary)*
+ *   unary          = ("-" | "+") unary | power
+ *   power          = primary ("^" unary)?       (right-associative)
+ *   primary        = number | identifier | call | "(" additive ")"
+ *
+ * @param tokens - Token stream
+ * @returns Syntax tree
+ */
+const parseTokens = (tokens: Token[]): ExpressionNode => {
+  let index = 0;
+  const peek = (): Token => tokens[index];
+  const next = (): Token => tokens[index++];
+
+  const describe = (token: Token): string =>
+    token.type === "end"
+      ? "end of expression"
+      : `"${token.value}" at position ${token.position + 1}`;
+
+  const expect = (type: Token["type"], value: string): void => {
+    const token = next();
+    if (token.type !== type || token.value !== value) {
+      throw new Error(`Expected "${value}" but found ${describe(token)}`);
+    }
+  };
+
+  const parseAdditive = (): ExpressionNode => {
+    let left = parseMultiplicative();
+    while (peek().type === "operator" && "+-".includes(peek().value)) {
+      const operator = next().value as "+" | "-";
+      left = { type: "binary", operator, left, right: parseMultiplicative() };
+    }
+    return left;
+  };
+
+  const parseMultiplicative = (): ExpressionNode => {
+    let left = parseUnary();
+    while (peek().type === "operator" && "*/".includes(peek().value)) {
+      const operator = next().value as "*" | "/";
+      left = { type: "binary", operator, left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  const parseUnary = (): ExpressionNode => {
+    if (peek().type === "operator" && "+-".includes(peek().value)) {
+      const operator = next().value as "+" | "-";
+      return { type: "unary", operator, operand: parseUnary() };
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): ExpressionNode => {
+    const base = parsePrimary();
+    if (peek().type === "operator" && peek().value === "^") {
+      next();
+      return { type: "binary", operator: "^", left: base, right: parseUnary() };
+    }
+    return base;
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = next();
+
+    if (token.type === "number") {
+      return { type: "number", value: parseFloat(token.value) };
+    }
+
+    if (token.type === "identifier") {
+      if (peek().type === "paren" && peek().value === "(") {
+        next();
+        const args: ExpressionNode[] = [];
+        if (!(peek().type === "paren" && peek().value === ")")) {
+          args.push(parseAdditive());
+          while (peek().type === "comma") {
+            next();
+            args.push(parseAdditive());
+          }
+        }
+        expect("paren", ")");
+        return {
+          type: "call",
+          name: token.value,
+          args,
+          position: token.position,
+        };
+      }
+      return { type: "variable", name: token.value, position: token.position };
+    }
+
+    if (token.type === "paren" && token.value === "(") {
+      const inner = parseAdditive();
+      expect("paren", ")");
+      return inner;
+    }
+
+    throw new Error(`Unexpected ${describe(token)}`);
+  };
+
+  const tree = parseAdditive();
+  if (peek().type !== "end") {
+    throw new Error(`Unexpected ${describe(peek())}`);
+  }
+  return tree;
+};
+
+/**
+ * Turn a syntax tree into a closure, validating names up front
+ *
+ * @param node - Syntax tree
+ * @param variables - Allowed variable names
+ * @returns Compiled expression
+ */
+const compileNode = (
+  node: ExpressionNode,
+  variables: readonly string[],
+): CompiledExpression => {
+  switch (node.type) {
+    case "number": {
+      const value = node.value;
+      return () => value;
+    }
+
+    case "variable": {
+      const name = node.name.toLowerCase();
+      if (variables.includes(node.name)) {
+        const variable = node.name;
+        return (scope) => scope[variable];
+      }
+      // Own keys only, so "constructor" or "__proto__" stay unknown
+      if (Object.hasOwn(EXPRESSION_CONSTANTS, name)) {
+        const value = EXPRESSION_CONSTANTS[name];
+        return () => value;
+      }
+      throw new Error(
+        `Unknown variable "${node.name}" at position ${node.position + 1}` +
+          ` (available: ${[...variables, ...Object.keys(EXPRESSION_CONSTANTS)].join(", ")})`,
+      );
+    }
+
+    case "unary": {
+      const operand = compileNode(node.operand, variables);
+      return node.operator === "-" ? (scope) => -operand(scope) : operand;
+    }
+
+    case "binary": {
+      const left = compileNode(node.left, variables);
+      const right = compileNode(node.right, variables);
+      switch (node.operator) {
+        case "+":
+          return (scope) => left(scope) + right(scope);
+        case "-":
+          return (scope) => left(scope) - right(scope);
+        case "*":
+          return (scope) => left(scope) * right(scope);
+        case "/":
+          return (scope) => left(scope) / right(scope);
+        case "^":
+          return (scope) => Math.pow(left(scope), right(scope));
+      }
+    }
+
+    case "call": {
+      const name = node.name.toLowerCase();
+      const entry = Object.hasOwn(EXPRESSION_FUNCTIONS, name)
+        ? EXPRESSION_FUNCTIONS[name]
+        : undefined;
+      if (!entry) {
+        throw new Error(
+          `Unknown function "${node.name}" at position ${node.position + 1}`,
+        );
+      }
+      const [minArgs, maxArgs] = entry.arity;
+      if (node.args.length < minArgs || node.args.length > maxArgs) {
+        const expected =
+          minArgs === maxArgs ? `${minArgs}` : `${minArgs}-${maxArgs}`;
+        throw new Error(
+          `${node.name}() expects ${expected} argument(s), got ${node.args.length}`,
+        );
+      }
+      const args = node.args.map((arg) => compileNode(arg, variables));
+      const fn = entry.fn;
+      if (args.length === 1) {
+        const [arg] = args;
+        return (scope) => fn(arg(scope));
+      }
+      return (scope) => fn(...args.map((arg) => arg(scope)));
+    }
+  }
+};
+
+/**
+ * Compile a math expression into a safe evaluator
+ *
+ * Supports numbers, + - * / ^, parentheses, the constants pi, tau and e,
+ * and common Math functions (sin, cos, sqrt, pow, min, max, ...).
+ * Throws an Error describing the first syntax or validation problem.
+ *
+ * @param source - Expression text
+ * @param variables - Variable names the expression may reference
+ * @returns Compiled expression
+ *
+ * @example
+ * ```
+ * const x = compileExpression("16 * sin(u)^3", ["u", "v"]);
+ * x({ u: Math.PI / 2, v: 0 }); // 16
+ * ```
+ */
+export const compileExpression = (
+  source: string,
+  variables: readonly string[],
+): CompiledExpression => {
+  if (source.trim() === "") {
+    throw new Error("Expression is empty");
+  }
+  return compileNode(parseTokens(tokenize(source)), variables);
+};
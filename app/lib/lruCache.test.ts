@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { createLruCache } from "./lruCache";
+
+describe("createLruCache", () => {
+  it("evicts the oldest entry when over capacity", () => {
+    const cache = createLruCache<number>(2);
+    cache.set("a", 1);
+    cache.set("b", 2);
+    cache.set("c", 3);
+
+    expect(cache.get("a")).toBeUndefined();
+    expect(cache.get("b")).toBe(2);
+    expect(cache.get("c")).toBe(3);
+    expect(cache.size).toBe(2);
+  });
+
+  it("counts a read as a use", () => {
+    const cache = createLruCache<number>(2);
+    cache.set("a", 1);
+    cache.set("b", 2);
+    cache.get("a");
+    cache.set("c", 3);
+
+    expect(cache.get("a")).toBe(1);
+    expect(cache.get("b")).toBeUndefined();
+  });
+
+  it("counts a replacement as a use without growing", () => {
+    const cache = createLruCache<number>(2);
+    cache.set("a", 1);
+    cache.set("b", 2);
+    cache.set("a", 10);
+    cache.set("c", 3);
+
+    expect(cache.get("a")).toBe(10);
+    expect(cache.get("b")).toBeUndefined();
+    expect(cache.size).toBe(2);
+  });
+
+  it("empties on clear", () => {
+    const cache = createLruCache<number>(2);
+    cache.set("a", 1);
+    cache.clear();
+
+    expect(cache.size).toBe(0);
+    expect(cache.get("a")).toBeUndefined();
+  });
+});
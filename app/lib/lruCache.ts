@@ -0,0 +1,63 @@
+/**
+ * Least-recently-used cache
+ * @module lib/lruCache
+ */
+
+/**
+ * String-keyed cache that evicts the least recently used entry when full
+ */
+export interface LruCache<V> {
+  /** Look up a value and mark it as most recently used */
+  get(key: string): V | undefined;
+  /** Insert or replace a value, evicting the oldest entry when over capacity */
+  set(key: string, value: V): void;
+  /** Remove every entry */
+  clear(): void;
+  /** Number of cached entries */
+  readonly size: number;
+}
+
+/**
+ * Create an LRU cache
+ * Relies on Map preserving insertion order: the first key is the oldest
+ *
+ * @param capacity - Maximum number of entries
+ * @returns Cache instance
+ *
+ * @example
+ * ```
+ * const cache = createLruCache<Float32Array>(2);
+ * cache.set("a", a);
+ * cache.set("b", b);
+ * cache.get("a");
+ * cache.set("c", c); // evicts "b"
+ * ```
+ */
+export const createLruCache = <V>(capacity: number): LruCache<V> => {
+  const entries = new Map<string, V>();
+
+  return {
+    get(key) {
+      const value = entries.get(key);
+      if (value !== undefined) {
+        entries.delete(key);
+        entries.set(key, value);
+      }
+      return value;
+    },
+    set(key, value) {
+      entries.delete(key);
+      entries.set(key, value);
+      while (entries.size > capacity) {
+        const oldest = entries.keys().next().value as string;
+        entries.delete(oldest);
+      }
+    },
+    clear() {
+      entries.clear();
+    },
+    get size() {
+      return entries.size;
+    },
+  };
+};
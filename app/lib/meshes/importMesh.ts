@@ -0,0 +1,31 @@
+/**
+ * Mesh file import
+ * Parses an uploaded model file and registers it as a selectable shape
+ * @module lib/meshes/importMesh
+ */
+
+import type { ShapeType } from "../constants";
+import { registerShape } from "../shapeRegistry";
+import { createMeshShape } from "../shapes/mesh";
+import { detectMeshFormat, parseMesh } from "./index";
+
+/**
+ * Import a mesh file as a shape
+ * Importing a file with the same name again replaces the earlier shape
+ *
+ * @param file - OBJ, PLY or STL file
+ * @returns Id of the registered shape
+ */
+export const importMeshFile = async (file: File): Promise<ShapeType> => {
+  const format = detectMeshFormat(file.name);
+  if (!format) {
+    throw new Error(`Unsupported mesh file "${file.name}"`);
+  }
+
+  const mesh = parseMesh(await file.arrayBuffer(), format);
+  const label = file.name.replace(/\.[^.]+$/, "") || "Mesh";
+  const shape = createMeshShape(`mesh:${file.name.toLowerCase()}`, label, mesh);
+
+  registerShape(shape);
+  return shape.id;
+};
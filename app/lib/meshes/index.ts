@@ -0,0 +1,61 @@
+/**
+ * Mesh import entry point
+ * @module lib/meshes
+ */
+
+import type { MeshFormat, TriangleMesh } from "../constants";
+import { parseObj } from "./parseObj";
+import { parsePly } from "./parsePly";
+import { parseStl } from "./parseStl";
+
+export { parseObj, parsePly, parseStl };
+export { sampleMeshSurface } from "./sampleMesh";
+
+/**
+ * File extensions accepted by the mesh importer
+ */
+export const MESH_FILE_EXTENSIONS: readonly string[] = [".obj", ".ply", ".stl"];
+
+/**
+ * Detect mesh format from a file name
+ *
+ * @param fileName - File name with extension
+ * @returns Mesh format or null if unsupported
+ */
+export const detectMeshFormat = (fileName: string): MeshFormat | null => {
+  const extension = fileName.toLowerCase().split(".").pop();
+  if (extension === "obj" || extension === "ply" || extension === "stl") {
+    return extension;
+  }
+  return null;
+};
+
+/**
+ * Parse mesh file contents
+ *
+ * @param buffer - File contents
+ * @param format - Mesh format
+ * @returns Parsed triangle mesh
+ */
+export const parseMesh = (
+  buffer: ArrayBuffer,
+  format: MeshFormat,
+): TriangleMesh => {
+  let mesh: TriangleMesh;
+  switch (format) {
+    case "obj":
+      mesh = parseObj(new TextDecoder().decode(buffer));
+      break;
+    case "ply":
+      mesh = parsePly(buffer);
+      break;
+    case "stl":
+      mesh = parseStl(buffer);
+      break;
+  }
+
+  if (mesh.indices.length < 3) {
+    throw new Error(`No triangles found in ${format.toUpperCase()} file`);
+  }
+  return mesh;
+};
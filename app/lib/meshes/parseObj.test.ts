@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { parseObj } from "./parseObj";
+
+describe("parseObj", () => {
+  it("reads vertices and fan-triangulates polygons", () => {
+    const mesh = parseObj(
+      [
+        "# quad",
+        "v 0 0 0",
+        "v 1 0 0",
+        "v 1 1 0",
+        "v 0 1 0",
+        "vn 0 0 1",
+        "f 1//1 2//1 3//1 4//1",
+      ].join("\n"),
+    );
+    expect(Array.from(mesh.vertices)).toEqual([
+      0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 1, 0,
+    ]);
+    expect(Array.from(mesh.indices)).toEqual([0, 1, 2, 0, 2, 3]);
+  });
+
+  it("resolves negative face indices from the end", () => {
+    const mesh = parseObj("v 0 0 0\nv 1 0 0\nv 0 1 0\nf -3 -2 -1");
+    expect(Array.from(mesh.indices)).toEqual([0, 1, 2]);
+  });
+
+  it("rejects out-of-range and malformed face indices", () => {
+    expect(() => parseObj("v 0 0 0\nf 1 2 3")).toThrow("out of range");
+    expect(() => parseObj("v 0 0 0\nf a 1 1")).toThrow("Invalid OBJ");
+  });
+
+  it("rejects non-numeric and missing coordinates", () => {
+    expect(() => parseObj("v 0 x 0")).toThrow(
+      'Invalid OBJ: vertex coordinate "x"',
+    );
+    expect(() => parseObj("v 0 0")).toThrow("Invalid OBJ");
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Wavefront OBJ parser
+ * Reads vertex positions and faces; normals, texture coordinates and
+ * materials are ignored
+ * @module lib/meshes/parseObj
+ */
+
+import type { TriangleMesh } from "../constants";
+
+/**
+ * Resolve an OBJ face index (1-based, negative = relative to end)
+ *
+ * @param token - Face vertex token such as "3", "3/1" or "3/1/2"
+ * @param vertexCount - Number of vertices parsed so far
+ * @returns 0-based vertex index
+ */
+const resolveIndex = (token: string, vertexCount: number): number => {
+  const value = parseInt(token.split("/")[0], 10);
+  if (Number.isNaN(value) || value === 0) {
+    throw new Error(`Invalid OBJ face index "${token}"`);
+  }
+  const index = value > 0 ? value - 1 : vertexCount + value;
+  if (index < 0 || index >= vertexCount) {
+    throw new Error(`OBJ face index ${value} out of range`);
+  }
+  return index;
+};
+
+/**
+ * Parse an OBJ vertex coordinate
+ *
+ * @param token - Coordinate token, undefined when the line is short
+ * @returns Finite coordinate
+ */
+const parseCoordinate = (token: string | undefined): number => {
+  const value = parseFloat(token ?? "");
+  if (!Number.isFinite(value)) {
+    throw new Error(`Invalid OBJ: vertex coordinate "${token ?? ""}"`);
+  }
+  return value;
+};
+
+/**
+ * Parse an OBJ file into a triangle mesh
+ * Polygons are triangulated as fans
+ *
+ * @param source - OBJ file text
+ * @returns Parsed triangle mesh
+ */
+export const parseObj = (source: string): TriangleMesh => {
+  const vertices: number[] = [];
+  const indices: number[] = [];
+
+  const lines = source.split(/\r?\n/);
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (line === "" || line.startsWith("#")) continue;
+
+    const parts = line.split(/\s+/);
+    const keyword = parts[0];
+
+    if (keyword === "v") {
+      vertices.push(
+        parseCoordinate(parts[1]),
+        parseCoordinate(parts[2]),
+        parseCoordinate(parts[3]),
+      );
+    } else if (keyword === "f") {
+      const vertexCount = vertices.length / 3;
+      const face = parts
+        .slice(1)
+        .map((token) => resolveIndex(token, vertexCount));
+
+      for (let i = 1; i < face.length - 1; i++) {
+        indices.push(face[0], face[i], face[i + 1]);
+      }
+    }
+  }
+
+  return {
+    vertices: new Float32Array(vertices),
+    indices: new Uint32Array(indices),
+  };
+};
@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import { parsePly } from "./parsePly";
+
+const TRIANGLE_HEADER = [
+  "ply",
+  "element vertex 3",
+  "property float x",
+  "property float y",
+  "property float z",
+  "element face 1",
+  "property list uchar int vertex_indices",
+  "end_header",
+];
+
+/**
+ * Encode PLY text as a file buffer
+ */
+const toBuffer = (lines: string[]): ArrayBuffer =>
+  new TextEncoder().encode(lines.join("\n") + "\n").buffer as ArrayBuffer;
+
+/**
+ * Binary little-endian PLY of one triangle
+ */
+const binaryTriangle = (coordinates: number[]): ArrayBuffer => {
+  const header = new TextEncoder().encode(
+    [
+      TRIANGLE_HEADER[0],
+      "format binary_little_endian 1.0",
+      ...TRIANGLE_HEADER.slice(1),
+    ].join("\n") + "\n",
+  );
+  const body = new DataView(new ArrayBuffer(9 * 4 + 1 + 3 * 4));
+  coordinates.forEach((value, i) => body.setFloat32(i * 4, value, true));
+  body.setUint8(36, 3);
+  [0, 1, 2].forEach((index, i) => body.setInt32(37 + i * 4, index, true));
+
+  const bytes = new Uint8Array(header.length + body.byteLength);
+  bytes.set(header);
+  bytes.set(new Uint8Array(body.buffer), header.length);
+  return bytes.buffer;
+};
+
+describe("parsePly", () => {
+  it("reads an ASCII triangle", () => {
+    const mesh = parsePly(
+      toBuffer([
+        TRIANGLE_HEADER[0],
+        "format ascii 1.0",
+        ...TRIANGLE_HEADER.slice(1),
+        "0 0 0",
+        "1 0 0",
+        "0 1 0",
+        "3 0 1 2",
+      ]),
+    );
+    expect(Array.from(mesh.vertices)).toEqual([0, 0, 0, 1, 0, 0, 0, 1, 0]);
+    expect(Array.from(mesh.indices)).toEqual([0, 1, 2]);
+  });
+
+  it("reads a binary little-endian triangle", () => {
+    const mesh = parsePly(binaryTriangle([0, 0, 0, 2, 0, 0, 0, 2, 0]));
+    expect(Array.from(mesh.vertices)).toEqual([0, 0, 0, 2, 0, 0, 0, 2, 0]);
+    expect(Array.from(mesh.indices)).toEqual([0, 1, 2]);
+  });
+
+  it("rejects non-numeric and non-finite coordinates", () => {
+    expect(() =>
+      parsePly(
+        toBuffer([
+          TRIANGLE_HEADER[0],
+          "format ascii 1.0",
+          ...TRIANGLE_HEADER.slice(1),
+          "0 0 0",
+          "1 abc 0",
+          "0 1 0",
+          "3 0 1 2",
+        ]),
+      ),
+    ).toThrow('Invalid PLY: non-numeric value "abc"');
+    expect(() =>
+      parsePly(binaryTriangle([0, 0, 0, NaN, 0, 0, 0, 1, 0])),
+    ).toThrow("Invalid PLY: non-finite vertex coordinate");
+  });
+
+  it("rejects missing headers, truncated bodies and bad indices", () => {
+    expect(() => parsePly(toBuffer(["0 0 0"]))).toThrow("missing header");
+    expect(() =>
+      parsePly(
+        toBuffer([
+          TRIANGLE_HEADER[0],
+          "format ascii 1.0",
+          ...TRIANGLE_HEADER.slice(1),
+          "0 0 0",
+        ]),
+      ),
+    ).toThrow("unexpected end of data");
+    expect(() =>
+      parsePly(
+        toBuffer([
+          TRIANGLE_HEADER[0],
+          "format ascii 1.0",
+          ...TRIANGLE_HEADER.slice(1),
+          "0 0 0",
+          "1 0 0",
+          "0 1 0",
+          "3 0 1 7",
+        ]),
+      ),
+    ).toThrow("face index out of range");
+  });
+
+  it("rejects element counts that are not non-negative integers", () => {
+    for (const count of ["-1", "1.5", "abc", "1e3"]) {
+      expect(() =>
+        parsePly(
+          toBuffer([
+            "ply",
+            "format ascii 1.0",
+            `element vertex ${count}`,
+            "property float x",
+            "end_header",
+          ]),
+        ),
+      ).toThrow(`Invalid PLY: bad element count "${count}"`);
+    }
+  });
+
+  it("rejects counts the body cannot hold before reading them", () => {
+    expect(() =>
+      parsePly(
+        toBuffer([
+          "ply",
+          "format binary_little_endian 1.0",
+          "element vertex 4000000000",
+          "property float x",
+          "end_header",
+        ]),
+      ),
+    ).toThrow("unexpected end of data");
+
+    const buffer = binaryTriangle([0, 0, 0, 1, 0, 0, 0, 1, 0]);
+    // Face list count, just after the nine vertex floats
+    new Uint8Array(buffer)[buffer.byteLength - 13] = 255;
+    expect(() => parsePly(buffer)).toThrow("Invalid PLY: bad list length 255");
+  });
+});
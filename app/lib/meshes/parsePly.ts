@@ -0,0 +1,351 @@
+/**
+ * Stanford PLY parser (ASCII and binary, little or big endian)
+ * Reads vertex x/y/z and face vertex index lists; other properties are skipped
+ * @module lib/meshes/parsePly
+ */
+
+import type { TriangleMesh } from "../constants";
+
+/**
+ * PLY body encodings
+ */
+type PlyFormat = "ascii" | "binary_little_endian" | "binary_big_endian";
+
+/**
+ * Scalar PLY property
+ */
+interface PlyScalarProperty {
+  kind: "scalar";
+  name: string;
+  type: string;
+}
+
+/**
+ * List PLY property (e.g. face vertex indices)
+ */
+interface PlyListProperty {
+  kind: "list";
+  name: string;
+  countType: string;
+  itemType: string;
+}
+
+type PlyProperty = PlyScalarProperty | PlyListProperty;
+
+/**
+ * PLY element declaration
+ */
+interface PlyElement {
+  name: string;
+  count: number;
+  properties: PlyProperty[];
+}
+
+/**
+ * Parsed PLY header
+ */
+interface PlyHeader {
+  format: PlyFormat;
+  elements: PlyElement[];
+  /** Byte offset where the body starts */
+  bodyOffset: number;
+}
+
+/**
+ * Byte sizes of PLY scalar types (both naming conventions)
+ */
+const PLY_TYPE_SIZES: Record<string, number> = {
+  char: 1,
+  int8: 1,
+  uchar: 1,
+  uint8: 1,
+  short: 2,
+  int16: 2,
+  ushort: 2,
+  uint16: 2,
+  int: 4,
+  int32: 4,
+  uint: 4,
+  uint32: 4,
+  float: 4,
+  float32: 4,
+  double: 8,
+  float64: 8,
+};
+
+const HEADER_END = "end_header";
+
+/**
+ * Parse the PLY header
+ *
+ * @param bytes - File contents
+ * @returns Parsed header
+ */
+const parseHeader = (bytes: Uint8Array): PlyHeader => {
+  // Header is ASCII; decode a bounded prefix to locate end_header
+  const prefix = new TextDecoder("latin1").decode(
+    bytes.subarray(0, Math.min(bytes.length, 64 * 1024)),
+  );
+  const endIndex = prefix.indexOf(HEADER_END);
+  if (!prefix.startsWith("ply") || endIndex === -1) {
+    throw new Error("Invalid PLY: missing header");
+  }
+
+  let bodyOffset = endIndex + HEADER_END.length;
+  if (prefix[bodyOffset] === "\r") bodyOffset++;
+  if (prefix[bodyOffset] === "\n") bodyOffset++;
+
+  let format: PlyFormat | null = null;
+  const elements: PlyElement[] = [];
+
+  for (const rawLine of prefix.slice(0, endIndex).split(/\r?\n/)) {
+    const parts = rawLine.trim().split(/\s+/);
+    switch (parts[0]) {
+      case "format":
+        if (
+          parts[1] !== "ascii" &&
+          parts[1] !== "binary_little_endian" &&
+          parts[1] !== "binary_big_endian"
+        ) {
+          throw new Error(`Unsupported PLY format "${parts[1]}"`);
+        }
+        format = parts[1];
+        break;
+
+      case "element": {
+        const count = Number(parts[2]);
+        if (!/^\d+$/.test(parts[2] ?? "") || !Number.isSafeInteger(count)) {
+          throw new Error(`Invalid PLY: bad element count "${parts[2]}"`);
+        }
+        elements.push({ name: parts[1], count, properties: [] });
+        break;
+      }
+
+      case "property": {
+        const element = elements[elements.length - 1];
+        if (!element) {
+          throw new Error("Invalid PLY: property before element");
+        }
+        if (parts[1] === "list") {
+          element.properties.push({
+            kind: "list",
+            countType: parts[2],
+            itemType: parts[3],
+            name: parts[4],
+          });
+        } else {
+          element.properties.push({
+            kind: "scalar",
+            type: parts[1],
+            name: parts[2],
+          });
+        }
+        break;
+      }
+    }
+  }
+
+  if (!format) {
+    throw new Error("Invalid PLY: missing format line");
+  }
+
+  return { format, elements, bodyOffset };
+};
+
+/**
+ * Sequential value reader over a PLY body
+ */
+interface PlyReader {
+  read: (type: string) => number;
+  /** Values of the given type that fit in the rest of the body */
+  remaining: (type: string) => number;
+}
+
+/**
+ * Create a reader for ASCII bodies
+ *
+ * @param bytes - File contents
+ * @param offset - Body offset
+ */
+const createAsciiReader = (bytes: Uint8Array, offset: number): PlyReader => {
+  const tokens = new TextDecoder()
+    .decode(bytes.subarray(offset))
+    .trim()
+    .split(/\s+/);
+  let position = 0;
+
+  return {
+    read: () => {
+      if (position >= tokens.length) {
+        throw new Error("Invalid PLY: unexpected end of data");
+      }
+      const token = tokens[position++];
+      const value = parseFloat(token);
+      if (!Number.isFinite(value)) {
+        throw new Error(`Invalid PLY: non-numeric value "${token}"`);
+      }
+      return value;
+    },
+    remaining: () => tokens.length - position,
+  };
+};
+
+/**
+ * Create a reader for binary bodies
+ *
+ * @param bytes - File contents
+ * @param offset - Body offset
+ * @param littleEndian - Byte order
+ */
+const createBinaryReader = (
+  bytes: Uint8Array,
+  offset: number,
+  littleEndian: boolean,
+): PlyReader => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let position = offset;
+
+  const getSize = (type: string): number => {
+    const size = PLY_TYPE_SIZES[type];
+    if (size === undefined) {
+      throw new Error(`Unsupported PLY property type "${type}"`);
+    }
+    return size;
+  };
+
+  return {
+    read: (type) => {
+      const size = getSize(type);
+      if (position + size > view.byteLength) {
+        throw new Error("Invalid PLY: unexpected end of data");
+      }
+
+      let value: number;
+      switch (type) {
+        case "char":
+        case "int8":
+          value = view.getInt8(position);
+          break;
+        case "uchar":
+        case "uint8":
+          value = view.getUint8(position);
+          break;
+        case "short":
+        case "int16":
+          value = view.getInt16(position, littleEndian);
+          break;
+        case "ushort":
+        case "uint16":
+          value = view.getUint16(position, littleEndian);
+          break;
+        case "int":
+        case "int32":
+          value = view.getInt32(position, littleEndian);
+          break;
+        case "uint":
+        case "uint32":
+          value = view.getUint32(position, littleEndian);
+          break;
+        case "float":
+        case "float32":
+          value = view.getFloat32(position, littleEndian);
+          break;
+        default:
+          value = view.getFloat64(position, littleEndian);
+      }
+
+      position += size;
+      return value;
+    },
+    remaining: (type) =>
+      Math.floor((view.byteLength - position) / getSize(type)),
+  };
+};
+
+/**
+ * Parse a PLY file into a triangle mesh
+ * Polygons are triangulated as fans
+ *
+ * @param buffer - File contents
+ * @returns Parsed triangle mesh
+ */
+export const parsePly = (buffer: ArrayBuffer): TriangleMesh => {
+  const bytes = new Uint8Array(buffer);
+  const header = parseHeader(bytes);
+  const reader =
+    header.format === "ascii"
+      ? createAsciiReader(bytes, header.bodyOffset)
+      : createBinaryReader(
+          bytes,
+          header.bodyOffset,
+          header.format === "binary_little_endian",
+        );
+
+  let vertices = new Float32Array(0);
+  const indices: number[] = [];
+
+  for (const element of header.elements) {
+    // Every record reads at least its first value, so a count the body
+    // cannot hold is rejected before anything is allocated
+    const first = element.properties[0];
+    if (
+      first &&
+      element.count >
+        reader.remaining(first.kind === "list" ? first.countType : first.type)
+    ) {
+      throw new Error("Invalid PLY: unexpected end of data");
+    }
+
+    if (element.name === "vertex") {
+      vertices = new Float32Array(element.count * 3);
+    }
+
+    for (let e = 0; e < element.count; e++) {
+      for (const property of element.properties) {
+        if (property.kind === "list") {
+          const length = reader.read(property.countType);
+          if (
+            !Number.isInteger(length) ||
+            length < 0 ||
+            length > reader.remaining(property.itemType)
+          ) {
+            throw new Error(`Invalid PLY: bad list length ${length}`);
+          }
+          const face: number[] = [];
+          for (let k = 0; k < length; k++) {
+            face.push(reader.read(property.itemType));
+          }
+          const isFaceIndices =
+            element.name === "face" &&
+            (property.name === "vertex_indices" ||
+              property.name === "vertex_index");
+          if (isFaceIndices) {
+            for (let k = 1; k < face.length - 1; k++) {
+              indices.push(face[0], face[k], face[k + 1]);
+            }
+          }
+          continue;
+        }
+
+        const value = reader.read(property.type);
+        if (element.name === "vertex") {
+          const axis = ["x", "y", "z"].indexOf(property.name);
+          if (axis !== -1) {
+            // Binary floats can still hold NaN or infinities
+            if (!Number.isFinite(value)) {
+              throw new Error("Invalid PLY: non-finite vertex coordinate");
+            }
+            vertices[e * 3 + axis] = value;
+          }
+        }
+      }
+    }
+  }
+
+  const vertexCount = vertices.length / 3;
+  if (indices.some((index) => index < 0 || index >= vertexCount)) {
+    throw new Error("Invalid PLY: face index out of range");
+  }
+
+  return { vertices, indices: new Uint32Array(indices) };
+};
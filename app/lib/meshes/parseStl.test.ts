@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { parseStl } from "./parseStl";
+
+/**
+ * ASCII STL of one facet with the given vertex lines
+ */
+const asciiStl = (vertices: string[]): ArrayBuffer =>
+  new TextEncoder().encode(
+    [
+      "solid test",
+      "facet normal 0 0 1",
+      "outer loop",
+      ...vertices.map((vertex) => `vertex ${vertex}`),
+      "endloop",
+      "endfacet",
+      "endsolid test",
+    ].join("\n"),
+  ).buffer as ArrayBuffer;
+
+/**
+ * Binary STL of one triangle
+ */
+const binaryStl = (coordinates: number[]): ArrayBuffer => {
+  const view = new DataView(new ArrayBuffer(80 + 4 + 50));
+  view.setUint32(80, 1, true);
+  // Facet normal (12 bytes) precedes the vertices
+  coordinates.forEach((value, i) =>
+    view.setFloat32(84 + 12 + i * 4, value, true),
+  );
+  return view.buffer;
+};
+
+describe("parseStl", () => {
+  it("reads an ASCII facet as an unindexed triangle", () => {
+    const mesh = parseStl(asciiStl(["0 0 0", "1 0 0", "0 1 0"]));
+    expect(Array.from(mesh.vertices)).toEqual([0, 0, 0, 1, 0, 0, 0, 1, 0]);
+    expect(Array.from(mesh.indices)).toEqual([0, 1, 2]);
+  });
+
+  it("reads a binary triangle", () => {
+    const mesh = parseStl(binaryStl([0, 0, 0, 3, 0, 0, 0, 3, 0]));
+    expect(Array.from(mesh.vertices)).toEqual([0, 0, 0, 3, 0, 0, 0, 3, 0]);
+    expect(Array.from(mesh.indices)).toEqual([0, 1, 2]);
+  });
+
+  it("rejects incomplete facets and non-numeric coordinates", () => {
+    expect(() => parseStl(asciiStl(["0 0 0", "1 0 0"]))).toThrow(
+      "Invalid ASCII STL: expected three vertices per facet",
+    );
+    expect(() => parseStl(asciiStl(["0 0 0", "1 x 0", "0 1 0"]))).toThrow(
+      "Invalid ASCII STL: non-numeric vertex coordinate",
+    );
+    expect(() =>
+      parseStl(binaryStl([0, 0, 0, Infinity, 0, 0, 0, 1, 0])),
+    ).toThrow("Invalid binary STL: non-finite vertex coordinate");
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * STL parser (ASCII and binary)
+ * @module lib/meshes/parseStl
+ */
+
+import type { TriangleMesh } from "../constants";
+
+/**
+ * Binary STL layout sizes in bytes
+ */
+const STL_HEADER_SIZE = 80;
+const STL_TRIANGLE_SIZE = 50;
+
+/**
+ * Check whether a buffer holds a binary STL
+ * Binary files have an exact size of header + count + triangles, which
+ * ASCII files practically never match
+ *
+ * @param buffer - File contents
+ */
+const isBinaryStl = (buffer: ArrayBuffer): boolean => {
+  if (buffer.byteLength < STL_HEADER_SIZE + 4) return false;
+  const triangleCount = new DataView(buffer).getUint32(STL_HEADER_SIZE, true);
+  return (
+    buffer.byteLength ===
+    STL_HEADER_SIZE + 4 + triangleCount * STL_TRIANGLE_SIZE
+  );
+};
+
+/**
+ * Parse a binary STL
+ *
+ * @param buffer - File contents
+ * @returns Triangle mesh (unindexed: three vertices per triangle)
+ */
+const parseBinaryStl = (buffer: ArrayBuffer): TriangleMesh => {
+  const view = new DataView(buffer);
+  const triangleCount = view.getUint32(STL_HEADER_SIZE, true);
+  const vertices = new Float32Array(triangleCount * 9);
+  const indices = new Uint32Array(triangleCount * 3);
+
+  for (let t = 0; t < triangleCount; t++) {
+    // Skip the 12-byte facet normal
+    const offset = STL_HEADER_SIZE + 4 + t * STL_TRIANGLE_SIZE + 12;
+    for (let v = 0; v < 9; v++) {
+      const value = view.getFloat32(offset + v * 4, true);
+      if (!Number.isFinite(value)) {
+        throw new Error("Invalid binary STL: non-finite vertex coordinate");
+      }
+      vertices[t * 9 + v] = value;
+    }
+    indices[t * 3] = t * 3;
+    indices[t * 3 + 1] = t * 3 + 1;
+    indices[t * 3 + 2] = t * 3 + 2;
+  }
+
+  return { vertices, indices };
+};
+
+/**
+ * Parse an ASCII STL
+ *
+ * @param source - File text
+ * @returns Triangle mesh (unindexed: three vertices per triangle)
+ */
+const parseAsciiStl = (source: string): TriangleMesh => {
+  const vertices: number[] = [];
+  const pattern = /vertex\s+(\S+)\s+(\S+)\s+(\S+)/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null) {
+    vertices.push(
+      parseFloat(match[1]),
+      parseFloat(match[2]),
+      parseFloat(match[3]),
+    );
+  }
+
+  if (!vertices.every(Number.isFinite)) {
+    throw new Error("Invalid ASCII STL: non-numeric vertex coordinate");
+  }
+  if (vertices.length === 0 || vertices.length % 9 !== 0) {
+    throw new Error("Invalid ASCII STL: expected three vertices per facet");
+  }
+
+  const vertexCount = vertices.length / 3;
+  const indices = new Uint32Array(vertexCount);
+  for (let i = 0; i < vertexCount; i++) {
+    indices[i] = i;
+  }
+
+  return { vertices: new Float32Array(vertices), indices };
+};
+
+/**
+ * Parse an STL file, detecting ASCII vs binary encoding
+ *
+ * @param buffer - File contents
+ * @returns Parsed triangle mesh
+ */
+export const parseStl = (buffer: ArrayBuffer): TriangleMesh => {
+  if (isBinaryStl(buffer)) {
+    return parseBinaryStl(buffer);
+  }
+  return parseAsciiStl(new TextDecoder().decode(buffer));
+};
@@ -0,0 +1,159 @@
+/**
+ * Mesh surface sampling
+ * Distributes particles over a triangle mesh proportionally to triangle area
+ * @module lib/meshes/sampleMesh
+ */
+
+import type { RandomSource, TriangleMesh } from "../constants";
+
+/**
+ * Build the cumulative area table for a mesh
+ *
+ * @param mesh - Triangle mesh
+ * @returns Cumulative triangle areas (last entry = total area)
+ */
+const buildAreaTable = (mesh: TriangleMesh): Float64Array => {
+  const { vertices, indices } = mesh;
+  const triangleCount = Math.floor(indices.length / 3);
+  const cumulative = new Float64Array(triangleCount);
+  let total = 0;
+
+  for (let t = 0; t < triangleCount; t++) {
+    const a = indices[t * 3] * 3;
+    const b = indices[t * 3 + 1] * 3;
+    const c = indices[t * 3 + 2] * 3;
+
+    const abx = vertices[b] - vertices[a];
+    const aby = vertices[b + 1] - vertices[a + 1];
+    const abz = vertices[b + 2] - vertices[a + 2];
+    const acx = vertices[c] - vertices[a];
+    const acy = vertices[c + 1] - vertices[a + 1];
+    const acz = vertices[c + 2] - vertices[a + 2];
+
+    // Half the cross product magnitude
+    const cx = aby * acz - abz * acy;
+    const cy = abz * acx - abx * acz;
+    const cz = abx * acy - aby * acx;
+    total += 0.5 * Math.sqrt(cx * cx + cy * cy + cz * cz);
+    cumulative[t] = total;
+  }
+
+  return cumulative;
+};
+
+/**
+ * Find the triangle whose cumulative area range contains a value
+ *
+ * @param cumulative - Cumulative area table
+ * @param value - Value in [0, total)
+ * @returns Triangle index
+ */
+const findTriangle = (cumulative: Float64Array, value: number): number => {
+  let low = 0;
+  let high = cumulative.length - 1;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (cumulative[mid] <= value) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+};
+
+/**
+ * Compute centering offset and scale that fit a mesh into a radius
+ *
+ * @param vertices - Vertex positions
+ * @param radius - Target bounding radius
+ * @returns Bounding-box center and uniform scale
+ */
+const computeNormalization = (
+  vertices: Float32Array,
+  radius: number,
+): { center: [number, number, number]; scale: number } => {
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+
+  for (let i = 0; i < vertices.length; i += 3) {
+    for (let axis = 0; axis < 3; axis++) {
+      min[axis] = Math.min(min[axis], vertices[i + axis]);
+      max[axis] = Math.max(max[axis], vertices[i + axis]);
+    }
+  }
+
+  const center: [number, number, number] = [
+    (min[0] + max[0]) / 2,
+    (min[1] + max[1]) / 2,
+    (min[2] + max[2]) / 2,
+  ];
+
+  let maxDistanceSq = 0;
+  for (let i = 0; i < vertices.length; i += 3) {
+    const dx = vertices[i] - center[0];
+    const dy = vertices[i + 1] - center[1];
+    const dz = vertices[i + 2] - center[2];
+    maxDistanceSq = Math.max(maxDistanceSq, dx * dx + dy * dy + dz * dz);
+  }
+
+  const maxDistance = Math.sqrt(maxDistanceSq);
+  return { center, scale: maxDistance > 0 ? radius / maxDistance : 1 };
+};
+
+/**
+ * Sample particle positions uniformly over a mesh surface
+ *
+ * Triangles are picked with probability proportional to their area, then a
+ * uniform barycentric point is drawn inside each. The result is centered on
+ * the mesh bounding box and scaled so the farthest vertex sits at `radius`.
+ *
+ * @param mesh - Triangle mesh
+ * @param count - Number of particles
+ * @param random - Random source
+ * @param radius - Target bounding radius (built-in shapes use ~6)
+ * @returns Float32Array of [x, y, z] positions
+ */
+export const sampleMeshSurface = (
+  mesh: TriangleMesh,
+  count: number,
+  random: RandomSource,
+  radius: number,
+): Float32Array => {
+  const positions = new Float32Array(count * 3);
+  const cumulative = buildAreaTable(mesh);
+  const totalArea =
+    cumulative.length > 0 ? cumulative[cumulative.length - 1] : 0;
+
+  if (totalArea <= 0) {
+    return positions;
+  }
+
+  const { vertices, indices } = mesh;
+  const { center, scale } = computeNormalization(vertices, radius);
+
+  for (let i = 0; i < count; i++) {
+    const t = findTriangle(cumulative, random() * totalArea);
+    const a = indices[t * 3] * 3;
+    const b = indices[t * 3 + 1] * 3;
+    const c = indices[t * 3 + 2] * 3;
+
+    // Uniform barycentric coordinates
+    const r1 = Math.sqrt(random());
+    const r2 = random();
+    const wa = 1 - r1;
+    const wb = r1 * (1 - r2);
+    const wc = r1 * r2;
+
+    const idx = i * 3;
+    for (let axis = 0; axis < 3; axis++) {
+      const value =
+        wa * vertices[a + axis] +
+        wb * vertices[b + axis] +
+        wc * vertices[c + axis];
+      positions[idx + axis] = (value - center[axis]) * scale;
+    }
+  }
+
+  return positions;
+};
@@ -0,0 +1,65 @@
+/**
+ * Palette registry
+ * Palettes available to the particle system and the color panel,
+ * including ones edited or imported at runtime
+ * @module lib/paletteRegistry
+ */
+
+import type { ColorPalette } from "./constants";
+import { BUILT_IN_PALETTES } from "./palettes";
+import { createRegistry } from "./registry";
+
+/**
+ * Registered palettes (insertion order = picker order)
+ */
+const registry = createRegistry<ColorPalette>(BUILT_IN_PALETTES);
+
+/**
+ * Register a palette
+ * Re-registering an existing id replaces the palette in place
+ *
+ * @param palette - Palette to register
+ * @returns Function that unregisters the palette
+ */
+export const registerPalette = (palette: ColorPalette): (() => void) => {
+  return registry.register(palette);
+};
+
+/**
+ * Remove a palette from the registry
+ *
+ * @param id - Palette identifier
+ * @returns true if a palette was removed
+ */
+export const unregisterPalette = (id: string): boolean => {
+  return registry.unregister(id);
+};
+
+/**
+ * Look up a palette by id
+ *
+ * @param id - Palette identifier
+ * @returns Palette or undefined if not registered
+ */
+export const getPalette = (id: string): ColorPalette | undefined => {
+  return registry.get(id);
+};
+
+/**
+ * Get all registered palettes in order
+ *
+ * @returns Immutable snapshot of registered palettes
+ */
+export const getPalettes = (): readonly ColorPalette[] => {
+  return registry.list();
+};
+
+/**
+ * Subscribe to registry changes
+ *
+ * @param listener - Called after any registration change
+ * @returns Unsubscribe function
+ */
+export const subscribeToPalettes = (listener: () => void): (() => void) => {
+  return registry.subscribe(listener);
+};
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import {
+  BUILT_IN_PALETTES,
+  isBuiltInPalette,
+  parsePalette,
+  serializePalette,
+  toPalette,
+  toPaletteId,
+} from "./palettes";
+
+const STOPS = [
+  { position: 1, color: "#FFFFFF" },
+  { position: 0, color: "#000000" },
+];
+
+describe("toPalette", () => {
+  it("sorts stops, lowercases colors and keeps a custom id", () => {
+    expect(toPalette({ id: " my-id ", name: " Dusk ", stops: STOPS })).toEqual({
+      id: "my-id",
+      name: "Dusk",
+      stops: [
+        { position: 0, color: "#000000" },
+        { position: 1, color: "#ffffff" },
+      ],
+    });
+  });
+
+  it("derives a custom id from the name when the id is missing", () => {
+    expect(toPalette({ name: "Sunset Glow!", stops: STOPS }).id).toBe(
+      "custom-sunset-glow",
+    );
+  });
+
+  it("never keeps the id of a built-in palette", () => {
+    for (const { id, name } of BUILT_IN_PALETTES) {
+      const palette = toPalette({ id, name, stops: STOPS });
+      expect(isBuiltInPalette(palette.id)).toBe(false);
+      expect(palette.id.startsWith("custom-")).toBe(true);
+    }
+  });
+
+  it("rejects invalid palettes", () => {
+    expect(() => toPalette(null)).toThrow("Palette must be an object");
+    expect(() => toPalette({ stops: STOPS })).toThrow("name is required");
+    expect(() => toPalette({ name: "A", stops: [STOPS[0]] })).toThrow(
+      "at least two stops",
+    );
+    expect(() =>
+      toPalette({
+        name: "A",
+        stops: [STOPS[0], { position: 1.5, color: "#000000" }],
+      }),
+    ).toThrow("Stop 2: position");
+    expect(() =>
+      toPalette({
+        name: "A",
+        stops: [STOPS[0], { position: 0, color: "red" }],
+      }),
+    ).toThrow("Stop 2: color");
+  });
+});
+
+describe("toPaletteId", () => {
+  it("adds a suffix until the id is free", () => {
+    const taken = new Set(["custom-aurora", "custom-aurora-2"]);
+    expect(toPaletteId("Aurora", (id) => taken.has(id))).toBe(
+      "custom-aurora-3",
+    );
+    expect(toPaletteId("***")).toBe("custom-palette");
+  });
+});
+
+describe("parsePalette", () => {
+  it("round-trips serialized palettes", () => {
+    const palette = BUILT_IN_PALETTES[0];
+    const parsed = parsePalette(
+      serializePalette({ ...palette, id: "custom-copy" }),
+    );
+    expect(parsed).toEqual({ ...palette, id: "custom-copy" });
+  });
+
+  it("rejects text that isn't JSON", () => {
+    expect(() => parsePalette("{")).toThrow("not valid JSON");
+  });
+});
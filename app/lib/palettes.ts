@@ -0,0 +1,263 @@
+/**
+ * Color palettes
+ * Built-in gradients, lookup ramps and JSON import/export
+ * @module lib/palettes
+ */
+
+import type { ColorPalette, PaletteStop } from "./constants";
+import { srgbToLinear } from "./raster";
+
+/**
+ * Entries in a palette ramp
+ */
+export const PALETTE_RAMP_SIZE = 256;
+
+/**
+ * Accepted stop colors: six-digit sRGB hex
+ */
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Built-in palettes in picker order
+ */
+export const BUILT_IN_PALETTES: readonly ColorPalette[] = [
+  {
+    id: "spectrum",
+    name: "Spectrum",
+    stops: [
+      { position: 0, color: "#eb4747" },
+      { position: 0.17, color: "#ebeb47" },
+      { position: 0.33, color: "#47eb47" },
+      { position: 0.5, color: "#47ebeb" },
+      { position: 0.67, color: "#4747eb" },
+      { position: 0.83, color: "#eb47eb" },
+      { position: 1, color: "#eb4747" },
+    ],
+  },
+  {
+    id: "ember",
+    name: "Ember",
+    stops: [
+      { position: 0, color: "#4a0010" },
+      { position: 0.4, color: "#e0203c" },
+      { position: 0.75, color: "#ff8a3d" },
+      { position: 1, color: "#ffe29a" },
+    ],
+  },
+  {
+    id: "ocean",
+    name: "Ocean",
+    stops: [
+      { position: 0, color: "#021a4a" },
+      { position: 0.45, color: "#0077b6" },
+      { position: 0.8, color: "#00d4e6" },
+      { position: 1, color: "#caf9ff" },
+    ],
+  },
+  {
+    id: "nebula",
+    name: "Nebula",
+    stops: [
+      { position: 0, color: "#1b0b3d" },
+      { position: 0.35, color: "#6a1fb8" },
+      { position: 0.7, color: "#ff4fb8" },
+      { position: 1, color: "#fff1c9" },
+    ],
+  },
+  {
+    id: "aurora",
+    name: "Aurora",
+    stops: [
+      { position: 0, color: "#00f3ff" },
+      { position: 0.5, color: "#3dff8a" },
+      { position: 1, color: "#b44dff" },
+    ],
+  },
+  {
+    id: "mono",
+    name: "Mono",
+    stops: [
+      { position: 0, color: "#2a3340" },
+      { position: 1, color: "#f2f6ff" },
+    ],
+  },
+];
+
+/**
+ * Check whether an id belongs to a built-in palette
+ *
+ * @param id - Palette identifier
+ */
+export const isBuiltInPalette = (id: string): boolean =>
+  BUILT_IN_PALETTES.some((palette) => palette.id === id);
+
+/**
+ * Write a hex color as linear RGB into out
+ *
+ * @param hex - sRGB hex color ("#rrggbb")
+ * @param out - Destination [r, g, b]
+ */
+export const hexToLinearRgb = (hex: string, out: number[]): void => {
+  const value = parseInt(hex.slice(1), 16);
+  out[0] = srgbToLinear(((value >> 16) & 255) / 255);
+  out[1] = srgbToLinear(((value >> 8) & 255) / 255);
+  out[2] = srgbToLinear((value & 255) / 255);
+};
+
+/**
+ * Sample a palette into a lookup ramp of linear RGB colors
+ *
+ * Stops are interpolated in linear space; positions before the first or
+ * after the last stop take that stop's color.
+ *
+ * @param palette - Palette to sample
+ * @param size - Number of entries
+ * @returns Ramp laid out as [r, g, b, ...]
+ *
+ * @example
+ * ```
+ * const ramp = createPaletteRamp(getPalette("ember")!);
+ * const entry = Math.round(t * (PALETTE_RAMP_SIZE - 1)) * 3;
+ * ```
+ */
+export const createPaletteRamp = (
+  palette: ColorPalette,
+  size: number = PALETTE_RAMP_SIZE,
+): Float32Array => {
+  const { stops } = palette;
+  const ramp = new Float32Array(size * 3);
+  const colors = stops.map((stop) => {
+    const rgb = [0, 0, 0];
+    hexToLinearRgb(stop.color, rgb);
+    return rgb;
+  });
+
+  let stop = 0;
+  for (let i = 0; i < size; i++) {
+    const t = size > 1 ? i / (size - 1) : 0;
+    while (stop < stops.length - 2 && t > stops[stop + 1].position) stop++;
+
+    const next = Math.min(stop + 1, stops.length - 1);
+    const start = stops[stop].position;
+    const span = stops[next].position - start;
+    const mix = span > 0 ? Math.max(0, Math.min(1, (t - start) / span)) : 0;
+    for (let c = 0; c < 3; c++) {
+      const from = colors[stop][c];
+      ramp[i * 3 + c] = from + (colors[next][c] - from) * mix;
+    }
+  }
+  return ramp;
+};
+
+/**
+ * Turn a name into a custom palette id
+ *
+ * @param name - Palette name
+ * @param isTaken - Ids to avoid; a numeric suffix is added until one is free
+ * @returns Id starting with "custom-", never a built-in id
+ *
+ * @example
+ * ```
+ * toPaletteId("Sunset Glow"); // "custom-sunset-glow"
+ * toPaletteId("Aurora", (id) => getPalette(id) !== undefined);
+ * ```
+ */
+export const toPaletteId = (
+  name: string,
+  isTaken: (id: string) => boolean = () => false,
+): string => {
+  const base = `custom-${
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || "palette"
+  }`;
+  let id = base;
+  for (let suffix = 2; isTaken(id); suffix++) id = `${base}-${suffix}`;
+  return id;
+};
+
+/**
+ * Validate and normalize palette data
+ *
+ * @param data - Parsed JSON: { id?, name, stops: [{ position, color }] }
+ * @returns Palette with stops sorted by position; the id is derived from
+ *   the name when missing or taken by a built-in palette, so an import
+ *   never replaces one
+ * @throws Error describing the first invalid field
+ */
+export const toPalette = (data: unknown): ColorPalette => {
+  if (typeof data !== "object" || data === null) {
+    throw new Error("Palette must be an object");
+  }
+  const { id, name, stops } = data as Record<string, unknown>;
+
+  if (typeof name !== "string" || !name.trim()) {
+    throw new Error("Palette name is required");
+  }
+  if (!Array.isArray(stops) || stops.length < 2) {
+    throw new Error("Palette needs at least two stops");
+  }
+
+  const parsed = stops.map((stop: unknown, index): PaletteStop => {
+    const { position, color } = (stop ?? {}) as Record<string, unknown>;
+    if (
+      typeof position !== "number" ||
+      !Number.isFinite(position) ||
+      position < 0 ||
+      position > 1
+    ) {
+      throw new Error(`Stop ${index + 1}: position must be between 0 and 1`);
+    }
+    if (typeof color !== "string" || !HEX_COLOR.test(color)) {
+      throw new Error(
+        `Stop ${index + 1}: color must be a hex color like #ff8800`,
+      );
+    }
+    return { position, color: color.toLowerCase() };
+  });
+  parsed.sort((a, b) => a.position - b.position);
+
+  const trimmedId = typeof id === "string" ? id.trim() : "";
+  return {
+    id:
+      trimmedId && !isBuiltInPalette(trimmedId) ? trimmedId : toPaletteId(name),
+    name: name.trim(),
+    stops: parsed,
+  };
+};
+
+/**
+ * Parse a palette from JSON text
+ *
+ * @param json - Palette JSON as written by serializePalette
+ * @returns Validated palette
+ * @throws Error if the text is not valid JSON or not a valid palette
+ *
+ * @example
+ * ```
+ * registerPalette(parsePalette(await file.text()));
+ * ```
+ */
+export const parsePalette = (json: string): ColorPalette => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Palette file is not valid JSON");
+  }
+  return toPalette(data);
+};
+
+/**
+ * Serialize a palette to JSON text
+ *
+ * @param palette - Palette to export
+ * @returns Indented JSON accepted by parsePalette
+ */
+export const serializePalette = (palette: ColorPalette): string =>
+  JSON.stringify(
+    { id: palette.id, name: palette.name, stops: palette.stops },
+    null,
+    2,
+  );
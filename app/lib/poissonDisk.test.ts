@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { eliminateSamples } from "./poissonDisk";
+import { createRandom } from "./random";
+
+/**
+ * Uniformly random points on the unit square in the z = 0 plane
+ */
+const randomPlane = (count: number, seed: number): Float32Array => {
+  const random = createRandom(seed);
+  const positions = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    positions[i * 3] = random();
+    positions[i * 3 + 1] = random();
+  }
+  return positions;
+};
+
+/**
+ * Smallest distance between any two of the selected points
+ */
+const minSpacing = (positions: Float32Array, indices: ArrayLike<number>) => {
+  let nearest = Infinity;
+  for (let a = 0; a < indices.length; a++) {
+    for (let b = a + 1; b < indices.length; b++) {
+      const i = indices[a] * 3;
+      const j = indices[b] * 3;
+      nearest = Math.min(
+        nearest,
+        Math.hypot(
+          positions[i] - positions[j],
+          positions[i + 1] - positions[j + 1],
+          positions[i + 2] - positions[j + 2],
+        ),
+      );
+    }
+  }
+  return nearest;
+};
+
+describe("eliminateSamples", () => {
+  it("keeps the requested number of distinct indices in ascending order", () => {
+    const kept = eliminateSamples(randomPlane(600, 1), 200, 2);
+
+    expect(kept).toHaveLength(200);
+    expect(new Set(kept).size).toBe(200);
+    for (let i = 1; i < kept.length; i++) {
+      expect(kept[i]).toBeGreaterThan(kept[i - 1]);
+    }
+  });
+
+  it("spaces survivors further apart than a random subset", () => {
+    const positions = randomPlane(600, 2);
+    const kept = eliminateSamples(positions, 200, 2);
+    const firstTwoHundred = Array.from({ length: 200 }, (_, i) => i);
+
+    expect(minSpacing(positions, kept)).toBeGreaterThan(
+      3 * minSpacing(positions, firstTwoHundred),
+    );
+  });
+
+  it("keeps every point when asked for at least as many", () => {
+    expect(Array.from(eliminateSamples(randomPlane(5, 3), 8, 2))).toEqual([
+      0, 1, 2, 3, 4,
+    ]);
+  });
+});
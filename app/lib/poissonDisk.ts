@@ -0,0 +1,197 @@
+/**
+ * Poisson-disk sample elimination
+ * Thins an oversampled point set into an evenly spaced (blue-noise) subset
+ * @module lib/poissonDisk
+ */
+
+/**
+ * Points used to estimate the candidate set's nearest-neighbor spacing
+ */
+const SPACING_PROBES = 256;
+
+/**
+ * Falloff exponent of the elimination weight (Yuksel 2015 uses 8)
+ */
+const WEIGHT_EXPONENT = 8;
+
+/**
+ * Estimate mean nearest-neighbor distance from a strided subset of points
+ */
+const estimateSpacing = (positions: Float32Array, total: number): number => {
+  const probes = Math.min(SPACING_PROBES, total);
+  const stride = total / probes;
+  let sum = 0;
+  let measured = 0;
+
+  for (let p = 0; p < probes; p++) {
+    const i = Math.floor(p * stride);
+    const ix = positions[i * 3];
+    const iy = positions[i * 3 + 1];
+    const iz = positions[i * 3 + 2];
+    let nearest = Infinity;
+
+    for (let j = 0; j < total; j++) {
+      if (j === i) continue;
+      const dx = positions[j * 3] - ix;
+      const dy = positions[j * 3 + 1] - iy;
+      const dz = positions[j * 3 + 2] - iz;
+      const distSq = dx * dx + dy * dy + dz * dz;
+      if (distSq > 0 && distSq < nearest) nearest = distSq;
+    }
+
+    if (nearest < Infinity) {
+      sum += Math.sqrt(nearest);
+      measured++;
+    }
+  }
+
+  return measured > 0 ? sum / measured : 0;
+};
+
+/**
+ * Select an evenly spaced subset of points by weighted sample elimination
+ *
+ * Every point is weighted by how crowded its neighborhood is; the most
+ * crowded point is removed and its neighbors' weights updated until only
+ * keepCount points remain. Because survivors are original samples they
+ * stay exactly on the shape.
+ *
+ * @param positions - Candidate positions laid out as [x, y, z, ...]
+ * @param keepCount - Number of points to keep
+ * @param dimension - Dimension of the sampled set (2 for surfaces, 3 for volumes)
+ * @returns Indices of kept points in ascending order
+ *
+ * @example
+ * ```
+ * const candidates = generatePositions("heart", 3 * count);
+ * const kept = eliminateSamples(candidates, count, 2);
+ * ```
+ */
+export const eliminateSamples = (
+  positions: Float32Array,
+  keepCount: number,
+  dimension: 2 | 3,
+): Uint32Array => {
+  const total = positions.length / 3;
+  const kept = new Uint32Array(Math.min(keepCount, total));
+
+  if (keepCount >= total) {
+    for (let i = 0; i < kept.length; i++) kept[i] = i;
+    return kept;
+  }
+
+  // Target radius for keepCount points from the candidate spacing; spacing
+  // scales with (candidates / kept) ^ (1 / dimension)
+  const spacing = estimateSpacing(positions, total);
+  const radius = 2 * spacing * Math.pow(total / keepCount, 1 / dimension);
+
+  // Hash grid with cells one radius wide, so neighbors lie in 27 cells
+  const cells = new Map<string, number[]>();
+  const cellOf = (i: number, axis: number) =>
+    radius > 0 ? Math.floor(positions[i * 3 + axis] / radius) : 0;
+  for (let i = 0; i < total; i++) {
+    const key = `${cellOf(i, 0)},${cellOf(i, 1)},${cellOf(i, 2)}`;
+    const cell = cells.get(key);
+    if (cell) cell.push(i);
+    else cells.set(key, [i]);
+  }
+
+  // Neighbor lists with pairwise weights
+  const neighbors: number[][] = new Array(total);
+  const neighborWeights: number[][] = new Array(total);
+  const weights = new Float64Array(total);
+
+  for (let i = 0; i < total; i++) {
+    const list: number[] = [];
+    const listWeights: number[] = [];
+    const cx = cellOf(i, 0);
+    const cy = cellOf(i, 1);
+    const cz = cellOf(i, 2);
+
+    for (let x = cx - 1; x <= cx + 1; x++) {
+      for (let y = cy - 1; y <= cy + 1; y++) {
+        for (let z = cz - 1; z <= cz + 1; z++) {
+          const cell = cells.get(`${x},${y},${z}`);
+          if (!cell) continue;
+          for (const j of cell) {
+            if (j === i) continue;
+            const dx = positions[j * 3] - positions[i * 3];
+            const dy = positions[j * 3 + 1] - positions[i * 3 + 1];
+            const dz = positions[j * 3 + 2] - positions[i * 3 + 2];
+            const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
+            if (distance >= radius) continue;
+            const weight = Math.pow(1 - distance / radius, WEIGHT_EXPONENT);
+            list.push(j);
+            listWeights.push(weight);
+            weights[i] += weight;
+          }
+        }
+      }
+    }
+
+    neighbors[i] = list;
+    neighborWeights[i] = listWeights;
+  }
+
+  // Indexed max-heap on weights
+  const heap = new Uint32Array(total);
+  const heapIndex = new Int32Array(total);
+  let heapSize = total;
+  for (let i = 0; i < total; i++) {
+    heap[i] = i;
+    heapIndex[i] = i;
+  }
+
+  const swap = (a: number, b: number): void => {
+    const pa = heap[a];
+    heap[a] = heap[b];
+    heap[b] = pa;
+    heapIndex[heap[a]] = a;
+    heapIndex[heap[b]] = b;
+  };
+
+  const siftDown = (start: number): void => {
+    let index = start;
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let largest = index;
+      if (left < heapSize && weights[heap[left]] > weights[heap[largest]]) {
+        largest = left;
+      }
+      if (right < heapSize && weights[heap[right]] > weights[heap[largest]]) {
+        largest = right;
+      }
+      if (largest === index) return;
+      swap(index, largest);
+      index = largest;
+    }
+  };
+
+  for (let i = (total >> 1) - 1; i >= 0; i--) siftDown(i);
+
+  const removed = new Uint8Array(total);
+  while (heapSize > keepCount) {
+    const top = heap[0];
+    removed[top] = 1;
+    heapSize--;
+    swap(0, heapSize);
+    siftDown(0);
+
+    // Weights only decrease, so neighbors sift down
+    const list = neighbors[top];
+    const listWeights = neighborWeights[top];
+    for (let n = 0; n < list.length; n++) {
+      const j = list[n];
+      if (removed[j]) continue;
+      weights[j] -= listWeights[n];
+      siftDown(heapIndex[j]);
+    }
+  }
+
+  let k = 0;
+  for (let i = 0; i < total; i++) {
+    if (!removed[i]) kept[k++] = i;
+  }
+  return kept;
+};
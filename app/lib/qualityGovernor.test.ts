@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import {
+  type QualityGovernor,
+  type QualitySettings,
+  createQualityGovernor,
+} from "./qualityGovernor";
+
+/**
+ * Render for a while at a frame rate that may depend on the settings
+ */
+const render = (
+  governor: QualityGovernor,
+  seconds: number,
+  fps: number | ((settings: QualitySettings) => number),
+): void => {
+  let elapsed = 0;
+  while (elapsed < seconds) {
+    const rate =
+      typeof fps === "number" ? fps : fps(governor.getState().settings);
+    governor.recordFrame(1 / rate);
+    elapsed += 1 / rate;
+  }
+};
+
+describe("createQualityGovernor", () => {
+  it("starts at the highest allowed settings", () => {
+    const governor = createQualityGovernor({ maxDpr: 1.5 });
+    expect(governor.getState().settings).toEqual({
+      particleScale: 1,
+      dpr: 1.5,
+      modelComplexity: 1,
+    });
+  });
+
+  it("steps down under load, pixel ratio first, until the target holds", () => {
+    const governor = createQualityGovernor();
+    // Fill rate bound: 60 fps once the pixel ratio is down to 1
+    render(governor, 20, ({ dpr }) => 60 / (dpr * dpr));
+
+    const { settings, decisions, stats } = governor.getState();
+    expect(settings.dpr).toBe(1);
+    expect(settings.particleScale).toBe(1);
+    expect(decisions.every((decision) => decision.setting === "dpr")).toBe(
+      true,
+    );
+    expect(stats.frameCap).toBeNull();
+  });
+
+  it("undoes a step that brings no gain and holds a capped frame rate", () => {
+    const governor = createQualityGovernor();
+    render(governor, 30, 30);
+
+    const { settings, decisions, stats } = governor.getState();
+    expect(settings).toEqual({ particleScale: 1, dpr: 2, modelComplexity: 1 });
+    expect(decisions[0].reason).toMatch(/no gain/);
+    expect(stats.frameCap).toBe(30);
+    expect(stats.effectiveTargetFps).toBe(30);
+  });
+
+  it("lifts the frame cap when the frame rate rises above it", () => {
+    const governor = createQualityGovernor();
+    render(governor, 10, 30);
+    render(governor, 2, 60);
+    expect(governor.getState().stats.frameCap).toBeNull();
+  });
+
+  it("steps back up once frames have headroom", () => {
+    const governor = createQualityGovernor();
+    render(governor, 6, ({ dpr }) => (dpr < 2 ? 120 : 30));
+    const lowered = governor.getState().settings.dpr;
+    expect(lowered).toBeLessThan(2);
+
+    render(governor, 10, 120);
+    expect(governor.getState().settings.dpr).toBeGreaterThan(lowered);
+  });
+
+  it("lowers model complexity for slow hand detection alone", () => {
+    const governor = createQualityGovernor();
+    for (let i = 0; i < 40; i++) governor.recordDetection(80);
+    render(governor, 3, 60);
+    expect(governor.getState().settings.modelComplexity).toBe(0);
+  });
+
+  it("measures but leaves settings alone while disabled", () => {
+    const governor = createQualityGovernor({ enabled: false });
+    render(governor, 10, 20);
+
+    const { settings, stats, decisions } = governor.getState();
+    expect(settings.dpr).toBe(2);
+    expect(stats.fps).toBeCloseTo(20);
+    expect(decisions).toHaveLength(0);
+  });
+
+  it("clamps settings to new limits and notifies listeners", () => {
+    const governor = createQualityGovernor();
+    let notified = 0;
+    const unsubscribe = governor.subscribe(() => notified++);
+    governor.setOptions({ maxDpr: 1 });
+    unsubscribe();
+
+    expect(governor.getState().settings.dpr).toBe(1);
+    expect(notified).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,504 @@
+/**
+ * Adaptive quality governor
+ * Steps particle count, pixel ratio and hand model complexity to hold a
+ * target frame rate
+ * @module lib/qualityGovernor
+ */
+
+/**
+ * Quality settings the governor controls
+ */
+export interface QualitySettings {
+  /** Share of the device particle count */
+  particleScale: number;
+  /** Renderer device pixel ratio */
+  dpr: number;
+  /** MediaPipe Hands model complexity */
+  modelComplexity: 0 | 1;
+}
+
+/**
+ * One step up or down of a single setting
+ */
+export interface QualityDecision {
+  /** Seconds of rendering since the governor was created */
+  time: number;
+  setting: keyof QualitySettings;
+  from: number;
+  to: number;
+  /** Measurement that triggered the step */
+  reason: string;
+}
+
+/**
+ * Latest measurements
+ */
+export interface QualityStats {
+  /** Frames per second over the last evaluation interval */
+  fps: number;
+  /** Mean frame time over the last evaluation interval */
+  frameTime: number; // milliseconds
+  /** Smoothed hand detection time, null until hand tracking reports */
+  detectionLatency: number | null; // milliseconds
+  /**
+   * Frame rate the browser or display appears to cap rendering at, found
+   * when a step down brought no gain; null while none was found
+   */
+  frameCap: number | null;
+  /** Frame rate held: the target, or the frame cap when lower */
+  effectiveTargetFps: number;
+}
+
+/**
+ * Governor limits and switches
+ */
+export interface QualityGovernorOptions {
+  /** Step settings automatically; measurements continue while off */
+  enabled: boolean;
+  /** Frame rate to hold */
+  targetFps: number;
+  /** Highest pixel ratio (usually the device's, capped at 2) */
+  maxDpr: number;
+  /** Highest model complexity (from the responsive config) */
+  maxModelComplexity: 0 | 1;
+  /** Step the particle count (off while the user picked a count) */
+  adjustParticles: boolean;
+}
+
+/**
+ * Snapshot of the governor, replaced on every change
+ * `settings` keeps its identity until a setting changes
+ */
+export interface QualityGovernorState {
+  settings: QualitySettings;
+  stats: QualityStats;
+  options: QualityGovernorOptions;
+  /** Most recent decisions, newest first */
+  decisions: readonly QualityDecision[];
+  /** Upgrades stop after the governor flips direction too often */
+  settled: boolean;
+}
+
+/**
+ * Frame-time driven quality controller
+ */
+export interface QualityGovernor {
+  /** Record one rendered frame */
+  recordFrame(delta: number): void;
+  /** Record the time one hand detection took, in milliseconds */
+  recordDetection(latency: number): void;
+  /** Change limits and switches; current settings are clamped to them */
+  setOptions(options: Partial<QualityGovernorOptions>): void;
+  /** Current snapshot */
+  getState(): QualityGovernorState;
+  /** Listen for snapshot changes */
+  subscribe(listener: () => void): () => void;
+}
+
+/**
+ * Default governor options
+ */
+export const DEFAULT_QUALITY_GOVERNOR_OPTIONS: QualityGovernorOptions = {
+  enabled: true,
+  targetFps: 60,
+  maxDpr: 2,
+  maxModelComplexity: 1,
+  adjustParticles: true,
+};
+
+/**
+ * Particle count shares, lowest first
+ */
+export const PARTICLE_SCALE_STEPS: readonly number[] = [0.25, 0.5, 0.75, 1];
+
+/**
+ * Pixel ratios, lowest first; those above maxDpr are skipped
+ */
+export const DPR_STEPS: readonly number[] = [0.75, 1, 1.5, 2];
+
+/**
+ * Time frames are averaged over before each evaluation
+ */
+const EVALUATION_INTERVAL = 0.5; // seconds
+
+/**
+ * Frames slower than this are stalls (hidden tab, debugger), not load
+ */
+const MAX_FRAME_DELTA = 0.25; // seconds
+
+/**
+ * Share of the target frame rate below which quality steps down
+ */
+const SLOW_RATIO = 0.85;
+
+/**
+ * Share of the target frame rate at or above which quality may step up
+ */
+const FAST_RATIO = 0.95;
+
+/**
+ * How long frames must stay slow before stepping down
+ */
+const DOWNGRADE_HOLD = 2; // seconds
+
+/**
+ * How long frames must stay fast before stepping up
+ */
+const UPGRADE_HOLD = 6; // seconds
+
+/**
+ * Measurements ignored after a step while buffers and shaders rebuild
+ */
+const SETTLE_TIME = 2; // seconds
+
+/**
+ * Frame rate gain a step down must bring to be kept
+ */
+const MIN_STEP_GAIN = 1.05;
+
+/**
+ * Frame rate above a found cap, as a share of it, that lifts the cap
+ */
+const CAP_RELEASE_RATIO = 1.1;
+
+/**
+ * Hand detection time above which model complexity steps down
+ */
+const DETECTION_BUDGET = 50; // milliseconds
+
+/**
+ * Weight of each new detection sample in the smoothed latency
+ */
+const DETECTION_SMOOTHING = 0.1;
+
+/**
+ * Direction changes after which the governor stops stepping up
+ */
+const MAX_FLIPS = 3;
+
+/**
+ * Decisions kept for display
+ */
+const MAX_DECISIONS = 8;
+
+/**
+ * Pixel ratio steps available up to a maximum
+ */
+const getDprSteps = (maxDpr: number): number[] => [
+  ...DPR_STEPS.filter((dpr) => dpr < maxDpr),
+  maxDpr,
+];
+
+/**
+ * Neighbouring step in a ladder, or null at its end
+ */
+const stepFrom = (
+  steps: readonly number[],
+  value: number,
+  direction: 1 | -1,
+): number | null => {
+  if (direction > 0) return steps.find((step) => step > value) ?? null;
+  const lower = steps.filter((step) => step < value);
+  return lower.length > 0 ? lower[lower.length - 1] : null;
+};
+
+/**
+ * Create a quality governor
+ *
+ * Feed it every frame's delta and each hand detection's duration. Every
+ * half second it compares the frame rate with the target. Frames slower
+ * than 85% of the target for 2 s step one setting down; frames at 95% or
+ * more for 6 s step one up. Slow hand detection alone also lowers the
+ * model complexity. Measurements pause for 2 s after each step, and after
+ * three reversals the governor stops stepping up so it can't oscillate.
+ *
+ * A frame-rate step down that doesn't raise the frame rate by 5% is
+ * undone: the browser or display caps rendering (e.g. at 30 Hz), so the
+ * observed rate becomes the frame cap and is held instead of the target.
+ * A frame rate well above the cap lifts it again.
+ *
+ * Settings step down in order of least visible loss: model complexity
+ * when detection is slow, pixel ratio down to 1, particle count, pixel
+ * ratio below 1, then model complexity. They step up in reverse, with
+ * model complexity only when detection has headroom.
+ *
+ * @param options - Initial limits; settings start at the highest allowed
+ * @returns Governor instance
+ *
+ * @example
+ * ```
+ * const governor = createQualityGovernor({ maxDpr: devicePixelRatio });
+ * useFrame((_, delta) => governor.recordFrame(delta));
+ * const { dpr, particleScale } = governor.getState().settings;
+ * ```
+ */
+export const createQualityGovernor = (
+  options: Partial<QualityGovernorOptions> = {},
+): QualityGovernor => {
+  const listeners = new Set<() => void>();
+  let current: QualityGovernorOptions = {
+    ...DEFAULT_QUALITY_GOVERNOR_OPTIONS,
+    ...options,
+  };
+  let state: QualityGovernorState = {
+    settings: {
+      particleScale: 1,
+      dpr: current.maxDpr,
+      modelComplexity: current.maxModelComplexity,
+    },
+    stats: {
+      fps: 0,
+      frameTime: 0,
+      detectionLatency: null,
+      frameCap: null,
+      effectiveTargetFps: current.targetFps,
+    },
+    options: current,
+    decisions: [],
+    settled: false,
+  };
+
+  let time = 0;
+  let settleUntil = 0;
+  let frames = 0;
+  let frameTime = 0;
+  let slowTime = 0;
+  let fastTime = 0;
+  let detectionLatency: number | null = null;
+  let lastDirection: 1 | -1 | 0 = 0;
+  let flips = 0;
+  let frameCap: number | null = null;
+  // Frame-rate step down awaiting its first measurement
+  let pendingCheck: {
+    setting: keyof QualitySettings;
+    from: number;
+    fps: number;
+  } | null = null;
+
+  const emit = (next: Partial<QualityGovernorState>): void => {
+    state = { ...state, ...next };
+    listeners.forEach((listener) => listener());
+  };
+
+  // Restart measuring so the next decision only sees the new settings
+  const resetMeasurements = (): void => {
+    settleUntil = time + SETTLE_TIME;
+    frames = 0;
+    frameTime = 0;
+    slowTime = 0;
+    fastTime = 0;
+  };
+
+  /**
+   * Pick the setting to change and its new value
+   */
+  const chooseStep = (
+    direction: 1 | -1,
+    slowDetection: boolean,
+  ): [keyof QualitySettings, number] | null => {
+    const { settings } = state;
+    const dprSteps = getDprSteps(current.maxDpr);
+    const dpr = stepFrom(dprSteps, settings.dpr, direction);
+    const particleScale = current.adjustParticles
+      ? stepFrom(PARTICLE_SCALE_STEPS, settings.particleScale, direction)
+      : null;
+
+    if (direction < 0) {
+      if (slowDetection && settings.modelComplexity > 0) {
+        return ["modelComplexity", 0];
+      }
+      if (dpr !== null && settings.dpr > 1) return ["dpr", dpr];
+      if (particleScale !== null) return ["particleScale", particleScale];
+      if (dpr !== null) return ["dpr", dpr];
+      if (settings.modelComplexity > 0) return ["modelComplexity", 0];
+      return null;
+    }
+
+    if (dpr !== null && settings.dpr < 1) return ["dpr", dpr];
+    if (particleScale !== null) return ["particleScale", particleScale];
+    if (dpr !== null) return ["dpr", dpr];
+    const detectionHeadroom =
+      detectionLatency === null || detectionLatency < DETECTION_BUDGET / 2;
+    if (settings.modelComplexity < current.maxModelComplexity) {
+      return detectionHeadroom ? ["modelComplexity", 1] : null;
+    }
+    return null;
+  };
+
+  /**
+   * Change one setting and log the decision
+   */
+  const setSetting = (
+    setting: keyof QualitySettings,
+    to: number,
+    reason: string,
+  ): void => {
+    const decision: QualityDecision = {
+      time,
+      setting,
+      from: state.settings[setting],
+      to,
+      reason,
+    };
+    emit({
+      settings: { ...state.settings, [setting]: to },
+      decisions: [decision, ...state.decisions].slice(0, MAX_DECISIONS),
+      settled: flips >= MAX_FLIPS,
+    });
+  };
+
+  /**
+   * @param fps - Frame rate before the step, checked against afterwards
+   *   when the step is for the frame rate (null otherwise)
+   */
+  const applyStep = (
+    direction: 1 | -1,
+    slowDetection: boolean,
+    reason: string,
+    fps: number | null,
+  ): void => {
+    const step = chooseStep(direction, slowDetection);
+    resetMeasurements();
+    pendingCheck = null;
+    if (!step) return;
+
+    const [setting, to] = step;
+    if (lastDirection !== 0 && lastDirection !== direction) flips++;
+    lastDirection = direction;
+
+    if (direction < 0 && fps !== null) {
+      pendingCheck = { setting, from: state.settings[setting], fps };
+    }
+    setSetting(setting, to, reason);
+  };
+
+  /**
+   * Undo a frame-rate step down that brought no gain, and hold the
+   * observed frame rate as the cap from now on
+   *
+   * @returns Whether the step was undone
+   */
+  const checkStep = (fps: number): boolean => {
+    const check = pendingCheck;
+    pendingCheck = null;
+    if (!check || fps >= check.fps * MIN_STEP_GAIN) return false;
+
+    frameCap = Math.max(check.fps, fps);
+    resetMeasurements();
+    setSetting(
+      check.setting,
+      check.from,
+      `no gain at ${Math.round(fps)} fps, capped`,
+    );
+    return true;
+  };
+
+  const evaluate = (): void => {
+    const fps = frames / frameTime;
+    const elapsed = frameTime;
+    frames = 0;
+    frameTime = 0;
+
+    // A frame rate well above the cap means the cap is gone
+    if (frameCap !== null && fps >= frameCap * CAP_RELEASE_RATIO) {
+      frameCap = null;
+    }
+
+    const { enabled } = current;
+    const targetFps =
+      frameCap === null
+        ? current.targetFps
+        : Math.min(current.targetFps, frameCap);
+    const slowFrames = fps < targetFps * SLOW_RATIO;
+    const slowDetection =
+      detectionLatency !== null && detectionLatency > DETECTION_BUDGET;
+    const canDropComplexity =
+      slowDetection && state.settings.modelComplexity > 0;
+
+    slowTime = slowFrames || canDropComplexity ? slowTime + elapsed : 0;
+    fastTime =
+      fps >= targetFps * FAST_RATIO && !slowDetection ? fastTime + elapsed : 0;
+
+    emit({
+      stats: {
+        fps,
+        frameTime: 1000 / fps,
+        detectionLatency,
+        frameCap,
+        effectiveTargetFps: targetFps,
+      },
+    });
+    if (!enabled) return;
+    if (checkStep(fps)) return;
+
+    if (slowTime >= DOWNGRADE_HOLD) {
+      applyStep(
+        -1,
+        slowDetection,
+        slowFrames
+          ? `${Math.round(fps)} fps < ${Math.round(targetFps * SLOW_RATIO)}`
+          : `hand detection ${Math.round(detectionLatency ?? 0)} ms`,
+        slowFrames ? fps : null,
+      );
+    } else if (fastTime >= UPGRADE_HOLD && !state.settled) {
+      applyStep(1, false, `${Math.round(fps)} fps`, null);
+    }
+  };
+
+  return {
+    recordFrame(delta) {
+      if (!(delta > 0) || delta > MAX_FRAME_DELTA) return;
+      time += delta;
+      if (time < settleUntil) return;
+
+      frames++;
+      frameTime += delta;
+      if (frameTime >= EVALUATION_INTERVAL) evaluate();
+    },
+    recordDetection(latency) {
+      detectionLatency =
+        detectionLatency === null
+          ? latency
+          : detectionLatency +
+            (latency - detectionLatency) * DETECTION_SMOOTHING;
+    },
+    setOptions(options) {
+      current = { ...current, ...options };
+      const { settings } = state;
+      const clamped: QualitySettings = {
+        particleScale: settings.particleScale,
+        dpr: Math.min(settings.dpr, current.maxDpr),
+        modelComplexity: Math.min(
+          settings.modelComplexity,
+          current.maxModelComplexity,
+        ) as 0 | 1,
+      };
+      const changed =
+        clamped.dpr !== settings.dpr ||
+        clamped.modelComplexity !== settings.modelComplexity;
+
+      // Re-enabling starts over
+      if (options.enabled && !state.options.enabled) {
+        flips = 0;
+        lastDirection = 0;
+        frameCap = null;
+        pendingCheck = null;
+        resetMeasurements();
+      }
+      emit({
+        options: current,
+        settings: changed ? clamped : settings,
+        settled: flips >= MAX_FLIPS,
+      });
+    },
+    getState() {
+      return state;
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
@@ -0,0 +1,72 @@
+/**
+ * Seedable pseudo-random number generation
+ * Lets shape generators produce reproducible point clouds
+ * @module lib/random
+ */
+
+import type { RandomSource, ShapeSeed } from "./constants";
+
+/**
+ * Hash a string seed into a 32-bit unsigned integer (FNV-1a)
+ *
+ * @param value - String to hash
+ * @returns 32-bit hash
+ */
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Normalize a numeric or string seed to a 32-bit unsigned integer
+ *
+ * @param seed - Seed value
+ * @returns 32-bit seed
+ */
+export const normalizeSeed = (seed: ShapeSeed): number => {
+  if (typeof seed === "string") {
+    return hashString(seed);
+  }
+  return Math.floor(seed) >>> 0;
+};
+
+/**
+ * Create a deterministic random source (mulberry32)
+ *
+ * Returns values in [0, 1) like Math.random. The same seed always yields
+ * the same sequence.
+ *
+ * @param seed - Numeric or string seed
+ * @returns Random source function
+ *
+ * @example
+ * ```
+ * const random = createSeededRandom(42);
+ * random(); // 0.6011037519201636 on every run
+ * ```
+ */
+export const createSeededRandom = (seed: ShapeSeed): RandomSource => {
+  let state = normalizeSeed(seed);
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Create a random source, seeded when a seed is given
+ *
+ * @param seed - Optional seed; unseeded sources use Math.random
+ * @returns Random source function
+ */
+export const createRandom = (seed?: ShapeSeed): RandomSource => {
+  return seed === undefined ? Math.random : createSeededRandom(seed);
+};
@@ -0,0 +1,155 @@
+/**
+ * 2D raster helpers for text and image shapes
+ * Creates drawing surfaces, decodes images and samples points from
+ * per-pixel weights
+ * @module lib/raster
+ */
+
+import type { RandomSource } from "./constants";
+
+/**
+ * 2D context from either a DOM canvas or an OffscreenCanvas
+ */
+export type Raster2DContext =
+  | CanvasRenderingContext2D
+  | OffscreenCanvasRenderingContext2D;
+
+/**
+ * RGBA pixels of a decoded image, row-major, 4 bytes per pixel
+ */
+export interface PixelRaster {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+/**
+ * Per-pixel sampling weights for a raster
+ */
+export interface WeightMap {
+  width: number;
+  height: number;
+  /** Non-negative weight per pixel, row-major, length width * height */
+  weights: Float32Array;
+}
+
+/**
+ * Create a 2D drawing context of the given size
+ * Prefers OffscreenCanvas so rasterization also works off the main thread
+ *
+ * @param width - Canvas width in pixels
+ * @param height - Canvas height in pixels
+ * @returns 2D context
+ */
+export const createRasterContext = (
+  width: number,
+  height: number,
+): Raster2DContext => {
+  const context =
+    typeof OffscreenCanvas !== "undefined"
+      ? new OffscreenCanvas(width, height).getContext("2d", {
+          willReadFrequently: true,
+        })
+      : Object.assign(document.createElement("canvas"), {
+          width,
+          height,
+        }).getContext("2d", { willReadFrequently: true });
+
+  if (!context) {
+    throw new Error("2D canvas context not available");
+  }
+  return context;
+};
+
+/**
+ * Sample pixel positions with probability proportional to their weight
+ *
+ * Returned coordinates are centered on the raster, y-up, in pixel units,
+ * with sub-pixel jitter so particles do not stack on pixel centers.
+ *
+ * @param map - Pixel weights
+ * @param count - Number of samples
+ * @param random - Random source
+ * @returns Pixel indices and [x, y] coordinates per sample, or null if all weights are zero
+ */
+export const sampleWeightMap = (
+  map: WeightMap,
+  count: number,
+  random: RandomSource,
+): { pixels: Uint32Array; coords: Float32Array } | null => {
+  const { width, height, weights } = map;
+  const cumulative = new Float64Array(weights.length);
+  let total = 0;
+  for (let i = 0; i < weights.length; i++) {
+    total += weights[i];
+    cumulative[i] = total;
+  }
+
+  if (total <= 0) {
+    return null;
+  }
+
+  const pixels = new Uint32Array(count);
+  const coords = new Float32Array(count * 2);
+
+  for (let i = 0; i < count; i++) {
+    // Binary search the cumulative weight table
+    const value = random() * total;
+    let low = 0;
+    let high = cumulative.length - 1;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (cumulative[mid] <= value) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    const px = low % width;
+    const py = Math.floor(low / width);
+    pixels[i] = low;
+    coords[i * 2] = px + random() - width / 2;
+    coords[i * 2 + 1] = height / 2 - (py + random());
+  }
+
+  return { pixels, coords };
+};
+
+/**
+ * Decode an image file into RGBA pixels, downscaled to fit maxSize
+ *
+ * @param file - PNG, JPEG or other browser-decodable image
+ * @param maxSize - Maximum width or height in pixels
+ * @returns Decoded pixels
+ */
+export const decodeImageFile = async (
+  file: Blob,
+  maxSize: number,
+): Promise<PixelRaster> => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+    const context = createRasterContext(width, height);
+
+    context.drawImage(bitmap, 0, 0, width, height);
+    const { data } = context.getImageData(0, 0, width, height);
+    return { width, height, data };
+  } finally {
+    bitmap.close();
+  }
+};
+
+/**
+ * Convert an sRGB channel (0-1) to linear
+ *
+ * @param value - sRGB channel value
+ * @returns Linear channel value
+ */
+export const srgbToLinear = (value: number): number => {
+  return value <= 0.04045
+    ? value / 12.92
+    : Math.pow((value + 0.055) / 1.055, 2.4);
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it, vi } from "vitest";
+import { createRegistry } from "./registry";
+
+const A = { id: "a", value: 1 };
+const B = { id: "b", value: 2 };
+
+describe("createRegistry", () => {
+  it("lists items in insertion order and replaces ids in place", () => {
+    const registry = createRegistry([A, B]);
+    const replacement = { id: "a", value: 3 };
+    registry.register(replacement);
+
+    expect(registry.list()).toEqual([replacement, B]);
+  });
+
+  it("keeps the snapshot stable until the next change", () => {
+    const registry = createRegistry([A]);
+    const before = registry.list();
+
+    expect(registry.list()).toBe(before);
+    registry.register(B);
+    expect(registry.list()).not.toBe(before);
+  });
+
+  it("leaves a replacement registered when the original unregisters", () => {
+    const registry = createRegistry<typeof A>([]);
+    const unregister = registry.register(A);
+    const replacement = { id: "a", value: 3 };
+    registry.register(replacement);
+    unregister();
+
+    expect(registry.get("a")).toBe(replacement);
+  });
+
+  it("notifies subscribers of changes only", () => {
+    const registry = createRegistry([A]);
+    const listener = vi.fn();
+    const unsubscribe = registry.subscribe(listener);
+
+    registry.unregister("missing");
+    expect(listener).not.toHaveBeenCalled();
+    registry.unregister("a");
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+    registry.register(B);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
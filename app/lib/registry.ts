@@ -0,0 +1,96 @@
+/**
+ * Observable registry
+ * Ordered, id-keyed store shared by the shape and palette registries
+ * @module lib/registry
+ */
+
+/**
+ * Id-keyed collection that notifies subscribers on every change
+ */
+export interface Registry<T extends { id: string }> {
+  /**
+   * Add an item, replacing one with the same id in place
+   * @returns Function that unregisters the item if it is still registered
+   */
+  register(item: T): () => void;
+  /** Remove an item; returns true if one was removed */
+  unregister(id: string): boolean;
+  /** Look up an item by id */
+  get(id: string): T | undefined;
+  /** Check whether an id is registered */
+  has(id: string): boolean;
+  /**
+   * Items in insertion order
+   * The same array is returned until the next change, so it can back
+   * useSyncExternalStore
+   */
+  list(): readonly T[];
+  /**
+   * Listen for changes
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: () => void): () => void;
+}
+
+/**
+ * Create a registry
+ *
+ * @param initial - Items registered up front (insertion order = list order)
+ * @returns Registry instance
+ *
+ * @example
+ * ```
+ * const registry = createRegistry(BUILT_IN_PALETTES);
+ * const unregister = registry.register(custom);
+ * registry.list(); // built-ins, then custom
+ * ```
+ */
+export const createRegistry = <T extends { id: string }>(
+  initial: readonly T[] = [],
+): Registry<T> => {
+  const items = new Map<string, T>(initial.map((item) => [item.id, item]));
+  const listeners = new Set<() => void>();
+  let snapshot: readonly T[] = Array.from(items.values());
+
+  const emitChange = (): void => {
+    snapshot = Array.from(items.values());
+    listeners.forEach((listener) => listener());
+  };
+
+  const registry: Registry<T> = {
+    register(item) {
+      items.set(item.id, item);
+      emitChange();
+
+      return () => {
+        if (items.get(item.id) === item) {
+          registry.unregister(item.id);
+        }
+      };
+    },
+    unregister(id) {
+      const removed = items.delete(id);
+      if (removed) {
+        emitChange();
+      }
+      return removed;
+    },
+    get(id) {
+      return items.get(id);
+    },
+    has(id) {
+      return items.has(id);
+    },
+    list() {
+      return snapshot;
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+
+  return registry;
+};
@@ -0,0 +1,84 @@
+/**
+ * Per-particle sample attributes
+ * Helpers that keep optional attribute buffers aligned with positions
+ * @module lib/sampleAttributes
+ */
+
+import type { ShapeSample } from "./constants";
+
+/**
+ * Optional per-particle attributes and their components per particle
+ */
+export const SAMPLE_ATTRIBUTES = [
+  { key: "colors", itemSize: 3 },
+  { key: "sizes", itemSize: 1 },
+  { key: "importance", itemSize: 1 },
+] as const;
+
+/**
+ * Build a sample containing the given particles, in the given order
+ * Every attribute present on the source is carried along
+ *
+ * @param sample - Source sample
+ * @param indices - Source particle index for each output particle
+ * @returns New sample with indices.length particles
+ */
+export const selectParticles = (
+  sample: ShapeSample,
+  indices: ArrayLike<number>,
+): ShapeSample => {
+  const count = indices.length;
+  const positions = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    const from = indices[i] * 3;
+    positions[i * 3] = sample.positions[from];
+    positions[i * 3 + 1] = sample.positions[from + 1];
+    positions[i * 3 + 2] = sample.positions[from + 2];
+  }
+
+  const result: ShapeSample = { positions };
+  for (const { key, itemSize } of SAMPLE_ATTRIBUTES) {
+    const source = sample[key];
+    if (!source) continue;
+    const values = new Float32Array(count * itemSize);
+    for (let i = 0; i < count; i++) {
+      for (let c = 0; c < itemSize; c++) {
+        values[i * itemSize + c] = source[indices[i] * itemSize + c];
+      }
+    }
+    result[key] = values;
+  }
+  return result;
+};
+
+/**
+ * Deep copy of a sample and its attributes
+ *
+ * @param sample - Source sample
+ * @returns Copy sharing no buffers with the source
+ */
+export const copySample = (sample: ShapeSample): ShapeSample => {
+  const result: ShapeSample = { positions: sample.positions.slice() };
+  for (const { key } of SAMPLE_ATTRIBUTES) {
+    const source = sample[key];
+    if (source) result[key] = source.slice();
+  }
+  return result;
+};
+
+/**
+ * Distinct buffers backing a sample, for postMessage transfer lists
+ *
+ * @param sample - Sample
+ * @returns Array buffers
+ */
+export const getSampleBuffers = (sample: ShapeSample): ArrayBuffer[] => {
+  const buffers = new Set<ArrayBuffer>([
+    sample.positions.buffer as ArrayBuffer,
+  ]);
+  for (const { key } of SAMPLE_ATTRIBUTES) {
+    const source = sample[key];
+    if (source) buffers.add(source.buffer as ArrayBuffer);
+  }
+  return [...buffers];
+};
@@ -2,104 +2,156 @@
 
 /**
  * 3D Shape position generators
- * Mathematical functions for generating particle positions in various shapes
+ * Resolves shapes from the shape registry and runs their generators
  * @module lib/shapeGenerators
  */
 
-import { type ShapeType } from "./constants";
+import {
+  type GenerateOptions,
+  type SharedState,
+  type ShapeDefinition,
+  type ShapeParams,
+  type ShapeSample,
+  type ShapeType,
+  DEFAULT_SHAPE,
+} from "./constants";
+import { getShape } from "./shapeRegistry";
+import { createRandom } from "./random";
+import { eliminateSamples } from "./poissonDisk";
+import { selectParticles } from "./sampleAttributes";
+
+/**
+ * Candidates generated per particle when relaxing
+ */
+const RELAX_OVERSAMPLING = 3;
 
 /**
  * Generate particle positions for a given shape
  *
- * @param type - Shape type to generate
+ * @param type - Registered shape id (unknown ids fall back to DEFAULT_SHAPE)
  * @param count - Number of particles
+ * @param options - Optional parameter overrides and seed
  * @returns Float32Array of [x, y, z] positions
+ *
+ * @example
+ * ```
+ * // Identical output on every call
+ * const a = generatePositions("heart", 8000, { seed: 7 });
+ * const b = generatePositions("heart", 8000, { seed: 7 });
+ * ```
  */
 export const generatePositions = (
   type: ShapeType,
   count: number,
+  options: GenerateOptions = {},
 ): Float32Array => {
-  const positions = new Float32Array(count * 3);
+  return generateShape(type, count, options).positions;
+};
 
-  for (let i = 0; i < count; i++) {
-    const idx = i * 3;
-    let x = 0;
-    let y = 0;
-    let z = 0;
+/**
+ * Generate positions and optional per-particle attributes for a given shape
+ *
+ * @param type - Registered shape id (unknown ids fall back to DEFAULT_SHAPE)
+ * @param count - Number of particles
+ * @param options - Optional parameter overrides and seed
+ * @returns Shape sample
+ */
+export const generateShape = (
+  type: ShapeType,
+  count: number,
+  options: GenerateOptions = {},
+): ShapeSample => {
+  const shape = getShape(type) ?? getShape(DEFAULT_SHAPE);
 
-    switch (type) {
-      case "heart":
-        {
-          const t = Math.random() * Math.PI * 2;
-          const p = Math.random() * Math.PI * 2;
-          x = 16 * Math.pow(Math.sin(t), 3);
-          y =
-            13 * Math.cos(t) -
-            5 * Math.cos(2 * t) -
-            2 * Math.cos(3 * t) -
-            Math.cos(4 * t);
-          z = 4 * Math.sin(p) * Math.sin(t);
-          x *= 0.3;
-          y *= 0.3;
-          z *= 0.3;
-          y += 1;
-        }
-        break;
+  if (!shape) {
+    return { positions: new Float32Array(count * 3) };
+  }
 
-      case "sphere":
-        {
-          const theta = Math.random() * Math.PI * 2;
-          const phi = Math.acos(2 * Math.random() - 1);
-          const r = 6;
-          // ✅ FIX: Changed let to const (lines 45, 46, 51)
-          const x = r * Math.sin(phi) * Math.cos(theta);
-          const y = r * Math.sin(phi) * Math.sin(theta);
-          const z = r * Math.cos(phi);
-          positions[idx] = x;
-          positions[idx + 1] = y;
-          positions[idx + 2] = z;
-        }
-        break;
+  return generateShapeSample(shape, count, options);
+};
 
-      case "flower":
-        {
-          const u = Math.random() * Math.PI * 4;
-          const v = Math.random() * Math.PI;
-          const r = 5 * Math.sin(2 * u);
-          x = r * Math.cos(u) * Math.sin(v);
-          y = r * Math.sin(u) * Math.sin(v);
-          z = 2 * Math.cos(v);
-        }
-        break;
+/**
+ * Generate positions and optional per-particle attributes from a definition
+ * Use when the caller already holds the definition (e.g. from useShape)
+ *
+ * @param shape - Shape definition
+ * @param count - Number of particles
+ * @param options - Optional parameter overrides, seed, fill, sampling and relaxation
+ * @returns Shape sample
+ */
+export const generateShapeSample = (
+  shape: ShapeDefinition,
+  count: number,
+  options: GenerateOptions = {},
+): ShapeSample => {
+  const fill =
+    options.fill && shape.fills.includes(options.fill)
+      ? options.fill
+      : shape.fills[0];
+  const relax = options.relax && !shape.fixedDensity;
+  const generateCount = relax ? count * RELAX_OVERSAMPLING : count;
+
+  const output = shape.generate({
+    count: generateCount,
+    params: { ...shape.defaultParams, ...options.params },
+    random: createRandom(options.seed),
+    fill,
+    sampling: options.sampling ?? "parameter",
+  });
+  const sample =
+    output instanceof Float32Array ? { positions: output } : output;
 
-      case "spiral":
-        {
-          const t = (i / count) * 20 * Math.PI;
-          const r = (i / count) * 8;
-          x = r * Math.cos(t);
-          y = (i / count - 0.5) * 10;
-          z = r * Math.sin(t);
-        }
-        break;
+  if (!relax) {
+    return sample;
+  }
 
-      default: {
-        // Default to sphere if unknown type
-        const theta = Math.random() * Math.PI * 2;
-        const phi = Math.acos(2 * Math.random() - 1);
-        const r = 6;
-        x = r * Math.sin(phi) * Math.cos(theta);
-        y = r * Math.sin(phi) * Math.sin(theta);
-        z = r * Math.cos(phi);
-      }
-    }
+  // Thin the oversampled set down to count evenly spaced particles
+  const kept = eliminateSamples(
+    sample.positions,
+    count,
+    fill === "volume" ? 3 : 2,
+  );
+  return selectParticles(sample, kept);
+};
 
-    // Only assign if not handled in switch block
-    if (type !== "sphere") {
-      positions[idx] = x;
-      positions[idx + 1] = y;
-      positions[idx + 2] = z;
-    }
+/**
+ * Evaluate an animated shape's target positions at a point in time
+ * Shapes without `animate` copy the base positions unchanged
+ *
+ * @param shape - Shape definition the base positions were generated from
+ * @param base - Generated target positions in particle order
+ * @param out - Destination buffer, same length as base
+ * @param time - Scene time in seconds
+ * @param hand - Current hand tracking input
+ * @param params - Optional parameter overrides used at generation
+ *
+ * @example
+ * ```
+ * animateShapeSample(heartShape, sample.positions, targets, clock.elapsedTime, sharedState);
+ * ```
+ */
+export const animateShapeSample = (
+  shape: ShapeDefinition,
+  base: Float32Array,
+  out: Float32Array,
+  time: number,
+  hand: Readonly<SharedState>,
+  params?: ShapeParams,
+): void => {
+  if (!shape.animate) {
+    out.set(base);
+    return;
   }
 
-  return positions;
+  shape.animate(
+    {
+      time,
+      params: params
+        ? { ...shape.defaultParams, ...params }
+        : shape.defaultParams,
+      hand,
+      base,
+    },
+    out,
+  );
 };
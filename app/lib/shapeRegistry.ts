@@ -0,0 +1,76 @@
+/**
+ * Shape registry
+ * Single source of truth for the shapes available to the particle system,
+ * the shape dock and gesture cycling
+ * @module lib/shapeRegistry
+ */
+
+import type { ShapeDefinition, ShapeParams, ShapeType } from "./constants";
+import { createRegistry } from "./registry";
+import { BUILT_IN_SHAPES } from "./shapes";
+
+/**
+ * Registered shapes (insertion order = dock order)
+ */
+const registry = createRegistry<ShapeDefinition>(BUILT_IN_SHAPES);
+
+/**
+ * Register a shape definition
+ * Re-registering an existing id replaces the definition in place
+ *
+ * @param definition - Shape definition to register
+ * @returns Function that unregisters the shape
+ */
+export const registerShape = <P extends ShapeParams>(
+  definition: ShapeDefinition<P>,
+): (() => void) => {
+  return registry.register(definition);
+};
+
+/**
+ * Remove a shape from the registry
+ *
+ * @param id - Shape identifier
+ * @returns true if a shape was removed
+ */
+export const unregisterShape = (id: ShapeType): boolean => {
+  return registry.unregister(id);
+};
+
+/**
+ * Look up a shape definition by id
+ *
+ * @param id - Shape identifier
+ * @returns Shape definition or undefined if not registered
+ */
+export const getShape = (id: ShapeType): ShapeDefinition | undefined => {
+  return registry.get(id);
+};
+
+/**
+ * Check whether a shape is registered
+ *
+ * @param id - Shape identifier
+ */
+export const hasShape = (id: ShapeType): boolean => {
+  return registry.has(id);
+};
+
+/**
+ * Get all registered shapes in order
+ *
+ * @returns Immutable snapshot of registered shapes
+ */
+export const getShapes = (): readonly ShapeDefinition[] => {
+  return registry.list();
+};
+
+/**
+ * Subscribe to registry changes
+ *
+ * @param listener - Called after any registration change
+ * @returns Unsubscribe function
+ */
+export const subscribeToShapes = (listener: () => void): (() => void) => {
+  return registry.subscribe(listener);
+};
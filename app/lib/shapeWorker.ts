@@ -0,0 +1,174 @@
+/**
+ * Shape generation worker
+ * Runs shape generators and morph matching off the main thread
+ * @module lib/shapeWorker
+ */
+
+import type {
+  GenerateOptions,
+  SerializedShape,
+  ShapeDefinition,
+  ShapeSample,
+  TriangleMesh,
+} from "./constants";
+import { generateShapeSample } from "./shapeGenerators";
+import { matchTargets } from "./correspondence";
+import { getSampleBuffers } from "./sampleAttributes";
+import { BUILT_IN_SHAPES } from "./shapes";
+import { createMeshShape } from "./shapes/mesh";
+import { createTextShapeFromRaster } from "./shapes/text";
+import { type ImageShapeOptions, createImageShape } from "./shapes/image";
+import { createSvgShape } from "./shapes/svg";
+import {
+  type ParametricDefinition,
+  createParametricShape,
+} from "./shapes/parametric";
+import type { PixelRaster, WeightMap } from "./raster";
+import type { Polyline } from "./svg";
+
+/**
+ * Messages sent to the worker
+ */
+export type ShapeWorkerRequest =
+  | {
+      /** Register a shape recipe under a revision key */
+      type: "define";
+      key: string;
+      shape: SerializedShape;
+    }
+  | {
+      /** Generate a defined shape, then match it to current positions */
+      type: "generate";
+      id: number;
+      key: string;
+      count: number;
+      options: GenerateOptions;
+      current: Float32Array | null;
+    }
+  | {
+      /** Match an already generated sample to current positions */
+      type: "match";
+      id: number;
+      sample: ShapeSample;
+      current: Float32Array;
+    };
+
+/**
+ * Messages sent back from the worker
+ */
+export type ShapeWorkerResponse =
+  | {
+      type: "result";
+      id: number;
+      /** Generated sample in generator order (absent for match requests) */
+      sample?: ShapeSample;
+      /** Sample reordered for the current positions (absent without them) */
+      matched?: ShapeSample;
+    }
+  | { type: "error"; id: number; message: string };
+
+/**
+ * Factories that rebuild serialized shapes
+ */
+const SHAPE_FACTORIES: Record<string, (args: unknown[]) => ShapeDefinition> = {
+  builtin: ([id]) => {
+    const shape = BUILT_IN_SHAPES.find((item) => item.id === id);
+    if (!shape) {
+      throw new Error(`Unknown built-in shape "${String(id)}"`);
+    }
+    return shape;
+  },
+  mesh: ([id, label, mesh]) =>
+    createMeshShape(id as string, label as string, mesh as TriangleMesh),
+  text: ([raster]) => createTextShapeFromRaster(raster as WeightMap),
+  image: ([id, label, raster, options]) =>
+    createImageShape(
+      id as string,
+      label as string,
+      raster as PixelRaster,
+      options as ImageShapeOptions,
+    ),
+  svg: ([id, label, polylines]) =>
+    createSvgShape(id as string, label as string, polylines as Polyline[]),
+  parametric: ([definition]) =>
+    createParametricShape(definition as ParametricDefinition),
+};
+
+/**
+ * Rebuilt definitions by revision key; only the latest revision of each
+ * shape id is kept
+ */
+const definitions = new Map<string, ShapeDefinition>();
+
+/**
+ * Handle one request
+ *
+ * @param request - Incoming message
+ * @returns Response, or null for fire-and-forget defines
+ */
+const handleRequest = (
+  request: ShapeWorkerRequest,
+): ShapeWorkerResponse | null => {
+  switch (request.type) {
+    case "define": {
+      const factory = SHAPE_FACTORIES[request.shape.factory];
+      if (!factory) {
+        throw new Error(`Unknown shape factory "${request.shape.factory}"`);
+      }
+      const shape = factory(request.shape.args);
+      for (const [key, existing] of definitions) {
+        if (existing.id === shape.id) definitions.delete(key);
+      }
+      definitions.set(request.key, shape);
+      return null;
+    }
+
+    case "generate": {
+      const shape = definitions.get(request.key);
+      if (!shape) {
+        throw new Error(`Shape "${request.key}" is not defined in the worker`);
+      }
+      const sample = generateShapeSample(shape, request.count, request.options);
+      const matched = request.current
+        ? matchTargets(request.current, sample)
+        : undefined;
+      return { type: "result", id: request.id, sample, matched };
+    }
+
+    case "match":
+      return {
+        type: "result",
+        id: request.id,
+        matched: matchTargets(request.current, request.sample),
+      };
+  }
+};
+
+self.addEventListener("message", (event: MessageEvent<ShapeWorkerRequest>) => {
+  const request = event.data;
+  let response: ShapeWorkerResponse | null;
+
+  try {
+    response = handleRequest(request);
+  } catch (error) {
+    // A failed define surfaces when a generate request references it
+    response =
+      request.type === "define"
+        ? null
+        : { type: "error", id: request.id, message: (error as Error).message };
+  }
+
+  if (!response) return;
+
+  const transfer =
+    response.type === "result"
+      ? [
+          ...new Set(
+            [response.sample, response.matched].flatMap((sample) =>
+              sample ? getSampleBuffers(sample) : [],
+            ),
+          ),
+        ]
+      : [];
+  self.postMessage(response, { transfer });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it, vi } from "vitest";
+import type { ShapeDefinition } from "./constants";
+import { generateShapeAsync } from "./shapeWorkerClient";
+
+/**
+ * Runtime line shape counting its generator runs; Node has no Worker, so
+ * every request takes the main-thread path
+ */
+const createLineShape = (): ShapeDefinition => ({
+  id: "test-line",
+  label: "Line",
+  icon: () => null,
+  defaultParams: {},
+  fills: ["surface"],
+  generate: vi.fn(({ count, random }) => {
+    const positions = new Float32Array(count * 3);
+    for (let i = 0; i < count; i++) positions[i * 3] = random();
+    return positions;
+  }),
+});
+
+describe("generateShapeAsync", () => {
+  it("reuses a cached sample for the same request", async () => {
+    const shape = createLineShape();
+    const first = await generateShapeAsync(shape, 50, { seed: 1 });
+    const second = await generateShapeAsync(shape, 50, { seed: 1 });
+
+    expect(second).toBe(first);
+    expect(shape.generate).toHaveBeenCalledTimes(1);
+  });
+
+  it("regenerates when the seed or count changes", async () => {
+    const shape = createLineShape();
+    await generateShapeAsync(shape, 50, { seed: 1 });
+    await generateShapeAsync(shape, 50, { seed: 2 });
+    await generateShapeAsync(shape, 60, { seed: 1 });
+
+    expect(shape.generate).toHaveBeenCalledTimes(3);
+  });
+
+  it("never serves a replaced definition's samples", async () => {
+    const first = createLineShape();
+    const replacement = createLineShape();
+    await generateShapeAsync(first, 50, { seed: 1 });
+    await generateShapeAsync(replacement, 50, { seed: 1 });
+
+    expect(replacement.generate).toHaveBeenCalledTimes(1);
+  });
+
+  it("matches the sample to current positions", async () => {
+    const shape = createLineShape();
+    const sample = await generateShapeAsync(shape, 50, { seed: 1 });
+    const current = sample.positions.slice().reverse();
+    const matched = await generateShapeAsync(shape, 50, { seed: 1 }, current);
+
+    expect(matched).not.toBe(sample);
+    expect(Array.from(matched.positions).sort()).toEqual(
+      Array.from(sample.positions).sort(),
+    );
+  });
+});
@@ -0,0 +1,286 @@
+"use client";
+
+/**
+ * Asynchronous shape generation
+ * Sends generation and morph matching to a Web Worker and caches results
+ * @module lib/shapeWorkerClient
+ */
+
+import type {
+  GenerateOptions,
+  SerializedShape,
+  ShapeDefinition,
+  ShapeSample,
+} from "./constants";
+import { generateShapeSample } from "./shapeGenerators";
+import { matchTargets } from "./correspondence";
+import { createLruCache } from "./lruCache";
+import { copySample, getSampleBuffers } from "./sampleAttributes";
+import { BUILT_IN_SHAPES } from "./shapes";
+import type { ShapeWorkerRequest, ShapeWorkerResponse } from "./shapeWorker";
+
+/**
+ * Generated samples kept for reuse (about 100 KB each at 8000 particles)
+ */
+const CACHE_CAPACITY = 24;
+
+/**
+ * Generated samples in generator order, keyed by shape revision, count,
+ * params, seed and sampling options
+ */
+const sampleCache = createLruCache<ShapeSample>(CACHE_CAPACITY);
+
+/**
+ * Revision keys per definition object; re-registering a shape id with a
+ * new definition yields a new key, so stale cache entries are never hit
+ */
+const revisionKeys = new WeakMap<ShapeDefinition, string>();
+let nextRevision = 0;
+
+/**
+ * Lazily created worker; null once it is known to be unavailable
+ */
+let worker: Worker | null | undefined;
+
+/**
+ * Revision keys already sent to the worker
+ */
+const definedKeys = new Set<string>();
+
+/**
+ * Requests awaiting a worker response
+ */
+const pending = new Map<
+  number,
+  {
+    resolve: (response: ShapeWorkerResponse & { type: "result" }) => void;
+    reject: (error: Error) => void;
+  }
+>();
+let nextRequestId = 0;
+
+/**
+ * Get the revision key for a definition
+ */
+const getRevisionKey = (shape: ShapeDefinition): string => {
+  let key = revisionKeys.get(shape);
+  if (!key) {
+    key = `${shape.id}#${nextRevision++}`;
+    revisionKeys.set(shape, key);
+  }
+  return key;
+};
+
+/**
+ * Build the cache key for a generation request
+ */
+const getCacheKey = (
+  revisionKey: string,
+  count: number,
+  options: GenerateOptions,
+): string => {
+  const params = Object.entries(options.params ?? {}).sort(([a], [b]) =>
+    a < b ? -1 : 1,
+  );
+  return JSON.stringify([
+    revisionKey,
+    count,
+    params,
+    options.seed ?? null,
+    options.fill ?? null,
+    options.sampling ?? null,
+    Boolean(options.relax),
+  ]);
+};
+
+/**
+ * Recipe for rebuilding a shape in the worker, or null if it must be
+ * generated on the main thread
+ */
+const serializeShape = (shape: ShapeDefinition): SerializedShape | null => {
+  if (shape.serialize) return shape.serialize();
+  if (BUILT_IN_SHAPES.includes(shape)) {
+    return { factory: "builtin", args: [shape.id] };
+  }
+  return null;
+};
+
+/**
+ * Fail every in-flight request and stop using the worker
+ */
+const disableWorker = (reason: string): void => {
+  worker?.terminate();
+  worker = null;
+  for (const request of pending.values()) {
+    request.reject(new Error(reason));
+  }
+  pending.clear();
+};
+
+/**
+ * Create the worker on first use
+ */
+const getWorker = (): Worker | null => {
+  if (worker !== undefined) return worker;
+
+  if (typeof Worker === "undefined") {
+    worker = null;
+    return worker;
+  }
+
+  try {
+    worker = new Worker(new URL("./shapeWorker.ts", import.meta.url));
+  } catch {
+    worker = null;
+    return worker;
+  }
+
+  worker.addEventListener(
+    "message",
+    (event: MessageEvent<ShapeWorkerResponse>) => {
+      const response = event.data;
+      const request = pending.get(response.id);
+      if (!request) return;
+      pending.delete(response.id);
+
+      if (response.type === "error") {
+        request.reject(new Error(response.message));
+      } else {
+        request.resolve(response);
+      }
+    },
+  );
+  worker.addEventListener("error", () => {
+    disableWorker("Shape worker failed to load");
+  });
+
+  return worker;
+};
+
+/**
+ * Post a request and wait for its response
+ */
+const postRequest = (
+  target: Worker,
+  request: ShapeWorkerRequest & { id: number },
+  transfer: Transferable[],
+): Promise<ShapeWorkerResponse & { type: "result" }> =>
+  new Promise((resolve, reject) => {
+    pending.set(request.id, { resolve, reject });
+    target.postMessage(request, transfer);
+  });
+
+/**
+ * Generate (and optionally match) on the main thread
+ */
+const generateSync = (
+  shape: ShapeDefinition,
+  count: number,
+  options: GenerateOptions,
+  current: Float32Array | undefined,
+  cacheKey: string,
+): ShapeSample => {
+  let sample = sampleCache.get(cacheKey);
+  if (!sample) {
+    sample = generateShapeSample(shape, count, options);
+    sampleCache.set(cacheKey, sample);
+  }
+  return current ? matchTargets(current, sample) : sample;
+};
+
+/**
+ * Generate a shape sample without blocking the main thread
+ *
+ * Generation and morph matching run in a Web Worker and results are
+ * transferred back without copying. Generated samples are cached (LRU) by
+ * shape revision, count, params, seed and sampling options, so swiping
+ * back to a recent shape skips generation and only re-runs matching.
+ *
+ * Falls back to main-thread generation when workers are unavailable, when
+ * the worker fails, or for runtime shapes that provide no `serialize`
+ * recipe (those still get off-thread matching).
+ *
+ * The returned sample may be shared with the cache; treat it as read-only.
+ *
+ * @param shape - Shape definition
+ * @param count - Number of particles
+ * @param options - Parameter overrides, seed, fill, sampling and relaxation
+ * @param current - Current particle positions to match targets against
+ * @returns Promise resolving to the (matched) sample
+ *
+ * @example
+ * ```
+ * const sample = await generateShapeAsync(shape, 8000, { seed: 1 }, positions);
+ * ```
+ */
+export const generateShapeAsync = async (
+  shape: ShapeDefinition,
+  count: number,
+  options: GenerateOptions = {},
+  current?: Float32Array,
+): Promise<ShapeSample> => {
+  const revisionKey = getRevisionKey(shape);
+  const cacheKey = getCacheKey(revisionKey, count, options);
+  const target = getWorker();
+
+  if (!target) {
+    return generateSync(shape, count, options, current, cacheKey);
+  }
+
+  try {
+    let cached = sampleCache.get(cacheKey);
+
+    if (!cached) {
+      const serialized = serializeShape(shape);
+
+      if (serialized) {
+        if (!definedKeys.has(revisionKey)) {
+          target.postMessage({
+            type: "define",
+            key: revisionKey,
+            shape: serialized,
+          } satisfies ShapeWorkerRequest);
+          definedKeys.add(revisionKey);
+        }
+
+        const currentCopy = current ? current.slice() : null;
+        const response = await postRequest(
+          target,
+          {
+            type: "generate",
+            id: nextRequestId++,
+            key: revisionKey,
+            count,
+            options,
+            current: currentCopy,
+          },
+          currentCopy ? [currentCopy.buffer] : [],
+        );
+        if (!response.sample) {
+          throw new Error("Shape worker returned no sample");
+        }
+        sampleCache.set(cacheKey, response.sample);
+        return response.matched ?? response.sample;
+      }
+
+      // No worker recipe: generate here, match in the worker
+      cached = generateShapeSample(shape, count, options);
+      sampleCache.set(cacheKey, cached);
+    }
+
+    if (!current) return cached;
+
+    // Copy so the cached original survives the transfer
+    const sample = copySample(cached);
+    const currentCopy = current.slice();
+    const response = await postRequest(
+      target,
+      { type: "match", id: nextRequestId++, sample, current: currentCopy },
+      [...getSampleBuffers(sample), currentCopy.buffer],
+    );
+    return response.matched ?? cached;
+  } catch (error) {
+    console.error("Shape worker error, generating on main thread:", error);
+    return generateSync(shape, count, options, current, cacheKey);
+  }
+};
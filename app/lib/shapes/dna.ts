@@ -0,0 +1,79 @@
+/**
+ * DNA shape definition
+ * Double helix with base-pair rungs
+ * @module lib/shapes/dna
+ */
+
+import { Dna } from "lucide-react";
+import type { ShapeDefinition } from "../constants";
+
+/**
+ * DNA shape parameters
+ */
+export type DnaParams = {
+  /** Helix radius */
+  radius: number;
+  /** Total height */
+  height: number;
+  /** Number of full turns */
+  turns: number;
+  /** Number of base-pair rungs */
+  rungs: number;
+  /** Fraction of particles placed on rungs (0-1) */
+  rungFraction: number;
+  /** Random spread around each strand */
+  thickness: number;
+};
+
+/**
+ * DNA shape definition
+ */
+export const dnaShape: ShapeDefinition<DnaParams> = {
+  id: "dna",
+  label: "DNA",
+  icon: Dna,
+  defaultParams: {
+    radius: 3,
+    height: 14,
+    turns: 3,
+    rungs: 30,
+    rungFraction: 0.3,
+    thickness: 0.2,
+  },
+  fills: ["surface"],
+  generate: ({ count, params, random }) => {
+    const positions = new Float32Array(count * 3);
+    const rungs = Math.max(1, Math.round(params.rungs));
+    const twist = params.turns * Math.PI * 2;
+
+    for (let i = 0; i < count; i++) {
+      const idx = i * 3;
+      let progress: number;
+      let x: number;
+      let z: number;
+
+      if (random() < params.rungFraction) {
+        // Base pair: straight segment between the two strands
+        progress = (Math.floor(random() * rungs) + 0.5) / rungs;
+        const angle = progress * twist;
+        const along = random() * 2 - 1;
+        x = along * params.radius * Math.cos(angle);
+        z = along * params.radius * Math.sin(angle);
+      } else {
+        // Backbone: one of two strands half a turn apart
+        progress = random();
+        const strand = random() < 0.5 ? 0 : Math.PI;
+        const angle = progress * twist + strand;
+        x = params.radius * Math.cos(angle);
+        z = params.radius * Math.sin(angle);
+      }
+
+      positions[idx] = x + (random() - 0.5) * params.thickness;
+      positions[idx + 1] =
+        (progress - 0.5) * params.height + (random() - 0.5) * params.thickness;
+      positions[idx + 2] = z + (random() - 0.5) * params.thickness;
+    }
+
+    return positions;
+  },
+};
@@ -0,0 +1,58 @@
+/**
+ * Fibonacci sphere shape definition
+ * Near-uniform golden-angle point distribution on a sphere
+ * @module lib/shapes/fibonacciSphere
+ */
+
+import { Aperture } from "lucide-react";
+import type { ShapeDefinition } from "../constants";
+
+/**
+ * Fibonacci sphere shape parameters
+ */
+export type FibonacciSphereParams = {
+  /** Sphere radius */
+  radius: number;
+  /** Random offset applied to each particle */
+  jitter: number;
+};
+
+/**
+ * Golden angle in radians
+ */
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+/**
+ * Fibonacci sphere shape definition
+ */
+export const fibonacciSphereShape: ShapeDefinition<FibonacciSphereParams> = {
+  id: "fibonacciSphere",
+  label: "Fibonacci",
+  icon: Aperture,
+  defaultParams: {
+    radius: 6,
+    jitter: 0,
+  },
+  fills: ["surface"],
+  fixedDensity: true,
+  generate: ({ count, params, random }) => {
+    const positions = new Float32Array(count * 3);
+
+    for (let i = 0; i < count; i++) {
+      const idx = i * 3;
+      const y = 1 - (2 * (i + 0.5)) / count;
+      const ring = Math.sqrt(1 - y * y);
+      const theta = i * GOLDEN_ANGLE;
+
+      positions[idx] =
+        params.radius * ring * Math.cos(theta) +
+        (random() - 0.5) * params.jitter;
+      positions[idx + 1] = params.radius * y + (random() - 0.5) * params.jitter;
+      positions[idx + 2] =
+        params.radius * ring * Math.sin(theta) +
+        (random() - 0.5) * params.jitter;
+    }
+
+    return positions;
+  },
+};
@@ -0,0 +1,74 @@
+/**
+ * Flower shape definition
+ * Rose-like 3D structure built from a polar rose curve
+ * @module lib/shapes/flower
+ */
+
+import { Flower2 } from "lucide-react";
+import type { ShapeDefinition } from "../constants";
+import { sampleSurface } from "../surfaceSampling";
+
+/**
+ * Flower shape parameters
+ */
+export type FlowerParams = {
+  /** Petal radius */
+  radius: number;
+  /** Rose frequency (2 gives four petals) */
+  petalFrequency: number;
+  /** Half-thickness along the z axis */
+  depth: number;
+};
+
+/**
+ * Petal colors in linear RGB, from the center outward
+ */
+const CENTER_COLOR = [1, 0.75, 0.1];
+const PETAL_COLOR = [0.9, 0.1, 0.45];
+
+/**
+ * Flower shape definition
+ */
+export const flowerShape: ShapeDefinition<FlowerParams> = {
+  id: "flower",
+  label: "Flower",
+  icon: Flower2,
+  defaultParams: {
+    radius: 5,
+    petalFrequency: 2,
+    depth: 2,
+  },
+  fills: ["surface"],
+  generate: ({ count, params, random, sampling }) => {
+    const positions = sampleSurface(
+      (u, v, out) => {
+        const r = params.radius * Math.sin(params.petalFrequency * u);
+
+        out[0] = r * Math.cos(u) * Math.sin(v);
+        out[1] = r * Math.sin(u) * Math.sin(v);
+        out[2] = params.depth * Math.cos(v);
+      },
+      { uMin: 0, uMax: Math.PI * 4, vMin: 0, vMax: Math.PI },
+      count,
+      random,
+      sampling,
+    );
+
+    // Blend from a yellow center to magenta petal tips
+    const colors = new Float32Array(count * 3);
+    const invRadius = params.radius !== 0 ? 1 / Math.abs(params.radius) : 0;
+    for (let i = 0; i < count; i++) {
+      const idx = i * 3;
+      const t = Math.min(
+        1,
+        Math.hypot(positions[idx], positions[idx + 1]) * invRadius,
+      );
+      for (let c = 0; c < 3; c++) {
+        colors[idx + c] =
+          CENTER_COLOR[c] + (PETAL_COLOR[c] - CENTER_COLOR[c]) * t;
+      }
+    }
+
+    return { positions, colors };
+  },
+};
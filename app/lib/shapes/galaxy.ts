@@ -0,0 +1,109 @@
+/**
+ * Galaxy shape definition
+ * Flattened spiral galaxy with a bright core and arms that dim toward the rim,
+ * turning about its axis when animated
+ * @module lib/shapes/galaxy
+ */
+
+import { Sparkles } from "lucide-react";
+import type { RandomSource, ShapeDefinition } from "../constants";
+
+/**
+ * Galaxy shape parameters
+ */
+export type GalaxyParams = {
+  /** Number of spiral arms */
+  arms: number;
+  /** Outer radius */
+  radius: number;
+  /** Turns each arm makes from core to rim */
+  winding: number;
+  /** Angular spread of each arm in radians */
+  spread: number;
+  /** Disc thickness at the core */
+  thickness: number;
+  /** Fraction of particles in the central bulge (0-1) */
+  coreFraction: number;
+  /** Rotation speed in radians per second */
+  rotationSpeed: number;
+};
+
+/**
+ * Standard normal sample (Box-Muller)
+ */
+const gaussian = (random: RandomSource): number => {
+  const u = 1 - random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(random() * Math.PI * 2);
+};
+
+/**
+ * Galaxy shape definition
+ */
+export const galaxyShape: ShapeDefinition<GalaxyParams> = {
+  id: "galaxy",
+  label: "Galaxy",
+  icon: Sparkles,
+  defaultParams: {
+    arms: 3,
+    radius: 9,
+    winding: 0.6,
+    spread: 0.35,
+    thickness: 0.8,
+    coreFraction: 0.15,
+    rotationSpeed: 0.15,
+  },
+  fills: ["volume"],
+  fixedDensity: true,
+  palette: "nebula",
+  generate: ({ count, params, random }) => {
+    const positions = new Float32Array(count * 3);
+    const sizes = new Float32Array(count);
+    const importance = new Float32Array(count);
+    const arms = Math.max(1, Math.round(params.arms));
+    const coreRadius = params.radius * 0.15;
+
+    for (let i = 0; i < count; i++) {
+      const idx = i * 3;
+
+      if (random() < params.coreFraction) {
+        positions[idx] = gaussian(random) * coreRadius;
+        positions[idx + 1] = gaussian(random) * coreRadius * 0.6;
+        positions[idx + 2] = gaussian(random) * coreRadius;
+        sizes[i] = 1.4;
+        importance[i] = 1;
+        continue;
+      }
+
+      // Bias toward the center so arms fade out toward the rim
+      const progress = Math.pow(random(), 1.5);
+      const r = coreRadius + progress * (params.radius - coreRadius);
+      const arm = Math.floor(random() * arms);
+      const angle =
+        (arm / arms) * Math.PI * 2 +
+        progress * params.winding * Math.PI * 2 +
+        gaussian(random) * params.spread;
+
+      positions[idx] = r * Math.cos(angle);
+      positions[idx + 1] =
+        gaussian(random) * params.thickness * 0.5 * (1 - progress * 0.7);
+      positions[idx + 2] = r * Math.sin(angle);
+
+      // Arms shrink and dim from core to rim
+      sizes[i] = 1.2 - progress * 0.6;
+      importance[i] = 0.9 - progress * 0.8;
+    }
+
+    return { positions, sizes, importance };
+  },
+  animate: ({ time, params, base }, out) => {
+    // Turning against the winding keeps the arms trailing
+    const angle = -time * params.rotationSpeed;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    for (let i = 0; i < base.length; i += 3) {
+      out[i] = base[i] * cos - base[i + 2] * sin;
+      out[i + 1] = base[i + 1];
+      out[i + 2] = base[i] * sin + base[i + 2] * cos;
+    }
+  },
+};
@@ -0,0 +1,92 @@
+/**
+ * Heart shape definition
+ * Parametric 2D heart curve extruded into 3D, beating when animated
+ * @module lib/shapes/heart
+ */
+
+import { Heart } from "lucide-react";
+import type { ShapeDefinition } from "../constants";
+import { sampleSurface } from "../surfaceSampling";
+
+/**
+ * Heart shape parameters
+ */
+export type HeartParams = {
+  /** Uniform scale applied to the curve */
+  scale: number;
+  /** Depth of the 3D extrusion before scaling */
+  depth: number;
+  /** Vertical offset after scaling */
+  offsetY: number;
+  /** Resting heart rate in beats per minute */
+  bpm: number;
+  /** Peak growth during a beat, as a fraction of the size */
+  beat: number;
+};
+
+/**
+ * Heart rate multiplier while a hand is in view
+ */
+const EXCITED_RATE = 1.5;
+
+/**
+ * Scale pulse over one cardiac cycle: a strong beat followed by a weaker
+ * one, then rest
+ *
+ * @param phase - Position in the cycle (0-1)
+ * @returns Pulse strength (0-1)
+ */
+const beatPulse = (phase: number): number => {
+  const bump = (center: number) => Math.exp(-(((phase - center) / 0.05) ** 2));
+  return bump(0.1) + 0.5 * bump(0.3);
+};
+
+/**
+ * Heart shape definition
+ */
+export const heartShape: ShapeDefinition<HeartParams> = {
+  id: "heart",
+  label: "Heart",
+  icon: Heart,
+  defaultParams: {
+    scale: 0.3,
+    depth: 4,
+    offsetY: 1,
+    bpm: 72,
+    beat: 0.12,
+  },
+  fills: ["surface"],
+  palette: "ember",
+  generate: ({ count, params, random, sampling }) =>
+    sampleSurface(
+      (t, p, out) => {
+        const x = 16 * Math.pow(Math.sin(t), 3);
+        const y =
+          13 * Math.cos(t) -
+          5 * Math.cos(2 * t) -
+          2 * Math.cos(3 * t) -
+          Math.cos(4 * t);
+        const z = params.depth * Math.sin(p) * Math.sin(t);
+
+        out[0] = x * params.scale;
+        out[1] = y * params.scale + params.offsetY;
+        out[2] = z * params.scale;
+      },
+      { uMin: 0, uMax: Math.PI * 2, vMin: 0, vMax: Math.PI * 2 },
+      count,
+      random,
+      sampling,
+    ),
+  animate: ({ time, params, hand, base }, out) => {
+    const rate = (params.bpm / 60) * (hand.handDetected ? EXCITED_RATE : 1);
+    const phase = (time * rate) % 1;
+    const scale = 1 + params.beat * beatPulse(phase);
+
+    // Grow about the heart's center
+    for (let i = 0; i < base.length; i += 3) {
+      out[i] = base[i] * scale;
+      out[i + 1] = params.offsetY + (base[i + 1] - params.offsetY) * scale;
+      out[i + 2] = base[i + 2] * scale;
+    }
+  },
+};
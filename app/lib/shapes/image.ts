@@ -0,0 +1,181 @@
+/**
+ * Image shape factory
+ * Places particles by importance sampling an image's luminance or alpha
+ * @module lib/shapes/image
+ */
+
+import { Image as ImageIcon } from "lucide-react";
+import type { ShapeDefinition } from "../constants";
+import {
+  type PixelRaster,
+  type WeightMap,
+  sampleWeightMap,
+  srgbToLinear,
+} from "../raster";
+
+/**
+ * Image shape parameters
+ */
+export type ImageParams = {
+  /** Maximum width of the formation in scene units */
+  width: number;
+  /** Maximum height of the formation in scene units */
+  height: number;
+  /** Z displacement range driven by brightness (0 = flat) */
+  depth: number;
+  /** Random z jitter so flat images keep some thickness */
+  thickness: number;
+};
+
+/**
+ * Which channel drives particle density
+ * - luminance: bright pixels attract more particles
+ * - alpha: opaque pixels attract particles evenly
+ * - auto: alpha when the image has transparency, luminance otherwise
+ */
+export type ImageWeighting = "luminance" | "alpha" | "auto";
+
+/**
+ * Image shape options fixed at creation time
+ */
+export interface ImageShapeOptions {
+  weighting?: ImageWeighting;
+}
+
+/**
+ * Image settings picked in the shape dock
+ */
+export interface ImageSettings {
+  /** Weighting of the next imported image */
+  weighting: ImageWeighting;
+  /** Relief from brightness for image shapes (the `depth` param) */
+  depth: number; // scene units
+}
+
+/**
+ * Image settings the app starts with: flat, weighted automatically
+ */
+export const DEFAULT_IMAGE_SETTINGS: ImageSettings = {
+  weighting: "auto",
+  depth: 0,
+};
+
+/**
+ * Rec. 709 luminance of an sRGB pixel (0-1)
+ *
+ * @param data - RGBA bytes
+ * @param offset - Byte offset of the pixel
+ */
+const pixelLuminance = (data: Uint8ClampedArray, offset: number): number => {
+  return (
+    (0.2126 * data[offset] +
+      0.7152 * data[offset + 1] +
+      0.0722 * data[offset + 2]) /
+    255
+  );
+};
+
+/**
+ * Build per-pixel sampling weights for an image
+ *
+ * @param raster - Decoded image
+ * @param weighting - Weighting mode
+ * @returns Weight map
+ */
+const buildWeights = (
+  raster: PixelRaster,
+  weighting: ImageWeighting,
+): WeightMap => {
+  const { width, height, data } = raster;
+  const pixelCount = width * height;
+
+  let mode = weighting;
+  if (mode === "auto") {
+    mode = "luminance";
+    for (let i = 0; i < pixelCount; i++) {
+      if (data[i * 4 + 3] < 255) {
+        mode = "alpha";
+        break;
+      }
+    }
+  }
+
+  const weights = new Float32Array(pixelCount);
+  for (let i = 0; i < pixelCount; i++) {
+    const alpha = data[i * 4 + 3] / 255;
+    weights[i] = mode === "alpha" ? alpha : pixelLuminance(data, i * 4) * alpha;
+  }
+
+  return { width, height, weights };
+};
+
+/**
+ * Create a shape definition from decoded image pixels
+ *
+ * Each particle carries the linear RGB color of its source pixel, so the
+ * particle system can show the image in its own colors.
+ *
+ * @param id - Unique shape identifier
+ * @param label - Dock label
+ * @param raster - Decoded image pixels
+ * @param options - Weighting mode
+ * @returns Shape definition sampling the image
+ */
+export const createImageShape = (
+  id: string,
+  label: string,
+  raster: PixelRaster,
+  options: ImageShapeOptions = {},
+): ShapeDefinition<ImageParams> => {
+  const weightMap = buildWeights(raster, options.weighting ?? "auto");
+
+  return {
+    id,
+    label,
+    icon: ImageIcon,
+    defaultParams: {
+      width: 14,
+      height: 10,
+      depth: 0,
+      thickness: 0.4,
+    },
+    fills: ["surface"],
+    fixedDensity: true,
+    generate: ({ count, params, random }) => {
+      const positions = new Float32Array(count * 3);
+      const colors = new Float32Array(count * 3);
+
+      const samples = sampleWeightMap(weightMap, count, random);
+      if (!samples) {
+        return { positions, colors };
+      }
+
+      const scale = Math.min(
+        params.width / raster.width,
+        params.height / raster.height,
+      );
+
+      for (let i = 0; i < count; i++) {
+        const idx = i * 3;
+        const offset = samples.pixels[i] * 4;
+        const brightness = pixelLuminance(raster.data, offset);
+
+        positions[idx] = samples.coords[i * 2] * scale;
+        positions[idx + 1] = samples.coords[i * 2 + 1] * scale;
+        positions[idx + 2] =
+          (brightness - 0.5) * params.depth +
+          (random() - 0.5) * params.thickness;
+
+        colors[idx] = srgbToLinear(raster.data[offset] / 255);
+        colors[idx + 1] = srgbToLinear(raster.data[offset + 1] / 255);
+        colors[idx + 2] = srgbToLinear(raster.data[offset + 2] / 255);
+      }
+
+      return { positions, colors };
+    },
+    serialize: () => ({
+      factory: "image",
+      args: [id, label, raster, options],
+    }),
+  };
+};
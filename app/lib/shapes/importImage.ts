@@ -0,0 +1,62 @@
+/**
+ * Image file import
+ * Decodes an uploaded image and registers it as a selectable shape
+ * @module lib/shapes/importImage
+ */
+
+import type { ShapeType } from "../constants";
+import { decodeImageFile } from "../raster";
+import { registerShape } from "../shapeRegistry";
+import { type ImageShapeOptions, createImageShape } from "./image";
+
+/**
+ * Accepted image MIME types for the file picker
+ */
+export const IMAGE_FILE_TYPES: readonly string[] = ["image/png", "image/jpeg"];
+
+/**
+ * Longest image side after downscaling; bounds the sampling table size
+ */
+const MAX_IMAGE_SIZE = 256;
+
+/**
+ * Id prefix of imported image shapes
+ */
+const IMAGE_SHAPE_PREFIX = "image:";
+
+/**
+ * Check whether a shape id belongs to an imported image
+ *
+ * @param id - Shape identifier
+ */
+export const isImageShape = (id: ShapeType): boolean =>
+  id.startsWith(IMAGE_SHAPE_PREFIX);
+
+/**
+ * Import an image file as a shape
+ * Importing a file with the same name again replaces the earlier shape
+ *
+ * @param file - PNG or JPEG file
+ * @param options - Weighting mode
+ * @returns Id of the registered shape
+ */
+export const importImageFile = async (
+  file: File,
+  options?: ImageShapeOptions,
+): Promise<ShapeType> => {
+  if (!IMAGE_FILE_TYPES.includes(file.type)) {
+    throw new Error(`Unsupported image file "${file.name}"`);
+  }
+
+  const raster = await decodeImageFile(file, MAX_IMAGE_SIZE);
+  const label = file.name.replace(/\.[^.]+$/, "") || "Image";
+  const shape = createImageShape(
+    `${IMAGE_SHAPE_PREFIX}${file.name.toLowerCase()}`,
+    label,
+    raster,
+    options,
+  );
+
+  registerShape(shape);
+  return shape.id;
+};
@@ -0,0 +1,54 @@
+/**
+ * Built-in shape definitions
+ * @module lib/shapes
+ */
+
+import type { ShapeDefinition } from "../constants";
+import { heartShape } from "./heart";
+import { sphereShape } from "./sphere";
+import { flowerShape } from "./flower";
+import { spiralShape } from "./spiral";
+import { torusShape } from "./torus";
+import { torusKnotShape } from "./torusKnot";
+import { dnaShape } from "./dna";
+import { mobiusShape } from "./mobius";
+import { galaxyShape } from "./galaxy";
+import { lorenzShape } from "./lorenz";
+import { latticeShape } from "./lattice";
+import { fibonacciSphereShape } from "./fibonacciSphere";
+import { waveShape } from "./wave";
+
+export {
+  heartShape,
+  sphereShape,
+  flowerShape,
+  spiralShape,
+  torusShape,
+  torusKnotShape,
+  dnaShape,
+  mobiusShape,
+  galaxyShape,
+  lorenzShape,
+  latticeShape,
+  fibonacciSphereShape,
+  waveShape,
+};
+
+/**
+ * Built-in shapes in dock and gesture-cycle order
+ */
+export const BUILT_IN_SHAPES: readonly ShapeDefinition[] = [
+  heartShape,
+  sphereShape,
+  flowerShape,
+  spiralShape,
+  torusShape,
+  torusKnotShape,
+  dnaShape,
+  mobiusShape,
+  galaxyShape,
+  lorenzShape,
+  latticeShape,
+  fibonacciSphereShape,
+  waveShape,
+];
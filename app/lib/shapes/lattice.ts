@@ -0,0 +1,63 @@
+/**
+ * Cube lattice shape definition
+ * Wireframe grid of evenly spaced lines filling a cube
+ * @module lib/shapes/lattice
+ */
+
+import { Boxes } from "lucide-react";
+import type { ShapeDefinition } from "../constants";
+
+/**
+ * Cube lattice shape parameters
+ */
+export type LatticeParams = {
+  /** Edge length of the cube */
+  size: number;
+  /** Grid cells along each edge */
+  divisions: number;
+  /** Random offset applied to each particle */
+  jitter: number;
+};
+
+/**
+ * Cube lattice shape definition
+ */
+export const latticeShape: ShapeDefinition<LatticeParams> = {
+  id: "lattice",
+  label: "Lattice",
+  icon: Boxes,
+  defaultParams: {
+    size: 10,
+    divisions: 4,
+    jitter: 0.05,
+  },
+  fills: ["surface"],
+  fixedDensity: true,
+  generate: ({ count, params, random }) => {
+    const positions = new Float32Array(count * 3);
+    const divisions = Math.max(1, Math.round(params.divisions));
+    const half = params.size / 2;
+    const step = params.size / divisions;
+    const coord = [0, 0, 0];
+
+    for (let i = 0; i < count; i++) {
+      const idx = i * 3;
+
+      // Pick a grid line: the axis it runs along plus integer
+      // coordinates on the other two axes
+      const axis = Math.floor(random() * 3);
+      for (let a = 0; a < 3; a++) {
+        coord[a] =
+          a === axis
+            ? random() * params.size - half
+            : Math.floor(random() * (divisions + 1)) * step - half;
+      }
+
+      positions[idx] = coord[0] + (random() - 0.5) * params.jitter;
+      positions[idx + 1] = coord[1] + (random() - 0.5) * params.jitter;
+      positions[idx + 2] = coord[2] + (random() - 0.5) * params.jitter;
+    }
+
+    return positions;
+  },
+};
@@ -0,0 +1,93 @@
+/**
+ * Lorenz attractor shape definition
+ * Trajectory of the Lorenz system traced with fixed-step integration
+ * @module lib/shapes/lorenz
+ */
+
+import { Wind } from "lucide-react";
+import type { ShapeDefinition } from "../constants";
+
+/**
+ * Lorenz attractor shape parameters
+ */
+export type LorenzParams = {
+  /** Prandtl number */
+  sigma: number;
+  /** Rayleigh number */
+  rho: number;
+  /** Geometric factor */
+  beta: number;
+  /** Integration step */
+  dt: number;
+  /** Uniform scale applied to the trajectory */
+  scale: number;
+};
+
+/**
+ * Steps discarded before recording so the trajectory settles onto the attractor
+ */
+const BURN_IN_STEPS = 1000;
+
+/**
+ * Lorenz attractor shape definition
+ */
+export const lorenzShape: ShapeDefinition<LorenzParams> = {
+  id: "lorenz",
+  label: "Lorenz",
+  icon: Wind,
+  defaultParams: {
+    sigma: 10,
+    rho: 28,
+    beta: 8 / 3,
+    dt: 0.005,
+    scale: 0.28,
+  },
+  fills: ["surface"],
+  fixedDensity: true,
+  generate: ({ count, params, random }) => {
+    const positions = new Float32Array(count * 3);
+    const { sigma, rho, beta, dt } = params;
+
+    // Random start near the origin; the seed picks which stretch is traced
+    let x = 0.1 + random();
+    let y = random();
+    let z = random();
+
+    let sumX = 0;
+    let sumY = 0;
+    let sumZ = 0;
+
+    for (let step = 0; step < BURN_IN_STEPS + count; step++) {
+      const dx = sigma * (y - x);
+      const dy = x * (rho - z) - y;
+      const dz = x * y - beta * z;
+      x += dx * dt;
+      y += dy * dt;
+      z += dz * dt;
+
+      if (step >= BURN_IN_STEPS) {
+        // Lorenz z becomes the vertical axis
+        const idx = (step - BURN_IN_STEPS) * 3;
+        positions[idx] = x;
+        positions[idx + 1] = z;
+        positions[idx + 2] = y;
+        sumX += x;
+        sumY += z;
+        sumZ += y;
+      }
+    }
+
+    // Center on the trajectory's mean and scale
+    const meanX = sumX / count;
+    const meanY = sumY / count;
+    const meanZ = sumZ / count;
+    for (let i = 0; i < count; i++) {
+      const idx = i * 3;
+      positions[idx] = (positions[idx] - meanX) * params.scale;
+      positions[idx + 1] = (positions[idx + 1] - meanY) * params.scale;
+      positions[idx + 2] = (positions[idx + 2] - meanZ) * params.scale;
+    }
+
+    return positions;
+  },
+};
@@ -0,0 +1,42 @@
+/**
+ * Mesh shape factory
+ * Turns an imported triangle mesh into a registrable shape definition
+ * @module lib/shapes/mesh
+ */
+
+import { Box } from "lucide-react";
+import type { ShapeDefinition, TriangleMesh } from "../constants";
+import { sampleMeshSurface } from "../meshes";
+
+/**
+ * Mesh shape parameters
+ */
+export type MeshParams = {
+  /** Bounding radius the mesh is scaled to */
+  radius: number;
+};
+
+/**
+ * Create a shape definition backed by a triangle mesh
+ *
+ * @param id - Unique shape identifier
+ * @param label - Dock label
+ * @param mesh - Parsed triangle mesh
+ * @returns Shape definition sampling the mesh surface
+ */
+export const createMeshShape = (
+  id: string,
+  label: string,
+  mesh: TriangleMesh,
+): ShapeDefinition<MeshParams> => ({
+  id,
+  label,
+  icon: Box,
+  defaultParams: {
+    radius: 6,
+  },
+  fills: ["surface"],
+  generate: ({ count, params, random }) =>
+    sampleMeshSurface(mesh, count, random, params.radius),
+  serialize: () => ({ factory: "mesh", args: [id, label, mesh] }),
+});
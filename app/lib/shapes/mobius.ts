@@ -0,0 +1,53 @@
+/**
+ * Möbius strip shape definition
+ * Band with a configurable number of half twists
+ * @module lib/shapes/mobius
+ */
+
+import { Infinity as InfinityIcon } from "lucide-react";
+import type { ShapeDefinition } from "../constants";
+import { sampleSurface } from "../surfaceSampling";
+
+/**
+ * Möbius strip shape parameters
+ */
+export type MobiusParams = {
+  /** Radius of the band's center line */
+  radius: number;
+  /** Band width */
+  width: number;
+  /** Number of half twists (1 is the classic Möbius strip) */
+  halfTwists: number;
+};
+
+/**
+ * Möbius strip shape definition
+ */
+export const mobiusShape: ShapeDefinition<MobiusParams> = {
+  id: "mobius",
+  label: "Möbius",
+  icon: InfinityIcon,
+  defaultParams: {
+    radius: 5,
+    width: 3,
+    halfTwists: 1,
+  },
+  fills: ["surface"],
+  generate: ({ count, params, random, sampling }) => {
+    const twist = Math.round(params.halfTwists) / 2;
+    const halfWidth = params.width / 2;
+
+    return sampleSurface(
+      (u, s, out) => {
+        const ring = params.radius + s * Math.cos(twist * u);
+        out[0] = ring * Math.cos(u);
+        out[1] = s * Math.sin(twist * u);
+        out[2] = ring * Math.sin(u);
+      },
+      { uMin: 0, uMax: Math.PI * 2, vMin: -halfWidth, vMax: halfWidth },
+      count,
+      random,
+      sampling,
+    );
+  },
+};
@@ -0,0 +1,61 @@
+/**
+ * Sphere shape definition
+ * Uniform distribution on a sphere surface or throughout its volume,
+ * breathing slowly when animated
+ * @module lib/shapes/sphere
+ */
+
+import { Globe } from "lucide-react";
+import type { ShapeDefinition } from "../constants";
+
+/**
+ * Sphere shape parameters
+ */
+export type SphereParams = {
+  /** Sphere radius */
+  radius: number;
+  /** Breathing depth as a fraction of the radius */
+  breathing: number;
+  /** Breaths per second */
+  breathRate: number;
+};
+
+/**
+ * Sphere shape definition
+ */
+export const sphereShape: ShapeDefinition<SphereParams> = {
+  id: "sphere",
+  label: "Sphere",
+  icon: Globe,
+  defaultParams: {
+    radius: 6,
+    breathing: 0.06,
+    breathRate: 0.2,
+  },
+  fills: ["surface", "volume"],
+  generate: ({ count, params, random, fill }) => {
+    const positions = new Float32Array(count * 3);
+
+    for (let i = 0; i < count; i++) {
+      const idx = i * 3;
+      // Cube root keeps volume density uniform toward the rim
+      const r =
+        fill === "volume" ? params.radius * Math.cbrt(random()) : params.radius;
+      const theta = random() * Math.PI * 2;
+      const phi = Math.acos(2 * random() - 1);
+
+      positions[idx] = r * Math.sin(phi) * Math.cos(theta);
+      positions[idx + 1] = r * Math.sin(phi) * Math.sin(theta);
+      positions[idx + 2] = r * Math.cos(phi);
+    }
+
+    return positions;
+  },
+  animate: ({ time, params, base }, out) => {
+    const scale =
+      1 + params.breathing * Math.sin(time * params.breathRate * Math.PI * 2);
+    for (let i = 0; i < base.length; i++) {
+      out[i] = base[i] * scale;
+    }
+  },
+};
@@ -0,0 +1,51 @@
+/**
+ * Spiral shape definition
+ * 3D helix with radial expansion
+ * @module lib/shapes/spiral
+ */
+
+import { Command } from "lucide-react";
+import type { ShapeDefinition } from "../constants";
+
+/**
+ * Spiral shape parameters
+ */
+export type SpiralParams = {
+  /** Number of full turns */
+  turns: number;
+  /** Radius at the top of the helix */
+  radius: number;
+  /** Total height */
+  height: number;
+};
+
+/**
+ * Spiral shape definition
+ */
+export const spiralShape: ShapeDefinition<SpiralParams> = {
+  id: "spiral",
+  label: "Spiral",
+  icon: Command,
+  defaultParams: {
+    turns: 10,
+    radius: 8,
+    height: 10,
+  },
+  fills: ["surface"],
+  generate: ({ count, params }) => {
+    const positions = new Float32Array(count * 3);
+
+    for (let i = 0; i < count; i++) {
+      const idx = i * 3;
+      const progress = i / count;
+      const t = progress * params.turns * Math.PI * 2;
+      const r = progress * params.radius;
+
+      positions[idx] = r * Math.cos(t);
+      positions[idx + 1] = (progress - 0.5) * params.height;
+      positions[idx + 2] = r * Math.sin(t);
+    }
+
+    return positions;
+  },
+};
@@ -0,0 +1,88 @@
+/**
+ * SVG shape factory
+ * Traces SVG outlines (optionally filled) as a thin extruded slab
+ * @module lib/shapes/svg
+ */
+
+import { PenTool } from "lucide-react";
+import type { ShapeDefinition } from "../constants";
+import {
+  type Polyline,
+  getPolylineBounds,
+  sampleFill,
+  sampleOutline,
+} from "../svg";
+
+/**
+ * SVG shape parameters
+ */
+export type SvgParams = {
+  /** Maximum width of the formation in scene units */
+  width: number;
+  /** Maximum height of the formation in scene units */
+  height: number;
+  /** Slab thickness along z */
+  depth: number;
+  /** Fraction of particles placed inside filled regions (0 = outline only) */
+  fill: number;
+};
+
+/**
+ * Create a shape definition from flattened SVG polylines
+ *
+ * @param id - Unique shape identifier
+ * @param label - Dock label
+ * @param polylines - Flattened outlines in SVG user units
+ * @returns Shape definition sampling the outlines
+ */
+export const createSvgShape = (
+  id: string,
+  label: string,
+  polylines: Polyline[],
+): ShapeDefinition<SvgParams> => {
+  const bounds = getPolylineBounds(polylines);
+  const centerX = (bounds.minX + bounds.maxX) / 2;
+  const centerY = (bounds.minY + bounds.maxY) / 2;
+  const extentX = Math.max(bounds.maxX - bounds.minX, 1e-6);
+  const extentY = Math.max(bounds.maxY - bounds.minY, 1e-6);
+
+  return {
+    id,
+    label,
+    icon: PenTool,
+    defaultParams: {
+      width: 14,
+      height: 10,
+      depth: 0.6,
+      fill: 0,
+    },
+    fills: ["surface"],
+    generate: ({ count, params, random }) => {
+      const positions = new Float32Array(count * 3);
+      const coords = new Float32Array(count * 2);
+
+      const fillRatio = Math.max(0, Math.min(1, params.fill));
+      const filled = sampleFill(
+        polylines,
+        Math.round(count * fillRatio),
+        random,
+        coords,
+      );
+      // Outline takes the rest, including fill points that could not be placed
+      sampleOutline(polylines, count - filled, random, coords, filled);
+
+      const scale = Math.min(params.width / extentX, params.height / extentY);
+
+      for (let i = 0; i < count; i++) {
+        const idx = i * 3;
+        positions[idx] = (coords[i * 2] - centerX) * scale;
+        // SVG y points down
+        positions[idx + 1] = (centerY - coords[i * 2 + 1]) * scale;
+        positions[idx + 2] = (random() - 0.5) * params.depth;
+      }
+
+      return positions;
+    },
+    serialize: () => ({ factory: "svg", args: [id, label, polylines] }),
+  };
+};
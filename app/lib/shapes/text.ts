@@ -0,0 +1,159 @@
+/**
+ * Text shape factory
+ * Rasterizes a word or short phrase and fills the glyphs with particles
+ * @module lib/shapes/text
+ */
+
+import { Type } from "lucide-react";
+import type { ShapeDefinition } from "../constants";
+import {
+  createRasterContext,
+  sampleWeightMap,
+  type WeightMap,
+} from "../raster";
+
+/**
+ * Text shape parameters
+ */
+export type TextParams = {
+  /** Maximum width of the formation in scene units */
+  width: number;
+  /** Maximum height of the formation in scene units */
+  height: number;
+  /** Extrusion depth along z (0 = flat) */
+  depth: number;
+};
+
+/**
+ * Id under which the text shape is registered
+ */
+export const TEXT_SHAPE_ID = "text";
+
+/**
+ * Rasterization settings
+ */
+const TEXT_RASTER = {
+  FONT_SIZE: 96,
+  LINE_HEIGHT: 1.15,
+  PADDING: 8,
+  FONT_FAMILY: "'Outfit', sans-serif",
+  FONT_WEIGHT: 700,
+} as const;
+
+/**
+ * Rasterize text into per-pixel glyph coverage
+ * Lines are split on "\n" and centered
+ *
+ * @param text - Text to rasterize
+ * @returns Weight map where weight = glyph coverage (0-1)
+ */
+const rasterizeText = (text: string): WeightMap => {
+  const lines = text.split("\n");
+  const font = `${TEXT_RASTER.FONT_WEIGHT} ${TEXT_RASTER.FONT_SIZE}px ${TEXT_RASTER.FONT_FAMILY}`;
+  const lineHeight = TEXT_RASTER.FONT_SIZE * TEXT_RASTER.LINE_HEIGHT;
+
+  // Measure with a throwaway context before sizing the real one
+  const measure = createRasterContext(1, 1);
+  measure.font = font;
+  const textWidth = Math.max(
+    1,
+    ...lines.map((line) => measure.measureText(line).width),
+  );
+
+  const width = Math.ceil(textWidth + TEXT_RASTER.PADDING * 2);
+  const height = Math.ceil(lines.length * lineHeight + TEXT_RASTER.PADDING * 2);
+  const context = createRasterContext(width, height);
+
+  context.font = font;
+  context.fillStyle = "#fff";
+  context.textAlign = "center";
+  context.textBaseline = "middle";
+  lines.forEach((line, index) => {
+    context.fillText(
+      line,
+      width / 2,
+      TEXT_RASTER.PADDING + lineHeight * (index + 0.5),
+    );
+  });
+
+  const { data } = context.getImageData(0, 0, width, height);
+  const weights = new Float32Array(width * height);
+  for (let i = 0; i < weights.length; i++) {
+    weights[i] = data[i * 4 + 3] / 255;
+  }
+
+  return { width, height, weights };
+};
+
+/**
+ * Build a text shape around a lazily computed raster
+ *
+ * @param getRaster - Produces the glyph coverage map on first use
+ * @returns Shape definition filling the glyphs with particles
+ */
+const buildTextShape = (
+  getRaster: () => WeightMap,
+): ShapeDefinition<TextParams> => {
+  // Rasterize lazily and reuse across particle counts and seeds
+  let raster: WeightMap | null = null;
+
+  return {
+    id: TEXT_SHAPE_ID,
+    label: "Text",
+    icon: Type,
+    defaultParams: {
+      width: 14,
+      height: 8,
+      depth: 1.5,
+    },
+    fills: ["volume"],
+    generate: ({ count, params, random }) => {
+      const positions = new Float32Array(count * 3);
+      raster ??= getRaster();
+
+      const samples = sampleWeightMap(raster, count, random);
+      if (!samples) {
+        return positions;
+      }
+
+      const scale = Math.min(
+        params.width / raster.width,
+        params.height / raster.height,
+      );
+
+      for (let i = 0; i < count; i++) {
+        const idx = i * 3;
+        positions[idx] = samples.coords[i * 2] * scale;
+        positions[idx + 1] = samples.coords[i * 2 + 1] * scale;
+        positions[idx + 2] = (random() - 0.5) * params.depth;
+      }
+
+      return positions;
+    },
+    // Ship the raster rather than the text: workers may not have the font
+    serialize: () => ({
+      factory: "text",
+      args: [(raster ??= getRaster())],
+    }),
+  };
+};
+
+/**
+ * Create a shape definition that spells out text
+ * Re-registering replaces the previous text under TEXT_SHAPE_ID
+ *
+ * @param text - Word or short phrase
+ * @returns Shape definition filling the glyphs with particles
+ */
+export const createTextShape = (text: string): ShapeDefinition<TextParams> =>
+  buildTextShape(() => rasterizeText(text));
+
+/**
+ * Create a text shape from an already rasterized glyph coverage map
+ *
+ * @param raster - Weight map produced by rasterizing text
+ * @returns Shape definition filling the glyphs with particles
+ */
+export const createTextShapeFromRaster = (
+  raster: WeightMap,
+): ShapeDefinition<TextParams> => buildTextShape(() => raster);
@@ -0,0 +1,60 @@
+/**
+ * Torus shape definition
+ * Ring surface or solid ring with uniform density
+ * @module lib/shapes/torus
+ */
+
+import { Donut } from "lucide-react";
+import type { ShapeDefinition } from "../constants";
+
+/**
+ * Torus shape parameters
+ */
+export type TorusParams = {
+  /** Distance from the center to the middle of the tube */
+  majorRadius: number;
+  /** Tube radius */
+  minorRadius: number;
+};
+
+/**
+ * Torus shape definition
+ */
+export const torusShape: ShapeDefinition<TorusParams> = {
+  id: "torus",
+  label: "Torus",
+  icon: Donut,
+  defaultParams: {
+    majorRadius: 5,
+    minorRadius: 2,
+  },
+  fills: ["surface", "volume"],
+  generate: ({ count, params, random, fill }) => {
+    const positions = new Float32Array(count * 3);
+    const R = params.majorRadius;
+
+    for (let i = 0; i < count; i++) {
+      const idx = i * 3;
+      const u = random() * Math.PI * 2;
+      // Square root keeps cross-section density uniform when filling
+      const r =
+        fill === "volume"
+          ? params.minorRadius * Math.sqrt(random())
+          : params.minorRadius;
+
+      // The outer rim has more area than the inner rim; reject tube
+      // angles proportionally so density stays even
+      let v = random() * Math.PI * 2;
+      while (random() * (R + r) > R + r * Math.cos(v)) {
+        v = random() * Math.PI * 2;
+      }
+
+      const ring = R + r * Math.cos(v);
+      positions[idx] = ring * Math.cos(u);
+      positions[idx + 1] = r * Math.sin(v);
+      positions[idx + 2] = ring * Math.sin(u);
+    }
+
+    return positions;
+  },
+};
@@ -0,0 +1,105 @@
+/**
+ * Torus knot shape definition
+ * (p, q) knot wound around a torus, thickened into a tube
+ * @module lib/shapes/torusKnot
+ */
+
+import { Lasso } from "lucide-react";
+import type { ShapeDefinition } from "../constants";
+
+/**
+ * Torus knot shape parameters
+ */
+export type TorusKnotParams = {
+  /** Windings around the axis of rotational symmetry */
+  p: number;
+  /** Windings through the hole of the torus */
+  q: number;
+  /** Overall radius of the knot */
+  radius: number;
+  /** Radius of the tube around the knot curve */
+  tube: number;
+};
+
+/**
+ * Point on the knot curve, written into out
+ */
+const knotPoint = (
+  t: number,
+  p: number,
+  q: number,
+  scale: number,
+  out: [number, number, number],
+): void => {
+  const r = (2 + Math.cos(q * t)) * scale;
+  out[0] = r * Math.cos(p * t);
+  out[1] = -Math.sin(q * t) * scale;
+  out[2] = r * Math.sin(p * t);
+};
+
+/**
+ * Torus knot shape definition
+ */
+export const torusKnotShape: ShapeDefinition<TorusKnotParams> = {
+  id: "torusKnot",
+  label: "Knot",
+  icon: Lasso,
+  defaultParams: {
+    p: 2,
+    q: 3,
+    radius: 6,
+    tube: 0.6,
+  },
+  fills: ["surface", "volume"],
+  generate: ({ count, params, random, fill }) => {
+    const positions = new Float32Array(count * 3);
+    const p = Math.max(1, Math.round(params.p));
+    const q = Math.max(1, Math.round(params.q));
+    // The curve reaches 3 units from the center before scaling
+    const scale = params.radius / 3;
+    const point: [number, number, number] = [0, 0, 0];
+    const ahead: [number, number, number] = [0, 0, 0];
+
+    for (let i = 0; i < count; i++) {
+      const idx = i * 3;
+      const t = random() * Math.PI * 2;
+      knotPoint(t, p, q, scale, point);
+      knotPoint(t + 1e-3, p, q, scale, ahead);
+
+      // Tangent, then a normal/binormal pair spanning the tube cross-section
+      let tx = ahead[0] - point[0];
+      let ty = ahead[1] - point[1];
+      let tz = ahead[2] - point[2];
+      const tLength = Math.hypot(tx, ty, tz) || 1;
+      tx /= tLength;
+      ty /= tLength;
+      tz /= tLength;
+
+      // Cross with the up axis (or x when the tangent is nearly vertical)
+      const useX = Math.abs(ty) > 0.9;
+      let nx = useX ? 0 : -tz;
+      let ny = useX ? tz : 0;
+      let nz = useX ? -ty : tx;
+      const nLength = Math.hypot(nx, ny, nz) || 1;
+      nx /= nLength;
+      ny /= nLength;
+      nz /= nLength;
+
+      const bx = ty * nz - tz * ny;
+      const by = tz * nx - tx * nz;
+      const bz = tx * ny - ty * nx;
+
+      const angle = random() * Math.PI * 2;
+      const tube =
+        fill === "volume" ? params.tube * Math.sqrt(random()) : params.tube;
+      const c = Math.cos(angle) * tube;
+      const s = Math.sin(angle) * tube;
+
+      positions[idx] = point[0] + nx * c + bx * s;
+      positions[idx + 1] = point[1] + ny * c + by * s;
+      positions[idx + 2] = point[2] + nz * c + bz * s;
+    }
+
+    return positions;
+  },
+};
@@ -0,0 +1,108 @@
+/**
+ * Wave shape definition
+ * Tilted sheet rippled by travelling waves that flow when animated
+ * @module lib/shapes/wave
+ */
+
+import { Waves } from "lucide-react";
+import type { ShapeDefinition } from "../constants";
+
+/**
+ * Wave shape parameters
+ */
+export type WaveParams = {
+  /** Edge length of the square sheet */
+  size: number;
+  /** Wave height */
+  amplitude: number;
+  /** Distance between crests */
+  wavelength: number;
+  /** Crest speed in units per second */
+  speed: number;
+  /** Tilt of the sheet toward the viewer in radians */
+  tilt: number;
+};
+
+/**
+ * Height of the sheet at a point
+ *
+ * @param x - Position across the sheet
+ * @param w - Position into the sheet
+ * @param time - Time in seconds
+ * @param direction - Travel direction of the main wave in radians
+ * @param params - Wave parameters
+ * @returns Height above the sheet
+ */
+const waveHeight = (
+  x: number,
+  w: number,
+  time: number,
+  direction: number,
+  params: WaveParams,
+): number => {
+  const k = (Math.PI * 2) / params.wavelength;
+  const cos = Math.cos(direction);
+  const sin = Math.sin(direction);
+  const along = x * cos + w * sin;
+  const across = w * cos - x * sin;
+
+  // Main swell plus a shorter, slower cross ripple
+  return (
+    params.amplitude *
+    (0.75 * Math.sin(k * (along - params.speed * time)) +
+      0.25 * Math.sin(1.7 * k * (across - 0.6 * params.speed * time)))
+  );
+};
+
+/**
+ * Wave shape definition
+ */
+export const waveShape: ShapeDefinition<WaveParams> = {
+  id: "wave",
+  label: "Wave",
+  icon: Waves,
+  defaultParams: {
+    size: 14,
+    amplitude: 1,
+    wavelength: 5,
+    speed: 2,
+    tilt: 0.5,
+  },
+  fills: ["surface"],
+  palette: "ocean",
+  generate: ({ count, params, random }) => {
+    const positions = new Float32Array(count * 3);
+    const cos = Math.cos(params.tilt);
+    const sin = Math.sin(params.tilt);
+
+    for (let i = 0; i < count; i++) {
+      const idx = i * 3;
+      const x = (random() - 0.5) * params.size;
+      const w = (random() - 0.5) * params.size;
+      const h = waveHeight(x, w, 0, 0, params);
+
+      positions[idx] = x;
+      positions[idx + 1] = h * cos + w * sin;
+      positions[idx + 2] = w * cos - h * sin;
+    }
+
+    return positions;
+  },
+  animate: ({ time, params, hand, base }, out) => {
+    const cos = Math.cos(params.tilt);
+    const sin = Math.sin(params.tilt);
+    // Horizontal hand position steers the swell
+    const direction = hand.handDetected ? (hand.handX - 0.5) * Math.PI : 0;
+
+    for (let i = 0; i < base.length; i += 3) {
+      // Undo the tilt to recover the point's place on the sheet
+      const x = base[i];
+      const w = base[i + 1] * sin + base[i + 2] * cos;
+      const h = waveHeight(x, w, time, direction, params);
+
+      out[i] = x;
+      out[i + 1] = h * cos + w * sin;
+      out[i + 2] = w * cos - h * sin;
+    }
+  },
+};
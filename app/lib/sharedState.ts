@@ -14,12 +14,16 @@ import type { SharedState } from "./constants";
  * @property pinchDistance - Normalized distance between thumb and index (0-1.5)
  * @property handX - Horizontal hand position in normalized space (0-1)
  * @property handY - Vertical hand position in normalized space (0-1)
+ * @property pointerX - Horizontal index fingertip position (0-1)
+ * @property pointerY - Vertical index fingertip position (0-1)
  */
 export const sharedState: SharedState = {
   handDetected: false,
   pinchDistance: 1.0,
   handX: 0.5,
   handY: 0.5,
+  pointerX: 0.5,
+  pointerY: 0.5,
 };
 
 /**
@@ -30,6 +34,8 @@ export const resetSharedState = (): void => {
   sharedState.pinchDistance = 1.0;
   sharedState.handX = 0.5;
   sharedState.handY = 0.5;
+  sharedState.pointerX = 0.5;
+  sharedState.pointerY = 0.5;
 };
 
 /**
@@ -63,5 +69,7 @@ export const getSharedStateSnapshot = (): Readonly<SharedState> => {
     pinchDistance: sharedState.pinchDistance,
     handX: sharedState.handX,
     handY: sharedState.handY,
+    pointerX: sharedState.pointerX,
+    pointerY: sharedState.pointerY,
   };
 };
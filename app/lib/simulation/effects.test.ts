@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import type { BurstEffectType } from "../constants";
+import {
+  type ActiveEffect,
+  BURST_EFFECT_PRESETS,
+  MAX_ACTIVE_EFFECTS,
+  SHOCKWAVE_WIDTH,
+  applyEffects,
+  queueEffect,
+  updateEffects,
+} from "./effects";
+
+/**
+ * Effect at the origin
+ */
+const createEffect = (type: BurstEffectType, startTime = 0): ActiveEffect => ({
+  type,
+  origin: [0, 0, 0],
+  startTime,
+  preset: BURST_EFFECT_PRESETS[type],
+  level: 0,
+  fade: 1,
+});
+
+/**
+ * Displacement of one point by the effects at the given time
+ */
+const displace = (
+  effects: ActiveEffect[],
+  time: number,
+  point: [number, number, number],
+) => {
+  updateEffects(effects, time);
+  const out = [0, 0, 0];
+  applyEffects(effects, ...point, out);
+  return out;
+};
+
+describe("queueEffect", () => {
+  it("ends a running explode or implode but stacks shockwaves", () => {
+    const effects: ActiveEffect[] = [];
+    queueEffect(effects, createEffect("shockwave"));
+    queueEffect(effects, createEffect("explode"));
+    queueEffect(effects, createEffect("implode"));
+
+    expect(effects.map((effect) => effect.type)).toEqual([
+      "shockwave",
+      "implode",
+    ]);
+  });
+
+  it("drops the oldest effects beyond the limit", () => {
+    const effects: ActiveEffect[] = [];
+    for (let i = 0; i <= MAX_ACTIVE_EFFECTS; i++) {
+      queueEffect(effects, createEffect("shockwave", i));
+    }
+
+    expect(effects).toHaveLength(MAX_ACTIVE_EFFECTS);
+    expect(effects[0].startTime).toBe(1);
+  });
+});
+
+describe("updateEffects", () => {
+  it("peaks after the attack, then eases back out", () => {
+    const effects = [createEffect("explode")];
+    const { duration } = BURST_EFFECT_PRESETS.explode;
+
+    updateEffects(effects, 0.2 * duration);
+    expect(effects[0].level).toBeCloseTo(1);
+    updateEffects(effects, 0.99 * duration);
+    expect(effects[0].level).toBeCloseTo(0, 3);
+    updateEffects(effects, duration);
+    expect(effects).toHaveLength(0);
+  });
+});
+
+describe("applyEffects", () => {
+  it("pushes explode outward and implode inward in proportion", () => {
+    const time = 0.2 * BURST_EFFECT_PRESETS.explode.duration;
+    const near = displace([createEffect("explode")], time, [1, 0, 0]);
+    const far = displace([createEffect("explode")], time, [2, 0, 0]);
+    const inward = displace(
+      [createEffect("implode")],
+      0.2 * BURST_EFFECT_PRESETS.implode.duration,
+      [2, 0, 0],
+    );
+
+    expect(near[0]).toBeGreaterThan(0);
+    expect(far[0]).toBeCloseTo(2 * near[0]);
+    expect(inward[0]).toBeLessThan(0);
+  });
+
+  it("moves only particles near the shockwave ring", () => {
+    const effects = [createEffect("shockwave")];
+    updateEffects(effects, 0.3);
+    const radius = effects[0].level;
+
+    const onRing = displace(effects, 0.3, [radius, 0, 0]);
+    const behind = displace(effects, 0.3, [radius - 2 * SHOCKWAVE_WIDTH, 0, 0]);
+
+    expect(onRing[0]).toBeGreaterThan(0);
+    expect(onRing[1]).toBe(0);
+    expect(behind).toEqual([0, 0, 0]);
+  });
+});
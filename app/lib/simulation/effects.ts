@@ -0,0 +1,193 @@
+/**
+ * Burst effects
+ * Time-limited target displacements fired by gestures or the UI
+ * @module lib/simulation/effects
+ */
+
+import type { BurstEffectType } from "../constants";
+import { type EasingName, ease } from "../easing";
+
+/**
+ * Timing and strength of one kind of burst
+ */
+export interface BurstEffectPreset {
+  /** Length in seconds */
+  duration: number;
+  /**
+   * Peak displacement: a share of each particle's distance from the origin
+   * for explode and implode, scene units for the shockwave
+   */
+  strength: number;
+  /** Curve of the attack (explode, implode) or ring growth (shockwave) */
+  easing: EasingName;
+  /**
+   * - "stack": runs alongside running effects
+   * - "replace": ends any running "replace" effect first, so opposing
+   *   bursts never fight over the same particles
+   */
+  stacking: "stack" | "replace";
+}
+
+/**
+ * Preset for each burst effect
+ */
+export const BURST_EFFECT_PRESETS: Readonly<
+  Record<BurstEffectType, BurstEffectPreset>
+> = {
+  shockwave: {
+    duration: 1.2,
+    strength: 1.5,
+    easing: "easeOutCubic",
+    stacking: "stack",
+  },
+  explode: {
+    duration: 1.6,
+    strength: 1.2,
+    easing: "easeOutCubic",
+    stacking: "replace",
+  },
+  implode: {
+    duration: 1.2,
+    strength: 0.8,
+    easing: "easeOutBack",
+    stacking: "replace",
+  },
+};
+
+/**
+ * Most effects running at once; the oldest is dropped beyond this
+ */
+export const MAX_ACTIVE_EFFECTS = 4;
+
+/**
+ * Share of explode/implode duration spent reaching full strength
+ */
+const BURST_ATTACK = 0.2;
+
+/**
+ * Distance the shockwave ring travels over its lifetime
+ */
+const SHOCKWAVE_RADIUS = 12; // scene units
+
+/**
+ * Half-width of the shockwave ring
+ */
+export const SHOCKWAVE_WIDTH = 1.5; // scene units
+
+/**
+ * Running burst effect
+ */
+export interface ActiveEffect {
+  type: BurstEffectType;
+  /** Origin in the formation's local frame */
+  origin: readonly [number, number, number];
+  /** Simulation time the effect started */
+  startTime: number;
+  preset: BurstEffectPreset;
+  /**
+   * Current strength envelope (explode, implode) or ring radius
+   * (shockwave); set by updateEffects
+   */
+  level: number;
+  /** Remaining share of the shockwave's strength; set by updateEffects */
+  fade: number;
+}
+
+/**
+ * Add an effect to the queue, applying the stacking rules
+ *
+ * @param effects - Running effects; modified in place
+ * @param effect - Effect to start
+ */
+export const queueEffect = (
+  effects: ActiveEffect[],
+  effect: ActiveEffect,
+): void => {
+  if (effect.preset.stacking === "replace") {
+    for (let i = effects.length - 1; i >= 0; i--) {
+      if (effects[i].preset.stacking === "replace") effects.splice(i, 1);
+    }
+  }
+  effects.push(effect);
+  if (effects.length > MAX_ACTIVE_EFFECTS) {
+    effects.splice(0, effects.length - MAX_ACTIVE_EFFECTS);
+  }
+};
+
+/**
+ * Drop finished effects and update the envelopes of the rest
+ *
+ * @param effects - Running effects; modified in place
+ * @param time - Current simulation time
+ */
+export const updateEffects = (effects: ActiveEffect[], time: number): void => {
+  for (let i = effects.length - 1; i >= 0; i--) {
+    const effect = effects[i];
+    const progress = (time - effect.startTime) / effect.preset.duration;
+    if (progress >= 1) {
+      effects.splice(i, 1);
+      continue;
+    }
+
+    if (effect.type === "shockwave") {
+      effect.level = ease(effect.preset.easing, progress) * SHOCKWAVE_RADIUS;
+      effect.fade = 1 - progress;
+    } else {
+      // Quick attack, then ease back so the formation reforms
+      effect.level =
+        progress < BURST_ATTACK
+          ? ease(effect.preset.easing, progress / BURST_ATTACK)
+          : 1 -
+            ease(
+              "easeInOutCubic",
+              (progress - BURST_ATTACK) / (1 - BURST_ATTACK),
+            );
+      effect.fade = 1;
+    }
+  }
+};
+
+/**
+ * Displacement of a target position by the running effects
+ *
+ * @param effects - Running effects, updated for this step
+ * @param x - Target x
+ * @param y - Target y
+ * @param z - Target z
+ * @param out - Destination offset [dx, dy, dz]
+ */
+export const applyEffects = (
+  effects: readonly ActiveEffect[],
+  x: number,
+  y: number,
+  z: number,
+  out: number[],
+): void => {
+  out[0] = 0;
+  out[1] = 0;
+  out[2] = 0;
+
+  for (const effect of effects) {
+    const dx = x - effect.origin[0];
+    const dy = y - effect.origin[1];
+    const dz = z - effect.origin[2];
+    const { strength } = effect.preset;
+
+    if (effect.type === "shockwave") {
+      // Push outward while the ring passes
+      const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
+      const band = 1 - Math.abs(distance - effect.level) / SHOCKWAVE_WIDTH;
+      if (band <= 0 || distance < 1e-6) continue;
+      const push = (strength * band * band * effect.fade) / distance;
+      out[0] += dx * push;
+      out[1] += dy * push;
+      out[2] += dz * push;
+    } else {
+      const scale =
+        (effect.type === "explode" ? strength : -strength) * effect.level;
+      out[0] += dx * scale;
+      out[1] += dy * scale;
+      out[2] += dz * scale;
+    }
+  }
+};
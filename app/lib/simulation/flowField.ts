@@ -0,0 +1,294 @@
+/**
+ * Curl-noise flow field
+ * Divergence-free swirling velocities from layered 3D simplex noise
+ * @module lib/simulation/flowField
+ */
+
+import { createSeededRandom } from "../random";
+
+/**
+ * Tunable flow field parameters
+ */
+export interface FlowFieldSettings {
+  /** Flow speed in units per second; 0 disables the field */
+  amplitude: number;
+  /** Spatial frequency; larger values give smaller swirls */
+  scale: number;
+  /** How fast the field drifts, in noise units per second */
+  speed: number;
+  /** Noise layers, each at twice the frequency and half the weight */
+  octaves: number;
+  /** Scale the amplitude by pinch openness (closed pinch = calm) */
+  pinchControl: boolean;
+}
+
+/**
+ * Default flow field parameters
+ */
+export const DEFAULT_FLOW_FIELD_SETTINGS: Readonly<FlowFieldSettings> = {
+  amplitude: 0.6,
+  scale: 0.15,
+  speed: 0.3,
+  octaves: 2,
+  pinchControl: true,
+};
+
+/**
+ * Most octaves evaluated per particle
+ */
+export const MAX_FLOW_OCTAVES = 4;
+
+/**
+ * Scales the raw curl so its mean magnitude is close to 1
+ */
+export const CURL_NORMALIZATION = 1 / 3;
+
+/**
+ * Seed for the noise permutation; fixed so runs are reproducible
+ */
+const NOISE_SEED = "flow-field";
+
+/**
+ * Skewing and unskewing factors for 3D simplex noise
+ */
+const F3 = 1 / 3;
+const G3 = 1 / 6;
+
+/**
+ * Gradient directions: midpoints of the edges of a cube
+ */
+const GRADIENTS = new Float32Array([
+  1, 1, 0, -1, 1, 0, 1, -1, 0, -1, -1, 0, 1, 0, 1, -1, 0, 1, 1, 0, -1, -1, 0,
+  -1, 0, 1, 1, 0, -1, 1, 0, 1, -1, 0, -1, -1,
+]);
+
+/**
+ * Offsets separating the three potential components so they are
+ * uncorrelated
+ */
+export const POTENTIAL_OFFSETS = [
+  [0, 0, 0],
+  [31.416, -47.853, 12.793],
+  [-23.168, 8.719, 61.377],
+] as const;
+
+/**
+ * Permutation table doubled to avoid index wrapping
+ */
+const PERMUTATION = (() => {
+  const random = createSeededRandom(NOISE_SEED);
+  const values = Array.from({ length: 256 }, (_, i) => i);
+  for (let i = values.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [values[i], values[j]] = [values[j], values[i]];
+  }
+  const table = new Uint8Array(512);
+  for (let i = 0; i < 512; i++) {
+    table[i] = values[i & 255];
+  }
+  return table;
+})();
+
+/**
+ * Permutation hash of a lattice corner (coordinates wrapped to 0-256)
+ */
+const hashCorner = (i: number, j: number, k: number): number =>
+  PERMUTATION[i + PERMUTATION[j + PERMUTATION[k]]];
+
+/**
+ * Running sum of corner contributions [value, d/dx, d/dy, d/dz]
+ */
+const contribution = new Float64Array(4);
+
+/**
+ * Add one simplex corner's contribution and its gradient
+ *
+ * @param cx - Offset from the corner, x
+ * @param cy - Offset from the corner, y
+ * @param cz - Offset from the corner, z
+ * @param hash - Permutation hash selecting the corner's gradient
+ */
+const addCorner = (cx: number, cy: number, cz: number, hash: number): void => {
+  const falloff = 0.6 - cx * cx - cy * cy - cz * cz;
+  if (falloff <= 0) return;
+
+  const g = (hash % 12) * 3;
+  const gx = GRADIENTS[g];
+  const gy = GRADIENTS[g + 1];
+  const gz = GRADIENTS[g + 2];
+  const dot = gx * cx + gy * cy + gz * cz;
+  const f2 = falloff * falloff;
+  const f4 = f2 * f2;
+  const slope = -8 * f2 * falloff * dot;
+
+  contribution[0] += f4 * dot;
+  contribution[1] += slope * cx + f4 * gx;
+  contribution[2] += slope * cy + f4 * gy;
+  contribution[3] += slope * cz + f4 * gz;
+};
+
+/**
+ * 3D simplex noise with its analytic gradient
+ *
+ * Returns a value in roughly [-1, 1] and writes the partial derivatives
+ * to out, so a curl needs one evaluation per potential component instead
+ * of six finite differences.
+ *
+ * @param x - Sample x
+ * @param y - Sample y
+ * @param z - Sample z
+ * @param out - Destination [d/dx, d/dy, d/dz]
+ * @returns Noise value
+ */
+export const simplexNoise3 = (
+  x: number,
+  y: number,
+  z: number,
+  out: number[],
+): number => {
+  // Skew into the simplex grid and find the containing cell
+  const s = (x + y + z) * F3;
+  const i = Math.floor(x + s);
+  const j = Math.floor(y + s);
+  const k = Math.floor(z + s);
+  const t = (i + j + k) * G3;
+  const x0 = x - (i - t);
+  const y0 = y - (j - t);
+  const z0 = z - (k - t);
+
+  // Second and third corners depend on which tetrahedron contains the point
+  let i1 = 0;
+  let j1 = 0;
+  let k1 = 0;
+  let i2 = 1;
+  let j2 = 1;
+  let k2 = 1;
+  if (x0 >= y0) {
+    if (y0 >= z0) {
+      i1 = 1;
+      k2 = 0;
+    } else if (x0 >= z0) {
+      i1 = 1;
+      j2 = 0;
+    } else {
+      k1 = 1;
+      j2 = 0;
+    }
+  } else if (y0 < z0) {
+    k1 = 1;
+    i2 = 0;
+  } else if (x0 < z0) {
+    j1 = 1;
+    i2 = 0;
+  } else {
+    j1 = 1;
+    k2 = 0;
+  }
+
+  const ii = i & 255;
+  const jj = j & 255;
+  const kk = k & 255;
+  contribution.fill(0);
+  addCorner(x0, y0, z0, hashCorner(ii, jj, kk));
+  addCorner(
+    x0 - i1 + G3,
+    y0 - j1 + G3,
+    z0 - k1 + G3,
+    hashCorner(ii + i1, jj + j1, kk + k1),
+  );
+  addCorner(
+    x0 - i2 + 2 * G3,
+    y0 - j2 + 2 * G3,
+    z0 - k2 + 2 * G3,
+    hashCorner(ii + i2, jj + j2, kk + k2),
+  );
+  addCorner(
+    x0 - 1 + 3 * G3,
+    y0 - 1 + 3 * G3,
+    z0 - 1 + 3 * G3,
+    hashCorner(ii + 1, jj + 1, kk + 1),
+  );
+
+  out[0] = contribution[1] * 32;
+  out[1] = contribution[2] * 32;
+  out[2] = contribution[3] * 32;
+  return contribution[0] * 32;
+};
+
+/**
+ * Reused gradient buffers for the three potential components
+ */
+const gradients = [
+  [0, 0, 0],
+  [0, 0, 0],
+  [0, 0, 0],
+];
+
+/**
+ * Flow velocity at a point: the curl of a layered noise potential
+ *
+ * A curl field has zero divergence, so particles swirl around each other
+ * instead of bunching up or spreading out. The result averages about unit
+ * length; callers multiply it by the amplitude.
+ *
+ * @param x - Position x
+ * @param y - Position y
+ * @param z - Position z
+ * @param time - Time in seconds
+ * @param settings - Field parameters
+ * @param out - Destination velocity [vx, vy, vz]
+ *
+ * @example
+ * ```
+ * const velocity = [0, 0, 0];
+ * sampleCurlNoise(x, y, z, time, DEFAULT_FLOW_FIELD_SETTINGS, velocity);
+ * ```
+ */
+export const sampleCurlNoise = (
+  x: number,
+  y: number,
+  z: number,
+  time: number,
+  settings: FlowFieldSettings,
+  out: number[],
+): void => {
+  const octaves = Math.max(
+    1,
+    Math.min(MAX_FLOW_OCTAVES, Math.round(settings.octaves)),
+  );
+  const drift = time * settings.speed;
+
+  let cx = 0;
+  let cy = 0;
+  let cz = 0;
+  let weight = 1;
+  let frequency = settings.scale;
+  let totalWeight = 0;
+
+  for (let octave = 0; octave < octaves; octave++) {
+    for (let c = 0; c < 3; c++) {
+      const offset = POTENTIAL_OFFSETS[c];
+      simplexNoise3(
+        x * frequency + offset[0],
+        y * frequency + offset[1] + drift,
+        z * frequency + offset[2],
+        gradients[c],
+      );
+    }
+    const [p1, p2, p3] = gradients;
+
+    // curl(psi) = (dpsi3/dy - dpsi2/dz, dpsi1/dz - dpsi3/dx, dpsi2/dx - dpsi1/dy)
+    cx += (p3[1] - p2[2]) * weight;
+    cy += (p1[2] - p3[0]) * weight;
+    cz += (p2[0] - p1[1]) * weight;
+
+    totalWeight += weight;
+    weight *= 0.5;
+    frequency *= 2;
+  }
+
+  const normalization = CURL_NORMALIZATION / totalWeight;
+  out[0] = cx * normalization;
+  out[1] = cy * normalization;
+  out[2] = cz * normalization;
+};
@@ -0,0 +1,78 @@
+/**
+ * Particle simulation entry point
+ * @module lib/simulation
+ */
+
+export {
+  DEFAULT_SIMULATION_OPTIONS,
+  ParticleSimulation,
+} from "./particleSimulation";
+export type {
+  SimulationInputs,
+  SimulationOptions,
+  SimulationTarget,
+} from "./particleSimulation";
+export {
+  DEFAULT_HAND_FORCE_SETTINGS,
+  DEFAULT_PHYSICS_SETTINGS,
+  MAX_PHYSICS_STEP,
+  accumulateForces,
+  accumulateHandForce,
+  toLocalForces,
+  toLocalHandForce,
+} from "./physics";
+export type {
+  ForceSource,
+  HandForceSettings,
+  HandPointer,
+  LocalForces,
+  LocalHandForce,
+  MotionMode,
+  PhysicsSettings,
+} from "./physics";
+export {
+  DEFAULT_FLOW_FIELD_SETTINGS,
+  MAX_FLOW_OCTAVES,
+  sampleCurlNoise,
+  simplexNoise3,
+} from "./flowField";
+export type { FlowFieldSettings } from "./flowField";
+export {
+  BURST_EFFECT_PRESETS,
+  MAX_ACTIVE_EFFECTS,
+  applyEffects,
+  queueEffect,
+  updateEffects,
+} from "./effects";
+export type { ActiveEffect, BurstEffectPreset } from "./effects";
+export {
+  TRANSITION_STAGGER,
+  isTransitionDone,
+  sampleTransition,
+  startTransition,
+  transitionSizeFactor,
+} from "./transitions";
+export type { ActiveTransition } from "./transitions";
+export {
+  SHADER_ATTRIBUTE_ITEM_SIZES,
+  ShaderSimulation,
+} from "./shaderSimulation";
+export type {
+  ShaderAttributeName,
+  ShaderAttributes,
+  ShaderUniforms,
+} from "./shaderSimulation";
+export {
+  PARTICLE_FRAGMENT_SHADER,
+  PARTICLE_SHADER_DEFINES,
+  PARTICLE_VERTEX_SHADER,
+} from "./particleShader";
+export {
+  DEFAULT_TRAIL_SETTINGS,
+  ParticleTrails,
+  TRAIL_QUAD_CORNERS,
+  TRAIL_QUAD_INDICES,
+  TRAIL_SAMPLES,
+} from "./trails";
+export type { TrailSettings, TrailStyle } from "./trails";
+export { TRAIL_FRAGMENT_SHADER, TRAIL_VERTEX_SHADER } from "./trailShader";
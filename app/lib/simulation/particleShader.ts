@@ -0,0 +1,506 @@
+/**
+ * Particle shader sources
+ * GLSL for the GPU morph: per-particle motion, size and color evaluated in
+ * the vertex shader from attributes and uniforms kept by ShaderSimulation
+ * @module lib/simulation/particleShader
+ */
+
+import {
+  type ColorMapping,
+  type TransitionStyle,
+  COLOR_CONSTANTS,
+} from "../constants";
+import type { EasingName } from "../easing";
+import { PALETTE_RAMP_SIZE } from "../palettes";
+import { FADE_RATE } from "./particleSimulation";
+import { MAX_ACTIVE_EFFECTS, SHOCKWAVE_WIDTH } from "./effects";
+import {
+  CURL_NORMALIZATION,
+  MAX_FLOW_OCTAVES,
+  POTENTIAL_OFFSETS,
+} from "./flowField";
+import {
+  SCATTER_DISTANCE,
+  TRANSITION_STAGGER,
+  VORTEX_PINCH,
+  VORTEX_TURNS,
+  WAVE_LIFT,
+} from "./transitions";
+
+/**
+ * Shader code for each transition style; 0 eases exponentially at the
+ * lerp speed
+ */
+export const TRANSITION_STYLE_INDEX: Readonly<Record<TransitionStyle, number>> =
+  {
+    direct: 1,
+    scatter: 2,
+    vortex: 3,
+    wave: 4,
+    dissolve: 5,
+  };
+
+/**
+ * Shader code for each easing curve
+ */
+export const EASING_INDEX: Readonly<Record<EasingName, number>> = {
+  linear: 0,
+  easeInCubic: 1,
+  easeOutCubic: 2,
+  easeInOutCubic: 3,
+  easeOutBack: 4,
+};
+
+/**
+ * Shader code for each color mapping
+ */
+export const COLOR_MAPPING_INDEX: Readonly<Record<ColorMapping, number>> = {
+  hand: 0,
+  index: 1,
+  height: 2,
+  radial: 3,
+  velocity: 4,
+  depth: 5,
+};
+
+/**
+ * Effect code for a shockwave in the w component of uEffectOrigins;
+ * other effects scale the offset from their origin
+ */
+export const SHADER_EFFECT_SHOCKWAVE = 1;
+
+/**
+ * Time step of the finite difference behind the "velocity" mapping
+ */
+export const VELOCITY_INTERVAL = 1 / 30; // seconds
+
+/**
+ * Format a number as a GLSL float literal
+ */
+const glslFloat = (value: number): string => {
+  const text = String(value);
+  return /[.e]/.test(text) ? text : `${text}.0`;
+};
+
+/**
+ * Preprocessor defines shared by the particle shaders
+ * Pass as the material's `defines`
+ */
+export const PARTICLE_SHADER_DEFINES: Readonly<Record<string, string>> = {
+  MAX_EFFECTS: String(MAX_ACTIVE_EFFECTS),
+  MAX_FLOW_OCTAVES: String(MAX_FLOW_OCTAVES),
+  STYLE_DIRECT: String(TRANSITION_STYLE_INDEX.direct),
+  STYLE_SCATTER: String(TRANSITION_STYLE_INDEX.scatter),
+  STYLE_VORTEX: String(TRANSITION_STYLE_INDEX.vortex),
+  STYLE_WAVE: String(TRANSITION_STYLE_INDEX.wave),
+  STYLE_DISSOLVE: String(TRANSITION_STYLE_INDEX.dissolve),
+  EASING_IN_CUBIC: String(EASING_INDEX.easeInCubic),
+  EASING_OUT_CUBIC: String(EASING_INDEX.easeOutCubic),
+  EASING_IN_OUT_CUBIC: String(EASING_INDEX.easeInOutCubic),
+  EASING_OUT_BACK: String(EASING_INDEX.easeOutBack),
+  MAPPING_HAND: String(COLOR_MAPPING_INDEX.hand),
+  MAPPING_INDEX: String(COLOR_MAPPING_INDEX.index),
+  MAPPING_HEIGHT: String(COLOR_MAPPING_INDEX.height),
+  MAPPING_RADIAL: String(COLOR_MAPPING_INDEX.radial),
+  MAPPING_VELOCITY: String(COLOR_MAPPING_INDEX.velocity),
+  MAPPING_DEPTH: String(COLOR_MAPPING_INDEX.depth),
+  EFFECT_SHOCKWAVE: glslFloat(SHADER_EFFECT_SHOCKWAVE),
+  TRANSITION_STAGGER: glslFloat(TRANSITION_STAGGER),
+  SCATTER_DISTANCE: glslFloat(SCATTER_DISTANCE),
+  WAVE_LIFT: glslFloat(WAVE_LIFT),
+  VORTEX_TURNS: glslFloat(VORTEX_TURNS),
+  VORTEX_PINCH: glslFloat(VORTEX_PINCH),
+  SHOCKWAVE_WIDTH: glslFloat(SHOCKWAVE_WIDTH),
+  CURL_NORMALIZATION: glslFloat(CURL_NORMALIZATION),
+  POTENTIAL_OFFSET_1: `vec3(${POTENTIAL_OFFSETS[1].map(glslFloat).join(", ")})`,
+  POTENTIAL_OFFSET_2: `vec3(${POTENTIAL_OFFSETS[2].map(glslFloat).join(", ")})`,
+  VELOCITY_INTERVAL: glslFloat(VELOCITY_INTERVAL),
+  VELOCITY_RANGE: glslFloat(COLOR_CONSTANTS.VELOCITY_RANGE),
+  FADE_RATE: glslFloat(FADE_RATE),
+  HUE_SHIFT_RANGE: glslFloat(COLOR_CONSTANTS.HUE_SHIFT_RANGE),
+  ACTIVE_SATURATION: glslFloat(COLOR_CONSTANTS.ACTIVE_SATURATION),
+  ACTIVE_LIGHTNESS: glslFloat(COLOR_CONSTANTS.ACTIVE_LIGHTNESS),
+  INACTIVE_HUE: glslFloat(COLOR_CONSTANTS.INACTIVE_HUE),
+  INACTIVE_SATURATION: glslFloat(COLOR_CONSTANTS.INACTIVE_SATURATION),
+  INACTIVE_LIGHTNESS: glslFloat(COLOR_CONSTANTS.INACTIVE_LIGHTNESS),
+  MIN_IMPORTANCE_BRIGHTNESS: glslFloat(
+    COLOR_CONSTANTS.MIN_IMPORTANCE_BRIGHTNESS,
+  ),
+  PALETTE_RAMP_SIZE: glslFloat(PALETTE_RAMP_SIZE),
+};
+
+/**
+ * 3D simplex noise with its analytic gradient, after Stefan Gustavson's
+ * webgl-noise (MIT). Its hash differs from simplexNoise3, so the GPU flow
+ * swirls alike but not along the same paths as the CPU one.
+ */
+const SIMPLEX_NOISE_GLSL = /* glsl */ `
+vec3 mod289(vec3 x) { return x - floor(x * (1.0 / 289.0)) * 289.0; }
+vec4 mod289(vec4 x) { return x - floor(x * (1.0 / 289.0)) * 289.0; }
+vec4 permute(vec4 x) { return mod289(((x * 34.0) + 10.0) * x); }
+vec4 taylorInvSqrt(vec4 r) { return 1.79284291400159 - 0.85373472095314 * r; }
+
+float simplexNoise(vec3 v, out vec3 gradient) {
+  const vec2 C = vec2(1.0 / 6.0, 1.0 / 3.0);
+  const vec4 D = vec4(0.0, 0.5, 1.0, 2.0);
+
+  // Skew into the simplex grid and find the containing cell
+  vec3 i = floor(v + dot(v, C.yyy));
+  vec3 x0 = v - i + dot(i, C.xxx);
+
+  // Second and third corners depend on which tetrahedron contains the point
+  vec3 g = step(x0.yzx, x0.xyz);
+  vec3 l = 1.0 - g;
+  vec3 i1 = min(g.xyz, l.zxy);
+  vec3 i2 = max(g.xyz, l.zxy);
+  vec3 x1 = x0 - i1 + C.xxx;
+  vec3 x2 = x0 - i2 + C.yyy;
+  vec3 x3 = x0 - D.yyy;
+
+  i = mod289(i);
+  vec4 p = permute(permute(permute(
+      i.z + vec4(0.0, i1.z, i2.z, 1.0))
+    + i.y + vec4(0.0, i1.y, i2.y, 1.0))
+    + i.x + vec4(0.0, i1.x, i2.x, 1.0));
+
+  // Gradients on a 7x7 grid folded onto an octahedron
+  vec3 ns = 0.142857142857 * D.wyz - D.xzx;
+  vec4 j = p - 49.0 * floor(p * ns.z * ns.z);
+  vec4 x_ = floor(j * ns.z);
+  vec4 y_ = floor(j - 7.0 * x_);
+  vec4 x = x_ * ns.x + ns.yyyy;
+  vec4 y = y_ * ns.x + ns.yyyy;
+  vec4 h = 1.0 - abs(x) - abs(y);
+  vec4 b0 = vec4(x.xy, y.xy);
+  vec4 b1 = vec4(x.zw, y.zw);
+  vec4 s0 = floor(b0) * 2.0 + 1.0;
+  vec4 s1 = floor(b1) * 2.0 + 1.0;
+  vec4 sh = -step(h, vec4(0.0));
+  vec4 a0 = b0.xzyw + s0.xzyw * sh.xxyy;
+  vec4 a1 = b1.xzyw + s1.xzyw * sh.zzww;
+  vec3 p0 = vec3(a0.xy, h.x);
+  vec3 p1 = vec3(a0.zw, h.y);
+  vec3 p2 = vec3(a1.xy, h.z);
+  vec3 p3 = vec3(a1.zw, h.w);
+  vec4 norm = taylorInvSqrt(vec4(dot(p0, p0), dot(p1, p1), dot(p2, p2), dot(p3, p3)));
+  p0 *= norm.x;
+  p1 *= norm.y;
+  p2 *= norm.z;
+  p3 *= norm.w;
+
+  vec4 m = max(0.5 - vec4(dot(x0, x0), dot(x1, x1), dot(x2, x2), dot(x3, x3)), 0.0);
+  vec4 m2 = m * m;
+  vec4 m4 = m2 * m2;
+  vec4 pdotx = vec4(dot(p0, x0), dot(p1, x1), dot(p2, x2), dot(p3, x3));
+
+  vec4 slope = m2 * m * pdotx;
+  gradient = -8.0 * (slope.x * x0 + slope.y * x1 + slope.z * x2 + slope.w * x3);
+  gradient += m4.x * p0 + m4.y * p1 + m4.z * p2 + m4.w * p3;
+  gradient *= 105.0;
+  return 105.0 * dot(m4, pdotx);
+}
+`;
+
+/**
+ * Vertex shader
+ *
+ * Evaluates each particle's position in closed form from the morph start
+ * (aStart), the target (position, blended with aBlend) and the time since
+ * the morph began, then adds burst, flow and hand displacements. Sizes
+ * and colors follow the same rules as ParticleSimulation.
+ */
+export const PARTICLE_VERTEX_SHADER = /* glsl */ `
+#include <common>
+#include <fog_pars_vertex>
+
+attribute vec3 aStart;
+attribute vec3 aBlend;
+attribute float aStartScale;
+attribute float aScale;
+attribute float aBlendScale;
+attribute vec3 aColor;
+attribute vec3 aBlendColor;
+attribute vec2 aImportance;
+attribute float aKey;
+
+// Morph
+uniform float uMorphTime;
+uniform float uLerpSpeed;
+uniform int uStyle;
+uniform int uEasing;
+uniform float uDuration;
+uniform float uStaggered;
+uniform float uBlendWeight;
+uniform float uExpansion;
+uniform int uHoldFrom;
+uniform float uHoldTime;
+
+// Burst effects: origin and kind, then level, fade and signed strength
+uniform int uEffectCount;
+uniform vec4 uEffectOrigins[MAX_EFFECTS];
+uniform vec4 uEffectParams[MAX_EFFECTS];
+
+// Flow field
+uniform float uFlowOffset;
+uniform float uFlowScale;
+uniform float uFlowDrift;
+uniform float uFlowSpeed;
+uniform int uFlowOctaves;
+
+// Hand force, already divided by the lerp speed
+uniform float uHandActive;
+uniform vec3 uHandPosition;
+uniform vec3 uHandAxis;
+uniform float uHandStrength;
+uniform float uHandSwirl;
+uniform float uHandRadius;
+
+// Coloring
+uniform int uColorSource;
+uniform int uColorMapping;
+uniform float uHandDetected;
+uniform float uHandX;
+uniform float uCount;
+uniform float uPaletteActive;
+uniform sampler2D uPalette;
+uniform vec2 uMappingRange;
+uniform vec3 uCamera;
+
+// Point size
+uniform float uSize;
+uniform float uPixelScale;
+
+varying vec3 vColor;
+
+${SIMPLEX_NOISE_GLSL}
+
+// Integer hash of a particle index mapped to [0, 1); matches hashIndex
+float hashIndex(int i, uint salt) {
+  uint h = (uint(i) ^ (salt * 0x9e3779b9u)) * 0x85ebca6bu;
+  h = (h ^ (h >> 13u)) * 0xc2b2ae35u;
+  return float(h ^ (h >> 16u)) / 4294967296.0;
+}
+
+float easeProgress(float t) {
+  t = clamp(t, 0.0, 1.0);
+  if (uEasing == EASING_IN_CUBIC) return t * t * t;
+  if (uEasing == EASING_OUT_CUBIC) {
+    float u = 1.0 - t;
+    return 1.0 - u * u * u;
+  }
+  if (uEasing == EASING_IN_OUT_CUBIC) {
+    float u = 2.0 - 2.0 * t;
+    return t < 0.5 ? 4.0 * t * t * t : 1.0 - u * u * u / 2.0;
+  }
+  if (uEasing == EASING_OUT_BACK) {
+    float u = t - 1.0;
+    return 1.0 + 2.70158 * u * u * u + 1.70158 * u * u;
+  }
+  return t;
+}
+
+// Eased progress of this particle; exponential approach without a style
+float morphProgress(float morphTime) {
+  if (uStyle == 0) return 1.0 - exp(-uLerpSpeed * morphTime);
+  float progress = uDuration > 0.0 ? morphTime / uDuration : 1.0;
+  if (uStaggered > 0.5) {
+    progress = (progress - aKey * TRANSITION_STAGGER) / (1.0 - TRANSITION_STAGGER);
+  }
+  return easeProgress(progress);
+}
+
+// Point along the path from the start to the target; mirrors sampleTransition
+vec3 morphPosition(vec3 target, float e) {
+  if (uStyle == STYLE_DISSOLVE) return e >= 0.5 ? target : aStart;
+
+  vec3 p = mix(aStart, target, e);
+  float arc = sin(PI * clamp(e, 0.0, 1.0));
+  if (uStyle == STYLE_SCATTER) {
+    float cosTheta = hashIndex(gl_VertexID, 1u) * 2.0 - 1.0;
+    float sinTheta = sqrt(max(0.0, 1.0 - cosTheta * cosTheta));
+    float phi = hashIndex(gl_VertexID, 2u) * PI2;
+    p += vec3(sinTheta * cos(phi), cosTheta, sinTheta * sin(phi)) * SCATTER_DISTANCE * arc;
+  } else if (uStyle == STYLE_VORTEX) {
+    float angle = (1.0 - e) * VORTEX_TURNS * PI2;
+    float pull = 1.0 - VORTEX_PINCH * arc;
+    float c = cos(angle) * pull;
+    float s = sin(angle) * pull;
+    p = vec3(c * p.x - s * p.z, p.y, s * p.x + c * p.z);
+  } else if (uStyle == STYLE_WAVE) {
+    p.y += WAVE_LIFT * arc;
+  }
+  return p;
+}
+
+vec3 effectOffset(vec3 p) {
+  vec3 offset = vec3(0.0);
+  for (int k = 0; k < MAX_EFFECTS; k++) {
+    if (k >= uEffectCount) break;
+    vec3 d = p - uEffectOrigins[k].xyz;
+    vec4 params = uEffectParams[k];
+    if (uEffectOrigins[k].w == EFFECT_SHOCKWAVE) {
+      // Push outward while the ring passes
+      float radius = length(d);
+      float band = 1.0 - abs(radius - params.x) / SHOCKWAVE_WIDTH;
+      if (band > 0.0 && radius > 1e-6) {
+        offset += d * (params.z * band * band * params.y / radius);
+      }
+    } else {
+      offset += d * (params.z * params.x);
+    }
+  }
+  return offset;
+}
+
+// Curl of a layered noise potential; see sampleCurlNoise
+vec3 curlNoise(vec3 p, float drift) {
+  vec3 curl = vec3(0.0);
+  float weight = 1.0;
+  float frequency = uFlowScale;
+  float totalWeight = 0.0;
+  vec3 g1;
+  vec3 g2;
+  vec3 g3;
+  for (int octave = 0; octave < MAX_FLOW_OCTAVES; octave++) {
+    if (octave >= uFlowOctaves) break;
+    vec3 q = p * frequency + vec3(0.0, drift, 0.0);
+    simplexNoise(q, g1);
+    simplexNoise(q + POTENTIAL_OFFSET_1, g2);
+    simplexNoise(q + POTENTIAL_OFFSET_2, g3);
+    curl += vec3(g3.y - g2.z, g1.z - g3.x, g2.x - g1.y) * weight;
+    totalWeight += weight;
+    weight *= 0.5;
+    frequency *= 2.0;
+  }
+  return curl * (CURL_NORMALIZATION / totalWeight);
+}
+
+// Where the lerp motion settles under the hand force, kept within its radius
+vec3 handOffset(vec3 p) {
+  if (uHandActive < 0.5) return vec3(0.0);
+  vec3 d = uHandPosition - p;
+  float distanceSq = dot(d, d);
+  float radiusSq = uHandRadius * uHandRadius;
+  if (distanceSq >= radiusSq || distanceSq < 1e-12) return vec3(0.0);
+
+  float fade = 1.0 - distanceSq / radiusSq;
+  float falloff = fade * fade / sqrt(distanceSq);
+  vec3 offset = d * (uHandStrength * falloff) + cross(uHandAxis, d) * (uHandSwirl * falloff);
+  float shift = length(offset);
+  return shift > uHandRadius ? offset * (uHandRadius / shift) : offset;
+}
+
+// Local-frame position of this particle a given time into the morph
+vec3 particlePosition(float morphTime, float drift, out float e) {
+  vec3 target = mix(position, aBlend, uBlendWeight) * uExpansion;
+  e = morphProgress(max(0.0, morphTime));
+  vec3 p = morphPosition(target, e);
+  p += effectOffset(p);
+  if (uFlowOffset > 0.0) p += curlNoise(p, drift) * uFlowOffset;
+  return p + handOffset(p);
+}
+
+// Channel of an HSL color (same conversion as THREE.Color.setHSL)
+float hueToChannel(float p, float q, float t) {
+  t = fract(t);
+  if (t < 1.0 / 6.0) return p + (q - p) * 6.0 * t;
+  if (t < 0.5) return q;
+  if (t < 2.0 / 3.0) return p + (q - p) * 6.0 * (2.0 / 3.0 - t);
+  return p;
+}
+
+vec3 hslToRgb(float h, float s, float l) {
+  float hue = fract(h);
+  float p = l <= 0.5 ? l * (1.0 + s) : l + s - l * s;
+  float q = 2.0 * l - p;
+  return vec3(
+    hueToChannel(q, p, hue + 1.0 / 3.0),
+    hueToChannel(q, p, hue),
+    hueToChannel(q, p, hue - 1.0 / 3.0)
+  );
+}
+
+vec3 particleColor(vec3 p) {
+  // Importance dims background particles
+  float brightness = MIN_IMPORTANCE_BRIGHTNESS +
+    (1.0 - MIN_IMPORTANCE_BRIGHTNESS) * mix(aImportance.x, aImportance.y, uBlendWeight);
+  if (uColorSource == 1) return aColor * brightness;
+  if (uColorSource == 2) return aBlendColor * brightness;
+
+  float t = 0.0;
+  if (uColorMapping == MAPPING_HAND) {
+    if (uHandDetected < 0.5) {
+      return hslToRgb(INACTIVE_HUE, INACTIVE_SATURATION, INACTIVE_LIGHTNESS) * brightness;
+    }
+    t = uHandX + float(gl_VertexID) / uCount * HUE_SHIFT_RANGE;
+  } else if (uColorMapping == MAPPING_INDEX) {
+    t = float(gl_VertexID) / uCount;
+  } else if (uColorMapping == MAPPING_VELOCITY) {
+    float e;
+    vec3 before = particlePosition(
+      uMorphTime - VELOCITY_INTERVAL,
+      uFlowDrift - uFlowSpeed * VELOCITY_INTERVAL,
+      e
+    );
+    t = length(p - before) / VELOCITY_INTERVAL / VELOCITY_RANGE;
+  } else {
+    float value = uColorMapping == MAPPING_HEIGHT ? p.y
+      : uColorMapping == MAPPING_RADIAL ? length(p)
+      : -distance(p, uCamera);
+    t = (value - uMappingRange.x) / max(uMappingRange.y - uMappingRange.x, 1e-6);
+  }
+
+  vec3 rgb;
+  if (uPaletteActive > 0.5) {
+    float entry = floor(clamp(t, 0.0, 1.0) * (PALETTE_RAMP_SIZE - 1.0) + 0.5);
+    rgb = texture2D(uPalette, vec2((entry + 0.5) / PALETTE_RAMP_SIZE, 0.5)).rgb;
+  } else {
+    rgb = hslToRgb(t, ACTIVE_SATURATION, ACTIVE_LIGHTNESS);
+  }
+  return rgb * brightness;
+}
+
+void main() {
+  vec3 p;
+  float scale;
+  if (gl_VertexID >= uHoldFrom) {
+    // Retiring, or waiting for a target of the new count
+    p = aStart;
+    scale = aStartScale * exp(-FADE_RATE * uHoldTime);
+  } else {
+    float e;
+    p = particlePosition(uMorphTime, uFlowDrift, e);
+    scale = mix(aStartScale, mix(aScale, aBlendScale, uBlendWeight), e);
+    // Dissolving particles shrink to nothing at the midpoint
+    if (uStyle == STYLE_DISSOLVE) scale *= min(1.0, abs(1.0 - 2.0 * e));
+  }
+  vColor = particleColor(p);
+
+  vec4 mvPosition = modelViewMatrix * vec4(p, 1.0);
+  gl_PointSize = uSize * scale * (uPixelScale / -mvPosition.z);
+  gl_Position = projectionMatrix * mvPosition;
+
+  #include <fog_vertex>
+}
+`;
+
+/**
+ * Fragment shader: square points in the vertex color, with the renderer's
+ * tone mapping, output color space and scene fog
+ */
+export const PARTICLE_FRAGMENT_SHADER = /* glsl */ `
+#include <common>
+#include <fog_pars_fragment>
+
+uniform float uOpacity;
+
+varying vec3 vColor;
+
+void main() {
+  gl_FragColor = vec4(vColor, uOpacity);
+
+  #include <tonemapping_fragment>
+  #include <colorspace_fragment>
+  #include <fog_fragment>
+}
+`;
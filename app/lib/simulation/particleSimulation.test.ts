@@ -0,0 +1,168 @@
+import { describe, expect, it } from "vitest";
+import type { ShapeTransition } from "../constants";
+import { DEFAULT_FLOW_FIELD_SETTINGS } from "./flowField";
+import {
+  type SimulationInputs,
+  ParticleSimulation,
+  RETIRE_DURATION,
+  calculateExpansion,
+} from "./particleSimulation";
+
+const INPUTS: SimulationInputs = {
+  handDetected: false,
+  pinchDistance: 0.5,
+  handX: 0.5,
+  handY: 0.5,
+  pointerX: 0.5,
+  pointerY: 0.5,
+};
+
+const EXPANSION = calculateExpansion(INPUTS.pinchDistance);
+
+const DIRECT: ShapeTransition = {
+  style: "direct",
+  duration: 1,
+  easing: "linear",
+};
+
+/**
+ * Positions of count particles on the x axis, spaced by step
+ */
+const line = (count: number, step = 1): Float32Array => {
+  const positions = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) positions[i * 3] = i * step;
+  return positions;
+};
+
+/**
+ * Simulation without flow or rotation, so particles settle exactly
+ */
+const createSimulation = (positions: Float32Array): ParticleSimulation =>
+  new ParticleSimulation(positions, {
+    flow: { ...DEFAULT_FLOW_FIELD_SETTINGS, amplitude: 0 },
+    rotationSpeed: 0,
+  });
+
+/**
+ * Step for a while at 60 fps
+ */
+const run = (simulation: ParticleSimulation, seconds: number): void => {
+  for (let t = 0; t < seconds; t += 1 / 60) simulation.step(1 / 60, INPUTS);
+};
+
+describe("ParticleSimulation", () => {
+  it("moves particles toward the expanded target", () => {
+    const simulation = createSimulation(line(4));
+    const target = line(4, 2);
+    simulation.setTarget({ sample: { positions: target } });
+    run(simulation, 5);
+
+    for (let i = 0; i < 4; i++) {
+      expect(simulation.positions[i * 3]).toBeCloseTo(
+        target[i * 3] * EXPANSION,
+        3,
+      );
+    }
+  });
+
+  it("ignores targets of another particle count", () => {
+    const simulation = createSimulation(line(4));
+    simulation.setTarget({ sample: { positions: line(5, 2) } });
+    run(simulation, 5);
+    expect(simulation.positions[3]).toBeCloseTo(1 * EXPANSION, 3);
+  });
+
+  describe("setParticleCount", () => {
+    it("grows the buffers with new particles on top of existing ones", () => {
+      const simulation = createSimulation(line(4));
+      const before = simulation.positions;
+      simulation.setParticleCount(10);
+
+      expect(simulation.count).toBe(10);
+      expect(simulation.bufferCount).toBe(10);
+      expect(simulation.positions).not.toBe(before);
+      const existing = Array.from(before);
+      for (let i = 4; i < 10; i++) {
+        expect(existing).toContain(simulation.positions[i * 3]);
+      }
+    });
+
+    it("hides new particles until a target of the new size arrives", () => {
+      const simulation = createSimulation(line(4));
+      simulation.setParticleCount(8);
+      run(simulation, 0.5);
+      expect(simulation.scales[6]).toBeLessThan(0.1);
+
+      simulation.setTarget({ sample: { positions: line(8) } });
+      run(simulation, 2);
+      expect(simulation.scales[6]).toBeCloseTo(1, 2);
+    });
+
+    it("fades retired particles out before shrinking the buffers", () => {
+      const simulation = createSimulation(line(10));
+      simulation.setParticleCount(4);
+      expect(simulation.count).toBe(4);
+      expect(simulation.bufferCount).toBe(10);
+
+      run(simulation, RETIRE_DURATION / 2);
+      expect(simulation.bufferCount).toBe(10);
+      expect(simulation.scales[8]).toBeLessThan(0.2);
+      expect(simulation.scales[0]).toBeCloseTo(1);
+
+      run(simulation, RETIRE_DURATION);
+      expect(simulation.bufferCount).toBe(4);
+      expect(simulation.positions).toHaveLength(12);
+    });
+
+    it("ends a running transition", () => {
+      const simulation = createSimulation(line(4));
+      simulation.setTarget({ sample: { positions: line(4, 2) } }, DIRECT);
+      expect(simulation.isTransitioning).toBe(true);
+      simulation.setParticleCount(6);
+      expect(simulation.isTransitioning).toBe(false);
+    });
+  });
+
+  describe("transitions", () => {
+    it("arrives on the target after the duration", () => {
+      const simulation = createSimulation(line(4));
+      const target = line(4, 3);
+      simulation.setTarget({ sample: { positions: target } }, DIRECT);
+
+      run(simulation, 0.5);
+      expect(simulation.isTransitioning).toBe(true);
+      // Halfway along a linear path from x = 3 to x = 9 * EXPANSION
+      expect(simulation.positions[9]).toBeCloseTo((3 + 9 * EXPANSION) / 2, 0);
+
+      run(simulation, 0.6);
+      expect(simulation.isTransitioning).toBe(false);
+      for (let i = 0; i < 4; i++) {
+        expect(simulation.positions[i * 3]).toBeCloseTo(
+          target[i * 3] * EXPANSION,
+          1,
+        );
+      }
+    });
+
+    it("lands every style on the target", () => {
+      for (const style of ["scatter", "vortex", "wave", "dissolve"] as const) {
+        const simulation = createSimulation(line(16));
+        const target = line(16, 0.5);
+        simulation.setTarget(
+          { sample: { positions: target } },
+          { ...DIRECT, style },
+        );
+        run(simulation, 2);
+
+        expect(simulation.isTransitioning, style).toBe(false);
+        for (let i = 0; i < 16; i++) {
+          expect(simulation.positions[i * 3], style).toBeCloseTo(
+            target[i * 3] * EXPANSION,
+            1,
+          );
+          expect(simulation.scales[i], style).toBeCloseTo(1, 2);
+        }
+      }
+    });
+  });
+});
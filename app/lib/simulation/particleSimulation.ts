@@ -0,0 +1,1012 @@
+/**
+ * Particle simulation core
+ * Framework-agnostic particle state and update rules, advanced by step()
+ * @module lib/simulation/particleSimulation
+ */
+
+import {
+  type BurstEffectType,
+  type ColorMapping,
+  type ColorPalette,
+  type ShapeDefinition,
+  type ShapeParams,
+  type ShapeSample,
+  type ShapeTransition,
+  type SharedState,
+  ANIMATION_CONSTANTS,
+  COLOR_CONSTANTS,
+} from "../constants";
+import { animateShapeSample } from "../shapeGenerators";
+import { PALETTE_RAMP_SIZE, createPaletteRamp } from "../palettes";
+import {
+  type ForceSource,
+  type HandForceSettings,
+  type HandPointer,
+  type LocalForces,
+  type MotionMode,
+  type PhysicsSettings,
+  DEFAULT_HAND_FORCE_SETTINGS,
+  DEFAULT_PHYSICS_SETTINGS,
+  MAX_PHYSICS_STEP,
+  accumulateForces,
+  accumulateHandForce,
+  toLocalForces,
+  toLocalHandForce,
+} from "./physics";
+import {
+  type FlowFieldSettings,
+  DEFAULT_FLOW_FIELD_SETTINGS,
+  sampleCurlNoise,
+} from "./flowField";
+import {
+  type ActiveEffect,
+  BURST_EFFECT_PRESETS,
+  applyEffects,
+  queueEffect,
+  updateEffects,
+} from "./effects";
+import {
+  type ActiveTransition,
+  isTransitionDone,
+  sampleTransition,
+  startTransition,
+  transitionSizeFactor,
+} from "./transitions";
+
+/**
+ * Per-step input: hand tracking values as written by HandController
+ */
+export interface SimulationInputs extends Readonly<SharedState> {
+  /**
+   * Fingertip projected into the scene by the renderer; the hand force
+   * is off while this is unset or no hand is tracked
+   */
+  readonly handPointer?: Readonly<HandPointer> | null;
+  /**
+   * Scene-space camera position for the "depth" color mapping; a camera
+   * on the +z axis is assumed while unset
+   */
+  readonly cameraPosition?: readonly [number, number, number] | null;
+}
+
+/**
+ * Target formation and the definition it was generated from
+ */
+export interface SimulationTarget {
+  /** Generated (and matched) sample, one entry per particle */
+  sample: ShapeSample;
+  /** Source definition; needed for animated shapes */
+  shape?: ShapeDefinition;
+  /** Parameter overrides the sample was generated with */
+  params?: ShapeParams;
+}
+
+/**
+ * Tunable simulation settings
+ */
+export interface SimulationOptions {
+  /** How particles move toward their targets */
+  motion: MotionMode;
+  /** Share of the remaining distance to the target covered per second ("lerp") */
+  lerpSpeed: number;
+  /** Spring, damping and global forces ("physics"); replaced as a whole */
+  physics: PhysicsSettings;
+  /** Attractors and repulsors ("physics") */
+  forceSources: readonly ForceSource[];
+  /** Curl-noise flow swirling particles around their targets */
+  flow: FlowFieldSettings;
+  /** Push and pull from the tracked fingertip (both motions) */
+  handForce: HandForceSettings;
+  /** Auto-rotation about the y axis in radians per second */
+  rotationSpeed: number;
+  /**
+   * Fixed step length in seconds, or null to advance by each frame's delta
+   * Fixed steps make runs reproducible for the same inputs
+   */
+  fixedTimestep: number | null;
+  /** Play time-varying targets of animated shapes */
+  animated: boolean;
+  /** Use per-particle colors from shapes that provide them */
+  sourceColors: boolean;
+  /** Gradient particles are colored from, or null for the hue wheel */
+  palette: ColorPalette | null;
+  /** Per-particle value the palette is looked up by */
+  colorMapping: ColorMapping;
+  /** Share of the blend target while no hand drives it (0-1) */
+  blendWeight: number;
+  /** Drive the blend weight from the vertical hand position when tracked */
+  handBlend: boolean;
+}
+
+/**
+ * Frame rate the per-frame rotation constants were tuned at
+ */
+const REFERENCE_FRAME_RATE = 60;
+
+/**
+ * Most fixed steps run per step() call; any further backlog is dropped so
+ * a stalled tab does not trigger a burst of catch-up steps
+ */
+const MAX_SUBSTEPS = 8;
+
+/**
+ * Time retiring particles take to fade out before the buffers shrink
+ */
+export const RETIRE_DURATION = 0.6; // seconds
+
+/**
+ * Rate at which retiring and waiting particles shrink
+ */
+export const FADE_RATE = 8; // per second
+
+/**
+ * Particle state buffers, reallocated when the particle count changes
+ */
+interface ParticleBuffers {
+  positions: Float32Array;
+  colors: Float32Array;
+  scales: Float32Array;
+  velocities: Float32Array;
+}
+
+/**
+ * Camera assumed by the "depth" color mapping when inputs carry none
+ */
+export const DEFAULT_CAMERA_POSITION = [0, 0, 25] as const;
+
+/**
+ * Default simulation settings (desktop tuning)
+ */
+export const DEFAULT_SIMULATION_OPTIONS: Readonly<SimulationOptions> = {
+  motion: "lerp",
+  lerpSpeed: ANIMATION_CONSTANTS.LERP_SPEED_DESKTOP,
+  physics: DEFAULT_PHYSICS_SETTINGS,
+  forceSources: [],
+  flow: DEFAULT_FLOW_FIELD_SETTINGS,
+  handForce: DEFAULT_HAND_FORCE_SETTINGS,
+  rotationSpeed:
+    ANIMATION_CONSTANTS.ROTATION_SPEED_DESKTOP * REFERENCE_FRAME_RATE,
+  fixedTimestep: null,
+  animated: true,
+  sourceColors: true,
+  palette: null,
+  colorMapping: "hand",
+  blendWeight: 0.5,
+  handBlend: true,
+};
+
+/**
+ * Reused buffer holding an animated shape's current target
+ */
+interface AnimatedTarget {
+  positions: Float32Array;
+  /** Base positions the buffer was last evaluated from */
+  base: Float32Array | null;
+  /** Simulation time of the last evaluation */
+  time: number;
+}
+
+/**
+ * Calculate particle expansion based on pinch distance
+ *
+ * @param pinchDistance - Normalized pinch distance (0-1.5)
+ * @returns Expansion multiplier
+ */
+export const calculateExpansion = (pinchDistance: number): number => {
+  let expansion = 0.2 + pinchDistance * 0.8;
+
+  // Explosive effect when hand fully open
+  if (pinchDistance > 0.95) {
+    expansion = 1.0 + (pinchDistance - 0.95) * 5.0;
+  }
+
+  return expansion;
+};
+
+/**
+ * Channel of an HSL color (same conversion as THREE.Color.setHSL)
+ */
+const hueToChannel = (p: number, q: number, t: number): number => {
+  if (t < 0) t += 1;
+  if (t > 1) t -= 1;
+  if (t < 1 / 6) return p + (q - p) * 6 * t;
+  if (t < 1 / 2) return q;
+  if (t < 2 / 3) return p + (q - p) * 6 * (2 / 3 - t);
+  return p;
+};
+
+/**
+ * Write an HSL color as RGB into out
+ *
+ * @param h - Hue (wraps to 0-1)
+ * @param s - Saturation (0-1)
+ * @param l - Lightness (0-1)
+ * @param out - Destination [r, g, b]
+ */
+const hslToRgb = (h: number, s: number, l: number, out: number[]): void => {
+  const hue = ((h % 1) + 1) % 1;
+  if (s === 0) {
+    out[0] = out[1] = out[2] = l;
+    return;
+  }
+  const p = l <= 0.5 ? l * (1 + s) : l + s - l * s;
+  const q = 2 * l - p;
+  out[0] = hueToChannel(q, p, hue + 1 / 3);
+  out[1] = hueToChannel(q, p, hue);
+  out[2] = hueToChannel(q, p, hue - 1 / 3);
+};
+
+/**
+ * Current target positions for a shape, animated if it supports it
+ * Re-evaluates at SHAPE_ANIMATION_RATE, and immediately for a new base
+ */
+const getFrameTargets = (
+  target: AnimatedTarget,
+  source: SimulationTarget,
+  time: number,
+  inputs: SimulationInputs,
+): Float32Array => {
+  const { shape, params } = source;
+  const base = source.sample.positions;
+  if (!shape?.animate || base.length !== target.positions.length) {
+    return base;
+  }
+
+  if (
+    target.base !== base ||
+    time - target.time >= 1 / ANIMATION_CONSTANTS.SHAPE_ANIMATION_RATE
+  ) {
+    animateShapeSample(shape, base, target.positions, time, inputs, params);
+    target.base = base;
+    target.time = time;
+  }
+  return target.positions;
+};
+
+/**
+ * Particle simulation
+ *
+ * Owns particle state as typed arrays and advances it with `step(dt,
+ * inputs)`. It has no React or Three.js dependency: a renderer uploads
+ * `positions`, `colors` and `scales` and applies `rotation` after each
+ * step, and the same engine can run in Node, in a worker or from recorded
+ * inputs.
+ *
+ * Each step moves particles toward their targets (blended between two
+ * shapes when a blend target is set) with pinch expansion, while a
+ * curl-noise flow field swirls them around those targets and the tracked
+ * fingertip pushes or pulls nearby particles. Burst effects fired with
+ * `triggerEffect` displace targets for a short time, and a transition
+ * passed to `setTarget` leads particles along a timed, eased path to the
+ * new formation. It also eases per-particle sizes and colors particles
+ * from the shape's source colors, or from a palette (or the hue wheel)
+ * looked up by hand position, index, height, radius, speed or camera
+ * depth. In "lerp" motion particles ease a share of the remaining
+ * distance; in "physics" motion they carry velocity and are pulled by a
+ * damped spring plus global and point forces.
+ *
+ * `setParticleCount` changes the count at runtime. New particles appear
+ * on top of existing ones and grow in once a target of the new size is
+ * set; removed particles fade out before the buffers shrink. Renderers
+ * should re-bind the buffers whenever `positions` changes identity.
+ *
+ * @example
+ * ```
+ * const simulation = new ParticleSimulation(generatePositions("sphere", 8000), {
+ *   fixedTimestep: 1 / 60,
+ * });
+ * simulation.setTarget({ sample: generateShape("heart", 8000) });
+ * simulation.step(1 / 60, sharedState);
+ * ```
+ */
+export class ParticleSimulation {
+  /** Auto-rotation about the y axis in radians */
+  rotation = 0;
+  /** Simulated time in seconds */
+  time = 0;
+
+  private liveCount: number;
+  private buffers: ParticleBuffers;
+  /** Simulation time the last retirement started */
+  private retireTime = 0;
+  private options: SimulationOptions;
+  private target: SimulationTarget;
+  private blend: SimulationTarget | null = null;
+  private animatedTargets: readonly [AnimatedTarget, AnimatedTarget];
+  private accumulator = 0;
+  private readonly rgb = [0, 0, 0];
+  private readonly force = [0, 0, 0];
+  private readonly goal = [0, 0, 0];
+  private readonly flowVelocity = [0, 0, 0];
+  private readonly effects: ActiveEffect[] = [];
+  private readonly effectOffset = [0, 0, 0];
+  private transition: ActiveTransition | null = null;
+  private readonly pathPoint = [0, 0, 0];
+  private paletteRamp: Float32Array | null = null;
+  /** Positions before the last step; kept for the "velocity" mapping */
+  private previous: Float32Array | null = null;
+  private localForces: LocalForces = {
+    constant: [0, 0, 0],
+    vortex: 0,
+    sources: new Float32Array(0),
+    hand: {
+      active: false,
+      position: [0, 0, 0],
+      axis: [0, 0, 1],
+      strength: 0,
+      swirl: 0,
+      radius: 0,
+    },
+  };
+
+  /**
+   * @param positions - Initial positions; the simulation takes ownership
+   *   and updates this array in place
+   * @param options - Settings overriding DEFAULT_SIMULATION_OPTIONS
+   */
+  constructor(
+    positions: Float32Array,
+    options: Partial<SimulationOptions> = {},
+  ) {
+    const count = Math.floor(positions.length / 3);
+    this.liveCount = count;
+    this.buffers = {
+      positions,
+      colors: new Float32Array(count * 3),
+      scales: new Float32Array(count).fill(1),
+      velocities: new Float32Array(count * 3),
+    };
+    this.options = { ...DEFAULT_SIMULATION_OPTIONS, ...options };
+    this.paletteRamp = this.options.palette
+      ? createPaletteRamp(this.options.palette)
+      : null;
+    this.target = { sample: { positions: positions.slice() } };
+    this.animatedTargets = this.createAnimatedTargets();
+  }
+
+  /**
+   * Number of particles; targets must have exactly this many
+   */
+  get count(): number {
+    return this.liveCount;
+  }
+
+  /**
+   * Number of particles in the buffers, including ones still fading out
+   * after the count was lowered
+   */
+  get bufferCount(): number {
+    return this.buffers.scales.length;
+  }
+
+  /** Particle positions laid out as [x, y, z, ...]; updated in place */
+  get positions(): Float32Array {
+    return this.buffers.positions;
+  }
+
+  /** Particle colors in linear RGB; updated in place */
+  get colors(): Float32Array {
+    return this.buffers.colors;
+  }
+
+  /** Per-particle size multipliers; updated in place */
+  get scales(): Float32Array {
+    return this.buffers.scales;
+  }
+
+  /** Particle velocities in "physics" motion; updated in place */
+  get velocities(): Float32Array {
+    return this.buffers.velocities;
+  }
+
+  /**
+   * Change the number of particles
+   *
+   * Existing particles keep their positions. Added particles start hidden
+   * on top of existing ones and wait for a target with the new count;
+   * removed particles (the highest indices) fade out, then the buffers
+   * shrink. A running transition ends.
+   *
+   * @param count - New particle count (at least 1)
+   *
+   * @example
+   * ```
+   * simulation.setParticleCount(20000);
+   * simulation.setTarget({ sample: generateShape("heart", 20000) });
+   * ```
+   */
+  setParticleCount(count: number): void {
+    const next = Math.max(1, Math.floor(count));
+    if (next === this.liveCount) return;
+
+    const previous = this.bufferCount;
+    if (next > previous) {
+      const { positions, colors, scales, velocities } = this.buffers;
+      const grown: ParticleBuffers = {
+        positions: new Float32Array(next * 3),
+        colors: new Float32Array(next * 3),
+        scales: new Float32Array(next),
+        velocities: new Float32Array(next * 3),
+      };
+      grown.positions.set(positions);
+      grown.colors.set(colors);
+      grown.scales.set(scales);
+      grown.velocities.set(velocities);
+
+      // Spawn on live particles spread across the formation
+      const sources = Math.min(this.liveCount, previous);
+      for (let i = previous; i < next; i++) {
+        const source = ((i * 2654435761) >>> 0) % sources;
+        for (let axis = 0; axis < 3; axis++) {
+          grown.positions[i * 3 + axis] = positions[source * 3 + axis];
+          grown.colors[i * 3 + axis] = colors[source * 3 + axis];
+        }
+      }
+      this.buffers = grown;
+    } else if (next < this.liveCount) {
+      this.retireTime = this.time;
+    }
+
+    this.liveCount = next;
+    this.transition = null;
+    this.previous = null;
+    this.animatedTargets = this.createAnimatedTargets();
+  }
+
+  /**
+   * Reused buffers for animated targets, sized for the particle count
+   */
+  private createAnimatedTargets(): [AnimatedTarget, AnimatedTarget] {
+    const create = (): AnimatedTarget => ({
+      positions: new Float32Array(this.liveCount * 3),
+      base: null,
+      time: 0,
+    });
+    return [create(), create()];
+  }
+
+  /**
+   * Drop particles that have finished fading out
+   */
+  private releaseRetired(): void {
+    const count = this.liveCount;
+    if (
+      this.bufferCount <= count ||
+      this.time - this.retireTime < RETIRE_DURATION
+    ) {
+      return;
+    }
+    const { positions, colors, scales, velocities } = this.buffers;
+    this.buffers = {
+      positions: positions.slice(0, count * 3),
+      colors: colors.slice(0, count * 3),
+      scales: scales.slice(0, count),
+      velocities: velocities.slice(0, count * 3),
+    };
+    this.previous = null;
+  }
+
+  /**
+   * Current settings
+   */
+  getOptions(): Readonly<SimulationOptions> {
+    return this.options;
+  }
+
+  /**
+   * Change settings; takes effect on the next step
+   *
+   * @param options - Settings to override
+   */
+  setOptions(options: Partial<SimulationOptions>): void {
+    // Start physics from rest rather than with stale velocities
+    if (options.motion === "physics" && this.options.motion !== "physics") {
+      this.velocities.fill(0);
+    }
+    if (
+      options.palette !== undefined &&
+      options.palette !== this.options.palette
+    ) {
+      this.paletteRamp = options.palette
+        ? createPaletteRamp(options.palette)
+        : null;
+    }
+    this.options = { ...this.options, ...options };
+    if (this.options.fixedTimestep === null) {
+      this.accumulator = 0;
+    }
+  }
+
+  /**
+   * Set the formation particles move toward
+   * Samples with a different particle count are ignored
+   *
+   * Without a transition particles ease toward the new formation at the
+   * lerp speed (or spring to it in "physics" motion). With one they follow
+   * its path from their current positions and arrive after its duration;
+   * in "physics" motion the path leads the spring.
+   *
+   * @param target - Target sample and its definition
+   * @param transition - Style, duration and easing of the morph
+   *
+   * @example
+   * ```
+   * simulation.setTarget(
+   *   { sample: generateShape("heart", 8000) },
+   *   { style: "scatter", duration: 1.5, easing: "easeInOutCubic" },
+   * );
+   * ```
+   */
+  setTarget(target: SimulationTarget, transition?: ShapeTransition): void {
+    if (target.sample.positions.length !== this.count * 3) return;
+    this.target = target;
+    this.transition = transition
+      ? startTransition(
+          transition,
+          this.positions,
+          this.scales,
+          target.sample.positions,
+          this.time,
+          this.transition,
+        )
+      : null;
+  }
+
+  /**
+   * Set (or clear) the second formation blended with the target
+   * Samples with a different particle count are ignored
+   *
+   * @param target - Blend sample and its definition, or null for none
+   */
+  setBlendTarget(target: SimulationTarget | null): void {
+    if (target && target.sample.positions.length !== this.count * 3) return;
+    this.blend = target;
+  }
+
+  /**
+   * Fire a burst effect, subject to the preset's stacking rules
+   *
+   * @param type - Effect to fire
+   * @param origin - Scene-space origin (the formation's rotation is undone)
+   *
+   * @example
+   * ```
+   * simulation.triggerEffect("shockwave", [0, 2, 0]);
+   * ```
+   */
+  triggerEffect(
+    type: BurstEffectType,
+    origin: readonly [number, number, number] = [0, 0, 0],
+  ): void {
+    const cos = Math.cos(this.rotation);
+    const sin = Math.sin(this.rotation);
+    const [x, y, z] = origin;
+    queueEffect(this.effects, {
+      type,
+      origin: [cos * x - sin * z, y, sin * x + cos * z],
+      startTime: this.time,
+      preset: BURST_EFFECT_PRESETS[type],
+      level: 0,
+      fade: 1,
+    });
+  }
+
+  /**
+   * Whether a shape transition is still running
+   */
+  get isTransitioning(): boolean {
+    return this.transition !== null;
+  }
+
+  /**
+   * Number of burst effects still running
+   */
+  get activeEffectCount(): number {
+    return this.effects.length;
+  }
+
+  /**
+   * Advance the simulation
+   * With a fixed timestep, dt is accumulated and whole steps are run
+   *
+   * @param dt - Elapsed time in seconds
+   * @param inputs - Current hand tracking input
+   */
+  step(dt: number, inputs: SimulationInputs): void {
+    const { fixedTimestep, colorMapping } = this.options;
+    const startTime = this.time;
+
+    if (colorMapping === "velocity") {
+      if (this.previous?.length !== this.positions.length) {
+        this.previous = new Float32Array(this.positions.length);
+      }
+      this.previous.set(this.positions);
+    }
+
+    if (fixedTimestep && fixedTimestep > 0) {
+      this.accumulator += dt;
+      let substeps = 0;
+      while (this.accumulator >= fixedTimestep && substeps < MAX_SUBSTEPS) {
+        this.advance(fixedTimestep, inputs);
+        this.accumulator -= fixedTimestep;
+        substeps++;
+      }
+      if (substeps === MAX_SUBSTEPS) this.accumulator = 0;
+    } else {
+      // Subdivide long frames so stiff springs stay stable
+      const substeps =
+        this.options.motion === "physics"
+          ? Math.min(MAX_SUBSTEPS, Math.ceil(dt / MAX_PHYSICS_STEP))
+          : 1;
+      for (let s = 0; s < substeps; s++) {
+        this.advance(dt / substeps, inputs);
+      }
+    }
+
+    this.updateColors(inputs, this.time - startTime);
+    this.releaseRetired();
+  }
+
+  /**
+   * Blend target, if it covers every particle of the target
+   * (a blend generated for an older count is ignored until replaced)
+   */
+  private getBlend(): SimulationTarget | null {
+    const { blend, target } = this;
+    return blend &&
+      blend.sample.positions.length >= target.sample.positions.length
+      ? blend
+      : null;
+  }
+
+  /**
+   * Blend weight for the current inputs (0 without a blend target)
+   */
+  private getBlendWeight(inputs: SimulationInputs): number {
+    if (!this.getBlend()) return 0;
+    const { handBlend, blendWeight } = this.options;
+    const weight =
+      handBlend && inputs.handDetected ? inputs.handY : blendWeight;
+    return Math.max(0, Math.min(1, weight));
+  }
+
+  /**
+   * Move particles and sizes one step toward their targets
+   */
+  private advance(dt: number, inputs: SimulationInputs): void {
+    this.time += dt;
+    updateEffects(this.effects, this.time);
+    if (this.transition && isTransitionDone(this.transition, this.time)) {
+      this.transition = null;
+    }
+    this.rotation += this.options.rotationSpeed * dt;
+
+    const { animated, lerpSpeed, motion, physics, flow, handForce } =
+      this.options;
+    const [primaryAnimation, blendAnimation] = this.animatedTargets;
+    const { positions, scales, time, target } = this;
+    const blend = this.getBlend();
+
+    const targets = animated
+      ? getFrameTargets(primaryAnimation, target, time, inputs)
+      : target.sample.positions;
+    const blendTargets =
+      blend && animated
+        ? getFrameTargets(blendAnimation, blend, time, inputs)
+        : blend?.sample.positions;
+    const weight = this.getBlendWeight(inputs);
+    const sizes = target.sample.sizes;
+    const blendSizes = blend?.sample.sizes;
+
+    const rate = lerpSpeed * dt;
+    const expansion = calculateExpansion(inputs.pinchDistance);
+
+    const isPhysics = motion === "physics";
+    const {
+      velocities,
+      force,
+      goal,
+      flowVelocity,
+      effects,
+      effectOffset,
+      transition,
+      pathPoint,
+    } = this;
+    const forces = isPhysics
+      ? toLocalForces(
+          physics,
+          this.options.forceSources,
+          this.rotation,
+          this.localForces,
+        )
+      : this.localForces;
+    const decay = Math.exp(-physics.damping * dt);
+    const hand = toLocalHandForce(
+      handForce,
+      inputs.handDetected ? inputs.handPointer : null,
+      inputs.pinchDistance,
+      this.rotation,
+      this.localForces.hand,
+    );
+
+    // An open pinch stirs the flow, a closed one calms it
+    const flowStrength =
+      flow.amplitude *
+      (flow.pinchControl ? Math.min(1, inputs.pinchDistance) : 1);
+
+    // Particles beyond the live count are retiring; those beyond the
+    // target are waiting for one of the new count. Both hold and shrink.
+    const live = Math.min(this.count, targets.length / 3);
+    const fade = Math.exp(-FADE_RATE * dt);
+    for (let i = live; i < this.bufferCount; i++) {
+      scales[i] *= fade;
+      velocities[i * 3] = 0;
+      velocities[i * 3 + 1] = 0;
+      velocities[i * 3 + 2] = 0;
+    }
+
+    for (let i = 0; i < live; i++) {
+      const idx = i * 3;
+
+      // Target position (blended between shapes) with expansion
+      let tx = targets[idx];
+      let ty = targets[idx + 1];
+      let tz = targets[idx + 2];
+      if (blendTargets) {
+        tx += (blendTargets[idx] - tx) * weight;
+        ty += (blendTargets[idx + 1] - ty) * weight;
+        tz += (blendTargets[idx + 2] - tz) * weight;
+      }
+      tx *= expansion;
+      ty *= expansion;
+      tz *= expansion;
+
+      // Burst effects displace the target, so particles follow and reform
+      if (effects.length > 0) {
+        applyEffects(effects, tx, ty, tz, effectOffset);
+        tx += effectOffset[0];
+        ty += effectOffset[1];
+        tz += effectOffset[2];
+      }
+
+      // A running transition leads each particle along its path
+      const progress = transition
+        ? sampleTransition(transition, i, time, tx, ty, tz, pathPoint)
+        : 1;
+      // Lerp motion pins particles to the path so they arrive on time
+      const pinned = transition !== null && !isPhysics;
+
+      // Flow advects particles; the pull toward the target keeps them
+      // swirling around it
+      if (flowStrength > 0 && !pinned) {
+        sampleCurlNoise(
+          positions[idx],
+          positions[idx + 1],
+          positions[idx + 2],
+          time,
+          flow,
+          flowVelocity,
+        );
+        positions[idx] += flowVelocity[0] * flowStrength * dt;
+        positions[idx + 1] += flowVelocity[1] * flowStrength * dt;
+        positions[idx + 2] += flowVelocity[2] * flowStrength * dt;
+      }
+
+      if (isPhysics) {
+        accumulateForces(
+          forces,
+          positions[idx],
+          positions[idx + 1],
+          positions[idx + 2],
+          force,
+        );
+      } else {
+        force[0] = 0;
+        force[1] = 0;
+        force[2] = 0;
+      }
+      accumulateHandForce(
+        hand,
+        positions[idx],
+        positions[idx + 1],
+        positions[idx + 2],
+        force,
+      );
+
+      if (isPhysics) {
+        goal[0] = transition ? pathPoint[0] : tx;
+        goal[1] = transition ? pathPoint[1] : ty;
+        goal[2] = transition ? pathPoint[2] : tz;
+
+        // Semi-implicit Euler: spring and forces update velocity first
+        for (let axis = 0; axis < 3; axis++) {
+          const spring =
+            physics.stiffness * (goal[axis] - positions[idx + axis]);
+          const v =
+            (velocities[idx + axis] + (spring + force[axis]) * dt) * decay;
+          velocities[idx + axis] = v;
+          positions[idx + axis] += v * dt;
+        }
+      } else if (pinned) {
+        positions[idx] = pathPoint[0] + force[0] * dt;
+        positions[idx + 1] = pathPoint[1] + force[1] * dt;
+        positions[idx + 2] = pathPoint[2] + force[2] * dt;
+      } else {
+        // Without inertia the hand force acts as a velocity
+        positions[idx] += (tx - positions[idx]) * rate + force[0] * dt;
+        positions[idx + 1] += (ty - positions[idx + 1]) * rate + force[1] * dt;
+        positions[idx + 2] += (tz - positions[idx + 2]) * rate + force[2] * dt;
+      }
+
+      // Ease size so particles grow or shrink as they morph
+      const size = sizes ? sizes[i] : 1;
+      const targetSize =
+        size + ((blendSizes ? blendSizes[i] : 1) - size) * weight;
+      if (transition) {
+        const start = transition.fromScales[i];
+        scales[i] =
+          (start + (targetSize - start) * progress) *
+          transitionSizeFactor(transition.transition.style, progress);
+      } else {
+        scales[i] += (targetSize - scales[i]) * rate;
+      }
+    }
+  }
+
+  /**
+   * Range of the mapped value over all particles, for mappings normalized
+   * to the formation ("height", "radial", "depth")
+   *
+   * @returns [min, max]
+   */
+  private getMappingRange(
+    mapping: ColorMapping,
+    count: number,
+    camera: readonly number[],
+  ): [number, number] {
+    const { positions } = this;
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = 0; i < count; i++) {
+      const value = this.getMappedValue(mapping, i, positions, camera);
+      if (value < min) min = value;
+      if (value > max) max = value;
+    }
+    return [min, max];
+  }
+
+  /**
+   * Unnormalized per-particle value for a formation-relative mapping
+   */
+  private getMappedValue(
+    mapping: ColorMapping,
+    i: number,
+    positions: Float32Array,
+    camera: readonly number[],
+  ): number {
+    const idx = i * 3;
+    const x = positions[idx];
+    const y = positions[idx + 1];
+    const z = positions[idx + 2];
+    if (mapping === "height") return y;
+    if (mapping === "radial") return Math.sqrt(x * x + y * y + z * z);
+    // Depth: nearer particles map toward the end of the palette
+    const dx = x - camera[0];
+    const dy = y - camera[1];
+    const dz = z - camera[2];
+    return -Math.sqrt(dx * dx + dy * dy + dz * dz);
+  }
+
+  /**
+   * Recompute particle colors from the inputs and target attributes
+   *
+   * @param elapsed - Simulated time covered by the last step() call
+   */
+  private updateColors(inputs: SimulationInputs, elapsed: number): void {
+    const { colors, positions, target, rgb, paletteRamp, previous } = this;
+    const blend = this.getBlend();
+    const { sourceColors, colorMapping } = this.options;
+    const weight = this.getBlendWeight(inputs);
+    const importance = target.sample.importance;
+    const blendImportance = blend?.sample.importance;
+
+    // Source colors come from whichever shape dominates the blend
+    const dominant = blend && weight >= 0.5 ? blend : target;
+    const source = sourceColors ? dominant.sample.colors : undefined;
+
+    // Speeds need a step that actually advanced
+    if (!source && colorMapping === "velocity" && elapsed <= 0) return;
+
+    // Camera in the formation's local frame
+    const cos = Math.cos(this.rotation);
+    const sin = Math.sin(this.rotation);
+    const [cx, cy, cz] = inputs.cameraPosition ?? DEFAULT_CAMERA_POSITION;
+    const camera = [cos * cx - sin * cz, cy, sin * cx + cos * cz];
+
+    const normalized =
+      !source &&
+      (colorMapping === "height" ||
+        colorMapping === "radial" ||
+        colorMapping === "depth");
+    const colored = Math.min(this.count, target.sample.positions.length / 3);
+    const [min, max] = normalized
+      ? this.getMappingRange(colorMapping, colored, camera)
+      : [0, 1];
+    const range = max - min || 1;
+
+    // Retiring and waiting particles keep their last color
+    for (let i = 0; i < colored; i++) {
+      const idx = i * 3;
+
+      // Importance dims background particles
+      const value = importance ? importance[i] : 1;
+      const blended =
+        value + ((blendImportance ? blendImportance[i] : 1) - value) * weight;
+      const brightness =
+        COLOR_CONSTANTS.MIN_IMPORTANCE_BRIGHTNESS +
+        (1 - COLOR_CONSTANTS.MIN_IMPORTANCE_BRIGHTNESS) * blended;
+
+      if (source) {
+        colors[idx] = source[idx] * brightness;
+        colors[idx + 1] = source[idx + 1] * brightness;
+        colors[idx + 2] = source[idx + 2] * brightness;
+        continue;
+      }
+
+      // Palette position for this particle; a dim neutral while the hand
+      // mapping has no hand to follow
+      let t: number;
+      if (colorMapping === "hand") {
+        if (!inputs.handDetected) {
+          hslToRgb(
+            COLOR_CONSTANTS.INACTIVE_HUE,
+            COLOR_CONSTANTS.INACTIVE_SATURATION,
+            COLOR_CONSTANTS.INACTIVE_LIGHTNESS,
+            rgb,
+          );
+          colors[idx] = rgb[0] * brightness;
+          colors[idx + 1] = rgb[1] * brightness;
+          colors[idx + 2] = rgb[2] * brightness;
+          continue;
+        }
+        // Hue from hand position with an individual shift
+        t = inputs.handX + (i / this.count) * COLOR_CONSTANTS.HUE_SHIFT_RANGE;
+      } else if (colorMapping === "index") {
+        t = i / this.count;
+      } else if (colorMapping === "velocity" && previous) {
+        const dx = positions[idx] - previous[idx];
+        const dy = positions[idx + 1] - previous[idx + 1];
+        const dz = positions[idx + 2] - previous[idx + 2];
+        t =
+          Math.sqrt(dx * dx + dy * dy + dz * dz) /
+          elapsed /
+          COLOR_CONSTANTS.VELOCITY_RANGE;
+      } else if (normalized) {
+        t =
+          (this.getMappedValue(colorMapping, i, positions, camera) - min) /
+          range;
+      } else {
+        t = 0;
+      }
+
+      if (paletteRamp) {
+        const entry =
+          Math.round(Math.max(0, Math.min(1, t)) * (PALETTE_RAMP_SIZE - 1)) * 3;
+        rgb[0] = paletteRamp[entry];
+        rgb[1] = paletteRamp[entry + 1];
+        rgb[2] = paletteRamp[entry + 2];
+      } else {
+        hslToRgb(
+          t,
+          COLOR_CONSTANTS.ACTIVE_SATURATION,
+          COLOR_CONSTANTS.ACTIVE_LIGHTNESS,
+          rgb,
+        );
+      }
+
+      colors[idx] = rgb[0] * brightness;
+      colors[idx + 1] = rgb[1] * brightness;
+      colors[idx + 2] = rgb[2] * brightness;
+    }
+  }
+}
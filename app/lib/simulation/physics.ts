@@ -0,0 +1,297 @@
+/**
+ * Force-based particle physics
+ * Spring, damping, global and point forces for the "physics" motion mode
+ * @module lib/simulation/physics
+ */
+
+/**
+ * How particles move toward their targets
+ * - "lerp": ease a share of the remaining distance each step (no inertia)
+ * - "physics": spring toward the target with velocity, damping and forces
+ */
+export type MotionMode = "lerp" | "physics";
+
+/**
+ * Point force placed in the scene
+ */
+export interface ForceSource {
+  /** Scene-space position (the formation's auto-rotation is undone) */
+  position: readonly [number, number, number];
+  /** Peak acceleration; positive attracts, negative repels */
+  strength: number;
+  /** Distance at which the force fades to zero */
+  radius: number;
+}
+
+/**
+ * Tunable physics parameters
+ */
+export interface PhysicsSettings {
+  /** Spring acceleration per unit of distance to the target */
+  stiffness: number;
+  /** Velocity decay rate per second */
+  damping: number;
+  /** Downward acceleration */
+  gravity: number;
+  /** Constant scene-space acceleration [x, y, z] */
+  wind: readonly [number, number, number];
+  /** Swirl acceleration about the vertical axis (positive turns +x toward +z) */
+  vortex: number;
+}
+
+/**
+ * Default physics parameters; underdamped so morphs overshoot slightly
+ */
+export const DEFAULT_PHYSICS_SETTINGS: Readonly<PhysicsSettings> = {
+  stiffness: 12,
+  damping: 3,
+  gravity: 0,
+  wind: [0, 0, 0],
+  vortex: 0,
+};
+
+/**
+ * Tunable hand force parameters
+ */
+export interface HandForceSettings {
+  /** Push and pull particles near the tracked fingertip */
+  enabled: boolean;
+  /** Peak push away from an open hand */
+  repel: number;
+  /** Peak pull toward a pinch */
+  attract: number;
+  /** Peak swirl about the view direction while pinching */
+  swirl: number;
+  /** Distance at which the hand force fades to zero */
+  radius: number;
+}
+
+/**
+ * Default hand force parameters
+ */
+export const DEFAULT_HAND_FORCE_SETTINGS: Readonly<HandForceSettings> = {
+  enabled: true,
+  repel: 40,
+  attract: 25,
+  swirl: 15,
+  radius: 3,
+};
+
+/**
+ * Tracked fingertip projected into the scene by the renderer
+ */
+export interface HandPointer {
+  /** Scene-space fingertip position */
+  position: [number, number, number];
+  /** Unit scene-space view direction through the fingertip */
+  direction: [number, number, number];
+}
+
+/**
+ * Longest integration step; longer steps are subdivided so stiff springs
+ * stay stable at low frame rates
+ */
+export const MAX_PHYSICS_STEP = 1 / 60;
+
+/**
+ * Forces for one step, transformed into the formation's local frame
+ */
+export interface LocalForces {
+  /** Constant acceleration (gravity plus wind) */
+  constant: [number, number, number];
+  vortex: number;
+  /** Point sources as [x, y, z, strength, radius, ...] */
+  sources: Float32Array;
+  hand: LocalHandForce;
+}
+
+/**
+ * Hand force for one step, in the formation's local frame
+ */
+export interface LocalHandForce {
+  active: boolean;
+  position: [number, number, number];
+  /** Swirl axis (the view direction) */
+  axis: [number, number, number];
+  /** Radial strength; positive attracts, negative repels */
+  strength: number;
+  swirl: number;
+  radius: number;
+}
+
+/**
+ * Transform scene-space forces into the formation's local frame
+ *
+ * @param settings - Physics parameters
+ * @param sources - Scene-space point forces
+ * @param rotation - Formation rotation about the y axis in radians
+ * @param out - Reused result
+ * @returns out, updated
+ */
+export const toLocalForces = (
+  settings: PhysicsSettings,
+  sources: readonly ForceSource[],
+  rotation: number,
+  out: LocalForces,
+): LocalForces => {
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+  const toLocalX = (x: number, z: number) => cos * x - sin * z;
+  const toLocalZ = (x: number, z: number) => sin * x + cos * z;
+
+  const [wx, wy, wz] = settings.wind;
+  out.constant[0] = toLocalX(wx, wz);
+  out.constant[1] = wy - settings.gravity;
+  out.constant[2] = toLocalZ(wx, wz);
+  out.vortex = settings.vortex;
+
+  if (out.sources.length !== sources.length * 5) {
+    out.sources = new Float32Array(sources.length * 5);
+  }
+  sources.forEach((source, s) => {
+    const [x, y, z] = source.position;
+    out.sources[s * 5] = toLocalX(x, z);
+    out.sources[s * 5 + 1] = y;
+    out.sources[s * 5 + 2] = toLocalZ(x, z);
+    out.sources[s * 5 + 3] = source.strength;
+    out.sources[s * 5 + 4] = source.radius;
+  });
+
+  return out;
+};
+
+/**
+ * Transform the hand force into the formation's local frame
+ *
+ * An open hand repels; closing the pinch fades that into attraction and
+ * swirl.
+ *
+ * @param settings - Hand force parameters
+ * @param pointer - Projected fingertip, or null while no hand is tracked
+ * @param pinchDistance - Normalized pinch distance (0 = closed)
+ * @param rotation - Formation rotation about the y axis in radians
+ * @param out - Reused result
+ * @returns out, updated
+ */
+export const toLocalHandForce = (
+  settings: HandForceSettings,
+  pointer: Readonly<HandPointer> | null | undefined,
+  pinchDistance: number,
+  rotation: number,
+  out: LocalHandForce,
+): LocalHandForce => {
+  out.active = settings.enabled && !!pointer;
+  if (!out.active || !pointer) return out;
+
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+  const [px, py, pz] = pointer.position;
+  const [dx, dy, dz] = pointer.direction;
+  out.position[0] = cos * px - sin * pz;
+  out.position[1] = py;
+  out.position[2] = sin * px + cos * pz;
+  out.axis[0] = cos * dx - sin * dz;
+  out.axis[1] = dy;
+  out.axis[2] = sin * dx + cos * dz;
+
+  const grip = 1 - Math.max(0, Math.min(1, pinchDistance));
+  out.strength = settings.attract * grip - settings.repel * (1 - grip);
+  out.swirl = settings.swirl * grip;
+  out.radius = settings.radius;
+  return out;
+};
+
+/**
+ * Add the hand force at a position
+ * Fades smoothly from full strength at the fingertip to zero at the radius
+ *
+ * @param hand - Local-frame hand force for this step
+ * @param x - Particle x
+ * @param y - Particle y
+ * @param z - Particle z
+ * @param out - Acceleration [ax, ay, az] to add to
+ */
+export const accumulateHandForce = (
+  hand: LocalHandForce,
+  x: number,
+  y: number,
+  z: number,
+  out: number[],
+): void => {
+  if (!hand.active) return;
+
+  const dx = hand.position[0] - x;
+  const dy = hand.position[1] - y;
+  const dz = hand.position[2] - z;
+  const distanceSq = dx * dx + dy * dy + dz * dz;
+  const radiusSq = hand.radius * hand.radius;
+  if (distanceSq >= radiusSq || distanceSq < 1e-12) return;
+
+  const distance = Math.sqrt(distanceSq);
+  const fade = 1 - distanceSq / radiusSq;
+  const falloff = (fade * fade) / distance;
+
+  // Radial pull (or push) toward the fingertip
+  const radial = hand.strength * falloff;
+  out[0] += dx * radial;
+  out[1] += dy * radial;
+  out[2] += dz * radial;
+
+  // Swirl: tangent to circles about the view axis through the fingertip
+  if (hand.swirl !== 0) {
+    const [ax, ay, az] = hand.axis;
+    const swirl = hand.swirl * falloff;
+    out[0] += (ay * dz - az * dy) * swirl;
+    out[1] += (az * dx - ax * dz) * swirl;
+    out[2] += (ax * dy - ay * dx) * swirl;
+  }
+};
+
+/**
+ * Acceleration from global and point forces at a position
+ *
+ * @param forces - Local-frame forces for this step
+ * @param x - Particle x
+ * @param y - Particle y
+ * @param z - Particle z
+ * @param out - Destination [ax, ay, az]
+ */
+export const accumulateForces = (
+  forces: LocalForces,
+  x: number,
+  y: number,
+  z: number,
+  out: number[],
+): void => {
+  let ax = forces.constant[0];
+  let ay = forces.constant[1];
+  let az = forces.constant[2];
+
+  // Tangential swirl, equal strength at every radius
+  if (forces.vortex !== 0) {
+    const r = Math.hypot(x, z);
+    if (r > 1e-6) {
+      ax += (-z / r) * forces.vortex;
+      az += (x / r) * forces.vortex;
+    }
+  }
+
+  // Point sources fade linearly to zero at their radius
+  const { sources } = forces;
+  for (let s = 0; s < sources.length; s += 5) {
+    const dx = sources[s] - x;
+    const dy = sources[s + 1] - y;
+    const dz = sources[s + 2] - z;
+    const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
+    const radius = sources[s + 4];
+    if (distance >= radius || distance < 1e-6) continue;
+    const scale = (sources[s + 3] * (1 - distance / radius)) / distance;
+    ax += dx * scale;
+    ay += dy * scale;
+    az += dz * scale;
+  }
+
+  out[0] = ax;
+  out[1] = ay;
+  out[2] = az;
+};
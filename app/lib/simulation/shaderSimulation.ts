@@ -0,0 +1,960 @@
+/**
+ * Shader particle simulation
+ * Keeps the attributes and uniforms the particle shader evaluates each
+ * particle's morph, size and color from, so per-particle work runs on the
+ * GPU
+ * @module lib/simulation/shaderSimulation
+ */
+
+import {
+  type BurstEffectType,
+  type ColorMapping,
+  type ShapeTransition,
+  ANIMATION_CONSTANTS,
+} from "../constants";
+import { animateShapeSample } from "../shapeGenerators";
+import { createPaletteRamp } from "../palettes";
+import {
+  type SimulationInputs,
+  type SimulationOptions,
+  type SimulationTarget,
+  DEFAULT_CAMERA_POSITION,
+  DEFAULT_SIMULATION_OPTIONS,
+  FADE_RATE,
+  RETIRE_DURATION,
+  calculateExpansion,
+} from "./particleSimulation";
+import { type LocalHandForce, toLocalHandForce } from "./physics";
+import { MAX_FLOW_OCTAVES } from "./flowField";
+import {
+  type ActiveEffect,
+  BURST_EFFECT_PRESETS,
+  MAX_ACTIVE_EFFECTS,
+  queueEffect,
+  updateEffects,
+} from "./effects";
+import {
+  type ActiveTransition,
+  isTransitionDone,
+  sampleTransition,
+  startTransition,
+  transitionSizeFactor,
+} from "./transitions";
+import {
+  COLOR_MAPPING_INDEX,
+  EASING_INDEX,
+  SHADER_EFFECT_SHOCKWAVE,
+  TRANSITION_STYLE_INDEX,
+} from "./particleShader";
+
+/**
+ * Per-particle attributes read by the particle shader
+ */
+export interface ShaderAttributes {
+  /** Target positions of the active shape (animated in place) */
+  position: Float32Array;
+  /** Positions the current morph started from */
+  aStart: Float32Array;
+  /** Target positions of the blend shape */
+  aBlend: Float32Array;
+  /** Size multipliers the current morph started from */
+  aStartScale: Float32Array;
+  /** Target size multipliers of the active shape */
+  aScale: Float32Array;
+  /** Target size multipliers of the blend shape */
+  aBlendScale: Float32Array;
+  /** Source colors of the active shape in linear RGB */
+  aColor: Float32Array;
+  /** Source colors of the blend shape in linear RGB */
+  aBlendColor: Float32Array;
+  /** Importance in the active and the blend shape, interleaved */
+  aImportance: Float32Array;
+  /** Stagger key of the running transition */
+  aKey: Float32Array;
+}
+
+/**
+ * Name of a shader attribute
+ */
+export type ShaderAttributeName = keyof ShaderAttributes;
+
+/**
+ * Components per particle of each shader attribute
+ */
+export const SHADER_ATTRIBUTE_ITEM_SIZES: Readonly<
+  Record<ShaderAttributeName, number>
+> = {
+  position: 3,
+  aStart: 3,
+  aBlend: 3,
+  aStartScale: 1,
+  aScale: 1,
+  aBlendScale: 1,
+  aColor: 3,
+  aBlendColor: 3,
+  aImportance: 2,
+  aKey: 1,
+};
+
+/**
+ * Uniform holder in the `{ value }` shape Three.js materials expect
+ */
+interface Uniform<T> {
+  value: T;
+}
+
+/**
+ * Uniforms updated by each step; see the vertex shader for their use
+ * Values change in place, so a material can share these objects
+ */
+export interface ShaderUniforms {
+  /** Seconds since the current morph started */
+  uMorphTime: Uniform<number>;
+  uLerpSpeed: Uniform<number>;
+  /** TRANSITION_STYLE_INDEX of the running transition, 0 for none */
+  uStyle: Uniform<number>;
+  uEasing: Uniform<number>;
+  uDuration: Uniform<number>;
+  /** 1 while the running transition staggers particles by aKey */
+  uStaggered: Uniform<number>;
+  /** Smoothed share of the blend shape */
+  uBlendWeight: Uniform<number>;
+  /** Smoothed pinch expansion */
+  uExpansion: Uniform<number>;
+  /** First particle that holds still (retiring or waiting for a target) */
+  uHoldFrom: Uniform<number>;
+  /** Seconds held particles have been shrinking */
+  uHoldTime: Uniform<number>;
+  uEffectCount: Uniform<number>;
+  /** Per effect: origin and kind */
+  uEffectOrigins: Uniform<Float32Array>;
+  /** Per effect: level, fade and signed strength */
+  uEffectParams: Uniform<Float32Array>;
+  /** Flow displacement (flow speed over lerp speed) */
+  uFlowOffset: Uniform<number>;
+  uFlowScale: Uniform<number>;
+  uFlowDrift: Uniform<number>;
+  uFlowSpeed: Uniform<number>;
+  uFlowOctaves: Uniform<number>;
+  uHandActive: Uniform<number>;
+  uHandPosition: Uniform<number[]>;
+  uHandAxis: Uniform<number[]>;
+  /** Hand force strength over lerp speed */
+  uHandStrength: Uniform<number>;
+  /** Hand swirl over lerp speed */
+  uHandSwirl: Uniform<number>;
+  uHandRadius: Uniform<number>;
+  /** 0 = mapped colors, 1 = active shape colors, 2 = blend shape colors */
+  uColorSource: Uniform<number>;
+  /** COLOR_MAPPING_INDEX of the color mapping */
+  uColorMapping: Uniform<number>;
+  uHandDetected: Uniform<number>;
+  uHandX: Uniform<number>;
+  /** Live particle count */
+  uCount: Uniform<number>;
+  /** 1 while colors come from the palette texture */
+  uPaletteActive: Uniform<number>;
+  /** [min, max] of the mapped value for "height", "radial" and "depth" */
+  uMappingRange: Uniform<number[]>;
+  /** Camera position in the formation's local frame */
+  uCamera: Uniform<number[]>;
+}
+
+/**
+ * Extent of a formation, for the normalized color mappings
+ */
+interface TargetBounds {
+  minY: number;
+  maxY: number;
+  minRadius: number;
+  maxRadius: number;
+  center: [number, number, number];
+  /** Bounding sphere radius about the center */
+  radius: number;
+}
+
+/**
+ * Bounds of the first count particles of a position buffer
+ */
+const measureBounds = (
+  positions: Float32Array,
+  count: number,
+): TargetBounds => {
+  let minY = Infinity;
+  let maxY = -Infinity;
+  let minRadius = Infinity;
+  let maxRadius = -Infinity;
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < count; i++) {
+    const x = positions[i * 3];
+    const y = positions[i * 3 + 1];
+    const z = positions[i * 3 + 2];
+    const r = Math.sqrt(x * x + y * y + z * z);
+    if (y < minY) minY = y;
+    if (y > maxY) maxY = y;
+    if (r < minRadius) minRadius = r;
+    if (r > maxRadius) maxRadius = r;
+    min[0] = Math.min(min[0], x);
+    min[1] = Math.min(min[1], y);
+    min[2] = Math.min(min[2], z);
+    max[0] = Math.max(max[0], x);
+    max[1] = Math.max(max[1], y);
+    max[2] = Math.max(max[2], z);
+  }
+  const center: [number, number, number] = [
+    (min[0] + max[0]) / 2,
+    (min[1] + max[1]) / 2,
+    (min[2] + max[2]) / 2,
+  ];
+  let radius = 0;
+  for (let i = 0; i < count; i++) {
+    const dx = positions[i * 3] - center[0];
+    const dy = positions[i * 3 + 1] - center[1];
+    const dz = positions[i * 3 + 2] - center[2];
+    radius = Math.max(radius, Math.sqrt(dx * dx + dy * dy + dz * dz));
+  }
+  return { minY, maxY, minRadius, maxRadius, center, radius };
+};
+
+/**
+ * Allocate zeroed attributes for a particle count
+ */
+const createAttributes = (count: number): ShaderAttributes => {
+  const entries = Object.entries(SHADER_ATTRIBUTE_ITEM_SIZES).map(
+    ([name, size]) => [name, new Float32Array(count * size)],
+  );
+  return Object.fromEntries(entries) as unknown as ShaderAttributes;
+};
+
+/**
+ * Shader particle simulation
+ *
+ * Drop-in alternative to ParticleSimulation for "lerp" motion that moves
+ * the per-particle work to the GPU. Instead of stepping every particle it
+ * records where the current morph started (`aStart`) and when; the vertex
+ * shader evaluates each particle's eased position on the way to its
+ * target in closed form, adds burst, flow and hand displacements, eases
+ * its size and colors it. The CPU only touches every particle when a
+ * morph restarts (new target, count change), so hundreds of thousands of
+ * particles stay cheap.
+ *
+ * The flow field and the hand force are applied as the offsets the lerp
+ * motion settles at under them, so particles respond without lag, and the
+ * "height", "radial" and "depth" mappings are normalized to the target's
+ * bounds rather than to the current positions. "physics" motion needs
+ * per-particle velocity and is left to ParticleSimulation.
+ *
+ * Renderers bind `attributes` to a geometry (re-binding when it changes
+ * identity), pass `flushAttributes` an upload callback after each step,
+ * share `uniforms` with the material and apply `rotation`.
+ *
+ * @example
+ * ```
+ * const simulation = new ShaderSimulation(generatePositions("sphere", 200000));
+ * simulation.setTarget({ sample: generateShape("heart", 200000) });
+ * simulation.step(1 / 60, sharedState);
+ * simulation.flushAttributes((name) => {
+ *   geometry.getAttribute(name).needsUpdate = true;
+ * });
+ * ```
+ */
+export class ShaderSimulation {
+  /** Auto-rotation about the y axis in radians */
+  rotation = 0;
+  /** Simulated time in seconds */
+  time = 0;
+  /** Shader uniforms, updated in place by each step */
+  readonly uniforms: ShaderUniforms;
+
+  private liveCount: number;
+  private buffers: ShaderAttributes;
+  private options: SimulationOptions;
+  private target: SimulationTarget;
+  private blend: SimulationTarget | null = null;
+  private targetBounds: TargetBounds;
+  private blendBounds: TargetBounds | null = null;
+  /** Simulation time the current morph started */
+  private morphStart = 0;
+  private transition: ActiveTransition | null = null;
+  /** Simulation time held particles started shrinking from aStartScale */
+  private holdStart = 0;
+  /** Simulation time the last retirement started */
+  private retireTime = 0;
+  /** Smoothed blend weight and expansion; null until the first step */
+  private blendWeight = 0;
+  private expansion: number | null = null;
+  /** Simulation times animated targets were last evaluated */
+  private readonly animationTimes = [-Infinity, -Infinity];
+  private readonly effects: ActiveEffect[] = [];
+  private readonly dirty = new Set<ShaderAttributeName>();
+  private paletteRamp: Float32Array | null = null;
+  private snapshot: Float32Array | null = null;
+  private readonly point = [0, 0, 0];
+  private readonly hand: LocalHandForce = {
+    active: false,
+    position: [0, 0, 0],
+    axis: [0, 0, 1],
+    strength: 0,
+    swirl: 0,
+    radius: 0,
+  };
+
+  /**
+   * @param positions - Initial positions; copied into the start and
+   *   target attributes
+   * @param options - Settings overriding DEFAULT_SIMULATION_OPTIONS;
+   *   motion, physics, force sources and the fixed timestep are ignored
+   */
+  constructor(
+    positions: Float32Array,
+    options: Partial<SimulationOptions> = {},
+  ) {
+    const count = Math.floor(positions.length / 3);
+    this.liveCount = count;
+    this.buffers = createAttributes(count);
+    this.buffers.position.set(positions.subarray(0, count * 3));
+    this.buffers.aStart.set(positions.subarray(0, count * 3));
+    this.buffers.aBlend.set(positions.subarray(0, count * 3));
+    this.buffers.aStartScale.fill(1);
+    this.buffers.aScale.fill(1);
+    this.buffers.aBlendScale.fill(1);
+    this.buffers.aImportance.fill(1);
+    this.options = { ...DEFAULT_SIMULATION_OPTIONS, ...options };
+    this.paletteRamp = this.options.palette
+      ? createPaletteRamp(this.options.palette)
+      : null;
+    this.target = { sample: { positions: positions.slice(0, count * 3) } };
+    this.targetBounds = measureBounds(this.target.sample.positions, count);
+    this.uniforms = {
+      uMorphTime: { value: 0 },
+      uLerpSpeed: { value: this.options.lerpSpeed },
+      uStyle: { value: 0 },
+      uEasing: { value: 0 },
+      uDuration: { value: 0 },
+      uStaggered: { value: 0 },
+      uBlendWeight: { value: 0 },
+      uExpansion: { value: 1 },
+      uHoldFrom: { value: count },
+      uHoldTime: { value: 0 },
+      uEffectCount: { value: 0 },
+      uEffectOrigins: { value: new Float32Array(MAX_ACTIVE_EFFECTS * 4) },
+      uEffectParams: { value: new Float32Array(MAX_ACTIVE_EFFECTS * 4) },
+      uFlowOffset: { value: 0 },
+      uFlowScale: { value: 1 },
+      uFlowDrift: { value: 0 },
+      uFlowSpeed: { value: 0 },
+      uFlowOctaves: { value: 1 },
+      uHandActive: { value: 0 },
+      uHandPosition: { value: [0, 0, 0] },
+      uHandAxis: { value: [0, 0, 1] },
+      uHandStrength: { value: 0 },
+      uHandSwirl: { value: 0 },
+      uHandRadius: { value: 0 },
+      uColorSource: { value: 0 },
+      uColorMapping: { value: 0 },
+      uHandDetected: { value: 0 },
+      uHandX: { value: 0 },
+      uCount: { value: count },
+      uPaletteActive: { value: 0 },
+      uMappingRange: { value: [0, 1] },
+      uCamera: { value: [...DEFAULT_CAMERA_POSITION] },
+    };
+  }
+
+  /**
+   * Number of particles; targets must have exactly this many
+   */
+  get count(): number {
+    return this.liveCount;
+  }
+
+  /**
+   * Number of particles in the attributes, including ones still fading
+   * out after the count was lowered
+   */
+  get bufferCount(): number {
+    return this.buffers.aStartScale.length;
+  }
+
+  /**
+   * Shader attributes; replaced (not resized) when the count changes
+   */
+  get attributes(): Readonly<ShaderAttributes> {
+    return this.buffers;
+  }
+
+  /**
+   * Palette ramp the shader samples (PALETTE_RAMP_SIZE linear RGB
+   * entries), or null for the hue wheel
+   */
+  get palette(): Float32Array | null {
+    return this.paletteRamp;
+  }
+
+  /**
+   * Current particle positions without burst, flow and hand offsets
+   * Evaluated on access into a reused buffer; meant for matching new
+   * targets and for handing particles over to another engine
+   */
+  get positions(): Float32Array {
+    if (this.snapshot?.length !== this.bufferCount * 3) {
+      this.snapshot = new Float32Array(this.bufferCount * 3);
+    }
+    const { snapshot, point } = this;
+    for (let i = 0; i < this.bufferCount; i++) {
+      this.evaluate(i, point);
+      snapshot[i * 3] = point[0];
+      snapshot[i * 3 + 1] = point[1];
+      snapshot[i * 3 + 2] = point[2];
+    }
+    return snapshot;
+  }
+
+  /**
+   * Current settings
+   */
+  getOptions(): Readonly<SimulationOptions> {
+    return this.options;
+  }
+
+  /**
+   * Change settings; takes effect on the next step
+   *
+   * @param options - Settings to override
+   */
+  setOptions(options: Partial<SimulationOptions>): void {
+    if (
+      options.palette !== undefined &&
+      options.palette !== this.options.palette
+    ) {
+      this.paletteRamp = options.palette
+        ? createPaletteRamp(options.palette)
+        : null;
+    }
+    // The closed-form ease depends on the lerp speed; restart it from the
+    // current positions so a new speed doesn't make particles jump
+    if (
+      options.lerpSpeed !== undefined &&
+      options.lerpSpeed !== this.options.lerpSpeed &&
+      !this.transition
+    ) {
+      this.captureStart();
+    }
+    const wasAnimated = this.options.animated;
+    this.options = { ...this.options, ...options };
+    if (wasAnimated && !this.options.animated) this.restoreTargets();
+  }
+
+  /**
+   * Set the formation particles move toward
+   * Samples with a different particle count are ignored
+   *
+   * @param target - Target sample and its definition
+   * @param transition - Style, duration and easing of the morph
+   *
+   * @example
+   * ```
+   * simulation.setTarget(
+   *   { sample: generateShape("heart", 8000) },
+   *   { style: "vortex", duration: 2, easing: "easeInOutCubic" },
+   * );
+   * ```
+   */
+  setTarget(target: SimulationTarget, transition?: ShapeTransition): void {
+    const count = this.count;
+    if (target.sample.positions.length !== count * 3) return;
+
+    this.captureStart();
+    this.target = target;
+    this.targetBounds = measureBounds(target.sample.positions, count);
+
+    const { position, aScale, aColor, aImportance, aKey } = this.buffers;
+    const { positions, sizes, colors, importance } = target.sample;
+    position.set(positions);
+    for (let i = 0; i < count; i++) {
+      aScale[i] = sizes ? sizes[i] : 1;
+      aImportance[i * 2] = importance ? importance[i] : 1;
+    }
+    if (colors) aColor.set(colors.subarray(0, count * 3));
+    this.animationTimes[0] = -Infinity;
+
+    if (transition) {
+      this.transition = startTransition(
+        transition,
+        this.buffers.aStart.subarray(0, count * 3),
+        this.buffers.aStartScale.subarray(0, count),
+        positions,
+        this.time,
+        this.transition,
+      );
+      aKey.set(this.transition.keys);
+    }
+    this.markDirty("position", "aScale", "aColor", "aImportance", "aKey");
+  }
+
+  /**
+   * Set (or clear) the second formation blended with the target
+   * Samples with a different particle count are ignored
+   *
+   * @param target - Blend sample and its definition, or null for none
+   */
+  setBlendTarget(target: SimulationTarget | null): void {
+    const count = this.count;
+    if (target && target.sample.positions.length !== count * 3) return;
+    this.blend = target;
+    if (!target) return;
+
+    // Ease toward the new blend rather than jumping to it
+    if (!this.transition) this.captureStart();
+    this.blendBounds = measureBounds(target.sample.positions, count);
+
+    const { aBlend, aBlendScale, aBlendColor, aImportance } = this.buffers;
+    const { positions, sizes, colors, importance } = target.sample;
+    aBlend.set(positions);
+    for (let i = 0; i < count; i++) {
+      aBlendScale[i] = sizes ? sizes[i] : 1;
+      aImportance[i * 2 + 1] = importance ? importance[i] : 1;
+    }
+    if (colors) aBlendColor.set(colors.subarray(0, count * 3));
+    this.animationTimes[1] = -Infinity;
+    this.markDirty("aBlend", "aBlendScale", "aBlendColor", "aImportance");
+  }
+
+  /**
+   * Change the number of particles
+   *
+   * Existing particles keep their positions. Added particles start hidden
+   * on top of existing ones and wait for a target with the new count;
+   * removed particles (the highest indices) fade out, then the attributes
+   * shrink. A running transition ends.
+   *
+   * @param count - New particle count (at least 1)
+   */
+  setParticleCount(count: number): void {
+    const next = Math.max(1, Math.floor(count));
+    if (next === this.liveCount) return;
+
+    this.captureStart();
+    const previous = this.bufferCount;
+    if (next > previous) {
+      const grown = createAttributes(next);
+      (Object.keys(grown) as ShaderAttributeName[]).forEach((name) => {
+        grown[name].set(this.buffers[name]);
+      });
+
+      // Spawn on live particles spread across the formation
+      const sources = Math.min(this.liveCount, previous);
+      for (let i = previous; i < next; i++) {
+        const source = ((i * 2654435761) >>> 0) % sources;
+        for (let axis = 0; axis < 3; axis++) {
+          const value = grown.aStart[source * 3 + axis];
+          grown.aStart[i * 3 + axis] = value;
+          grown.position[i * 3 + axis] = value;
+          grown.aBlend[i * 3 + axis] = value;
+          grown.aColor[i * 3 + axis] = grown.aColor[source * 3 + axis];
+          grown.aBlendColor[i * 3 + axis] =
+            grown.aBlendColor[source * 3 + axis];
+        }
+        grown.aScale[i] = 1;
+        grown.aBlendScale[i] = 1;
+        grown.aImportance[i * 2] = 1;
+        grown.aImportance[i * 2 + 1] = 1;
+      }
+      this.buffers = grown;
+      this.dirty.clear();
+    } else if (next < this.liveCount) {
+      this.retireTime = this.time;
+    }
+
+    this.liveCount = next;
+    this.snapshot = null;
+  }
+
+  /**
+   * Fire a burst effect, subject to the preset's stacking rules
+   *
+   * @param type - Effect to fire
+   * @param origin - Scene-space origin (the formation's rotation is undone)
+   */
+  triggerEffect(
+    type: BurstEffectType,
+    origin: readonly [number, number, number] = [0, 0, 0],
+  ): void {
+    const cos = Math.cos(this.rotation);
+    const sin = Math.sin(this.rotation);
+    const [x, y, z] = origin;
+    queueEffect(this.effects, {
+      type,
+      origin: [cos * x - sin * z, y, sin * x + cos * z],
+      startTime: this.time,
+      preset: BURST_EFFECT_PRESETS[type],
+      level: 0,
+      fade: 1,
+    });
+  }
+
+  /**
+   * Whether a shape transition is still running
+   */
+  get isTransitioning(): boolean {
+    return this.transition !== null;
+  }
+
+  /**
+   * Number of burst effects still running
+   */
+  get activeEffectCount(): number {
+    return this.effects.length;
+  }
+
+  /**
+   * Call upload once for each attribute changed since the last flush
+   *
+   * @param upload - Marks the named geometry attribute for upload
+   */
+  flushAttributes(upload: (name: ShaderAttributeName) => void): void {
+    this.dirty.forEach(upload);
+    this.dirty.clear();
+  }
+
+  /**
+   * Advance the simulation and update the uniforms
+   *
+   * @param dt - Elapsed time in seconds
+   * @param inputs - Current hand tracking input
+   */
+  step(dt: number, inputs: SimulationInputs): void {
+    const { lerpSpeed, rotationSpeed } = this.options;
+    this.time += dt;
+    this.rotation += rotationSpeed * dt;
+    updateEffects(this.effects, this.time);
+
+    // Hand the finished path over to the exponential ease
+    if (this.transition && isTransitionDone(this.transition, this.time)) {
+      this.captureStart();
+    }
+
+    // Ease the blend weight and expansion at the lerp speed, as the CPU
+    // motion eases particles toward targets that move with them
+    const rate = 1 - Math.exp(-lerpSpeed * dt);
+    const expansion = calculateExpansion(inputs.pinchDistance);
+    this.expansion =
+      this.expansion === null
+        ? expansion
+        : this.expansion + (expansion - this.expansion) * rate;
+    this.blendWeight += (this.getBlendWeight(inputs) - this.blendWeight) * rate;
+
+    this.animateTargets(inputs);
+    this.updateUniforms(inputs);
+    this.releaseRetired();
+  }
+
+  /**
+   * First particle that holds still: the rest are retiring or waiting for
+   * a target of the new count
+   */
+  private get holdFrom(): number {
+    return Math.min(this.liveCount, this.target.sample.positions.length / 3);
+  }
+
+  /**
+   * Blend target, if it covers every particle of the target
+   */
+  private getBlend(): SimulationTarget | null {
+    const { blend, target } = this;
+    return blend &&
+      blend.sample.positions.length >= target.sample.positions.length
+      ? blend
+      : null;
+  }
+
+  /**
+   * Blend weight for the current inputs (0 without a blend target)
+   */
+  private getBlendWeight(inputs: SimulationInputs): number {
+    if (!this.getBlend()) return 0;
+    const { handBlend, blendWeight } = this.options;
+    const weight =
+      handBlend && inputs.handDetected ? inputs.handY : blendWeight;
+    return Math.max(0, Math.min(1, weight));
+  }
+
+  private markDirty(...names: ShaderAttributeName[]): void {
+    names.forEach((name) => this.dirty.add(name));
+  }
+
+  /**
+   * Position (without offsets) and size of one particle at the current
+   * time; the CPU side of the vertex shader's morph
+   *
+   * @returns Size multiplier
+   */
+  private evaluate(i: number, out: number[]): number {
+    const { position, aStart, aBlend, aStartScale, aScale, aBlendScale } =
+      this.buffers;
+    const idx = i * 3;
+
+    if (i >= this.holdFrom) {
+      out[0] = aStart[idx];
+      out[1] = aStart[idx + 1];
+      out[2] = aStart[idx + 2];
+      return (
+        aStartScale[i] * Math.exp(-FADE_RATE * (this.time - this.holdStart))
+      );
+    }
+
+    const weight = this.blendWeight;
+    const expansion = this.expansion ?? 1;
+    const tx =
+      (position[idx] + (aBlend[idx] - position[idx]) * weight) * expansion;
+    const ty =
+      (position[idx + 1] + (aBlend[idx + 1] - position[idx + 1]) * weight) *
+      expansion;
+    const tz =
+      (position[idx + 2] + (aBlend[idx + 2] - position[idx + 2]) * weight) *
+      expansion;
+    const targetScale = aScale[i] + (aBlendScale[i] - aScale[i]) * weight;
+
+    const { transition } = this;
+    if (transition) {
+      const e = sampleTransition(transition, i, this.time, tx, ty, tz, out);
+      const start = transition.fromScales[i];
+      return (
+        (start + (targetScale - start) * e) *
+        transitionSizeFactor(transition.transition.style, e)
+      );
+    }
+
+    const e =
+      1 - Math.exp(-this.options.lerpSpeed * (this.time - this.morphStart));
+    out[0] = aStart[idx] + (tx - aStart[idx]) * e;
+    out[1] = aStart[idx + 1] + (ty - aStart[idx + 1]) * e;
+    out[2] = aStart[idx + 2] + (tz - aStart[idx + 2]) * e;
+    return aStartScale[i] + (targetScale - aStartScale[i]) * e;
+  }
+
+  /**
+   * Restart the morph from where particles are now
+   * Ends a running transition
+   */
+  private captureStart(): void {
+    const { aStart, aStartScale } = this.buffers;
+    const { point } = this;
+    for (let i = 0; i < this.bufferCount; i++) {
+      aStartScale[i] = this.evaluate(i, point);
+      aStart[i * 3] = point[0];
+      aStart[i * 3 + 1] = point[1];
+      aStart[i * 3 + 2] = point[2];
+    }
+    this.morphStart = this.time;
+    this.holdStart = this.time;
+    this.transition = null;
+    this.markDirty("aStart", "aStartScale");
+  }
+
+  /**
+   * Re-evaluate animated targets into the target attributes at
+   * SHAPE_ANIMATION_RATE
+   */
+  private animateTargets(inputs: SimulationInputs): void {
+    if (!this.options.animated) return;
+    const interval = 1 / ANIMATION_CONSTANTS.SHAPE_ANIMATION_RATE;
+    const blend = this.getBlend();
+    const slots = [
+      [this.target, "position"],
+      [blend, "aBlend"],
+    ] as const;
+
+    slots.forEach(([target, name], slot) => {
+      if (!target?.shape?.animate) return;
+      if (this.time - this.animationTimes[slot] < interval) return;
+      const base = target.sample.positions;
+      animateShapeSample(
+        target.shape,
+        base,
+        this.buffers[name].subarray(0, base.length),
+        this.time,
+        inputs,
+        target.params,
+      );
+      this.animationTimes[slot] = this.time;
+      this.markDirty(name);
+    });
+  }
+
+  /**
+   * Put the still target positions back after animation is turned off
+   */
+  private restoreTargets(): void {
+    const { position, aBlend } = this.buffers;
+    position.set(this.target.sample.positions);
+    const blend = this.getBlend();
+    if (blend) aBlend.set(blend.sample.positions);
+    this.animationTimes[0] = -Infinity;
+    this.animationTimes[1] = -Infinity;
+    this.markDirty("position", "aBlend");
+  }
+
+  /**
+   * Range of the mapped value over the target formation(s)
+   *
+   * @returns [min, max]
+   */
+  private getMappingRange(
+    mapping: ColorMapping,
+    camera: readonly number[],
+  ): [number, number] {
+    const expansion = this.expansion ?? 1;
+    const bounds = [this.targetBounds];
+    if (this.blendBounds && this.getBlend() && this.blendWeight > 0) {
+      bounds.push(this.blendBounds);
+    }
+
+    let min = Infinity;
+    let max = -Infinity;
+    for (const { minY, maxY, minRadius, maxRadius, center, radius } of bounds) {
+      if (mapping === "height") {
+        min = Math.min(min, minY * expansion);
+        max = Math.max(max, maxY * expansion);
+      } else if (mapping === "radial") {
+        min = Math.min(min, minRadius * expansion);
+        max = Math.max(max, maxRadius * expansion);
+      } else {
+        // Depth: nearer particles map toward the end of the palette
+        const distance = Math.hypot(
+          center[0] * expansion - camera[0],
+          center[1] * expansion - camera[1],
+          center[2] * expansion - camera[2],
+        );
+        min = Math.min(min, -(distance + radius * expansion));
+        max = Math.max(max, -Math.max(0, distance - radius * expansion));
+      }
+    }
+    return [min, max];
+  }
+
+  /**
+   * Copy the current state into the shader uniforms
+   */
+  private updateUniforms(inputs: SimulationInputs): void {
+    const { uniforms, options, transition, effects } = this;
+    const { lerpSpeed, flow, handForce, sourceColors, colorMapping } = options;
+
+    uniforms.uMorphTime.value = this.time - this.morphStart;
+    uniforms.uLerpSpeed.value = lerpSpeed;
+    uniforms.uStyle.value = transition
+      ? TRANSITION_STYLE_INDEX[transition.transition.style]
+      : 0;
+    uniforms.uEasing.value = transition
+      ? EASING_INDEX[transition.transition.easing]
+      : 0;
+    uniforms.uDuration.value = transition ? transition.transition.duration : 0;
+    uniforms.uStaggered.value =
+      transition && transition.keys.length > 0 ? 1 : 0;
+    uniforms.uBlendWeight.value = this.blendWeight;
+    uniforms.uExpansion.value = this.expansion ?? 1;
+    uniforms.uHoldFrom.value = this.holdFrom;
+    uniforms.uHoldTime.value = this.time - this.holdStart;
+
+    const origins = uniforms.uEffectOrigins.value;
+    const params = uniforms.uEffectParams.value;
+    uniforms.uEffectCount.value = effects.length;
+    effects.forEach((effect, k) => {
+      const { strength } = effect.preset;
+      origins.set(effect.origin, k * 4);
+      origins[k * 4 + 3] =
+        effect.type === "shockwave" ? SHADER_EFFECT_SHOCKWAVE : 0;
+      params[k * 4] = effect.level;
+      params[k * 4 + 1] = effect.fade;
+      params[k * 4 + 2] = effect.type === "implode" ? -strength : strength;
+    });
+
+    // An open pinch stirs the flow, a closed one calms it
+    const flowStrength =
+      flow.amplitude *
+      (flow.pinchControl ? Math.min(1, inputs.pinchDistance) : 1);
+    uniforms.uFlowOffset.value = flowStrength / lerpSpeed;
+    uniforms.uFlowScale.value = flow.scale;
+    uniforms.uFlowSpeed.value = flow.speed;
+    uniforms.uFlowDrift.value = this.time * flow.speed;
+    uniforms.uFlowOctaves.value = Math.max(
+      1,
+      Math.min(MAX_FLOW_OCTAVES, Math.round(flow.octaves)),
+    );
+
+    const hand = toLocalHandForce(
+      handForce,
+      inputs.handDetected ? inputs.handPointer : null,
+      inputs.pinchDistance,
+      this.rotation,
+      this.hand,
+    );
+    uniforms.uHandActive.value = hand.active ? 1 : 0;
+    if (hand.active) {
+      for (let axis = 0; axis < 3; axis++) {
+        uniforms.uHandPosition.value[axis] = hand.position[axis];
+        uniforms.uHandAxis.value[axis] = hand.axis[axis];
+      }
+      uniforms.uHandStrength.value = hand.strength / lerpSpeed;
+      uniforms.uHandSwirl.value = hand.swirl / lerpSpeed;
+      uniforms.uHandRadius.value = hand.radius;
+    }
+
+    // Source colors come from whichever shape dominates the blend
+    const blend = this.getBlend();
+    const dominant =
+      blend && this.getBlendWeight(inputs) >= 0.5 ? blend : this.target;
+    uniforms.uColorSource.value =
+      sourceColors && dominant.sample.colors
+        ? dominant === this.target
+          ? 1
+          : 2
+        : 0;
+    uniforms.uColorMapping.value = COLOR_MAPPING_INDEX[colorMapping];
+    uniforms.uHandDetected.value = inputs.handDetected ? 1 : 0;
+    uniforms.uHandX.value = inputs.handX;
+    uniforms.uCount.value = this.count;
+    uniforms.uPaletteActive.value = this.paletteRamp ? 1 : 0;
+
+    // Camera in the formation's local frame
+    const cos = Math.cos(this.rotation);
+    const sin = Math.sin(this.rotation);
+    const [cx, cy, cz] = inputs.cameraPosition ?? DEFAULT_CAMERA_POSITION;
+    const camera = uniforms.uCamera.value;
+    camera[0] = cos * cx - sin * cz;
+    camera[1] = cy;
+    camera[2] = sin * cx + cos * cz;
+
+    if (
+      colorMapping === "height" ||
+      colorMapping === "radial" ||
+      colorMapping === "depth"
+    ) {
+      const [min, max] = this.getMappingRange(colorMapping, camera);
+      uniforms.uMappingRange.value[0] = min;
+      uniforms.uMappingRange.value[1] = max;
+    }
+  }
+
+  /**
+   * Drop particles that have finished fading out
+   */
+  private releaseRetired(): void {
+    const count = this.liveCount;
+    if (
+      this.bufferCount <= count ||
+      this.time - this.retireTime < RETIRE_DURATION
+    ) {
+      return;
+    }
+    const shrunk = createAttributes(count);
+    (Object.keys(shrunk) as ShaderAttributeName[]).forEach((name) => {
+      const size = SHADER_ATTRIBUTE_ITEM_SIZES[name];
+      shrunk[name].set(this.buffers[name].subarray(0, count * size));
+    });
+    this.buffers = shrunk;
+    this.dirty.clear();
+    this.snapshot = null;
+  }
+}
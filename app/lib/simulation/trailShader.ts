@@ -0,0 +1,70 @@
+/**
+ * Trail shader sources
+ * GLSL for streak sprites: camera-facing quads stretched from each
+ * particle to the oldest position kept by ParticleTrails
+ * @module lib/simulation/trailShader
+ */
+
+/**
+ * Vertex shader: expands each instance of the streak quad between its
+ * head and tail in view space, `uWidth` to either side
+ */
+export const TRAIL_VERTEX_SHADER = /* glsl */ `
+#include <common>
+#include <fog_pars_vertex>
+
+uniform float uWidth;
+
+attribute vec2 aCorner;
+attribute vec3 aHead;
+attribute vec3 aTail;
+attribute vec3 aColor;
+
+varying vec3 vColor;
+varying vec2 vCorner;
+
+void main() {
+  vec4 head = modelViewMatrix * vec4(aHead, 1.0);
+  vec4 tail = modelViewMatrix * vec4(aTail, 1.0);
+
+  // Across the streak as seen by the camera; any direction while at rest
+  vec2 along = tail.xy - head.xy;
+  float extent = length(along);
+  vec2 direction = extent > 1e-5 ? along / extent : vec2(1.0, 0.0);
+  vec2 across = vec2(-direction.y, direction.x) * uWidth;
+
+  vec4 mvPosition = mix(head, tail, aCorner.y);
+  mvPosition.xy += across * aCorner.x;
+  gl_Position = projectionMatrix * mvPosition;
+
+  vColor = aColor;
+  vCorner = aCorner;
+
+  #include <fog_vertex>
+}
+`;
+
+/**
+ * Fragment shader: the head color, fading toward the tail by `uFade` and
+ * toward the edges, with the renderer's tone mapping, output color space
+ * and scene fog
+ */
+export const TRAIL_FRAGMENT_SHADER = /* glsl */ `
+#include <common>
+#include <fog_pars_fragment>
+
+uniform float uOpacity;
+uniform float uFade;
+
+varying vec3 vColor;
+varying vec2 vCorner;
+
+void main() {
+  float fade = pow(max(1.0 - vCorner.y, 1e-4), uFade) * (1.0 - abs(vCorner.x));
+  gl_FragColor = vec4(vColor * fade, uOpacity);
+
+  #include <tonemapping_fragment>
+  #include <colorspace_fragment>
+  #include <fog_fragment>
+}
+`;
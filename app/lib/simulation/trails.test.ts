@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { TRAIL_SAMPLES, ParticleTrails } from "./trails";
+
+const DT = 1 / 60;
+
+/**
+ * Move particles along x at the given speeds for a second, recording
+ * trails each frame; particles are white unless scaled
+ */
+const run = (
+  trails: ParticleTrails,
+  speeds: number[],
+  scales = new Float32Array(speeds.length).fill(1),
+) => {
+  const positions = new Float32Array(speeds.length * 3);
+  const colors = new Float32Array(speeds.length * 3).fill(1);
+  for (let frame = 0; frame < 60; frame++) {
+    speeds.forEach((speed, i) => {
+      positions[i * 3] += speed * DT;
+    });
+    trails.update(DT, positions, colors, scales);
+  }
+};
+
+describe("ParticleTrails", () => {
+  it("brightens trails with speed between minSpeed and fullSpeed", () => {
+    const trails = new ParticleTrails({ minSpeed: 1.5, fullSpeed: 12 });
+    run(trails, [0.5, 6.75, 20]);
+
+    expect(trails.headColors[0]).toBe(0);
+    expect(trails.headColors[3]).toBeCloseTo(0.5, 1);
+    expect(trails.headColors[6]).toBe(1);
+  });
+
+  it("dims trails of particles below full size", () => {
+    const trails = new ParticleTrails();
+    run(trails, [20, 20], Float32Array.from([1, 0.25]));
+
+    expect(trails.headColors[3]).toBeCloseTo(0.25 * trails.headColors[0]);
+  });
+
+  it("fades line trails toward the tail", () => {
+    const trails = new ParticleTrails({ style: "lines", fade: 1 });
+    run(trails, [20]);
+    const { colors } = trails;
+
+    for (let k = 1; k < TRAIL_SAMPLES; k++) {
+      expect(colors[k * 3]).toBeLessThan(colors[(k - 1) * 3]);
+    }
+    expect(colors[(TRAIL_SAMPLES - 1) * 3]).toBe(0);
+  });
+
+  it("keeps samples newest first over the trail length", () => {
+    const trails = new ParticleTrails({ length: 0.35 });
+    run(trails, [10]);
+    const { heads, tails } = trails;
+
+    expect(heads[0]).toBeCloseTo(10);
+    // The oldest sample lags by about one trail length
+    expect(heads[0] - tails[0]).toBeGreaterThan(3);
+    expect(heads[0] - tails[0]).toBeLessThan(3.6);
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * Particle trails
+ * Fading streaks of recent particle positions, brighter the faster a
+ * particle moves
+ * @module lib/simulation/trails
+ */
+
+/**
+ * How trails are drawn
+ * - "lines": a line through each particle's recent positions
+ * - "streaks": one camera-facing sprite stretched from the oldest recent
+ *   position to the particle
+ */
+export type TrailStyle = "lines" | "streaks";
+
+/**
+ * Tunable trail parameters
+ */
+export interface TrailSettings {
+  /** Draw trails */
+  enabled: boolean;
+  style: TrailStyle;
+  /** How far back a trail reaches */
+  length: number; // seconds
+  /** Falloff toward the tail: 0 = even, 1 = linear, higher = shorter glow */
+  fade: number;
+  /** Speed below which particles leave no trail */
+  minSpeed: number; // units per second
+  /** Speed at which a trail reaches full brightness */
+  fullSpeed: number; // units per second
+}
+
+/**
+ * Default trail parameters; resting and drifting particles leave none
+ */
+export const DEFAULT_TRAIL_SETTINGS: Readonly<TrailSettings> = {
+  enabled: false,
+  style: "lines",
+  length: 0.3,
+  fade: 1.5,
+  minSpeed: 1.5,
+  fullSpeed: 12,
+};
+
+/**
+ * Positions kept per particle, including the current one
+ */
+export const TRAIL_SAMPLES = 8;
+
+/**
+ * Corners of a streak sprite: side across the streak (-1, 1) and place
+ * along it (0 = particle, 1 = tail)
+ */
+export const TRAIL_QUAD_CORNERS = new Float32Array([-1, 0, 1, 0, -1, 1, 1, 1]);
+
+/**
+ * Triangles of a streak sprite
+ */
+export const TRAIL_QUAD_INDICES = new Uint16Array([0, 2, 1, 1, 2, 3]);
+
+/**
+ * Buffers sized for one particle count
+ */
+interface TrailBuffers {
+  history: Float32Array;
+  colors: Float32Array;
+  indices: Uint32Array;
+  heads: Float32Array;
+  tails: Float32Array;
+  headColors: Float32Array;
+}
+
+/**
+ * Allocate trail buffers, with line indices joining consecutive samples
+ */
+const createBuffers = (count: number): TrailBuffers => {
+  const history = new Float32Array(TRAIL_SAMPLES * count * 3);
+  const colors = new Float32Array(TRAIL_SAMPLES * count * 3);
+  const indices = new Uint32Array((TRAIL_SAMPLES - 1) * count * 2);
+  for (let k = 0; k < TRAIL_SAMPLES - 1; k++) {
+    for (let i = 0; i < count; i++) {
+      const segment = (k * count + i) * 2;
+      indices[segment] = k * count + i;
+      indices[segment + 1] = (k + 1) * count + i;
+    }
+  }
+  return {
+    history,
+    colors,
+    indices,
+    heads: history.subarray(0, count * 3),
+    tails: history.subarray((TRAIL_SAMPLES - 1) * count * 3),
+    headColors: colors.subarray(0, count * 3),
+  };
+};
+
+/**
+ * Particle trails
+ *
+ * Keeps each particle's last TRAIL_SAMPLES positions, sampled evenly over
+ * the trail length, and colors them from the particle's color. A trail's
+ * brightness follows the particle's average speed over that window, from
+ * nothing at `minSpeed` to full at `fullSpeed`, so explosions and morphs
+ * streak while resting shapes stay crisp. Particles scaled below their
+ * full size (growing in, fading out, dissolving) dim their trails to
+ * match.
+ *
+ * Samples are stored newest first, one block of `count * 3` per sample,
+ * so a shift is a single copy and the newest and oldest blocks can be
+ * bound as-is. `history` with `colors` and `indices` forms a line segment
+ * geometry; `heads`, `tails` and `headColors` feed instanced streak
+ * sprites. The arrays change identity when the particle count changes.
+ *
+ * @example
+ * ```
+ * const trails = new ParticleTrails({ enabled: true, style: "streaks" });
+ * simulation.step(dt, sharedState);
+ * trails.update(dt, simulation.positions, simulation.colors, simulation.scales);
+ * ```
+ */
+export class ParticleTrails {
+  private settings: TrailSettings;
+  private buffers: TrailBuffers = createBuffers(0);
+  private particleCount = 0;
+  /** Cleared buffers are refilled from the next positions */
+  private filled = false;
+  private sinceSample = 0;
+  private readonly fadeFactors = new Float32Array(TRAIL_SAMPLES);
+
+  /**
+   * @param settings - Trail parameters; defaults fill the rest
+   */
+  constructor(settings: Partial<TrailSettings> = {}) {
+    this.settings = { ...DEFAULT_TRAIL_SETTINGS, ...settings };
+  }
+
+  /** Number of particles with a trail */
+  get count(): number {
+    return this.particleCount;
+  }
+
+  /** Recent positions, TRAIL_SAMPLES blocks of [x, y, z, ...], newest first */
+  get history(): Float32Array {
+    return this.buffers.history;
+  }
+
+  /** Linear RGB per history entry, dimmed by speed and fade */
+  get colors(): Float32Array {
+    return this.buffers.colors;
+  }
+
+  /** Pairs of history entries forming the line segments */
+  get indices(): Uint32Array {
+    return this.buffers.indices;
+  }
+
+  /** Current positions (the first history block) */
+  get heads(): Float32Array {
+    return this.buffers.heads;
+  }
+
+  /** Oldest positions (the last history block) */
+  get tails(): Float32Array {
+    return this.buffers.tails;
+  }
+
+  /** Colors at the current positions (the first color block) */
+  get headColors(): Float32Array {
+    return this.buffers.headColors;
+  }
+
+  /**
+   * Current trail parameters
+   */
+  getSettings(): Readonly<TrailSettings> {
+    return this.settings;
+  }
+
+  /**
+   * Update trail parameters; turning trails on starts them empty
+   *
+   * @param settings - Parameters to change
+   */
+  setSettings(settings: Partial<TrailSettings>): void {
+    if (settings.enabled && !this.settings.enabled) this.filled = false;
+    this.settings = { ...this.settings, ...settings };
+  }
+
+  /**
+   * Record the particles' current positions and recolor the trails
+   *
+   * @param dt - Elapsed time in seconds
+   * @param positions - Particle positions, [x, y, z, ...]
+   * @param colors - Particle colors in linear RGB
+   * @param scales - Particle size multipliers; their length is the count
+   */
+  update(
+    dt: number,
+    positions: Float32Array,
+    colors: Float32Array,
+    scales: Float32Array,
+  ): void {
+    const count = scales.length;
+    if (count !== this.particleCount) {
+      this.buffers = createBuffers(count);
+      this.particleCount = count;
+      this.filled = false;
+    }
+
+    const { history } = this.buffers;
+    const { length, style } = this.settings;
+    const interval = length / (TRAIL_SAMPLES - 1);
+    const block = count * 3;
+    const current = positions.subarray(0, block);
+
+    if (!this.filled) {
+      for (let k = 0; k < TRAIL_SAMPLES; k++) history.set(current, k * block);
+      this.filled = true;
+      this.sinceSample = 0;
+    }
+
+    this.sinceSample += dt;
+    if (this.sinceSample >= interval) {
+      history.copyWithin(block, 0, (TRAIL_SAMPLES - 1) * block);
+      // Take at most one sample per update, so a stall can't flush history
+      this.sinceSample = Math.min(this.sinceSample - interval, interval);
+    }
+    history.set(current);
+
+    this.updateColors(
+      colors,
+      scales,
+      (TRAIL_SAMPLES - 2) * interval + this.sinceSample,
+      style === "lines" ? TRAIL_SAMPLES : 1,
+    );
+  }
+
+  /**
+   * Particle colors scaled by speed, size and distance along the trail
+   *
+   * @param window - Age of the oldest sample in seconds
+   * @param samples - Leading history blocks to color
+   */
+  private updateColors(
+    colors: Float32Array,
+    scales: Float32Array,
+    window: number,
+    samples: number,
+  ): void {
+    const { history, colors: trailColors } = this.buffers;
+    const { fade, minSpeed, fullSpeed } = this.settings;
+    const { fadeFactors } = this;
+    const count = this.particleCount;
+    const tail = (TRAIL_SAMPLES - 1) * count * 3;
+    const speedRange = Math.max(fullSpeed - minSpeed, 1e-6);
+
+    for (let k = 0; k < samples; k++) {
+      fadeFactors[k] = (1 - k / (TRAIL_SAMPLES - 1)) ** fade;
+    }
+
+    for (let i = 0; i < count; i++) {
+      const idx = i * 3;
+      const dx = history[idx] - history[tail + idx];
+      const dy = history[idx + 1] - history[tail + idx + 1];
+      const dz = history[idx + 2] - history[tail + idx + 2];
+      const speed =
+        window > 0 ? Math.sqrt(dx * dx + dy * dy + dz * dz) / window : 0;
+      const brightness =
+        Math.max(0, Math.min(1, (speed - minSpeed) / speedRange)) *
+        Math.min(1, scales[i]);
+
+      for (let k = 0; k < samples; k++) {
+        const level = brightness * fadeFactors[k];
+        const offset = k * count * 3 + idx;
+        trailColors[offset] = colors[idx] * level;
+        trailColors[offset + 1] = colors[idx + 1] * level;
+        trailColors[offset + 2] = colors[idx + 2] * level;
+      }
+    }
+  }
+}
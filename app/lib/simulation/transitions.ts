@@ -0,0 +1,249 @@
+/**
+ * Shape transitions
+ * Timed, eased paths particles follow from one formation to the next
+ * @module lib/simulation/transitions
+ */
+
+import type { ShapeTransition, TransitionStyle } from "../constants";
+import { ease } from "../easing";
+
+/**
+ * Share of a staggered transition ("wave", "dissolve") over which particle
+ * start times are spread
+ */
+export const TRANSITION_STAGGER = 0.5;
+
+/**
+ * Peak distance particles fly apart in a "scatter" transition
+ */
+export const SCATTER_DISTANCE = 6; // scene units
+
+/**
+ * Peak height particles rise in a "wave" transition
+ */
+export const WAVE_LIFT = 2; // scene units
+
+/**
+ * Turns particles make about the y axis in a "vortex" transition
+ */
+export const VORTEX_TURNS = 1;
+
+/**
+ * Share of the radius particles are drawn in at the middle of a "vortex"
+ */
+export const VORTEX_PINCH = 0.5;
+
+/**
+ * Running transition and the per-particle data it was started with
+ */
+export interface ActiveTransition {
+  transition: ShapeTransition;
+  /** Simulation time the transition started */
+  startTime: number;
+  /** Positions at the start, in the formation's local frame */
+  from: Float32Array;
+  /** Size multipliers at the start */
+  fromScales: Float32Array;
+  /**
+   * Stagger key per particle (0 = starts first, 1 = starts last); empty
+   * for styles without a stagger
+   */
+  keys: Float32Array;
+}
+
+/**
+ * Whether a style spreads particle start times
+ */
+const isStaggered = (style: TransitionStyle): boolean =>
+  style === "wave" || style === "dissolve";
+
+/**
+ * Integer hash of a particle index mapped to [0, 1)
+ *
+ * @param i - Particle index
+ * @param salt - Selects an independent value for the same index
+ * @returns Pseudo-random value, fixed for the same arguments
+ */
+export const hashIndex = (i: number, salt: number): number => {
+  let h = Math.imul(i ^ Math.imul(salt, 0x9e3779b9), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+};
+
+/**
+ * Start a transition from the current particle state
+ *
+ * Buffers of the previous transition are reused when the particle count
+ * matches.
+ *
+ * @param transition - Style, duration and easing
+ * @param positions - Current positions
+ * @param scales - Current size multipliers
+ * @param targets - Positions of the new formation, used by height order
+ * @param time - Current simulation time
+ * @param previous - Transition whose buffers may be reused
+ * @returns Transition state for sampleTransition
+ *
+ * @example
+ * ```
+ * const active = startTransition(
+ *   { style: "wave", duration: 2, easing: "easeOutCubic", order: "height" },
+ *   positions,
+ *   scales,
+ *   sample.positions,
+ *   time,
+ * );
+ * ```
+ */
+export const startTransition = (
+  transition: ShapeTransition,
+  positions: Float32Array,
+  scales: Float32Array,
+  targets: Float32Array,
+  time: number,
+  previous?: ActiveTransition | null,
+): ActiveTransition => {
+  const count = scales.length;
+  const reuse = previous?.fromScales.length === count;
+  const from = reuse ? previous.from : new Float32Array(count * 3);
+  const fromScales = reuse ? previous.fromScales : new Float32Array(count);
+  from.set(positions);
+  fromScales.set(scales);
+
+  let keys: Float32Array = new Float32Array(0);
+  if (isStaggered(transition.style)) {
+    keys =
+      reuse && previous.keys.length === count
+        ? previous.keys
+        : new Float32Array(count);
+
+    if (transition.style === "dissolve") {
+      for (let i = 0; i < count; i++) keys[i] = hashIndex(i, 0);
+    } else if (transition.order === "height") {
+      let minY = Infinity;
+      let maxY = -Infinity;
+      for (let i = 0; i < count; i++) {
+        const y = targets[i * 3 + 1];
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+      const range = maxY - minY || 1;
+      for (let i = 0; i < count; i++) {
+        keys[i] = (targets[i * 3 + 1] - minY) / range;
+      }
+    } else {
+      for (let i = 0; i < count; i++) keys[i] = count > 1 ? i / (count - 1) : 0;
+    }
+  }
+
+  return { transition, startTime: time, from, fromScales, keys };
+};
+
+/**
+ * Whether a transition has run its full duration
+ *
+ * @param active - Running transition
+ * @param time - Current simulation time
+ * @returns True once every particle has arrived
+ */
+export const isTransitionDone = (
+  active: ActiveTransition,
+  time: number,
+): boolean => time - active.startTime >= active.transition.duration;
+
+/**
+ * Position of one particle along its transition path
+ *
+ * The path runs from the particle's start position to its current target,
+ * so targets that move during the transition (animation, expansion, burst
+ * effects) are still reached on time.
+ *
+ * @param active - Running transition
+ * @param i - Particle index
+ * @param time - Current simulation time
+ * @param tx - Target x
+ * @param ty - Target y
+ * @param tz - Target z
+ * @param out - Destination [x, y, z]
+ * @returns Eased progress of this particle (0-1, may overshoot with
+ *   easeOutBack)
+ */
+export const sampleTransition = (
+  active: ActiveTransition,
+  i: number,
+  time: number,
+  tx: number,
+  ty: number,
+  tz: number,
+  out: number[],
+): number => {
+  const { transition, from, keys } = active;
+  const idx = i * 3;
+
+  let progress =
+    transition.duration > 0
+      ? (time - active.startTime) / transition.duration
+      : 1;
+  if (keys.length > 0) {
+    progress =
+      (progress - keys[i] * TRANSITION_STAGGER) / (1 - TRANSITION_STAGGER);
+  }
+  const e = ease(transition.easing, progress);
+
+  const ax = from[idx];
+  const ay = from[idx + 1];
+  const az = from[idx + 2];
+
+  if (transition.style === "dissolve") {
+    // Hold in place while fading out, then appear at the target
+    const arrived = e >= 0.5;
+    out[0] = arrived ? tx : ax;
+    out[1] = arrived ? ty : ay;
+    out[2] = arrived ? tz : az;
+    return e;
+  }
+
+  out[0] = ax + (tx - ax) * e;
+  out[1] = ay + (ty - ay) * e;
+  out[2] = az + (tz - az) * e;
+
+  // Style offsets vanish at both ends of the path
+  const arc = Math.sin(Math.PI * Math.max(0, Math.min(1, e)));
+
+  if (transition.style === "scatter") {
+    // Random direction, uniform on the sphere
+    const cosTheta = hashIndex(i, 1) * 2 - 1;
+    const sinTheta = Math.sqrt(1 - cosTheta * cosTheta);
+    const phi = hashIndex(i, 2) * Math.PI * 2;
+    const distance = SCATTER_DISTANCE * arc;
+    out[0] += sinTheta * Math.cos(phi) * distance;
+    out[1] += cosTheta * distance;
+    out[2] += sinTheta * Math.sin(phi) * distance;
+  } else if (transition.style === "vortex") {
+    const angle = (1 - e) * VORTEX_TURNS * Math.PI * 2;
+    const pull = 1 - VORTEX_PINCH * arc;
+    const cos = Math.cos(angle) * pull;
+    const sin = Math.sin(angle) * pull;
+    const x = out[0];
+    const z = out[2];
+    out[0] = cos * x - sin * z;
+    out[2] = sin * x + cos * z;
+  } else if (transition.style === "wave") {
+    out[1] += WAVE_LIFT * arc;
+  }
+
+  return e;
+};
+
+/**
+ * Size factor for a particle at an eased progress
+ * Dissolving particles shrink to nothing at the midpoint and grow back
+ *
+ * @param style - Transition style
+ * @param e - Eased progress from sampleTransition
+ * @returns Multiplier for the particle's size
+ */
+export const transitionSizeFactor = (
+  style: TransitionStyle,
+  e: number,
+): number => (style === "dissolve" ? Math.min(1, Math.abs(1 - 2 * e)) : 1);
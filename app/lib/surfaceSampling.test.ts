@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { createRandom } from "./random";
+import { sampleSurface, type SurfaceFunction } from "./surfaceSampling";
+
+/**
+ * Unit square whose parameterization crowds v toward 0 (y = v²)
+ */
+const squashed: SurfaceFunction = (u, v, out) => {
+  out[0] = u;
+  out[1] = v * v;
+  out[2] = 0;
+};
+
+const DOMAIN = { uMin: 0, uMax: 1, vMin: 0, vMax: 1 };
+
+/**
+ * Fraction of sampled points in the lower half of the square
+ */
+const lowerHalfShare = (positions: Float32Array) => {
+  let lower = 0;
+  for (let i = 1; i < positions.length; i += 3) {
+    if (positions[i] < 0.5) lower++;
+  }
+  return lower / (positions.length / 3);
+};
+
+describe("sampleSurface", () => {
+  it("spreads points evenly by area in area mode", () => {
+    const positions = sampleSurface(
+      squashed,
+      DOMAIN,
+      4000,
+      createRandom(1),
+      "area",
+    );
+
+    expect(lowerHalfShare(positions)).toBeCloseTo(0.5, 1);
+  });
+
+  it("follows the parameterization in parameter mode", () => {
+    const positions = sampleSurface(
+      squashed,
+      DOMAIN,
+      4000,
+      createRandom(1),
+      "parameter",
+    );
+
+    // y < 0.5 whenever v < √0.5
+    expect(lowerHalfShare(positions)).toBeCloseTo(Math.SQRT1_2, 1);
+  });
+
+  it("falls back to parameter sampling when the surface has no area", () => {
+    const positions = sampleSurface(
+      (u, _v, out) => {
+        out[0] = u;
+        out[1] = 0;
+        out[2] = 0;
+      },
+      DOMAIN,
+      100,
+      createRandom(1),
+      "area",
+    );
+
+    expect(positions).toHaveLength(300);
+    expect(positions.every(Number.isFinite)).toBe(true);
+  });
+});
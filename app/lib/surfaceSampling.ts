@@ -0,0 +1,175 @@
+/**
+ * Area-uniform sampling of parametric surfaces
+ * @module lib/surfaceSampling
+ */
+
+import type { RandomSource, SamplingMode } from "./constants";
+
+/**
+ * Parametric surface writing the point at (u, v) into out
+ */
+export type SurfaceFunction = (
+  u: number,
+  v: number,
+  out: [number, number, number],
+) => void;
+
+/**
+ * Rectangular parameter domain
+ */
+export interface SurfaceDomain {
+  uMin: number;
+  uMax: number;
+  vMin: number;
+  vMax: number;
+}
+
+/**
+ * Grid cells per parameter axis used to estimate the area element
+ */
+const AREA_GRID_RESOLUTION = 64;
+
+/**
+ * Build a cumulative area table over a grid of parameter cells
+ *
+ * Each cell's area is approximated by half the cross product of its
+ * diagonals, which is exact for planar quads and a close estimate for
+ * small curved ones.
+ *
+ * @returns Cumulative areas (last entry is the total)
+ */
+const buildAreaTable = (
+  surface: SurfaceFunction,
+  domain: SurfaceDomain,
+  resolution: number,
+): Float64Array => {
+  const stride = resolution + 1;
+  const corners = new Float64Array(stride * stride * 3);
+  const point: [number, number, number] = [0, 0, 0];
+  const du = (domain.uMax - domain.uMin) / resolution;
+  const dv = (domain.vMax - domain.vMin) / resolution;
+
+  for (let i = 0; i <= resolution; i++) {
+    for (let j = 0; j <= resolution; j++) {
+      surface(domain.uMin + i * du, domain.vMin + j * dv, point);
+      const idx = (i * stride + j) * 3;
+      corners[idx] = point[0];
+      corners[idx + 1] = point[1];
+      corners[idx + 2] = point[2];
+    }
+  }
+
+  const cumulative = new Float64Array(resolution * resolution);
+  let total = 0;
+
+  for (let i = 0; i < resolution; i++) {
+    for (let j = 0; j < resolution; j++) {
+      const a = (i * stride + j) * 3;
+      const b = ((i + 1) * stride + j + 1) * 3;
+      const c = (i * stride + j + 1) * 3;
+      const d = ((i + 1) * stride + j) * 3;
+
+      // Diagonals a→b and d→c
+      const e1x = corners[b] - corners[a];
+      const e1y = corners[b + 1] - corners[a + 1];
+      const e1z = corners[b + 2] - corners[a + 2];
+      const e2x = corners[c] - corners[d];
+      const e2y = corners[c + 1] - corners[d + 1];
+      const e2z = corners[c + 2] - corners[d + 2];
+
+      const area =
+        0.5 *
+        Math.hypot(
+          e1y * e2z - e1z * e2y,
+          e1z * e2x - e1x * e2z,
+          e1x * e2y - e1y * e2x,
+        );
+
+      // Non-finite cells (poles, singularities) receive no particles
+      total += Number.isFinite(area) ? area : 0;
+      cumulative[i * resolution + j] = total;
+    }
+  }
+
+  return cumulative;
+};
+
+/**
+ * Sample a parametric surface
+ *
+ * In "area" mode parameter cells are chosen with probability proportional
+ * to their surface area, then a point is drawn uniformly inside the cell,
+ * so density stays even where the parameterization is compressed. Falls
+ * back to parameter-uniform sampling when the surface has no measurable
+ * area (e.g. it collapses to a curve).
+ *
+ * @param surface - Surface function
+ * @param domain - Parameter ranges
+ * @param count - Number of points
+ * @param random - Random source
+ * @param sampling - Sampling mode
+ * @returns Float32Array of [x, y, z] positions
+ *
+ * @example
+ * ```
+ * const positions = sampleSurface(
+ *   (u, v, out) => { out[0] = u; out[1] = v * v; out[2] = 0; },
+ *   { uMin: 0, uMax: 1, vMin: 0, vMax: 1 },
+ *   5000,
+ *   Math.random,
+ *   "area",
+ * );
+ * ```
+ */
+export const sampleSurface = (
+  surface: SurfaceFunction,
+  domain: SurfaceDomain,
+  count: number,
+  random: RandomSource,
+  sampling: SamplingMode,
+): Float32Array => {
+  const positions = new Float32Array(count * 3);
+  const point: [number, number, number] = [0, 0, 0];
+  const uSpan = domain.uMax - domain.uMin;
+  const vSpan = domain.vMax - domain.vMin;
+
+  const resolution = AREA_GRID_RESOLUTION;
+  const cumulative =
+    sampling === "area" ? buildAreaTable(surface, domain, resolution) : null;
+  const total = cumulative ? cumulative[cumulative.length - 1] : 0;
+  const useArea = cumulative !== null && total > 0;
+
+  for (let i = 0; i < count; i++) {
+    const idx = i * 3;
+    let u: number;
+    let v: number;
+
+    if (useArea) {
+      // Binary search for the cell containing the target area
+      const target = random() * total;
+      let low = 0;
+      let high = cumulative.length - 1;
+      while (low < high) {
+        const mid = (low + high) >> 1;
+        if (cumulative[mid] < target) low = mid + 1;
+        else high = mid;
+      }
+      const cellU = Math.floor(low / resolution);
+      const cellV = low % resolution;
+      u = domain.uMin + ((cellU + random()) / resolution) * uSpan;
+      v = domain.vMin + ((cellV + random()) / resolution) * vSpan;
+    } else {
+      u = domain.uMin + random() * uSpan;
+      v = domain.vMin + random() * vSpan;
+    }
+
+    surface(u, v, point);
+    if (point.every(Number.isFinite)) {
+      positions[idx] = point[0];
+      positions[idx + 1] = point[1];
+      positions[idx + 2] = point[2];
+    }
+  }
+
+  return positions;
+};
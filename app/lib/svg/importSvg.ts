@@ -0,0 +1,66 @@
+/**
+ * SVG import
+ * Registers SVG files or raw path data as selectable shapes
+ * @module lib/svg/importSvg
+ */
+
+import type { ShapeType } from "../constants";
+import { registerShape } from "../shapeRegistry";
+import { createSvgShape } from "../shapes/svg";
+import { parseSvgDocument, parseSvgPath } from "./index";
+
+/**
+ * Id prefix of imported SVG shapes
+ */
+const SVG_SHAPE_PREFIX = "svg:";
+
+/**
+ * Check whether a shape id belongs to an imported SVG
+ *
+ * @param id - Shape identifier
+ */
+export const isSvgShape = (id: ShapeType): boolean =>
+  id.startsWith(SVG_SHAPE_PREFIX);
+
+/**
+ * Import an SVG file as a shape
+ * Importing a file with the same name again replaces the earlier shape
+ *
+ * @param file - SVG file
+ * @returns Id of the registered shape
+ */
+export const importSvgFile = async (file: File): Promise<ShapeType> => {
+  const polylines = parseSvgDocument(await file.text());
+  const label = file.name.replace(/\.[^.]+$/, "") || "SVG";
+  const shape = createSvgShape(
+    `${SVG_SHAPE_PREFIX}${file.name.toLowerCase()}`,
+    label,
+    polylines,
+  );
+
+  registerShape(shape);
+  return shape.id;
+};
+
+/**
+ * Import raw SVG path data (a `d` attribute) as a shape
+ * Importing with the same label again replaces the earlier shape
+ *
+ * @param d - Path data
+ * @param label - Dock label
+ * @returns Id of the registered shape
+ */
+export const importSvgPathData = (d: string, label = "Path"): ShapeType => {
+  const polylines = parseSvgPath(d);
+  if (polylines.length === 0) {
+    throw new Error("SVG path data contains no drawable segments");
+  }
+
+  const shape = createSvgShape(
+    `${SVG_SHAPE_PREFIX}${label.toLowerCase()}`,
+    label,
+    polylines,
+  );
+  registerShape(shape);
+  return shape.id;
+};
@@ -0,0 +1,18 @@
+/**
+ * SVG import entry point
+ * @module lib/svg
+ */
+
+export { type Polyline, parseSvgPath } from "./parsePath";
+export { parseSvgDocument } from "./parseSvg";
+export {
+  type PolylineBounds,
+  getPolylineBounds,
+  sampleFill,
+  sampleOutline,
+} from "./samplePolylines";
+
+/**
+ * Accepted SVG file types for the file picker
+ */
+export const SVG_FILE_TYPES: readonly string[] = [".svg", "image/svg+xml"];
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { parseSvgPath } from "./parsePath";
+
+describe("parseSvgPath", () => {
+  it("reads absolute lines and closes with Z", () => {
+    expect(parseSvgPath("M0 0 L10 0 L10 10 Z")).toEqual([
+      { points: [0, 0, 10, 0, 10, 10], closed: true },
+    ]);
+  });
+
+  it("resolves relative commands and restarts subpaths after z", () => {
+    expect(parseSvgPath("m1 1 l2 0 h3 v4 z m1 1 l1 1")).toEqual([
+      { points: [1, 1, 3, 1, 6, 1, 6, 5], closed: true },
+      // Relative to the closed subpath's start
+      { points: [2, 2, 3, 3], closed: false },
+    ]);
+  });
+
+  it("flattens arcs on the side given by the sweep flag", () => {
+    const [clockwise] = parseSvgPath("M0 0 A5 5 0 0 1 10 0");
+    const [counter] = parseSvgPath("M0 0 A5 5 0 0 0 10 0");
+    const middleY = (points: number[]) => points[points.length / 2];
+
+    expect(clockwise.points.at(-2)).toBeCloseTo(10);
+    expect(clockwise.points.at(-1)).toBeCloseTo(0);
+    // y points down, so the positive-angle sweep bulges up
+    expect(middleY(clockwise.points)).toBeCloseTo(-5);
+    expect(middleY(counter.points)).toBeCloseTo(5);
+
+    for (let i = 0; i < clockwise.points.length; i += 2) {
+      expect(
+        Math.hypot(clockwise.points[i] - 5, clockwise.points[i + 1]),
+      ).toBeCloseTo(5);
+    }
+  });
+
+  it("reads relative arcs with packed flags", () => {
+    const [packed] = parseSvgPath("M0 0 a5 5 0 0110 0");
+    const [spaced] = parseSvgPath("M0 0 A5 5 0 0 1 10 0");
+
+    expect(packed.points).toEqual(spaced.points);
+  });
+
+  it("rejects data that does not start with a command", () => {
+    expect(() => parseSvgPath("10 10")).toThrow(
+      "Invalid SVG path data: expected a command",
+    );
+  });
+});
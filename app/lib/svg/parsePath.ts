@@ -0,0 +1,335 @@
+/**
+ * SVG path data parser
+ * Flattens path `d` strings into polylines (curves and arcs are subdivided)
+ * @module lib/svg/parsePath
+ */
+
+/**
+ * Flattened subpath
+ */
+export interface Polyline {
+  /** Points laid out as [x, y, ...] in SVG user units (y down) */
+  points: number[];
+  /** Whether the subpath was closed with Z */
+  closed: boolean;
+}
+
+/**
+ * Segments used to flatten each curve or arc
+ */
+const CURVE_SEGMENTS = 16;
+
+const NUMBER_PATTERN = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/;
+const SEPARATOR_PATTERN = /^[\s,]*/;
+
+/**
+ * Sequential reader over path data
+ */
+interface PathScanner {
+  /** Skip whitespace and commas; true if input remains */
+  hasMore: () => boolean;
+  /** Peek whether the next token is a command letter */
+  peekCommand: () => string | null;
+  readCommand: () => string;
+  readNumber: () => number;
+  /** Arc flags may be written without separators ("a1 1 0 01 5 5") */
+  readFlag: () => number;
+}
+
+/**
+ * Create a scanner for path data
+ *
+ * @param d - Path data
+ */
+const createScanner = (d: string): PathScanner => {
+  let rest = d;
+
+  const skip = (): void => {
+    rest = rest.replace(SEPARATOR_PATTERN, "");
+  };
+
+  return {
+    hasMore: () => {
+      skip();
+      return rest.length > 0;
+    },
+    peekCommand: () => {
+      skip();
+      const char = rest[0];
+      return char && /[MmLlHhVvCcSsQqTtAaZz]/.test(char) ? char : null;
+    },
+    readCommand: () => {
+      skip();
+      const char = rest[0];
+      rest = rest.slice(1);
+      return char;
+    },
+    readNumber: () => {
+      skip();
+      const match = NUMBER_PATTERN.exec(rest);
+      if (!match) {
+        throw new Error(`Invalid SVG path data near "${rest.slice(0, 12)}"`);
+      }
+      rest = rest.slice(match[0].length);
+      return parseFloat(match[0]);
+    },
+    readFlag: () => {
+      skip();
+      const char = rest[0];
+      if (char !== "0" && char !== "1") {
+        throw new Error(`Invalid SVG arc flag near "${rest.slice(0, 12)}"`);
+      }
+      rest = rest.slice(1);
+      return char === "1" ? 1 : 0;
+    },
+  };
+};
+
+/**
+ * Append an elliptical arc (SVG endpoint parameterization) as line segments
+ * Follows the SVG 1.1 implementation notes (F.6.5)
+ */
+const appendArc = (
+  out: number[],
+  x1: number,
+  y1: number,
+  rxIn: number,
+  ryIn: number,
+  rotationDeg: number,
+  largeArc: number,
+  sweep: number,
+  x2: number,
+  y2: number,
+): void => {
+  let rx = Math.abs(rxIn);
+  let ry = Math.abs(ryIn);
+  if (rx === 0 || ry === 0) {
+    out.push(x2, y2);
+    return;
+  }
+
+  const phi = (rotationDeg * Math.PI) / 180;
+  const cosPhi = Math.cos(phi);
+  const sinPhi = Math.sin(phi);
+
+  const dx = (x1 - x2) / 2;
+  const dy = (y1 - y2) / 2;
+  const x1p = cosPhi * dx + sinPhi * dy;
+  const y1p = -sinPhi * dx + cosPhi * dy;
+
+  // Scale radii up if they cannot span the endpoints
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator =
+    rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+  const denominator = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+  let coefficient = Math.sqrt(Math.max(0, numerator / denominator));
+  if (largeArc === sweep) coefficient = -coefficient;
+
+  const cxp = (coefficient * rx * y1p) / ry;
+  const cyp = (-coefficient * ry * x1p) / rx;
+  const cx = cosPhi * cxp - sinPhi * cyp + (x1 + x2) / 2;
+  const cy = sinPhi * cxp + cosPhi * cyp + (y1 + y2) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number): number => {
+    const sign = ux * vy - uy * vx < 0 ? -1 : 1;
+    const dot = ux * vx + uy * vy;
+    const length = Math.hypot(ux, uy) * Math.hypot(vx, vy);
+    return sign * Math.acos(Math.max(-1, Math.min(1, dot / length)));
+  };
+
+  const theta1 = angle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+  let deltaTheta = angle(
+    (x1p - cxp) / rx,
+    (y1p - cyp) / ry,
+    (-x1p - cxp) / rx,
+    (-y1p - cyp) / ry,
+  );
+  if (!sweep && deltaTheta > 0) deltaTheta -= Math.PI * 2;
+  if (sweep && deltaTheta < 0) deltaTheta += Math.PI * 2;
+
+  for (let i = 1; i <= CURVE_SEGMENTS; i++) {
+    const theta = theta1 + (deltaTheta * i) / CURVE_SEGMENTS;
+    const ex = rx * Math.cos(theta);
+    const ey = ry * Math.sin(theta);
+    out.push(cosPhi * ex - sinPhi * ey + cx, sinPhi * ex + cosPhi * ey + cy);
+  }
+};
+
+/**
+ * Parse SVG path data into flattened polylines
+ *
+ * Supports all path commands (M L H V C S Q T A Z, absolute and relative).
+ * Curves and arcs are subdivided into straight segments.
+ *
+ * @param d - Path data (the `d` attribute)
+ * @returns One polyline per subpath
+ */
+export const parseSvgPath = (d: string): Polyline[] => {
+  const scanner = createScanner(d);
+  const polylines: Polyline[] = [];
+
+  let current: Polyline | null = null;
+  let x = 0;
+  let y = 0;
+  let startX = 0;
+  let startY = 0;
+  // Reflection control points for S/T
+  let lastControlX = 0;
+  let lastControlY = 0;
+  let lastCommand = "";
+  let command = "";
+
+  const ensurePolyline = (): Polyline => {
+    if (!current) {
+      current = { points: [x, y], closed: false };
+      polylines.push(current);
+    }
+    return current;
+  };
+
+  while (scanner.hasMore()) {
+    const next = scanner.peekCommand();
+    if (next) {
+      command = scanner.readCommand();
+    } else if (!command || command === "z" || command === "Z") {
+      throw new Error("Invalid SVG path data: expected a command");
+    }
+
+    const lower = command.toLowerCase();
+    const relative = command !== command.toUpperCase();
+    const ox = relative ? x : 0;
+    const oy = relative ? y : 0;
+
+    switch (lower) {
+      case "m": {
+        x = ox + scanner.readNumber();
+        y = oy + scanner.readNumber();
+        startX = x;
+        startY = y;
+        current = { points: [x, y], closed: false };
+        polylines.push(current);
+        // Subsequent pairs after M are implicit L
+        command = relative ? "l" : "L";
+        break;
+      }
+      case "l":
+        x = ox + scanner.readNumber();
+        y = oy + scanner.readNumber();
+        ensurePolyline().points.push(x, y);
+        break;
+      case "h":
+        x = ox + scanner.readNumber();
+        ensurePolyline().points.push(x, y);
+        break;
+      case "v":
+        y = oy + scanner.readNumber();
+        ensurePolyline().points.push(x, y);
+        break;
+      case "c":
+      case "s": {
+        let c1x: number;
+        let c1y: number;
+        if (lower === "c") {
+          c1x = ox + scanner.readNumber();
+          c1y = oy + scanner.readNumber();
+        } else {
+          const reflect = /[CcSs]/.test(lastCommand);
+          c1x = reflect ? 2 * x - lastControlX : x;
+          c1y = reflect ? 2 * y - lastControlY : y;
+        }
+        const c2x = ox + scanner.readNumber();
+        const c2y = oy + scanner.readNumber();
+        const ex = ox + scanner.readNumber();
+        const ey = oy + scanner.readNumber();
+        const points = ensurePolyline().points;
+        for (let i = 1; i <= CURVE_SEGMENTS; i++) {
+          const t = i / CURVE_SEGMENTS;
+          const mt = 1 - t;
+          const a = mt * mt * mt;
+          const b = 3 * mt * mt * t;
+          const c = 3 * mt * t * t;
+          const e = t * t * t;
+          points.push(
+            a * x + b * c1x + c * c2x + e * ex,
+            a * y + b * c1y + c * c2y + e * ey,
+          );
+        }
+        lastControlX = c2x;
+        lastControlY = c2y;
+        x = ex;
+        y = ey;
+        break;
+      }
+      case "q":
+      case "t": {
+        let cx: number;
+        let cy: number;
+        if (lower === "q") {
+          cx = ox + scanner.readNumber();
+          cy = oy + scanner.readNumber();
+        } else {
+          const reflect = /[QqTt]/.test(lastCommand);
+          cx = reflect ? 2 * x - lastControlX : x;
+          cy = reflect ? 2 * y - lastControlY : y;
+        }
+        const ex = ox + scanner.readNumber();
+        const ey = oy + scanner.readNumber();
+        const points = ensurePolyline().points;
+        for (let i = 1; i <= CURVE_SEGMENTS; i++) {
+          const t = i / CURVE_SEGMENTS;
+          const mt = 1 - t;
+          points.push(
+            mt * mt * x + 2 * mt * t * cx + t * t * ex,
+            mt * mt * y + 2 * mt * t * cy + t * t * ey,
+          );
+        }
+        lastControlX = cx;
+        lastControlY = cy;
+        x = ex;
+        y = ey;
+        break;
+      }
+      case "a": {
+        const rx = scanner.readNumber();
+        const ry = scanner.readNumber();
+        const rotation = scanner.readNumber();
+        const largeArc = scanner.readFlag();
+        const sweep = scanner.readFlag();
+        const ex = ox + scanner.readNumber();
+        const ey = oy + scanner.readNumber();
+        appendArc(
+          ensurePolyline().points,
+          x,
+          y,
+          rx,
+          ry,
+          rotation,
+          largeArc,
+          sweep,
+          ex,
+          ey,
+        );
+        x = ex;
+        y = ey;
+        break;
+      }
+      case "z":
+        if (current) {
+          current.closed = true;
+        }
+        x = startX;
+        y = startY;
+        current = null;
+        break;
+    }
+
+    lastCommand = command;
+  }
+
+  return polylines.filter((polyline) => polyline.points.length >= 4);
+};
@@ -0,0 +1,99 @@
+/**
+ * SVG document parser
+ * Collects drawable outlines from an SVG file as flattened polylines
+ * @module lib/svg/parseSvg
+ */
+
+import { type Polyline, parseSvgPath } from "./parsePath";
+
+/**
+ * Read a numeric attribute
+ *
+ * @param element - SVG element
+ * @param name - Attribute name
+ * @returns Parsed value, 0 when missing
+ */
+const numberAttribute = (element: Element, name: string): number => {
+  return parseFloat(element.getAttribute(name) ?? "0") || 0;
+};
+
+/**
+ * Convert a basic SVG shape element into equivalent path data
+ *
+ * @param element - SVG element
+ * @returns Path data or null for unsupported elements
+ */
+const elementToPathData = (element: Element): string | null => {
+  const attr = (name: string) => numberAttribute(element, name);
+
+  switch (element.tagName.toLowerCase()) {
+    case "path":
+      return element.getAttribute("d");
+
+    case "rect": {
+      const [x, y, w, h] = [
+        attr("x"),
+        attr("y"),
+        attr("width"),
+        attr("height"),
+      ];
+      return `M${x} ${y}H${x + w}V${y + h}H${x}Z`;
+    }
+
+    case "circle":
+    case "ellipse": {
+      const cx = attr("cx");
+      const cy = attr("cy");
+      const rx = element.hasAttribute("r") ? attr("r") : attr("rx");
+      const ry = element.hasAttribute("r") ? attr("r") : attr("ry");
+      return `M${cx - rx} ${cy}A${rx} ${ry} 0 1 0 ${cx + rx} ${cy}A${rx} ${ry} 0 1 0 ${cx - rx} ${cy}Z`;
+    }
+
+    case "line":
+      return `M${attr("x1")} ${attr("y1")}L${attr("x2")} ${attr("y2")}`;
+
+    case "polyline":
+    case "polygon": {
+      const points = (element.getAttribute("points") ?? "").trim();
+      if (!points) return null;
+      const close = element.tagName.toLowerCase() === "polygon" ? "Z" : "";
+      return `M${points}${close}`;
+    }
+
+    default:
+      return null;
+  }
+};
+
+/**
+ * Parse an SVG document into polylines
+ *
+ * Reads path, rect, circle, ellipse, line, polyline and polygon elements.
+ * Element transforms are not applied.
+ *
+ * @param source - SVG file text
+ * @returns Flattened polylines in SVG user units
+ */
+export const parseSvgDocument = (source: string): Polyline[] => {
+  const document = new DOMParser().parseFromString(source, "image/svg+xml");
+  if (document.querySelector("parsererror")) {
+    throw new Error("Invalid SVG file");
+  }
+
+  const elements = document.querySelectorAll(
+    "path, rect, circle, ellipse, line, polyline, polygon",
+  );
+
+  const polylines: Polyline[] = [];
+  elements.forEach((element) => {
+    const d = elementToPathData(element);
+    if (d) {
+      polylines.push(...parseSvgPath(d));
+    }
+  });
+
+  if (polylines.length === 0) {
+    throw new Error("No drawable paths found in SVG");
+  }
+  return polylines;
+};
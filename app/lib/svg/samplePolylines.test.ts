@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { createRandom } from "../random";
+import { parseSvgPath } from "./parsePath";
+import { sampleFill, sampleOutline } from "./samplePolylines";
+
+/**
+ * 10×10 square with a 4×4 hole in the middle
+ */
+const FRAME = parseSvgPath("M0 0 H10 V10 H0 Z M3 3 H7 V7 H3 Z");
+
+const isInHole = (x: number, y: number) => x > 3 && x < 7 && y > 3 && y < 7;
+
+describe("sampleOutline", () => {
+  it("spreads points along every edge by length", () => {
+    const out = new Float32Array(560 * 2);
+    sampleOutline(FRAME, 560, createRandom(1), out);
+
+    let inner = 0;
+    for (let i = 0; i < out.length; i += 2) {
+      const onOuter =
+        Math.min(out[i], out[i + 1], 10 - out[i], 10 - out[i + 1]) < 1e-4;
+      expect(onOuter || !isInHole(out[i], out[i + 1])).toBe(true);
+      if (!onOuter) inner++;
+    }
+    // Inner perimeter is 16 of 56 units
+    expect(inner).toBe(160);
+  });
+
+  it("writes from the given offset", () => {
+    const out = new Float32Array(4).fill(-1);
+    sampleOutline(FRAME, 1, createRandom(1), out, 1);
+
+    expect(Array.from(out.subarray(0, 2))).toEqual([-1, -1]);
+    expect(out[2]).toBeGreaterThanOrEqual(0);
+  });
+});
+
+describe("sampleFill", () => {
+  it("fills inside the outline and leaves holes empty", () => {
+    const out = new Float32Array(1000 * 2);
+    const placed = sampleFill(FRAME, 1000, createRandom(2), out);
+
+    expect(placed).toBe(1000);
+    for (let i = 0; i < out.length; i += 2) {
+      expect(out[i]).toBeGreaterThanOrEqual(0);
+      expect(out[i]).toBeLessThanOrEqual(10);
+      expect(isInHole(out[i], out[i + 1])).toBe(false);
+    }
+  });
+
+  it("places nothing inside an open line", () => {
+    const out = new Float32Array(20);
+    expect(sampleFill(parseSvgPath("M0 0 L10 0"), 10, Math.random, out)).toBe(
+      0,
+    );
+  });
+});
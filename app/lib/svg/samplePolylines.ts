@@ -0,0 +1,177 @@
+/**
+ * Polyline sampling
+ * Distributes points along outlines by arc length or inside filled regions
+ * @module lib/svg/samplePolylines
+ */
+
+import type { RandomSource } from "../constants";
+import type { Polyline } from "./parsePath";
+
+/**
+ * Axis-aligned bounds of a set of polylines
+ */
+export interface PolylineBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/**
+ * Rejection-sampling attempts allowed per requested fill point
+ */
+const FILL_ATTEMPTS_PER_POINT = 50;
+
+/**
+ * Compute bounds of all polyline points
+ *
+ * @param polylines - Flattened polylines
+ */
+export const getPolylineBounds = (polylines: Polyline[]): PolylineBounds => {
+  const bounds = {
+    minX: Infinity,
+    minY: Infinity,
+    maxX: -Infinity,
+    maxY: -Infinity,
+  };
+  for (const { points } of polylines) {
+    for (let i = 0; i < points.length; i += 2) {
+      bounds.minX = Math.min(bounds.minX, points[i]);
+      bounds.maxX = Math.max(bounds.maxX, points[i]);
+      bounds.minY = Math.min(bounds.minY, points[i + 1]);
+      bounds.maxY = Math.max(bounds.maxY, points[i + 1]);
+    }
+  }
+  return bounds;
+};
+
+/**
+ * Flatten polylines into a segment list ([x1, y1, x2, y2, ...])
+ *
+ * @param polylines - Flattened polylines
+ * @param closeAll - Close every subpath (needed for fill tests)
+ */
+const collectSegments = (
+  polylines: Polyline[],
+  closeAll: boolean,
+): number[] => {
+  const segments: number[] = [];
+  for (const { points, closed } of polylines) {
+    for (let i = 0; i + 3 < points.length; i += 2) {
+      segments.push(points[i], points[i + 1], points[i + 2], points[i + 3]);
+    }
+    if (closed || closeAll) {
+      const last = points.length - 2;
+      segments.push(points[last], points[last + 1], points[0], points[1]);
+    }
+  }
+  return segments;
+};
+
+/**
+ * Sample points evenly by arc length along all outlines
+ * Uses stratified sampling so spacing stays even at any count
+ *
+ * @param polylines - Flattened polylines
+ * @param count - Number of points
+ * @param random - Random source
+ * @param out - Output [x, y] pairs
+ * @param offset - First output point index
+ */
+export const sampleOutline = (
+  polylines: Polyline[],
+  count: number,
+  random: RandomSource,
+  out: Float32Array,
+  offset = 0,
+): void => {
+  const segments = collectSegments(polylines, false);
+  const segmentCount = segments.length / 4;
+  const cumulative = new Float64Array(segmentCount);
+  let total = 0;
+  for (let s = 0; s < segmentCount; s++) {
+    total += Math.hypot(
+      segments[s * 4 + 2] - segments[s * 4],
+      segments[s * 4 + 3] - segments[s * 4 + 1],
+    );
+    cumulative[s] = total;
+  }
+
+  if (total <= 0) return;
+
+  let segment = 0;
+  for (let i = 0; i < count; i++) {
+    const distance = ((i + random()) / count) * total;
+    // Distances increase monotonically, so walk forward instead of searching
+    while (segment < segmentCount - 1 && cumulative[segment] < distance) {
+      segment++;
+    }
+    const segmentStart = segment > 0 ? cumulative[segment - 1] : 0;
+    const segmentLength = cumulative[segment] - segmentStart;
+    const t = segmentLength > 0 ? (distance - segmentStart) / segmentLength : 0;
+
+    const base = segment * 4;
+    const idx = (offset + i) * 2;
+    out[idx] = segments[base] + (segments[base + 2] - segments[base]) * t;
+    out[idx + 1] =
+      segments[base + 1] + (segments[base + 3] - segments[base + 1]) * t;
+  }
+};
+
+/**
+ * Even-odd point-in-shape test against closed segments
+ *
+ * @param segments - Segment list
+ * @param x - Test x
+ * @param y - Test y
+ */
+const isInside = (segments: number[], x: number, y: number): boolean => {
+  let inside = false;
+  for (let s = 0; s < segments.length; s += 4) {
+    const x1 = segments[s];
+    const y1 = segments[s + 1];
+    const x2 = segments[s + 2];
+    const y2 = segments[s + 3];
+    if (y1 > y !== y2 > y && x < ((x2 - x1) * (y - y1)) / (y2 - y1) + x1) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/**
+ * Sample points uniformly inside the filled region (even-odd rule)
+ *
+ * @param polylines - Flattened polylines (treated as closed)
+ * @param count - Number of points
+ * @param random - Random source
+ * @param out - Output [x, y] pairs
+ * @param offset - First output point index
+ * @returns Number of points placed (less than count if the fill is tiny)
+ */
+export const sampleFill = (
+  polylines: Polyline[],
+  count: number,
+  random: RandomSource,
+  out: Float32Array,
+  offset = 0,
+): number => {
+  const segments = collectSegments(polylines, true);
+  const bounds = getPolylineBounds(polylines);
+  const width = bounds.maxX - bounds.minX;
+  const height = bounds.maxY - bounds.minY;
+
+  let placed = 0;
+  const maxAttempts = count * FILL_ATTEMPTS_PER_POINT;
+  for (let attempt = 0; attempt < maxAttempts && placed < count; attempt++) {
+    const x = bounds.minX + random() * width;
+    const y = bounds.minY + random() * height;
+    if (isInside(segments, x, y)) {
+      const idx = (offset + placed) * 2;
+      out[idx] = x;
+      out[idx + 1] = y;
+      placed++;
+    }
+  }
+  return placed;
+};